@@ -0,0 +1,150 @@
+import React, { useMemo } from 'react';
+import { getScoreRiskBand, RISK_BAND_STYLES, type AssessmentMode } from '@/lib/scoring';
+import {
+  REPEATED_ACTIONS_PER_MIN,
+  SUSTAINED_POSTURE_S,
+  rescoreWithActivity,
+  type PostureTimelineSummary,
+  type TimelineFrame
+} from '@/lib/posture-timeline';
+
+interface ActivitySummaryProps {
+  summary: PostureTimelineSummary;
+  frames: TimelineFrame[];
+  assessmentMode: AssessmentMode;
+  onApplyActivity?: (summary: PostureTimelineSummary) => void;
+}
+
+// Rapid changes listed before the rest are collapsed into a count
+const MAX_LISTED_CHANGES = 8;
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+export default function ActivitySummary({ summary, frames, assessmentMode, onApplyActivity }: ActivitySummaryProps) {
+  const hasActivityTerm = assessmentMode !== 'OWAS';
+
+  // Recorded scores against the same frames rescored with the activity found over the recording
+  const comparison = useMemo(() => {
+    if (!hasActivityTerm) return null;
+    const pairs = frames
+      .filter(frame => frame.rebaScore)
+      .map(frame => ({ recorded: frame.rebaScore.finalScore as number, adjusted: rescoreWithActivity(frame, summary)?.finalScore as number }));
+    if (pairs.length === 0) return null;
+
+    const average = (values: number[]) => Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+    return {
+      recordedAverage: average(pairs.map(pair => pair.recorded)),
+      adjustedAverage: average(pairs.map(pair => pair.adjusted)),
+      recordedPeak: Math.max(...pairs.map(pair => pair.recorded)),
+      adjustedPeak: Math.max(...pairs.map(pair => pair.adjusted))
+    };
+  }, [frames, summary, hasActivityTerm]);
+
+  const conditions = [
+    { label: `Static > ${SUSTAINED_POSTURE_S / 60} min`, found: summary.activity.staticPosture },
+    { label: `Repeated > ${REPEATED_ACTIONS_PER_MIN}/min`, found: summary.activity.repeatedActions },
+    { label: 'Rapid changes', found: summary.activity.rapidChanges }
+  ];
+
+  return (
+    <div className="mt-6 bg-dark-secondary rounded-lg p-4">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2 mb-3">
+        <h4 className="text-lg font-medium">Static &amp; Repetitive Work ({formatTime(summary.duration)})</h4>
+        {hasActivityTerm && onApplyActivity && (
+          <button
+            onClick={() => onApplyActivity(summary)}
+            className="bg-blue-600 hover:bg-blue-700 px-3 py-1 rounded text-xs sm:text-sm transition-colors"
+            title={assessmentMode === 'REBA' ? 'Set the REBA activity checkboxes from this recording' : 'Set RULA muscle use from this recording'}
+          >
+            Apply to {assessmentMode === 'REBA' ? 'activity score' : 'muscle use'}
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {conditions.map(condition => (
+          <span
+            key={condition.label}
+            className={`px-2 py-1 rounded text-xs border ${condition.found ? 'border-orange-500 text-orange-400' : 'border-gray-600 text-text-secondary'}`}
+          >
+            {condition.found ? '●' : '○'} {condition.label}
+          </span>
+        ))}
+      </div>
+
+      {comparison && (
+        <div className="grid grid-cols-2 gap-3 mb-4 text-sm">
+          <div className="bg-dark-card rounded-lg p-3">
+            <div className="text-text-secondary text-xs mb-1">Average score</div>
+            <div className="font-mono">{comparison.recordedAverage} → {comparison.adjustedAverage}</div>
+          </div>
+          <div className="bg-dark-card rounded-lg p-3">
+            <div className="text-text-secondary text-xs mb-1">Peak score</div>
+            <div className="font-mono">
+              {comparison.recordedPeak} →{' '}
+              <span className={getScoreRiskBand({ method: assessmentMode, finalScore: comparison.adjustedPeak }).textClass}>
+                {comparison.adjustedPeak}
+              </span>
+            </div>
+          </div>
+          <p className="col-span-2 text-xs text-text-secondary">
+            As recorded → with the {assessmentMode === 'REBA' ? 'activity score' : 'muscle use score'} found over the recording
+          </p>
+        </div>
+      )}
+
+      <h5 className="text-sm font-medium mb-2 text-text-secondary">Sustained risky postures</h5>
+      {summary.sustainedPostures.length > 0 ? (
+        <ul className="space-y-1 mb-4 text-xs sm:text-sm">
+          {summary.sustainedPostures.map(posture => (
+            <li key={posture.startTime} className="flex justify-between">
+              <span>{formatTime(posture.startTime)} - {formatTime(posture.endTime)} ({Math.round(posture.duration)} s)</span>
+              <span className={RISK_BAND_STYLES[posture.band].textClass}>Peak {posture.peakScore}</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-text-secondary mb-4">No posture stayed in a high-risk band for over {SUSTAINED_POSTURE_S} s</p>
+      )}
+
+      <h5 className="text-sm font-medium mb-2 text-text-secondary">Repetitions</h5>
+      <table className="w-full text-xs sm:text-sm mb-4">
+        <thead>
+          <tr className="text-text-secondary text-left">
+            <th className="py-1">Segment</th>
+            <th className="py-1 text-right">Threshold</th>
+            <th className="py-1 text-right">Count</th>
+            <th className="py-1 text-right">Per minute</th>
+          </tr>
+        </thead>
+        <tbody>
+          {summary.repetitions.map(row => (
+            <tr key={row.segment} className="border-t border-gray-700">
+              <td className="py-1">{row.label}</td>
+              <td className="py-1 text-right">{row.thresholdDeg}°</td>
+              <td className="py-1 text-right">{row.repetitions}</td>
+              <td className={`py-1 text-right ${row.repeated ? 'text-orange-400 font-medium' : ''}`}>{row.perMinute}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <h5 className="text-sm font-medium mb-2 text-text-secondary">Rapid posture changes ({summary.rapidChanges.length})</h5>
+      {summary.rapidChanges.length > 0 ? (
+        <ul className="space-y-1 text-xs sm:text-sm">
+          {summary.rapidChanges.slice(0, MAX_LISTED_CHANGES).map(change => (
+            <li key={`${change.segment}-${change.startTime}`} className="flex justify-between">
+              <span>{formatTime(change.startTime)} {change.label}</span>
+              <span className="text-text-secondary">{change.changeDeg}° in {Math.max(0.1, change.endTime - change.startTime).toFixed(1)} s</span>
+            </li>
+          ))}
+          {summary.rapidChanges.length > MAX_LISTED_CHANGES && (
+            <li className="text-text-secondary">and {summary.rapidChanges.length - MAX_LISTED_CHANGES} more</li>
+          )}
+        </ul>
+      ) : (
+        <p className="text-xs text-text-secondary">No rapid large posture changes</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceArea, ReferenceLine } from 'recharts';
+import type { AssessmentMode } from '@/lib/scoring';
+import {
+  ANGLE_BANDS,
+  ANGLE_JOINTS,
+  ANGLE_LEVEL_COLORS,
+  buildAngleSeries,
+  getAngleJoints,
+  type AngleJoint
+} from '@/lib/angle-series';
+
+interface AngleChartsProps {
+  frames: Array<{ timestamp: number; rebaScore: any }>;
+  assessmentMode: AssessmentMode;
+  cursorTime?: number | null;
+  onSelectTime?: (time: number) => void;
+}
+
+// Joints charted until the user picks others
+const DEFAULT_JOINTS: AngleJoint[] = ['trunkAngle', 'upperArmAngle'];
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+export default function AngleCharts({ frames, assessmentMode, cursorTime, onSelectTime }: AngleChartsProps) {
+  const availableJoints = getAngleJoints(assessmentMode);
+  const [selectedJoints, setSelectedJoints] = useState<AngleJoint[]>(DEFAULT_JOINTS);
+
+  const joints = availableJoints.filter(joint => selectedJoints.includes(joint));
+  const series = useMemo(() => buildAngleSeries(frames, availableJoints), [frames, assessmentMode]);
+
+  const toggleJoint = (joint: AngleJoint) => {
+    setSelectedJoints(current => current.includes(joint) ? current.filter(j => j !== joint) : [...current, joint]);
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4">
+      <h4 className="text-lg font-medium mb-3 text-purple-400">Joint Angles (Recording Session)</h4>
+      <div className="flex flex-wrap gap-2 mb-4">
+        {availableJoints.map(joint => (
+          <button
+            key={joint}
+            onClick={() => toggleJoint(joint)}
+            className={`px-2 py-1 rounded text-xs border transition-colors ${
+              selectedJoints.includes(joint) ? 'border-gray-400 text-white' : 'border-gray-600 text-text-secondary hover:text-white'
+            }`}
+          >
+            <span style={{ color: ANGLE_JOINTS[joint].color }}>●</span> {ANGLE_JOINTS[joint].label}
+          </button>
+        ))}
+      </div>
+
+      {joints.length === 0 && (
+        <p className="text-sm text-text-secondary">Select a joint to chart its angle over the recording.</p>
+      )}
+
+      <div className="space-y-4">
+        {joints.map(joint => {
+          const { label, color, range } = ANGLE_JOINTS[joint];
+          const bands = ANGLE_BANDS[assessmentMode][joint] ?? [];
+          return (
+            <div key={joint}>
+              <div className="flex flex-wrap items-center justify-between gap-2 text-xs mb-1">
+                <span className="font-medium text-white">{label}</span>
+                <span className="flex flex-wrap gap-2 text-text-secondary">
+                  {bands.map(band => (
+                    <span key={band.label}>
+                      <span style={{ color: ANGLE_LEVEL_COLORS[band.level] }}>■</span> {band.label}
+                    </span>
+                  ))}
+                </span>
+              </div>
+              <div className="h-40 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart
+                    data={series}
+                    onClick={(data: any) => {
+                      if (onSelectTime && data?.activePayload?.[0]) onSelectTime(data.activePayload[0].payload.time);
+                    }}
+                  >
+                    {bands.map(band => (
+                      <ReferenceArea
+                        key={band.label}
+                        y1={band.min}
+                        y2={band.max}
+                        fill={ANGLE_LEVEL_COLORS[band.level]}
+                        fillOpacity={0.12}
+                        stroke="none"
+                        ifOverflow="hidden"
+                      />
+                    ))}
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    {typeof cursorTime === 'number' && (
+                      <ReferenceLine x={cursorTime} stroke="#F9FAFB" strokeDasharray="4 4" />
+                    )}
+                    <XAxis
+                      dataKey="time"
+                      type="number"
+                      domain={['dataMin', 'dataMax']}
+                      stroke="#9CA3AF"
+                      tickFormatter={formatTime}
+                    />
+                    <YAxis domain={range} allowDataOverflow stroke="#9CA3AF" unit="°" width={48} />
+                    <Tooltip
+                      labelFormatter={formatTime}
+                      formatter={(value: any) => [`${value}°`, label]}
+                      contentStyle={{
+                        backgroundColor: '#1F2937',
+                        border: '1px solid #374151',
+                        borderRadius: '0.5rem',
+                        color: '#F9FAFB'
+                      }}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey={joint}
+                      stroke={color}
+                      strokeWidth={2}
+                      dot={false}
+                      activeDot={{ r: 4 }}
+                      isAnimationActive={false}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-sm text-gray-400 mt-2">
+        Shaded ranges follow the {assessmentMode} thresholds, green is the neutral range. Gaps are frames where the joint was not measured. Click on the chart to view that frame.
+      </p>
+    </div>
+  );
+}
@@ -1,15 +1,156 @@
-import { useEffect, useRef } from "react";
+import { useEffect, useRef, useState } from "react";
+import { CAMERA_VIEWPOINT_LABELS, estimateViewYaw, getViewContext, type AssessmentMode, type CameraViewpoint } from "@/lib/scoring";
+import { findWorkerAt, getPoseBounds, getWorkerLabel, type TrackedWorker } from "@/lib/pose-tracking";
+import {
+  CALIBRATION_DURATION_MS,
+  DEFAULT_VIEWPOINT_CALIBRATION,
+  VIEWPOINT_PRESET_YAW,
+  calibrateFromSamples,
+  getViewpointWarnings,
+  resolveView,
+  type ViewpointCalibration
+} from "@/lib/viewpoint-calibration";
+import {
+  DEFAULT_REFERENCE_LENGTH_CM,
+  DEFAULT_SCALE_CALIBRATION,
+  REACH_ZONE_LABELS,
+  getPixelsPerCm,
+  getReachZone,
+  measureReach,
+  type ScaleCalibration,
+  type VideoPoint
+} from "@/lib/scale-calibration";
 
 interface CameraViewProps {
   videoRef: React.RefObject<HTMLVideoElement>;
   canvasRef: React.RefObject<HTMLCanvasElement>;
   cameraActive: boolean;
   poseData: any;
-  assessmentMode?: 'RULA' | 'REBA';
+  assessmentMode?: AssessmentMode;
+  trackedWorkers?: TrackedWorker[];
+  selectedTrackId?: number | null;
+  onSelectWorker?: (trackId: number) => void;
+  viewpointCalibration?: ViewpointCalibration;
+  onViewpointCalibrationChange?: (calibration: ViewpointCalibration) => void;
+  scaleCalibration?: ScaleCalibration;
+  onScaleCalibrationChange?: (calibration: ScaleCalibration) => void;
 }
 
-export default function CameraView({ videoRef, canvasRef, cameraActive, poseData, assessmentMode = 'REBA' }: CameraViewProps) {
+// Maps between video pixels and the mirrored, object-cover canvas on top of it
+function getVideoTransform(video: HTMLVideoElement, canvas: HTMLCanvasElement) {
+  const videoAspect = video.videoWidth / video.videoHeight;
+  const canvasAspect = canvas.width / canvas.height;
+
+  let scaleX: number, scaleY: number, offsetX = 0, offsetY = 0;
+
+  if (videoAspect > canvasAspect) {
+    // Video is wider - fit to height
+    scaleY = canvas.height;
+    scaleX = canvas.height * videoAspect;
+    offsetX = (canvas.width - scaleX) / 2;
+  } else {
+    // Video is taller - fit to width
+    scaleX = canvas.width;
+    scaleY = canvas.width / videoAspect;
+    offsetY = (canvas.height - scaleY) / 2;
+  }
+
+  return {
+    toCanvas: (x: number, y: number) => {
+      let transformedX, transformedY;
+
+      // Handle different coordinate systems
+      if (x > 1 || y > 1) {
+        // Absolute coordinates - normalize first
+        transformedX = (x / video.videoWidth) * scaleX + offsetX;
+        transformedY = (y / video.videoHeight) * scaleY + offsetY;
+      } else {
+        // Normalized coordinates (0-1)
+        transformedX = x * scaleX + offsetX;
+        transformedY = y * scaleY + offsetY;
+      }
+
+      // Since canvas is mirrored, flip X coordinate
+      transformedX = canvas.width - transformedX;
+
+      return { x: transformedX, y: transformedY };
+    },
+    toVideo: (canvasX: number, canvasY: number) => ({
+      x: ((canvas.width - canvasX - offsetX) / scaleX) * video.videoWidth,
+      y: ((canvasY - offsetY) / scaleY) * video.videoHeight
+    })
+  };
+}
+
+export default function CameraView({
+  videoRef,
+  canvasRef,
+  cameraActive,
+  poseData,
+  assessmentMode = 'REBA',
+  trackedWorkers = [],
+  selectedTrackId = null,
+  onSelectWorker,
+  viewpointCalibration = DEFAULT_VIEWPOINT_CALIBRATION,
+  onViewpointCalibrationChange,
+  scaleCalibration = DEFAULT_SCALE_CALIBRATION,
+  onScaleCalibrationChange
+}: CameraViewProps) {
   const containerRef = useRef<HTMLDivElement>(null);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  // Ends of the reference object clicked so far, null when not marking one
+  const [referencePoints, setReferencePoints] = useState<VideoPoint[] | null>(null);
+  const [referenceLengthCm, setReferenceLengthCm] = useState(DEFAULT_REFERENCE_LENGTH_CM);
+  const calibrationSamplesRef = useRef<number[]>([]);
+
+  // Collect the worker's yaw from every pose seen while calibrating
+  useEffect(() => {
+    if (!isCalibrating || !poseData?.keypoints) return;
+    const yaw = estimateViewYaw(poseData.keypoints, poseData.keypoints3D);
+    if (yaw !== null) calibrationSamplesRef.current.push(yaw);
+  }, [isCalibrating, poseData]);
+
+  const startCalibration = () => {
+    if (!cameraActive || isCalibrating) return;
+    calibrationSamplesRef.current = [];
+    setIsCalibrating(true);
+
+    setTimeout(() => {
+      setIsCalibrating(false);
+      const view = calibrateFromSamples(calibrationSamplesRef.current);
+      if (!view) {
+        alert('Could not see the worker\'s shoulders and hips during calibration. Make sure they are in frame and try again.');
+        return;
+      }
+      onViewpointCalibrationChange?.({ mode: 'fixed', view });
+    }, CALIBRATION_DURATION_MS);
+  };
+
+  const handleViewpointSelect = (value: string) => {
+    if (value === 'auto' || value === 'off') {
+      onViewpointCalibrationChange?.({ ...viewpointCalibration, mode: value });
+    } else {
+      onViewpointCalibrationChange?.({ mode: 'fixed', view: getViewContext(VIEWPOINT_PRESET_YAW[value as CameraViewpoint]) });
+    }
+  };
+
+  const currentView = poseData?.keypoints ? resolveView(viewpointCalibration, poseData.keypoints, poseData.keypoints3D) : undefined;
+  const viewpointWarnings = currentView ? getViewpointWarnings(currentView, assessmentMode) : [];
+
+  const pxPerCm = poseData?.keypoints ? getPixelsPerCm(scaleCalibration, poseData.keypoints) : null;
+  const reach = measureReach(poseData?.keypoints, pxPerCm);
+
+  const updateScale = (changes: Partial<ScaleCalibration>) => {
+    onScaleCalibrationChange?.({ ...scaleCalibration, ...changes });
+  };
+
+  const updateReferenceLength = (lengthCm: number) => {
+    if (scaleCalibration.reference) {
+      updateScale({ reference: { ...scaleCalibration.reference, lengthCm } });
+    } else {
+      setReferenceLengthCm(lengthCm);
+    }
+  };
 
   useEffect(() => {
     if (canvasRef.current && videoRef.current && containerRef.current) {
@@ -35,7 +176,7 @@ export default function CameraView({ videoRef, canvasRef, cameraActive, poseData
 
   // Draw pose keypoints and connections
   useEffect(() => {
-    if (!poseData || !canvasRef.current || !videoRef.current) return;
+    if (!canvasRef.current || !videoRef.current) return;
 
     const canvas = canvasRef.current;
     const video = videoRef.current;
@@ -44,88 +185,55 @@ export default function CameraView({ videoRef, canvasRef, cameraActive, poseData
 
     // Clear canvas
     ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!video.videoWidth || !video.videoHeight) return;
 
-    if (poseData.keypoints && poseData.keypoints.length > 0) {
-      const keypoints = poseData.keypoints;
-      
-      // Use appropriate connections based on assessment mode
-      const rulaConnections = [
-        [0, 1], [0, 2], [1, 3], [2, 4], // Head/neck
-        [5, 6], // Shoulders
-        [5, 7], [7, 9], // Left arm
-        [6, 8], [8, 10], // Right arm
-        [5, 11], [6, 12], // Shoulders to hips
-        [11, 12], // Hip connection
-      ];
-      
-      const rebaConnections = [
-        [0, 1], [0, 2], [1, 3], [2, 4], // Head
-        [5, 6], // Shoulders
-        [5, 7], [7, 9], // Left arm
-        [6, 8], [8, 10], // Right arm
-        [5, 11], [6, 12], // Torso
-        [11, 12], // Hips
-        [11, 13], [13, 15], // Left leg
-        [12, 14], [14, 16] // Right leg
-      ];
-      
-      const connections = assessmentMode === 'RULA' ? rulaConnections : rebaConnections;
+    // Use appropriate connections based on assessment mode
+    const rulaConnections = [
+      [0, 1], [0, 2], [1, 3], [2, 4], // Head/neck
+      [5, 6], // Shoulders
+      [5, 7], [7, 9], // Left arm
+      [6, 8], [8, 10], // Right arm
+      [5, 11], [6, 12], // Shoulders to hips
+      [11, 12], // Hip connection
+    ];
 
-      const confidenceThreshold = 0.3;
-      
-      // Calculate scaling factors
-      const videoAspect = video.videoWidth / video.videoHeight;
-      const canvasAspect = canvas.width / canvas.height;
-      
-      let scaleX, scaleY, offsetX = 0, offsetY = 0;
-      
-      if (videoAspect > canvasAspect) {
-        // Video is wider - fit to height
-        scaleY = canvas.height;
-        scaleX = canvas.height * videoAspect;
-        offsetX = (canvas.width - scaleX) / 2;
-      } else {
-        // Video is taller - fit to width
-        scaleX = canvas.width;
-        scaleY = canvas.width / videoAspect;
-        offsetY = (canvas.height - scaleY) / 2;
-      }
-      
-      // Helper function to transform coordinates
-      const transformCoordinates = (x: number, y: number) => {
-        let transformedX, transformedY;
-        
-        // Handle different coordinate systems
-        if (x > 1 || y > 1) {
-          // Absolute coordinates - normalize first
-          transformedX = (x / video.videoWidth) * scaleX + offsetX;
-          transformedY = (y / video.videoHeight) * scaleY + offsetY;
-        } else {
-          // Normalized coordinates (0-1)
-          transformedX = x * scaleX + offsetX;
-          transformedY = y * scaleY + offsetY;
-        }
-        
-        // Since canvas is mirrored, flip X coordinate
-        transformedX = canvas.width - transformedX;
-        
-        return { x: transformedX, y: transformedY };
-      };
+    const rebaConnections = [
+      [0, 1], [0, 2], [1, 3], [2, 4], // Head
+      [5, 6], // Shoulders
+      [5, 7], [7, 9], // Left arm
+      [6, 8], [8, 10], // Right arm
+      [5, 11], [6, 12], // Torso
+      [11, 12], // Hips
+      [11, 13], [13, 15], // Left leg
+      [12, 14], [14, 16] // Right leg
+    ];
+
+    const connections = assessmentMode === 'RULA' ? rulaConnections : rebaConnections;
 
-      // Draw connections
-      ctx.strokeStyle = '#3B82F6';
-      ctx.lineWidth = 3;
+    // Define which keypoints to show based on assessment mode
+    const visibleKeypoints = assessmentMode === 'RULA'
+      ? [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12] // Head, neck, shoulders, arms, wrists, hips
+      : [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16]; // All keypoints for REBA
 
+    const confidenceThreshold = 0.3;
+    const { toCanvas } = getVideoTransform(video, canvas);
+
+    // The assessed person gets the full overlay, other tracked workers a muted outline
+    const drawSkeleton = (keypoints: any[], isSubject: boolean) => {
+      let keypointsDrawn = 0;
       let connectionsDrawn = 0;
-      
+
+      ctx.strokeStyle = isSubject ? '#3B82F6' : '#9CA3AF';
+      ctx.lineWidth = isSubject ? 3 : 2;
+
       connections.forEach(([i, j]) => {
         const kp1 = keypoints[i];
         const kp2 = keypoints[j];
-        
+
         if (kp1 && kp2 && kp1.score > confidenceThreshold && kp2.score > confidenceThreshold) {
-          const pos1 = transformCoordinates(kp1.x, kp1.y);
-          const pos2 = transformCoordinates(kp2.x, kp2.y);
-          
+          const pos1 = toCanvas(kp1.x, kp1.y);
+          const pos2 = toCanvas(kp2.x, kp2.y);
+
           ctx.beginPath();
           ctx.moveTo(pos1.x, pos1.y);
           ctx.lineTo(pos2.x, pos2.y);
@@ -134,60 +242,142 @@ export default function CameraView({ videoRef, canvasRef, cameraActive, poseData
         }
       });
 
-      // Define which keypoints to show based on assessment mode
-      const visibleKeypoints = assessmentMode === 'RULA' 
-        ? [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12] // Head, neck, shoulders, arms, wrists, hips
-        : [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16]; // All keypoints for REBA
-
       // Draw keypoints - only show relevant ones
-      let keypointsDrawn = 0;
       keypoints.forEach((keypoint: any, index: number) => {
         if (keypoint && keypoint.score > confidenceThreshold && visibleKeypoints.includes(index)) {
-          const pos = transformCoordinates(keypoint.x, keypoint.y);
-          
+          const pos = toCanvas(keypoint.x, keypoint.y);
+
           // Different colors for different body parts
           let color;
-          if (index <= 4) {
+          if (!isSubject) {
+            color = '#6B7280';
+          } else if (index <= 4) {
             color = '#EF4444'; // Red for face
           } else if (index <= 10) {
             color = '#3B82F6'; // Blue for arms
           } else {
             color = '#10B981'; // Green for legs/torso
           }
-          
+
           ctx.fillStyle = color;
           ctx.beginPath();
-          ctx.arc(pos.x, pos.y, 6, 0, 2 * Math.PI);
+          ctx.arc(pos.x, pos.y, isSubject ? 6 : 4, 0, 2 * Math.PI);
           ctx.fill();
-          
+
           // Add white border for better visibility
           ctx.strokeStyle = '#FFFFFF';
           ctx.lineWidth = 2;
           ctx.stroke();
-          
-          // Add confidence score (optional - comment out if too cluttered)
-          ctx.fillStyle = '#FFFFFF';
-          ctx.font = '10px Arial';
-          ctx.shadowColor = '#000000';
-          ctx.shadowBlur = 2;
-          ctx.fillText(`${Math.round(keypoint.score * 100)}%`, pos.x + 8, pos.y - 8);
-          ctx.shadowBlur = 0;
-          
+
+          if (isSubject) {
+            ctx.fillStyle = '#FFFFFF';
+            ctx.font = '10px Arial';
+            ctx.shadowColor = '#000000';
+            ctx.shadowBlur = 2;
+            ctx.fillText(`${Math.round(keypoint.score * 100)}%`, pos.x + 8, pos.y - 8);
+            ctx.shadowBlur = 0;
+          }
+
           keypointsDrawn++;
         }
       });
-      
-      // Draw debug info on canvas (optional)
-      ctx.fillStyle = '#FFFF00';
-      ctx.font = '14px Arial';
+
+      return { keypointsDrawn, connectionsDrawn };
+    };
+
+    const drawWorkerLabel = (worker: TrackedWorker, isSubject: boolean) => {
+      const bounds = getPoseBounds(worker.pose, confidenceThreshold);
+      if (!bounds) return;
+
+      // Mirrored, so the box's right edge in video pixels is its left edge on screen
+      const topLeft = toCanvas(bounds.maxX, bounds.minY);
+      ctx.fillStyle = isSubject ? '#3B82F6' : '#6B7280';
+      ctx.font = 'bold 12px Arial';
       ctx.shadowColor = '#000000';
       ctx.shadowBlur = 2;
-      ctx.fillText(`Points: ${keypointsDrawn} | Lines: ${connectionsDrawn}`, 10, 25);
+      ctx.fillText(getWorkerLabel(worker.trackId), topLeft.x, Math.max(12, topLeft.y - 12));
       ctx.shadowBlur = 0;
-      
-      console.log(`Drew ${keypointsDrawn} keypoints and ${connectionsDrawn} connections`);
+    };
+
+    let stats = { keypointsDrawn: 0, connectionsDrawn: 0 };
+
+    if (trackedWorkers.length > 0) {
+      const subjectId = selectedTrackId ?? trackedWorkers[0].trackId;
+      trackedWorkers.forEach(worker => {
+        if (!worker.pose?.keypoints || worker.trackId === subjectId) return;
+        drawSkeleton(worker.pose.keypoints, false);
+        drawWorkerLabel(worker, false);
+      });
+
+      const subject = trackedWorkers.find(worker => worker.trackId === subjectId);
+      if (subject?.pose?.keypoints) {
+        stats = drawSkeleton(subject.pose.keypoints, true);
+        drawWorkerLabel(subject, true);
+      }
+    } else if (poseData?.keypoints?.length > 0) {
+      stats = drawSkeleton(poseData.keypoints, true);
     }
-  }, [poseData, canvasRef]);
+
+    // Draw debug info on canvas (optional)
+    ctx.fillStyle = '#FFFF00';
+    ctx.font = '14px Arial';
+    ctx.shadowColor = '#000000';
+    ctx.shadowBlur = 2;
+    ctx.fillText(`Points: ${stats.keypointsDrawn} | Lines: ${stats.connectionsDrawn}`, 10, 25);
+    ctx.shadowBlur = 0;
+
+    // Reference object used for the scale, or the ends marked so far
+    const markedEnds = referencePoints ?? (scaleCalibration.method === 'reference' && scaleCalibration.reference
+      ? [scaleCalibration.reference.start, scaleCalibration.reference.end]
+      : []);
+    const markedOnCanvas = markedEnds.map(point => toCanvas(point.x, point.y));
+    ctx.strokeStyle = '#F59E0B';
+    ctx.fillStyle = '#F59E0B';
+    ctx.lineWidth = 2;
+    if (markedOnCanvas.length === 2) {
+      ctx.beginPath();
+      ctx.moveTo(markedOnCanvas[0].x, markedOnCanvas[0].y);
+      ctx.lineTo(markedOnCanvas[1].x, markedOnCanvas[1].y);
+      ctx.stroke();
+    }
+    markedOnCanvas.forEach(pos => {
+      ctx.beginPath();
+      ctx.arc(pos.x, pos.y, 5, 0, 2 * Math.PI);
+      ctx.fill();
+    });
+  }, [poseData, canvasRef, trackedWorkers, selectedTrackId, assessmentMode, referencePoints, scaleCalibration]);
+
+  // Clicks mark the reference object's ends while marking, otherwise they choose
+  // whom to assess in multi-person mode
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!canvasRef.current || !videoRef.current) return;
+    if (!referencePoints && (!onSelectWorker || trackedWorkers.length === 0)) return;
+
+    const canvas = canvasRef.current;
+    const rect = canvas.getBoundingClientRect();
+    const { toVideo } = getVideoTransform(videoRef.current, canvas);
+    const point = toVideo(
+      (e.clientX - rect.left) * (canvas.width / rect.width),
+      (e.clientY - rect.top) * (canvas.height / rect.height)
+    );
+
+    if (referencePoints) {
+      const points = [...referencePoints, point];
+      if (points.length < 2) {
+        setReferencePoints(points);
+        return;
+      }
+      setReferencePoints(null);
+      updateScale({
+        method: 'reference',
+        reference: { start: points[0], end: points[1], lengthCm: scaleCalibration.reference?.lengthCm ?? referenceLengthCm }
+      });
+      return;
+    }
+
+    const worker = findWorkerAt(trackedWorkers, point.x, point.y);
+    if (worker) onSelectWorker?.(worker.trackId);
+  };
 
   return (
     <div className="bg-dark-card rounded-lg shadow-lg overflow-hidden">
@@ -206,7 +396,11 @@ export default function CameraView({ videoRef, canvasRef, cameraActive, poseData
         </div>
       </div>
       
-      <div ref={containerRef} className="relative aspect-video bg-gray-900 min-h-[200px] sm:min-h-[300px]">
+      <div
+        ref={containerRef}
+        onClick={handleClick}
+        className={`relative aspect-video bg-gray-900 min-h-[200px] sm:min-h-[300px] ${referencePoints ? 'cursor-crosshair' : trackedWorkers.length > 1 ? 'cursor-pointer' : ''}`}
+      >
         <video 
           ref={videoRef}
           className="w-full h-full object-cover"
@@ -251,13 +445,130 @@ export default function CameraView({ videoRef, canvasRef, cameraActive, poseData
               </div>
               <div className="flex items-center space-x-1 sm:space-x-2">
                 <span className="material-icon text-[10px] sm:text-xs">person</span>
-                <span className="hidden sm:inline">{poseData?.keypoints?.length > 0 ? '1 person detected' : 'No pose detected'}</span>
-                <span className="sm:hidden">{poseData?.keypoints?.length > 0 ? '1 person' : 'No pose'}</span>
+                <span className="hidden sm:inline">
+                  {trackedWorkers.length > 1
+                    ? `${trackedWorkers.length} people detected, click one to assess`
+                    : poseData?.keypoints?.length > 0 ? '1 person detected' : 'No pose detected'}
+                </span>
+                <span className="sm:hidden">
+                  {trackedWorkers.length > 1 ? `${trackedWorkers.length} people` : poseData?.keypoints?.length > 0 ? '1 person' : 'No pose'}
+                </span>
               </div>
             </div>
           </div>
         )}
       </div>
+
+      {/* Camera viewpoint: which body plane the camera sees decides which angles can be trusted */}
+      {onViewpointCalibrationChange && (
+        <div className="px-3 sm:px-4 py-2 sm:py-3 border-t border-gray-600 space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-xs sm:text-sm">
+            <span className="material-icon text-sm text-text-secondary">switch_video</span>
+            <label htmlFor="camera-viewpoint" className="text-text-secondary">Camera viewpoint</label>
+            <select
+              id="camera-viewpoint"
+              value={viewpointCalibration.mode === 'fixed' ? viewpointCalibration.view.viewpoint : viewpointCalibration.mode}
+              onChange={(e) => handleViewpointSelect(e.target.value)}
+              disabled={isCalibrating}
+              className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm"
+            >
+              <option value="auto">Auto detect</option>
+              <option value="sagittal">{CAMERA_VIEWPOINT_LABELS.sagittal}</option>
+              <option value="oblique">{CAMERA_VIEWPOINT_LABELS.oblique}</option>
+              <option value="frontal">{CAMERA_VIEWPOINT_LABELS.frontal}</option>
+              <option value="off">No correction</option>
+            </select>
+            <button
+              onClick={startCalibration}
+              disabled={!cameraActive || isCalibrating}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-2 py-1 rounded text-xs sm:text-sm"
+              title="Have the worker hold their usual working position facing the way they work"
+            >
+              {isCalibrating ? 'Calibrating...' : 'Calibrate'}
+            </button>
+            <span className="text-text-secondary">
+              {viewpointCalibration.mode === 'off'
+                ? 'Angles scored as measured in the image'
+                : currentView
+                  ? `${CAMERA_VIEWPOINT_LABELS[currentView.viewpoint]}, worker turned ${Math.round(currentView.yaw)}° (${viewpointCalibration.mode === 'fixed' ? 'fixed' : 'detected'})`
+                  : viewpointCalibration.mode === 'fixed'
+                    ? `${CAMERA_VIEWPOINT_LABELS[viewpointCalibration.view.viewpoint]}, worker turned ${Math.round(viewpointCalibration.view.yaw)}° (fixed)`
+                    : 'Waiting for a pose'}
+            </span>
+          </div>
+
+          {viewpointWarnings.length > 0 && (
+            <ul className="space-y-1 text-xs">
+              {viewpointWarnings.map(warning => (
+                <li
+                  key={warning.angle}
+                  className={`flex items-start space-x-1 ${warning.reliability === 'unreliable' ? 'text-yellow-400' : 'text-text-secondary'}`}
+                >
+                  <span className="material-icon text-xs">{warning.reliability === 'unreliable' ? 'warning' : 'info'}</span>
+                  <span>{warning.message}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Real-world scale: converts pixel distances to centimetres for reach and object size */}
+      {onScaleCalibrationChange && (
+        <div className="px-3 sm:px-4 py-2 sm:py-3 border-t border-gray-600 space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-xs sm:text-sm">
+            <span className="material-icon text-sm text-text-secondary">straighten</span>
+            <label htmlFor="scale-method" className="text-text-secondary">Scale from</label>
+            <select
+              id="scale-method"
+              value={scaleCalibration.method}
+              onChange={(e) => updateScale({ method: e.target.value as ScaleCalibration['method'] })}
+              className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm"
+            >
+              <option value="stature">Worker height</option>
+              <option value="reference" disabled={!scaleCalibration.reference}>Reference object</option>
+            </select>
+            <input
+              type="number"
+              min="100"
+              max="220"
+              value={scaleCalibration.statureCm}
+              onChange={(e) => updateScale({ statureCm: parseFloat(e.target.value) || DEFAULT_SCALE_CALIBRATION.statureCm })}
+              className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-20"
+              title="Worker height (cm)"
+            />
+            <span className="text-text-secondary">cm tall</span>
+            <button
+              onClick={() => setReferencePoints(referencePoints ? null : [])}
+              disabled={!cameraActive}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-2 py-1 rounded text-xs sm:text-sm"
+            >
+              {referencePoints ? 'Cancel marking' : 'Mark reference'}
+            </button>
+            <input
+              type="number"
+              min="1"
+              value={scaleCalibration.reference?.lengthCm ?? referenceLengthCm}
+              onChange={(e) => updateReferenceLength(Math.max(1, parseFloat(e.target.value) || DEFAULT_REFERENCE_LENGTH_CM))}
+              className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-20"
+              title="Reference object length (cm)"
+            />
+            <span className="text-text-secondary">cm long</span>
+          </div>
+
+          <div className="text-xs text-text-secondary">
+            {referencePoints
+              ? `Click ${referencePoints.length === 0 ? 'one end' : 'the other end'} of the reference object on the video`
+              : pxPerCm
+                ? `${pxPerCm.toFixed(1)} px/cm · Reach L ${reach.left ?? '--'} cm · R ${reach.right ?? '--'} cm${
+                    reach.furthest !== null ? ` · ${REACH_ZONE_LABELS[getReachZone(reach.furthest)]}` : ''
+                  }`
+                : scaleCalibration.method === 'stature'
+                  ? 'Worker\'s head and feet or shoulders and hips must be visible to measure in centimetres'
+                  : 'Mark a reference object to measure in centimetres'}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
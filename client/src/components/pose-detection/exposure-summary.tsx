@@ -0,0 +1,88 @@
+import React from 'react';
+import { getRiskBand, RISK_BAND_STYLES, type AssessmentMode } from '@/lib/scoring';
+import type { ExposureSummary as ExposureSummaryData } from '@/lib/exposure-summary';
+
+interface ExposureSummaryProps {
+  summary: ExposureSummaryData;
+  assessmentMode: AssessmentMode;
+  onViewPeakFrame?: (frameIndex: number) => void;
+}
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+export default function ExposureSummary({ summary, assessmentMode, onViewPeakFrame }: ExposureSummaryProps) {
+  return (
+    <div className="mt-6 bg-dark-secondary rounded-lg p-4">
+      <h4 className="text-lg font-medium mb-3">Exposure Summary ({formatTime(summary.scoredSeconds)} scored)</h4>
+
+      {/* Time-in-band histogram */}
+      <div className="space-y-2 mb-4">
+        {summary.bands.map(row => {
+          const style = RISK_BAND_STYLES[row.band];
+          return (
+            <div key={row.band} className="flex items-center space-x-3 text-sm">
+              <span className={`w-16 ${style.textClass}`}>{style.shortLabel}</span>
+              <div className="flex-1 bg-gray-700 rounded-full h-3">
+                <div className={`${style.bgClass} h-3 rounded-full`} style={{ width: `${row.percentage}%` }}></div>
+              </div>
+              <span className="w-28 text-right text-text-secondary">{row.percentage}% ({Math.round(row.seconds)} s)</span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4 text-sm">
+        <div className="bg-dark-card rounded-lg p-3">
+          <div className="text-text-secondary text-xs mb-1">Peak score</div>
+          <div className="flex items-center justify-between">
+            <span className={`font-mono ${getRiskBand(assessmentMode, summary.peakScore).textClass}`}>
+              {summary.peakScore} at {formatTime(summary.peakTime)}
+            </span>
+            {onViewPeakFrame && (
+              <button
+                onClick={() => onViewPeakFrame(summary.peakFrameIndex)}
+                className="text-xs text-blue-400 hover:text-blue-300"
+              >
+                View frame
+              </button>
+            )}
+          </div>
+        </div>
+        <div className="bg-dark-card rounded-lg p-3">
+          <div className="text-text-secondary text-xs mb-1">95th percentile</div>
+          <div className={`font-mono ${getRiskBand(assessmentMode, summary.percentile95).textClass}`}>{summary.percentile95}</div>
+        </div>
+        <div className="bg-dark-card rounded-lg p-3" title="Score points above the acceptable band, summed over time">
+          <div className="text-text-secondary text-xs mb-1">Cumulative exposure</div>
+          <div className="font-mono">{summary.exposureIndex} score·min</div>
+        </div>
+      </div>
+
+      {summary.segments.length > 0 && (
+        <>
+          <h5 className="text-sm font-medium mb-2 text-text-secondary">Time above action level per body segment</h5>
+          <table className="w-full text-xs sm:text-sm">
+            <thead>
+              <tr className="text-text-secondary text-left">
+                <th className="py-1">Segment</th>
+                <th className="py-1 text-right">Action level</th>
+                <th className="py-1 text-right">Time</th>
+                <th className="py-1 text-right">Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.segments.map(row => (
+                <tr key={row.segment} className="border-t border-gray-700">
+                  <td className="py-1">{row.label}</td>
+                  <td className="py-1 text-right">score ≥ {row.actionLevel}</td>
+                  <td className="py-1 text-right">{Math.round(row.seconds)} s</td>
+                  <td className="py-1 text-right">{row.percentage}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
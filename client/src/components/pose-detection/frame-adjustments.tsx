@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import {
+  POSTURE_MODIFIER_LABELS,
+  getAssessmentMethod,
+  getScoreRiskBand,
+  type AssessmentMode,
+  type CouplingQuality,
+  type PostureModifier
+} from '@/lib/scoring';
+import {
+  describeAuditEntry,
+  getAutoScore,
+  hasAssessorChanges,
+  type AnnotationChanges,
+  type FrameAnnotation
+} from '@/lib/frame-annotations';
+
+interface FrameAdjustmentsProps {
+  frame: { rebaScore: any; poseData?: any; annotation?: FrameAnnotation };
+  assessmentMode: AssessmentMode;
+  onChange: (changes: AnnotationChanges) => void;
+}
+
+const COUPLING_OPTIONS: { value: CouplingQuality; label: string }[] = [
+  { value: 'good', label: 'Good (0)' },
+  { value: 'fair', label: 'Fair (+1)' },
+  { value: 'poor', label: 'Poor (+2)' },
+  { value: 'unacceptable', label: 'Unacceptable (+3)' }
+];
+
+const yesNo = (value: boolean | undefined) => value === undefined ? 'not measured' : value ? 'yes' : 'no';
+
+export default function FrameAdjustments({ frame, assessmentMode, onChange }: FrameAdjustmentsProps) {
+  const annotation = frame.annotation;
+  const autoScore = getAutoScore(frame);
+  const method = autoScore?.method ?? assessmentMode;
+  const canAdjust = !!autoScore && !!frame.poseData?.keypoints;
+  const adjusted = hasAssessorChanges(annotation);
+
+  // Remounted per frame by the panel, so only a saved note needs to flow back in
+  const [note, setNote] = useState(annotation?.note ?? '');
+  useEffect(() => {
+    setNote(annotation?.note ?? '');
+  }, [annotation?.note]);
+
+  const setModifier = (modifier: PostureModifier, value: string) => {
+    onChange({ adjustments: { [modifier]: value === 'auto' ? undefined : value === 'yes' } });
+  };
+
+  const resetAdjustments = () => {
+    const cleared = Object.fromEntries(Object.keys(annotation?.adjustments ?? {}).map(modifier => [modifier, undefined]));
+    onChange({ adjustments: cleared, coupling: null });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h5 className="text-lg font-medium">Assessor Review</h5>
+        {adjusted && (
+          <button onClick={resetAdjustments} className="text-xs text-blue-400 hover:text-blue-300">
+            Back to detected
+          </button>
+        )}
+      </div>
+      <div className="bg-dark-secondary rounded-lg p-4 space-y-3">
+        {adjusted && autoScore && (
+          <div className="text-sm">
+            Detected score{' '}
+            <span className={`font-mono ${getScoreRiskBand(autoScore, assessmentMode).textClass}`}>{autoScore.finalScore}</span>
+            {' '}→ adjusted{' '}
+            <span className={`font-mono font-bold ${getScoreRiskBand(frame.rebaScore, assessmentMode).textClass}`}>{frame.rebaScore?.finalScore}</span>
+          </div>
+        )}
+
+        {canAdjust ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {getAssessmentMethod(method).modifiers.map(modifier => {
+              const value = annotation?.adjustments[modifier];
+              return (
+                <label key={modifier} className="flex items-center justify-between gap-2 text-xs sm:text-sm">
+                  <span className={value !== undefined ? 'text-yellow-400' : ''}>{POSTURE_MODIFIER_LABELS[modifier]}</span>
+                  <select
+                    value={value === undefined ? 'auto' : value ? 'yes' : 'no'}
+                    onChange={(e) => setModifier(modifier, e.target.value)}
+                    className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm"
+                  >
+                    <option value="auto">Auto ({yesNo(autoScore.detectedModifiers?.[modifier])})</option>
+                    <option value="yes">Yes</option>
+                    <option value="no">No</option>
+                  </select>
+                </label>
+              );
+            })}
+            {method === 'REBA' && (
+              <label className="flex items-center justify-between gap-2 text-xs sm:text-sm">
+                <span className={annotation?.coupling ? 'text-yellow-400' : ''}>Coupling</span>
+                <select
+                  value={annotation?.coupling ?? 'auto'}
+                  onChange={(e) => onChange({ coupling: e.target.value === 'auto' ? null : e.target.value as CouplingQuality })}
+                  className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm"
+                >
+                  <option value="auto">Session ({autoScore.options?.coupling ?? 'good'})</option>
+                  {COUPLING_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+        ) : (
+          <p className="text-xs text-text-secondary">This frame was not scored, only a note can be added.</p>
+        )}
+
+        <div>
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Assessor note for this frame"
+            rows={2}
+            className="w-full bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm"
+          />
+          <button
+            onClick={() => onChange({ note })}
+            disabled={note.trim() === (annotation?.note ?? '')}
+            className="mt-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 px-3 py-1 rounded text-xs sm:text-sm transition-colors"
+          >
+            Save note
+          </button>
+        </div>
+
+        {annotation && annotation.audit.length > 0 && (
+          <div>
+            <h6 className="text-sm font-medium mb-2 text-text-secondary">Audit trail</h6>
+            <ul className="space-y-1 text-xs text-text-secondary max-h-32 overflow-y-auto">
+              {[...annotation.audit].reverse().map((entry, index) => (
+                <li key={`${entry.at}-${entry.field}-${index}`}>
+                  <span className="text-gray-500">{new Date(entry.at).toLocaleString()}{entry.by && ` · ${entry.by}`}</span>
+                  {' '}{describeAuditEntry(entry)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import {
+  KEYPOINT_FILTER_METHODS,
+  DEFAULT_KEYPOINT_FILTER_SETTINGS,
+  type KeypointFilterMethod,
+  type KeypointFilterSettings
+} from '@/lib/keypoint-filter';
+
+interface KeypointFilterPanelProps {
+  settings: KeypointFilterSettings;
+  onSettingsChange: (settings: KeypointFilterSettings) => void;
+  isLive: boolean;
+  rawScore: any;
+  filteredScore: any;
+  recordingData: Array<{ timestamp: number; rebaScore: any; rawScore?: any }>;
+}
+
+interface TracePoint {
+  time: number;
+  raw: any;
+  filtered: any;
+}
+
+// Live comparison keeps the last few seconds only
+const LIVE_WINDOW_SECONDS = 15;
+
+const ANGLE_LABELS: Record<string, string> = {
+  trunkAngle: 'Trunk',
+  neckAngle: 'Neck',
+  upperArmAngle: 'Upper arm',
+  lowerArmAngle: 'Lower arm',
+  wristAngle: 'Wrist',
+  kneeAngle: 'Knee'
+};
+
+const getAngleKeys = (score: any) =>
+  score ? Object.keys(ANGLE_LABELS).filter(key => typeof score[key] === 'number') : [];
+
+// How often the risk band flips across a trace, the flicker the filter is meant to remove
+const countBandChanges = (scores: any[]) =>
+  scores.reduce((changes, score, index) => {
+    const previous = scores[index - 1];
+    return previous && score.riskBand !== previous.riskBand ? changes + 1 : changes;
+  }, 0);
+
+export default function KeypointFilterPanel({
+  settings,
+  onSettingsChange,
+  isLive,
+  rawScore,
+  filteredScore,
+  recordingData
+}: KeypointFilterPanelProps) {
+  const [liveTrace, setLiveTrace] = useState<TracePoint[]>([]);
+  const [angleKey, setAngleKey] = useState('trunkAngle');
+  const liveStartRef = useRef(Date.now());
+
+  // A new filter starts from scratch, so does its trace
+  useEffect(() => {
+    setLiveTrace([]);
+    liveStartRef.current = Date.now();
+  }, [settings, isLive]);
+
+  useEffect(() => {
+    if (!isLive || !rawScore || !filteredScore) return;
+    const time = (Date.now() - liveStartRef.current) / 1000;
+    setLiveTrace(prev => [...prev.filter(point => time - point.time <= LIVE_WINDOW_SECONDS), { time, raw: rawScore, filtered: filteredScore }]);
+  }, [isLive, rawScore, filteredScore]);
+
+  // Without the camera, compare over the loaded recording when its raw scores are still in memory
+  const trace = useMemo<TracePoint[]>(() => {
+    if (isLive) return liveTrace;
+    return recordingData
+      .filter(frame => frame.rawScore && frame.rebaScore)
+      .map(frame => ({ time: frame.timestamp, raw: frame.rawScore, filtered: frame.rebaScore }));
+  }, [isLive, liveTrace, recordingData]);
+
+  const angleKeys = getAngleKeys(trace[trace.length - 1]?.filtered);
+  const selectedAngle = angleKeys.includes(angleKey) ? angleKey : angleKeys[0];
+  const chartData = selectedAngle
+    ? trace.map(point => ({ time: point.time, raw: point.raw[selectedAngle], filtered: point.filtered[selectedAngle] }))
+    : [];
+
+  const rawBandChanges = countBandChanges(trace.map(point => point.raw));
+  const filteredBandChanges = countBandChanges(trace.map(point => point.filtered));
+
+  const update = (changes: Partial<KeypointFilterSettings>) => {
+    onSettingsChange({ ...settings, ...changes });
+  };
+
+  return (
+    <div className="bg-dark-card rounded-lg shadow-lg p-4 sm:p-6 mb-4 sm:mb-6">
+      <h3 className="text-base sm:text-xl font-medium flex items-center space-x-2 mb-4">
+        <span className="material-icon text-cyan-500 text-lg sm:text-2xl">tune</span>
+        <span>Keypoint Filtering</span>
+      </h3>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 sm:gap-3">
+        <div className="bg-dark-secondary rounded-lg p-3">
+          <label className="block text-xs text-text-secondary mb-2">Filter</label>
+          <select
+            value={settings.method}
+            onChange={(e) => update({ method: e.target.value as KeypointFilterMethod })}
+            className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full"
+          >
+            {KEYPOINT_FILTER_METHODS.map(method => (
+              <option key={method.id} value={method.id}>{method.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="bg-dark-secondary rounded-lg p-3">
+          <label className="block text-xs text-text-secondary mb-2">Min keypoint confidence</label>
+          <input
+            type="number"
+            min="0"
+            max="1"
+            step="0.05"
+            value={settings.minConfidence}
+            onChange={(e) => update({ minConfidence: Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)) })}
+            disabled={settings.method === 'none'}
+            className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full disabled:opacity-50"
+          />
+        </div>
+
+        <div className="bg-dark-secondary rounded-lg p-3">
+          <label className="block text-xs text-text-secondary mb-2">Bridge gaps up to (ms)</label>
+          <input
+            type="number"
+            min="0"
+            step="100"
+            value={settings.maxGapMs}
+            onChange={(e) => update({ maxGapMs: Math.max(0, parseFloat(e.target.value) || 0) })}
+            disabled={settings.method === 'none'}
+            className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full disabled:opacity-50"
+          />
+        </div>
+
+        {settings.method === 'one-euro' && (
+          <div className="bg-dark-secondary rounded-lg p-3">
+            <label className="block text-xs text-text-secondary mb-2">Min cutoff (Hz) / beta</label>
+            <div className="flex space-x-1">
+              <input
+                type="number"
+                min="0.01"
+                step="0.1"
+                value={settings.oneEuro.minCutoff}
+                onChange={(e) => update({ oneEuro: { ...settings.oneEuro, minCutoff: Math.max(0.01, parseFloat(e.target.value) || 0.01) } })}
+                className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full"
+              />
+              <input
+                type="number"
+                min="0"
+                step="0.005"
+                value={settings.oneEuro.beta}
+                onChange={(e) => update({ oneEuro: { ...settings.oneEuro, beta: Math.max(0, parseFloat(e.target.value) || 0) } })}
+                className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full"
+              />
+            </div>
+          </div>
+        )}
+
+        {settings.method === 'kalman' && (
+          <div className="bg-dark-secondary rounded-lg p-3">
+            <label className="block text-xs text-text-secondary mb-2">Process / measurement noise</label>
+            <div className="flex space-x-1">
+              <input
+                type="number"
+                min="1"
+                step="100"
+                value={settings.kalman.processNoise}
+                onChange={(e) => update({ kalman: { ...settings.kalman, processNoise: Math.max(1, parseFloat(e.target.value) || 1) } })}
+                className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full"
+              />
+              <input
+                type="number"
+                min="1"
+                step="5"
+                value={settings.kalman.measurementNoise}
+                onChange={(e) => update({ kalman: { ...settings.kalman, measurementNoise: Math.max(1, parseFloat(e.target.value) || 1) } })}
+                className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full"
+              />
+            </div>
+          </div>
+        )}
+
+        {settings.method === 'median' && (
+          <div className="bg-dark-secondary rounded-lg p-3">
+            <label className="block text-xs text-text-secondary mb-2">Window (frames)</label>
+            <input
+              type="number"
+              min="1"
+              max="31"
+              step="2"
+              value={settings.medianWindow}
+              onChange={(e) => update({ medianWindow: Math.min(31, Math.max(1, parseInt(e.target.value) || 1)) })}
+              className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between mt-2">
+        <p className="text-xs text-text-secondary">
+          3D world keypoints are filtered with the same settings. Uploaded videos are filtered as a whole, with gaps interpolated from both sides. Re-analyse a file after changing these.
+        </p>
+        <button
+          onClick={() => onSettingsChange(DEFAULT_KEYPOINT_FILTER_SETTINGS)}
+          className="text-xs text-text-secondary hover:text-white transition-colors"
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="mt-4">
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-sm font-medium">Raw vs filtered angle {isLive ? `(last ${LIVE_WINDOW_SECONDS}s)` : '(recording)'}</h4>
+          {angleKeys.length > 0 && (
+            <select
+              value={selectedAngle}
+              onChange={(e) => setAngleKey(e.target.value)}
+              className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs"
+            >
+              {angleKeys.map(key => (
+                <option key={key} value={key}>{ANGLE_LABELS[key]}</option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {chartData.length === 0 ? (
+          <p className="text-xs text-text-secondary">
+            Start the camera, or analyse a video, to compare raw and filtered angles.
+          </p>
+        ) : (
+          <>
+            <div className="h-48">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis
+                    dataKey="time"
+                    stroke="#9CA3AF"
+                    fontSize={10}
+                    type="number"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={(value: number) => `${value.toFixed(0)}s`}
+                  />
+                  <YAxis stroke="#9CA3AF" fontSize={10} unit="°" />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#1F2937', border: '1px solid #374151' }}
+                    labelFormatter={(value: number) => `${value.toFixed(2)}s`}
+                  />
+                  <Line type="monotone" dataKey="raw" name="Raw" stroke="#9CA3AF" dot={false} isAnimationActive={false} />
+                  <Line type="monotone" dataKey="filtered" name="Filtered" stroke="#06B6D4" strokeWidth={2} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="grid grid-cols-2 gap-2 mt-2 text-xs">
+              <div className="bg-dark-secondary rounded p-2 text-center">
+                <span className="text-text-secondary">Risk band changes, raw: </span>
+                <span className="font-bold">{rawBandChanges}</span>
+              </div>
+              <div className="bg-dark-secondary rounded p-2 text-center">
+                <span className="text-text-secondary">Risk band changes, filtered: </span>
+                <span className="font-bold text-cyan-400">{filteredBandChanges}</span>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
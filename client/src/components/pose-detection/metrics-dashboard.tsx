@@ -1,3 +1,5 @@
+import { getScoreRiskBand } from '@/lib/scoring';
+
 interface MetricsDashboardProps {
   fps: number;
   sessionDuration: string;
@@ -73,22 +75,15 @@ export default function MetricsDashboard({
         </div>
         <div className="space-y-2 sm:space-y-3">
           <div className="flex justify-between items-center">
-            <span className="text-text-secondary text-xs sm:text-base">REBA Score</span>
+            <span className="text-text-secondary text-xs sm:text-base">{rebaScore?.method ?? 'REBA'} Score</span>
             <span className="font-mono text-xs sm:text-base">{rebaScore?.finalScore || '--'}</span>
           </div>
           <div className="flex justify-between items-center">
             <span className="text-text-secondary text-xs sm:text-base">Risk Level</span>
             <span className={`font-mono text-xs sm:text-sm ${
-              !rebaScore ? 'text-gray-400' :
-              rebaScore.finalScore <= 2 ? 'text-green-400' :
-              rebaScore.finalScore <= 4 ? 'text-yellow-400' :
-              rebaScore.finalScore <= 6 ? 'text-orange-400' : 'text-red-400'
+              rebaScore ? getScoreRiskBand(rebaScore).textClass : 'text-gray-400'
             }`}>
-              {rebaScore ? (
-                rebaScore.finalScore <= 2 ? 'Low' :
-                rebaScore.finalScore <= 4 ? 'Medium' :
-                rebaScore.finalScore <= 6 ? 'High' : 'Critical'
-              ) : 'N/A'}
+              {rebaScore ? getScoreRiskBand(rebaScore).shortLabel : 'N/A'}
             </span>
           </div>
           <div className="flex justify-between items-center">
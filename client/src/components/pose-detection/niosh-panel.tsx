@@ -0,0 +1,316 @@
+import React, { useMemo, useState } from 'react';
+import { estimateWeightFromPosture } from '@/lib/weight-detection';
+import { RISK_BAND_STYLES } from '@/lib/scoring';
+import {
+  assessLift,
+  detectLifts,
+  getLiftingIndexBand,
+  measureLiftGeometry,
+  type DetectedLift,
+  type NioshCoupling,
+  type NioshDuration,
+  type NioshGeometry,
+  type NioshTaskInputs
+} from '@/lib/niosh-lifting';
+import { DEFAULT_SCALE_CALIBRATION, DEFAULT_STATURE_CM, type ScaleCalibration } from '@/lib/scale-calibration';
+
+interface NioshPanelProps {
+  poseData: any;
+  recordingData: Array<{ timestamp: number; poseData: any }>;
+  scaleCalibration?: ScaleCalibration;
+  onScaleCalibrationChange?: (calibration: ScaleCalibration) => void;
+}
+
+const MULTIPLIER_LABELS: { key: 'hm' | 'vm' | 'dm' | 'am' | 'fm' | 'cm'; label: string }[] = [
+  { key: 'hm', label: 'Horizontal (HM)' },
+  { key: 'vm', label: 'Vertical (VM)' },
+  { key: 'dm', label: 'Distance (DM)' },
+  { key: 'am', label: 'Asymmetry (AM)' },
+  { key: 'fm', label: 'Frequency (FM)' },
+  { key: 'cm', label: 'Coupling (CM)' }
+];
+
+const formatIndex = (value: number) => Number.isFinite(value) ? value.toFixed(2) : '∞';
+
+export default function NioshPanel({
+  poseData,
+  recordingData,
+  scaleCalibration = DEFAULT_SCALE_CALIBRATION,
+  onScaleCalibrationChange
+}: NioshPanelProps) {
+  const [inputs, setInputs] = useState<NioshTaskInputs>({
+    loadKg: 10,
+    frequency: 1,
+    duration: 'short',
+    coupling: 'fair'
+  });
+  const [origin, setOrigin] = useState<NioshGeometry | null>(null);
+  const [destination, setDestination] = useState<NioshGeometry | null>(null);
+  const [detectedLifts, setDetectedLifts] = useState<DetectedLift[]>([]);
+  const [selectedLift, setSelectedLift] = useState<number | null>(null);
+  const [captureError, setCaptureError] = useState<string | null>(null);
+
+  const assessment = useMemo(() => {
+    if (!origin || !destination) return null;
+    return assessLift(origin, destination, inputs);
+  }, [origin, destination, inputs]);
+
+  const updateInputs = (changes: Partial<NioshTaskInputs>) => {
+    setInputs(prev => ({ ...prev, ...changes }));
+  };
+
+  const captureGeometry = (setter: (geometry: NioshGeometry) => void) => {
+    const geometry = measureLiftGeometry(poseData?.keypoints, scaleCalibration);
+    if (!geometry) {
+      setCaptureError('Hands and feet must be visible to capture a lift position');
+      return;
+    }
+    setCaptureError(null);
+    setSelectedLift(null);
+    setter(geometry);
+  };
+
+  const useEstimatedWeight = () => {
+    if (!poseData?.keypoints) return;
+    const estimation = estimateWeightFromPosture(poseData.keypoints);
+    if (estimation.estimatedWeight > 0) {
+      updateInputs({ loadKg: Math.round(estimation.estimatedWeight * 10) / 10 });
+    }
+  };
+
+  const handleDetectLifts = () => {
+    const lifts = detectLifts(recordingData, scaleCalibration);
+    setDetectedLifts(lifts);
+    setSelectedLift(null);
+
+    // Suggest the observed lifting frequency from the recording length
+    if (lifts.length > 0 && recordingData.length > 1) {
+      const durationMin = (recordingData[recordingData.length - 1].timestamp - recordingData[0].timestamp) / 60;
+      if (durationMin > 0) {
+        updateInputs({ frequency: Math.round((lifts.length / durationMin) * 10) / 10 });
+      }
+    }
+  };
+
+  const selectLift = (index: number) => {
+    const lift = detectedLifts[index];
+    setSelectedLift(index);
+    setOrigin(lift.origin);
+    setDestination(lift.destination);
+  };
+
+  const band = assessment ? RISK_BAND_STYLES[getLiftingIndexBand(assessment.liftingIndex)] : null;
+
+  return (
+    <div className="bg-dark-card rounded-lg shadow-lg p-4 sm:p-6 mt-4 sm:mt-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between mb-4 sm:mb-6 gap-2 sm:gap-0">
+        <h3 className="text-base sm:text-xl font-medium flex items-center space-x-2">
+          <span className="material-icon text-orange-500 text-lg sm:text-2xl">fitness_center</span>
+          <span>NIOSH Lifting Equation</span>
+        </h3>
+        <span className="text-xs sm:text-sm text-text-secondary">Recommended Weight Limit &amp; Lifting Index</span>
+      </div>
+
+      {/* Task inputs the camera cannot observe */}
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-2 sm:gap-4 mb-4 sm:mb-6">
+        <div className="bg-dark-secondary rounded-lg p-3">
+          <label className="block text-xs text-text-secondary mb-2">Load (kg)</label>
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={inputs.loadKg}
+            onChange={(e) => updateInputs({ loadKg: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full"
+          />
+          <button
+            onClick={useEstimatedWeight}
+            disabled={!poseData?.keypoints}
+            className="text-[10px] sm:text-xs text-blue-400 hover:text-blue-300 disabled:text-gray-500 mt-1"
+          >
+            Use estimated weight
+          </button>
+        </div>
+
+        <div className="bg-dark-secondary rounded-lg p-3">
+          <label className="block text-xs text-text-secondary mb-2">Frequency (lifts/min)</label>
+          <input
+            type="number"
+            min="0"
+            step="0.1"
+            value={inputs.frequency}
+            onChange={(e) => updateInputs({ frequency: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full"
+          />
+        </div>
+
+        <div className="bg-dark-secondary rounded-lg p-3">
+          <label className="block text-xs text-text-secondary mb-2">Work duration</label>
+          <select
+            value={inputs.duration}
+            onChange={(e) => updateInputs({ duration: e.target.value as NioshDuration })}
+            className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full"
+          >
+            <option value="short">≤ 1 hour</option>
+            <option value="moderate">1 - 2 hours</option>
+            <option value="long">2 - 8 hours</option>
+          </select>
+        </div>
+
+        <div className="bg-dark-secondary rounded-lg p-3">
+          <label className="block text-xs text-text-secondary mb-2">Coupling</label>
+          <select
+            value={inputs.coupling}
+            onChange={(e) => updateInputs({ coupling: e.target.value as NioshCoupling })}
+            className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full"
+          >
+            <option value="good">Good (handles)</option>
+            <option value="fair">Fair</option>
+            <option value="poor">Poor</option>
+          </select>
+        </div>
+
+        <div className="bg-dark-secondary rounded-lg p-3">
+          <label className="block text-xs text-text-secondary mb-2">Worker stature (cm)</label>
+          <input
+            type="number"
+            min="100"
+            max="220"
+            value={scaleCalibration.statureCm}
+            onChange={(e) => onScaleCalibrationChange?.({ ...scaleCalibration, statureCm: parseFloat(e.target.value) || DEFAULT_STATURE_CM })}
+            disabled={!onScaleCalibrationChange}
+            className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full"
+          />
+          {scaleCalibration.method === 'reference' && (
+            <p className="text-[10px] sm:text-xs text-text-secondary mt-1">Scale from reference object</p>
+          )}
+        </div>
+
+        <div className="bg-dark-secondary rounded-lg p-3">
+          <label className="block text-xs text-text-secondary mb-2">Asymmetry (°)</label>
+          <input
+            type="number"
+            min="0"
+            max="180"
+            value={inputs.asymmetryOverride ?? ''}
+            placeholder="Auto (trunk)"
+            onChange={(e) => updateInputs({
+              asymmetryOverride: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0)
+            })}
+            className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full"
+          />
+        </div>
+      </div>
+
+      {/* Lift origin and destination */}
+      <div className="flex flex-wrap gap-2 mb-3">
+        <button
+          onClick={() => captureGeometry(setOrigin)}
+          disabled={!poseData?.keypoints}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 px-3 py-2 rounded-lg text-xs sm:text-sm transition-colors"
+        >
+          Capture origin
+        </button>
+        <button
+          onClick={() => captureGeometry(setDestination)}
+          disabled={!poseData?.keypoints}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 px-3 py-2 rounded-lg text-xs sm:text-sm transition-colors"
+        >
+          Capture destination
+        </button>
+        <button
+          onClick={handleDetectLifts}
+          disabled={recordingData.length < 2}
+          className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 px-3 py-2 rounded-lg text-xs sm:text-sm transition-colors"
+        >
+          Detect lifts in recording
+        </button>
+      </div>
+      {captureError && <p className="text-xs text-red-400 mb-3">{captureError}</p>}
+
+      {detectedLifts.length > 0 && (
+        <div className="mb-4">
+          <p className="text-xs text-text-secondary mb-2">{detectedLifts.length} lift(s) detected - select one to assess</p>
+          <div className="flex flex-wrap gap-2">
+            {detectedLifts.map((lift, index) => (
+              <button
+                key={`${lift.startIndex}-${lift.endIndex}`}
+                onClick={() => selectLift(index)}
+                className={`px-2 py-1 rounded text-xs border ${
+                  selectedLift === index ? 'border-blue-400 bg-blue-900/40' : 'border-gray-600 bg-dark-secondary'
+                }`}
+              >
+                {lift.direction === 'up' ? '↑' : '↓'} {lift.startTime.toFixed(0)}s - {lift.endTime.toFixed(0)}s
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Results */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-dark-secondary rounded-lg p-3 sm:p-4">
+          <table className="w-full text-xs sm:text-sm">
+            <thead>
+              <tr className="text-text-secondary">
+                <th className="text-left font-normal pb-2"></th>
+                <th className="text-right font-normal pb-2">Origin</th>
+                <th className="text-right font-normal pb-2">Destination</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td className="py-1">H (cm)</td>
+                <td className="text-right">{origin?.horizontalCm ?? '--'}</td>
+                <td className="text-right">{destination?.horizontalCm ?? '--'}</td>
+              </tr>
+              <tr>
+                <td className="py-1">V (cm)</td>
+                <td className="text-right">{origin?.verticalCm ?? '--'}</td>
+                <td className="text-right">{destination?.verticalCm ?? '--'}</td>
+              </tr>
+              <tr>
+                <td className="py-1">A (°)</td>
+                <td className="text-right">{inputs.asymmetryOverride ?? origin?.asymmetryDeg ?? '--'}</td>
+                <td className="text-right">{inputs.asymmetryOverride ?? destination?.asymmetryDeg ?? '--'}</td>
+              </tr>
+              {MULTIPLIER_LABELS.map(({ key, label }) => (
+                <tr key={key} className="border-t border-gray-700">
+                  <td className="py-1 text-text-secondary">{label}</td>
+                  <td className="text-right">{assessment ? assessment.origin.multipliers[key].toFixed(2) : '--'}</td>
+                  <td className="text-right">{assessment ? assessment.destination.multipliers[key].toFixed(2) : '--'}</td>
+                </tr>
+              ))}
+              <tr className="border-t border-gray-700 font-medium">
+                <td className="py-1">RWL (kg)</td>
+                <td className="text-right">{assessment ? assessment.origin.rwl.toFixed(1) : '--'}</td>
+                <td className="text-right">{assessment ? assessment.destination.rwl.toFixed(1) : '--'}</td>
+              </tr>
+              <tr className="font-medium">
+                <td className="py-1">Lifting Index</td>
+                <td className="text-right">{assessment ? formatIndex(assessment.origin.liftingIndex) : '--'}</td>
+                <td className="text-right">{assessment ? formatIndex(assessment.destination.liftingIndex) : '--'}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        <div className="bg-dark-secondary rounded-lg p-3 sm:p-4 flex flex-col items-center justify-center text-center">
+          <div className={`w-20 h-20 sm:w-24 sm:h-24 rounded-full flex items-center justify-center mb-3 ${band ? band.bgClass : 'bg-gray-500'}`}>
+            <span className="text-xl sm:text-2xl font-bold text-white">
+              {assessment ? formatIndex(assessment.liftingIndex) : '--'}
+            </span>
+          </div>
+          <h4 className={`text-sm sm:text-lg font-medium mb-1 ${band ? band.textClass : 'text-gray-400'}`}>
+            {assessment ? assessment.riskLevel : 'Capture a lift origin and destination'}
+          </h4>
+          {assessment && (
+            <p className="text-text-secondary text-xs sm:text-sm">
+              Lifting Index (load {inputs.loadKg} kg, travel {assessment.travelDistanceCm} cm)
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
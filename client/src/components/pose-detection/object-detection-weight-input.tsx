@@ -3,10 +3,12 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { initializeObjectDetection, detectObjects, type DetectedObject } from '@/lib/object-detection';
+import { estimateObjectSize, getPixelsPerCm, type ObjectSizeEstimate, type ScaleCalibration } from '@/lib/scale-calibration';
 import { ManualWeight } from './manual-weight-input';
 
 interface ObjectWithCrop extends DetectedObject {
   croppedImage: string;
+  size?: ObjectSizeEstimate; // Only when the frame could be scaled to centimetres
 }
 
 interface ObjectDetectionWeightInputProps {
@@ -21,6 +23,7 @@ interface ObjectDetectionWeightInputProps {
     poseData: any;
     hasObject?: boolean;
   }>;
+  scaleCalibration?: ScaleCalibration;
 }
 
 export default function ObjectDetectionWeightInput({
@@ -29,7 +32,8 @@ export default function ObjectDetectionWeightInput({
   videoRef,
   currentPoseData,
   isVisible,
-  recordedFrames = []
+  recordedFrames = [],
+  scaleCalibration
 }: ObjectDetectionWeightInputProps) {
   const [isModelLoaded, setIsModelLoaded] = useState(false);
   const [detectedObjects, setDetectedObjects] = useState<ObjectWithCrop[]>([]);
@@ -123,6 +127,13 @@ export default function ObjectDetectionWeightInput({
     });
   };
 
+  // Object size in centimetres, scaled from the pose seen in the same frame
+  const measureObject = (obj: DetectedObject, poseData: any): ObjectSizeEstimate | undefined => {
+    if (!scaleCalibration || !poseData?.keypoints) return undefined;
+    const pxPerCm = getPixelsPerCm(scaleCalibration, poseData.keypoints);
+    return pxPerCm ? estimateObjectSize(obj.bbox, obj.category, pxPerCm) : undefined;
+  };
+
   const analyzeAllRecordedFrames = async () => {
     if (!isModelLoaded || recordedFrames.length === 0) {
       console.log('Model not ready or no recorded frames:', { 
@@ -163,6 +174,7 @@ export default function ObjectDetectionWeightInput({
                 allObjectsWithCrops.push({
                   ...obj,
                   croppedImage,
+                  size: measureObject(obj, frame.poseData),
                   // Add frame info to distinguish objects from different frames
                   frameIndex: i,
                   frameTimestamp: frame.timestamp
@@ -209,7 +221,8 @@ export default function ObjectDetectionWeightInput({
             if (croppedImage) {
               uniqueObjects.push({
                 ...obj,
-                croppedImage
+                croppedImage,
+                size: measureObject(obj, currentPoseData)
               });
             }
           }
@@ -349,6 +362,19 @@ export default function ObjectDetectionWeightInput({
                               <span> • Frame: {Math.round((obj as any).frameTimestamp / 1000)}s</span>
                             )}
                           </div>
+                          {obj.size && (
+                            <div className="text-sm text-gray-400 flex items-center space-x-2">
+                              <span>
+                                About {obj.size.widthCm} × {obj.size.heightCm} cm, size suggests ~{obj.size.estimatedWeight} g
+                              </span>
+                              <button
+                                onClick={() => handleWeightChange(objectId, String(obj.size!.estimatedWeight))}
+                                className="text-xs text-blue-400 hover:text-blue-300"
+                              >
+                                Use
+                              </button>
+                            </div>
+                          )}
                         </div>
 
                         {/* Weight Input */}
@@ -0,0 +1,124 @@
+import React from 'react';
+import { getRiskBand, OWAS_CATEGORY_LABELS, type OwasBodyPart, type OwasOptions } from '@/lib/scoring';
+
+interface OwasAssessmentProps {
+  owasScore: any;
+  isProcessing: boolean;
+  owasOptions?: OwasOptions;
+  onOwasOptionsChange?: (options: OwasOptions) => void;
+}
+
+const BODY_PARTS: { key: OwasBodyPart; label: string; icon: string; color: string }[] = [
+  { key: 'back', label: 'Back', icon: 'accessibility_new', color: 'text-red-500' },
+  { key: 'arms', label: 'Arms', icon: 'pan_tool', color: 'text-blue-500' },
+  { key: 'legs', label: 'Legs', icon: 'directions_walk', color: 'text-teal-500' },
+  { key: 'load', label: 'Load', icon: 'fitness_center', color: 'text-orange-500' }
+];
+
+export default function OwasAssessment({
+  owasScore,
+  isProcessing,
+  owasOptions = {},
+  onOwasOptionsChange
+}: OwasAssessmentProps) {
+  const riskBand = owasScore ? getRiskBand('OWAS', owasScore.actionCategory) : null;
+
+  return (
+    <div className="bg-dark-card rounded-lg shadow-lg p-4 sm:p-6 mb-4 sm:mb-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between mb-4 sm:mb-6 gap-2 sm:gap-0">
+        <h3 className="text-base sm:text-xl font-medium flex items-center space-x-2">
+          <span className="material-icon text-orange-500 text-lg sm:text-2xl">assessment</span>
+          <span>OWAS Posture Classification</span>
+        </h3>
+        <div className="flex items-center space-x-2">
+          <div className={`w-2 h-2 sm:w-3 sm:h-3 rounded-full ${isProcessing ? 'bg-green-500 animate-pulse' : 'bg-gray-500'}`}></div>
+          <span className="text-xs sm:text-sm text-text-secondary">
+            {isProcessing ? 'Real-time Analysis' : 'Waiting for pose data'}
+          </span>
+        </div>
+      </div>
+
+      {/* Posture code and action category */}
+      <div className="grid grid-cols-2 gap-4 sm:gap-6 mb-4 sm:mb-6">
+        <div className="text-center">
+          <div className="bg-material-blue h-16 sm:h-24 rounded-lg flex items-center justify-center mx-auto mb-2 sm:mb-3 max-w-[160px]">
+            <span className="text-xl sm:text-3xl font-bold font-mono tracking-widest text-white">
+              {owasScore ? owasScore.code : '----'}
+            </span>
+          </div>
+          <h4 className="text-sm sm:text-lg font-medium mb-1">Posture Code</h4>
+          <p className="text-text-secondary text-xs sm:text-sm">Back · Arms · Legs · Load</p>
+        </div>
+
+        <div className="text-center">
+          <div className={`w-16 h-16 sm:w-24 sm:h-24 rounded-full flex items-center justify-center mx-auto mb-2 sm:mb-3 ${
+            riskBand ? riskBand.bgClass : 'bg-gray-500'
+          }`}>
+            <span className="text-xl sm:text-3xl font-bold text-white">
+              {owasScore ? `AC${owasScore.actionCategory}` : '--'}
+            </span>
+          </div>
+          <h4 className={`text-sm sm:text-lg font-medium mb-1 ${riskBand ? riskBand.textClass : 'text-gray-400'}`}>
+            {riskBand ? riskBand.label : 'No Data'}
+          </h4>
+          <p className="text-text-secondary text-xs sm:text-sm">Action category</p>
+        </div>
+      </div>
+
+      {/* Body part classes */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 sm:gap-4">
+        {BODY_PARTS.map(part => (
+          <div key={part.key} className="bg-dark-secondary rounded-lg p-3 sm:p-4">
+            <div className="flex items-center justify-between mb-1 sm:mb-2">
+              <span className="text-xs sm:text-sm text-text-secondary">{part.label}</span>
+              <span className={`material-icon ${part.color} text-sm sm:text-lg`}>{part.icon}</span>
+            </div>
+            <div className="text-lg sm:text-2xl font-bold mb-1">
+              {owasScore?.[part.key] || '--'}
+            </div>
+            <div className="text-[10px] sm:text-xs text-text-secondary">
+              {owasScore ? OWAS_CATEGORY_LABELS[part.key][owasScore[part.key] - 1] : '--'}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Inputs the camera cannot observe */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 sm:gap-4 mt-4 sm:mt-6">
+        <div className="bg-dark-secondary rounded-lg p-3 sm:p-4">
+          <label className="block text-xs sm:text-sm text-text-secondary mb-2">Load / force (kg)</label>
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={owasOptions.loadKg ?? ''}
+            placeholder="Auto (estimated)"
+            onChange={(e) => onOwasOptionsChange?.({
+              ...owasOptions,
+              loadKg: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0)
+            })}
+            disabled={!onOwasOptionsChange}
+            className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full"
+          />
+        </div>
+
+        <div className="bg-dark-secondary rounded-lg p-3 sm:p-4">
+          <label className="flex items-center space-x-2 text-xs sm:text-sm">
+            <input
+              type="checkbox"
+              checked={!!owasOptions.moving}
+              onChange={(e) => onOwasOptionsChange?.({ ...owasOptions, moving: e.target.checked })}
+              disabled={!onOwasOptionsChange}
+            />
+            <span>Worker is walking or moving (legs class 7)</span>
+          </label>
+          {owasScore && (
+            <div className="text-[10px] sm:text-xs text-text-secondary mt-2">
+              Trunk {owasScore.trunkAngle}° · knee {owasScore.kneeAngle}°
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
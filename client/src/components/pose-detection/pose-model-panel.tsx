@@ -0,0 +1,83 @@
+import React from 'react';
+import {
+  POSE_BACKENDS,
+  POSE_MODELS,
+  type PoseBackend,
+  type PoseDetector,
+  type PoseModelId,
+  type PoseModelSettings
+} from '@/lib/pose-detection';
+
+interface PoseModelPanelProps {
+  settings: PoseModelSettings;
+  onSettingsChange: (settings: PoseModelSettings) => void;
+  poseDetector: PoseDetector | null;
+  isLoading: boolean;
+  fps: number;
+}
+
+export default function PoseModelPanel({ settings, onSettingsChange, poseDetector, isLoading, fps }: PoseModelPanelProps) {
+  const isMulti = settings.detectionMode === 'multi';
+  const backendFellBack = poseDetector && poseDetector.backend !== settings.backend;
+
+  return (
+    <div className="bg-dark-card rounded-lg shadow-lg p-4 sm:p-6 mb-4 sm:mb-6">
+      <h3 className="text-base sm:text-xl font-medium flex items-center space-x-2 mb-4">
+        <span className="material-icon text-orange-400 text-lg sm:text-2xl">memory</span>
+        <span>Pose Model</span>
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2 sm:gap-3">
+        <div className="bg-dark-secondary rounded-lg p-3">
+          <label className="block text-xs text-text-secondary mb-2">Model</label>
+          <select
+            value={settings.model}
+            onChange={(e) => onSettingsChange({ ...settings, model: e.target.value as PoseModelId })}
+            disabled={isLoading || isMulti}
+            className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full disabled:opacity-50"
+          >
+            {POSE_MODELS.map(model => (
+              <option key={model.id} value={model.id}>{model.label}</option>
+            ))}
+          </select>
+          <p className="text-xs text-text-secondary mt-1">
+            {isMulti
+              ? 'Multi-person mode always uses MoveNet MultiPose Lightning.'
+              : POSE_MODELS.find(model => model.id === settings.model)?.description}
+          </p>
+        </div>
+
+        <div className="bg-dark-secondary rounded-lg p-3">
+          <label className="block text-xs text-text-secondary mb-2">Backend</label>
+          <select
+            value={settings.backend}
+            onChange={(e) => onSettingsChange({ ...settings, backend: e.target.value as PoseBackend })}
+            disabled={isLoading}
+            className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full disabled:opacity-50"
+          >
+            {POSE_BACKENDS.map(backend => (
+              <option key={backend.id} value={backend.id}>{backend.label}</option>
+            ))}
+          </select>
+          {backendFellBack && (
+            <p className="text-xs text-yellow-400 mt-1">Not available here, running on {poseDetector.backend.toUpperCase()}.</p>
+          )}
+        </div>
+
+        <div className="bg-dark-secondary rounded-lg p-3">
+          <label className="block text-xs text-text-secondary mb-2">Loaded</label>
+          {isLoading || !poseDetector ? (
+            <p className="text-sm text-text-secondary">Loading model...</p>
+          ) : (
+            <div className="text-sm space-y-1">
+              <div>{poseDetector.model.label} on {poseDetector.backend.toUpperCase()}</div>
+              <div className="text-xs text-text-secondary">
+                {fps} FPS{poseDetector.model.has3D ? ' · 3D landmarks' : ''}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,33 +1,69 @@
 import React from 'react';
 import { generatePostureAnalysis, getRiskBorderColor } from '@/lib/posture-analysis';
+import {
+  BODY_SIDES,
+  BODY_SIDE_LABELS,
+  getRiskBand,
+  type AssessmentMode,
+  type BodySide,
+  type CouplingQuality,
+  type RebaActivity,
+  type RebaOptions,
+  type RulaLoadPattern,
+  type RulaOptions
+} from '@/lib/scoring';
 
 interface RebaAssessmentProps {
   rebaScore: any;
   poseData: any;
   isProcessing: boolean;
-  assessmentMode?: 'RULA' | 'REBA';
+  assessmentMode?: AssessmentMode;
+  rebaOptions?: RebaOptions;
+  onRebaOptionsChange?: (options: RebaOptions) => void;
+  rulaOptions?: RulaOptions;
+  onRulaOptionsChange?: (options: RulaOptions) => void;
 }
 
-export default function RebaAssessment({ rebaScore, poseData, isProcessing, assessmentMode = 'REBA' }: RebaAssessmentProps) {
+const COUPLING_OPTIONS: { value: CouplingQuality; label: string }[] = [
+  { value: 'good', label: 'Good (0) - well fitting handle' },
+  { value: 'fair', label: 'Fair (+1) - acceptable but not ideal' },
+  { value: 'poor', label: 'Poor (+2) - not acceptable' },
+  { value: 'unacceptable', label: 'Unacceptable (+3) - no handles, unsafe' }
+];
+
+const ACTIVITY_OPTIONS: { key: keyof RebaActivity; label: string }[] = [
+  { key: 'staticPosture', label: 'Static posture held >1 min' },
+  { key: 'repeatedActions', label: 'Repeated actions >4x per min' },
+  { key: 'rapidChanges', label: 'Rapid large posture changes' }
+];
+
+const LOAD_PATTERN_OPTIONS: { value: RulaLoadPattern; label: string }[] = [
+  { value: 'intermittent', label: 'Intermittent' },
+  { value: 'static', label: 'Static (held)' },
+  { value: 'repeated', label: 'Repeated' },
+  { value: 'shock', label: 'Shock / rapid build-up' }
+];
+
+export default function RebaAssessment({
+  rebaScore,
+  poseData,
+  isProcessing,
+  assessmentMode = 'REBA',
+  rebaOptions = {},
+  onRebaOptionsChange,
+  rulaOptions = {},
+  onRulaOptionsChange
+}: RebaAssessmentProps) {
   const getRiskLevelColor = (score: number) => {
-    if (score <= 2) return 'bg-reba-safe';
-    if (score <= 4) return 'bg-reba-investigate';
-    if (score <= 6) return 'bg-reba-change-soon';
-    return 'bg-reba-change-asap';
+    return getRiskBand(assessmentMode, score).bgClass;
   };
 
   const getRiskLevelText = (score: number) => {
-    if (score <= 2) return 'Acceptable';
-    if (score <= 4) return 'Investigate';
-    if (score <= 6) return 'Investigate & Change Soon';
-    return 'Investigate & Change ASAP';
+    return getRiskBand(assessmentMode, score).label;
   };
 
   const getRiskLevelTextColor = (score: number) => {
-    if (score <= 2) return 'text-reba-safe';
-    if (score <= 4) return 'text-reba-investigate';
-    if (score <= 6) return 'text-reba-change-soon';
-    return 'text-reba-change-asap';
+    return getRiskBand(assessmentMode, score).textClass;
   };
 
   const getScoreProgress = (score: number, max: number) => {
@@ -79,7 +115,7 @@ export default function RebaAssessment({ rebaScore, poseData, isProcessing, asse
       </div>
 
       {/* Detailed Metrics */}
-      <div className={`grid grid-cols-2 gap-2 sm:gap-4 ${assessmentMode === 'REBA' ? 'sm:grid-cols-3 md:grid-cols-5' : 'sm:grid-cols-2 md:grid-cols-4'}`}>
+      <div className="grid grid-cols-2 gap-2 sm:gap-4 sm:grid-cols-3 md:grid-cols-6">
         <div className="bg-dark-secondary rounded-lg p-3 sm:p-4">
           <div className="flex items-center justify-between mb-1 sm:mb-2">
             <span className="text-xs sm:text-sm text-text-secondary">Upper Arm</span>
@@ -91,7 +127,7 @@ export default function RebaAssessment({ rebaScore, poseData, isProcessing, asse
           <div className="w-full bg-gray-700 rounded-full h-1.5 sm:h-2">
             <div 
               className="bg-green-500 h-1.5 sm:h-2 rounded-full transition-all duration-300" 
-              style={{width: `${rebaScore ? getScoreProgress(rebaScore.upperArm, 4) : 0}%`}}
+              style={{width: `${rebaScore ? getScoreProgress(rebaScore.upperArm, 6) : 0}%`}}
             ></div>
           </div>
         </div>
@@ -107,7 +143,7 @@ export default function RebaAssessment({ rebaScore, poseData, isProcessing, asse
           <div className="w-full bg-gray-700 rounded-full h-1.5 sm:h-2">
             <div 
               className="bg-yellow-500 h-1.5 sm:h-2 rounded-full transition-all duration-300" 
-              style={{width: `${rebaScore ? getScoreProgress(rebaScore.lowerArm, 2) : 0}%`}}
+              style={{width: `${rebaScore ? getScoreProgress(rebaScore.lowerArm, assessmentMode === 'REBA' ? 2 : 3) : 0}%`}}
             ></div>
           </div>
         </div>
@@ -123,7 +159,7 @@ export default function RebaAssessment({ rebaScore, poseData, isProcessing, asse
           <div className="w-full bg-gray-700 rounded-full h-1.5 sm:h-2">
             <div 
               className="bg-green-500 h-1.5 sm:h-2 rounded-full transition-all duration-300" 
-              style={{width: `${rebaScore ? getScoreProgress(rebaScore.wrist, 2) : 0}%`}}
+              style={{width: `${rebaScore ? getScoreProgress(rebaScore.wrist, assessmentMode === 'REBA' ? 2 : 4) : 0}%`}}
             ></div>
           </div>
         </div>
@@ -139,32 +175,257 @@ export default function RebaAssessment({ rebaScore, poseData, isProcessing, asse
           <div className="w-full bg-gray-700 rounded-full h-1.5 sm:h-2">
             <div 
               className="bg-yellow-500 h-1.5 sm:h-2 rounded-full transition-all duration-300" 
-              style={{width: `${rebaScore ? getScoreProgress(rebaScore.neck, 4) : 0}%`}}
+              style={{width: `${rebaScore ? getScoreProgress(rebaScore.neck, assessmentMode === 'REBA' ? 3 : 6) : 0}%`}}
+            ></div>
+          </div>
+        </div>
+
+        <div className="bg-dark-secondary rounded-lg p-3 sm:p-4">
+          <div className="flex items-center justify-between mb-1 sm:mb-2">
+            <span className="text-xs sm:text-sm text-text-secondary">Trunk</span>
+            <span className="material-icon text-red-500 text-sm sm:text-lg">accessibility_new</span>
+          </div>
+          <div className="text-lg sm:text-2xl font-bold mb-1">
+            {rebaScore?.trunk || '--'}
+          </div>
+          <div className="w-full bg-gray-700 rounded-full h-1.5 sm:h-2">
+            <div 
+              className="bg-green-500 h-1.5 sm:h-2 rounded-full transition-all duration-300" 
+              style={{width: `${rebaScore ? getScoreProgress(rebaScore.trunk, assessmentMode === 'REBA' ? 5 : 6) : 0}%`}}
             ></div>
           </div>
         </div>
 
-        {assessmentMode === 'REBA' && (
-          <div className="bg-dark-secondary rounded-lg p-3 sm:p-4 col-span-2 sm:col-span-1">
-            <div className="flex items-center justify-between mb-1 sm:mb-2">
-              <span className="text-xs sm:text-sm text-text-secondary">Trunk</span>
-              <span className="material-icon text-red-500 text-sm sm:text-lg">accessibility_new</span>
+        <div className="bg-dark-secondary rounded-lg p-3 sm:p-4">
+          <div className="flex items-center justify-between mb-1 sm:mb-2">
+            <span className="text-xs sm:text-sm text-text-secondary">Legs</span>
+            <span className="material-icon text-teal-500 text-sm sm:text-lg">directions_walk</span>
+          </div>
+          <div className="text-lg sm:text-2xl font-bold mb-1">
+            {rebaScore?.legs || '--'}
+          </div>
+          <div className="w-full bg-gray-700 rounded-full h-1.5 sm:h-2">
+            <div 
+              className="bg-green-500 h-1.5 sm:h-2 rounded-full transition-all duration-300" 
+              style={{width: `${rebaScore ? getScoreProgress(rebaScore.legs, assessmentMode === 'REBA' ? 4 : 2) : 0}%`}}
+            ></div>
+          </div>
+          {rebaScore && assessmentMode === 'REBA' && (
+            <div className="text-[10px] sm:text-xs text-text-secondary mt-1">
+              {rebaScore.legSupport === 'unilateral' ? 'Unilateral' : 'Bilateral'} · knee {rebaScore.kneeAngle}°
             </div>
-            <div className="text-lg sm:text-2xl font-bold mb-1">
-              {rebaScore?.trunk || '--'}
+          )}
+          {rebaScore && assessmentMode === 'RULA' && (
+            <div className="text-[10px] sm:text-xs text-text-secondary mt-1">
+              {rebaScore.legs === 1 ? 'Supported' : 'Not supported'}
             </div>
-            <div className="w-full bg-gray-700 rounded-full h-1.5 sm:h-2">
-              <div 
-                className="bg-green-500 h-1.5 sm:h-2 rounded-full transition-all duration-300" 
-                style={{width: `${rebaScore ? getScoreProgress(rebaScore.trunk, 4) : 0}%`}}
-              ></div>
+          )}
+        </div>
+      </div>
+
+      {/* Left / right arm breakdown; the final score follows the worse side */}
+      {rebaScore?.sides && assessmentMode !== 'OWAS' && (
+        <div className="bg-dark-secondary rounded-lg p-3 sm:p-4 mt-4 sm:mt-6">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs sm:text-sm text-text-secondary">Left / right arms</span>
+            <span className="text-[10px] sm:text-xs text-text-secondary">
+              Final score from the {BODY_SIDE_LABELS[rebaScore.side as BodySide].toLowerCase()} side
+            </span>
+          </div>
+          <table className="w-full text-xs sm:text-sm">
+            <thead>
+              <tr className="text-text-secondary">
+                <th className="text-left font-normal py-1">Side</th>
+                <th className="text-center font-normal py-1">Upper Arm</th>
+                <th className="text-center font-normal py-1">Lower Arm</th>
+                <th className="text-center font-normal py-1">Wrist</th>
+                <th className="text-center font-normal py-1">{assessmentMode === 'REBA' ? 'Table B' : 'Table A'}</th>
+                <th className="text-center font-normal py-1">Score</th>
+              </tr>
+            </thead>
+            <tbody>
+              {BODY_SIDES.map(side => {
+                const sideScore = rebaScore.sides[side];
+                const isScoredSide = rebaScore.side === side;
+                return (
+                  <tr key={side} className={isScoredSide ? 'font-semibold' : ''}>
+                    <td className="py-1">{BODY_SIDE_LABELS[side]}{isScoredSide && ' ●'}</td>
+                    {sideScore ? (
+                      <>
+                        <td className="text-center py-1" title={`${sideScore.upperArmAngle.toFixed(0)}°`}>{sideScore.upperArm}</td>
+                        <td className="text-center py-1" title={`${sideScore.lowerArmAngle.toFixed(0)}°`}>{sideScore.lowerArm}</td>
+                        <td className="text-center py-1" title={`${sideScore.wristAngle.toFixed(0)}°`}>{sideScore.wrist}</td>
+                        <td className="text-center py-1">{assessmentMode === 'REBA' ? sideScore.scoreB : sideScore.scoreA}</td>
+                        <td className={`text-center py-1 ${getRiskLevelTextColor(sideScore.finalScore)}`}>{sideScore.finalScore}</td>
+                      </>
+                    ) : (
+                      <td colSpan={5} className="text-center py-1 text-text-secondary">Not visible</td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* REBA worksheet: coupling, activity and table scores */}
+      {assessmentMode === 'REBA' && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 sm:gap-4 mt-4 sm:mt-6">
+          <div className="bg-dark-secondary rounded-lg p-3 sm:p-4">
+            <label className="block text-xs sm:text-sm text-text-secondary mb-2">Coupling</label>
+            <select
+              value={rebaOptions.coupling ?? 'good'}
+              onChange={(e) => onRebaOptionsChange?.({ ...rebaOptions, coupling: e.target.value as CouplingQuality })}
+              disabled={!onRebaOptionsChange}
+              className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full"
+            >
+              {COUPLING_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <label className="block text-xs sm:text-sm text-text-secondary mt-3 mb-2">Load / force (kg)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={rebaOptions.loadKg ?? ''}
+              placeholder="0"
+              onChange={(e) => onRebaOptionsChange?.({
+                ...rebaOptions,
+                loadKg: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0)
+              })}
+              disabled={!onRebaOptionsChange}
+              className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full"
+            />
+            <label className="flex items-center space-x-2 text-xs sm:text-sm mt-2">
+              <input
+                type="checkbox"
+                checked={!!rebaOptions.loadShock}
+                onChange={(e) => onRebaOptionsChange?.({ ...rebaOptions, loadShock: e.target.checked })}
+                disabled={!onRebaOptionsChange}
+              />
+              <span>Shock or rapid build-up of force (+1)</span>
+            </label>
+          </div>
+
+          <div className="bg-dark-secondary rounded-lg p-3 sm:p-4">
+            <span className="block text-xs sm:text-sm text-text-secondary mb-2">Activity (+1 each)</span>
+            <div className="space-y-1">
+              {ACTIVITY_OPTIONS.map(option => (
+                <label key={option.key} className="flex items-center space-x-2 text-xs sm:text-sm">
+                  <input
+                    type="checkbox"
+                    checked={!!rebaOptions.activity?.[option.key]}
+                    onChange={(e) => onRebaOptionsChange?.({
+                      ...rebaOptions,
+                      activity: { ...rebaOptions.activity, [option.key]: e.target.checked }
+                    })}
+                    disabled={!onRebaOptionsChange}
+                  />
+                  <span>{option.label}</span>
+                </label>
+              ))}
             </div>
           </div>
-        )}
-      </div>
 
-      
+          <div className="bg-dark-secondary rounded-lg p-3 sm:p-4 text-xs sm:text-sm space-y-1">
+            <div className="flex justify-between">
+              <span className="text-text-secondary">Table A + load/force</span>
+              <span className="font-mono">{rebaScore ? `${rebaScore.scoreA - rebaScore.forceLoad} + ${rebaScore.forceLoad}` : '--'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-text-secondary">Table B + coupling</span>
+              <span className="font-mono">{rebaScore ? `${rebaScore.scoreB - rebaScore.coupling} + ${rebaScore.coupling}` : '--'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-text-secondary">Table C + activity</span>
+              <span className="font-mono">{rebaScore ? `${rebaScore.scoreC} + ${rebaScore.activity}` : '--'}</span>
+            </div>
+            <div className="flex justify-between font-semibold">
+              <span>REBA Score</span>
+              <span className="font-mono">{rebaScore?.finalScore ?? '--'}</span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* RULA worksheet: muscle use, force/load, legs and table scores */}
+      {assessmentMode === 'RULA' && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 sm:gap-4 mt-4 sm:mt-6">
+          <div className="bg-dark-secondary rounded-lg p-3 sm:p-4 space-y-2">
+            <label className="flex items-center space-x-2 text-xs sm:text-sm">
+              <input
+                type="checkbox"
+                checked={!!rulaOptions.muscleUse}
+                onChange={(e) => onRulaOptionsChange?.({ ...rulaOptions, muscleUse: e.target.checked })}
+                disabled={!onRulaOptionsChange}
+              />
+              <span>Muscle use (+1) - static &gt;1 min or repeated &gt;4x per min</span>
+            </label>
+            <label className="block text-xs sm:text-sm text-text-secondary">Legs and feet</label>
+            <select
+              value={rulaOptions.legsSupported === undefined ? 'auto' : rulaOptions.legsSupported ? 'supported' : 'unsupported'}
+              onChange={(e) => onRulaOptionsChange?.({
+                ...rulaOptions,
+                legsSupported: e.target.value === 'auto' ? undefined : e.target.value === 'supported'
+              })}
+              disabled={!onRulaOptionsChange}
+              className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full"
+            >
+              <option value="auto">Detect from ankles</option>
+              <option value="supported">Supported and balanced (1)</option>
+              <option value="unsupported">Not supported (2)</option>
+            </select>
+          </div>
+
+          <div className="bg-dark-secondary rounded-lg p-3 sm:p-4 space-y-2">
+            <label className="block text-xs sm:text-sm text-text-secondary">Force / load (kg)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={rulaOptions.loadKg ?? ''}
+              placeholder="Auto (estimated)"
+              onChange={(e) => onRulaOptionsChange?.({
+                ...rulaOptions,
+                loadKg: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0)
+              })}
+              disabled={!onRulaOptionsChange}
+              className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full"
+            />
+            <select
+              value={rulaOptions.loadPattern ?? 'intermittent'}
+              onChange={(e) => onRulaOptionsChange?.({ ...rulaOptions, loadPattern: e.target.value as RulaLoadPattern })}
+              disabled={!onRulaOptionsChange}
+              className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full"
+            >
+              {LOAD_PATTERN_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
 
+          <div className="bg-dark-secondary rounded-lg p-3 sm:p-4 text-xs sm:text-sm space-y-1">
+            <div className="flex justify-between">
+              <span className="text-text-secondary">Table A + muscle + force</span>
+              <span className="font-mono">{rebaScore ? `${rebaScore.scoreA} + ${rebaScore.muscleUse} + ${rebaScore.forceLoad}` : '--'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-text-secondary">Table B + muscle + force</span>
+              <span className="font-mono">{rebaScore ? `${rebaScore.scoreB} + ${rebaScore.muscleUse} + ${rebaScore.forceLoad}` : '--'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-text-secondary">Score C / Score D</span>
+              <span className="font-mono">{rebaScore ? `${rebaScore.scoreC} / ${rebaScore.scoreD}` : '--'}</span>
+            </div>
+            <div className="flex justify-between font-semibold">
+              <span>RULA Score</span>
+              <span className="font-mono">{rebaScore?.finalScore ?? '--'}</span>
+            </div>
+          </div>
+        </div>
+      )}
 
     </div>
   );
@@ -1,21 +1,47 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Scatter, ScatterChart } from 'recharts';
 import SkeletonOverlay from './skeleton-overlay';
 import ThreeDView from './three-d-view';
 import ManualWeightInput, { type ManualWeight } from './manual-weight-input';
 import ObjectDetectionWeightInput from './object-detection-weight-input';
+import ActivitySummary from './activity-summary';
+import ExposureSummary from './exposure-summary';
+import TimelinePlayer from './timeline-player';
+import AngleCharts from './angle-charts';
+import FrameAdjustments from './frame-adjustments';
+import TaskSegments from './task-segments';
 
 import * as XLSX from 'xlsx';
 import jsPDF from 'jspdf';
 import JSZip from 'jszip';
 
-import { estimateWeightFromPosture, calculateWeightAdjustedReba } from '@/lib/weight-detection';
+import { estimateWeightFromPosture, calculateWeightAdjustedScore, type WeightEstimation } from '@/lib/weight-detection';
+import { analyzeOwasRecording, BODY_SIDES, BODY_SIDE_LABELS, getAssessmentMethod, getRiskBand, getScoreRiskBand, RISK_BAND_STYLES, type AssessmentMode, type BodySide } from '@/lib/scoring';
 import { generatePostureAnalysis } from '@/lib/posture-analysis';
+import { saveSession, SESSIONS_QUERY_KEY, type SessionTag } from '@/lib/session-api';
+import { queryClient } from '@/lib/queryClient';
+import { getFrameImage, type RecordingSettings, type RecordingSource } from '@/hooks/use-recording';
+import { useFramePlayback } from '@/hooks/use-frame-playback';
+import { DETECTION_STATUS_LABELS, type DetectionStatus } from '@/lib/pose-scoring';
+import type { ScaleCalibration } from '@/lib/scale-calibration';
+import { analyzePostureTimeline, type PostureTimelineSummary } from '@/lib/posture-timeline';
+import { summarizeExposure } from '@/lib/exposure-summary';
+import { buildAngleExportRows } from '@/lib/angle-series';
+import {
+  annotateFrame,
+  buildAnnotationExportRows,
+  buildAuditExportRows,
+  describeAdjustments,
+  hasAssessorChanges,
+  type AnnotationChanges,
+  type FrameAnnotation
+} from '@/lib/frame-annotations';
+import { buildTaskExportRows, summarizeTasks, type TaskSegment } from '@/lib/task-segments';
 
 // Centralized naming system for all downloads
 let downloadCounter = 1;
 
-const generateFileName = (type: 'PDF' | 'Excel' | 'Doc'): string => {
+const generateFileName = (type: 'PDF' | 'Excel' | 'Doc' | 'CSV'): string => {
   const timestamp = new Date().toLocaleString('en-US', {
     year: 'numeric',
     month: '2-digit',
@@ -36,50 +62,92 @@ interface RecordingFrame {
   timestamp: number;
   rebaScore: any;
   imageData: string;
+  mirrored?: boolean;
   poseData: any;
+  confidence: number;
+  detectionStatus: DetectionStatus;
   weightEstimation?: any;
   adjustedRebaScore?: any;
   hasObject?: boolean;
+  annotation?: FrameAnnotation;
 }
 
 interface RecordingPanelProps {
   isRecording: boolean;
   recordingData: RecordingFrame[];
   recordingProgress: number;
+  recordingElapsed?: number;
+  recordingSettings?: RecordingSettings;
+  onRecordingSettingsChange?: (settings: RecordingSettings) => void;
+  detectorFps?: number;
   onStartRecording: () => void;
   onStopRecording: () => void;
   onClearRecording: () => void;
   currentPoseData?: any;
   currentRebaScore?: any;
   videoRef?: React.RefObject<HTMLVideoElement>;
-  assessmentMode?: 'RULA' | 'REBA';
+  assessmentMode?: AssessmentMode;
+  recordingSource?: RecordingSource;
+  loadedManualWeights?: ManualWeight[];
+  loadedTaskSegments?: TaskSegment[];
+  sessionTag?: SessionTag;
+  scaleCalibration?: ScaleCalibration;
+  onApplyActivity?: (summary: PostureTimelineSummary) => void;
+  onUpdateFrame?: (frame: RecordingFrame, changes: Partial<RecordingFrame>) => void;
+  assessorName?: string;
 }
 
 
 
+const DURATION_OPTIONS: { value: number | null; label: string }[] = [
+  { value: 30, label: '30 s' },
+  { value: 60, label: '1 min' },
+  { value: 120, label: '2 min' },
+  { value: 300, label: '5 min' },
+  { value: 600, label: '10 min' },
+  { value: null, label: 'Until stopped' }
+];
+const SAMPLE_RATE_OPTIONS = [1, 2, 5, 10, 15, 30];
+const THUMBNAIL_INTERVAL_OPTIONS = [0.5, 1, 2, 5, 10];
+
 type AnalysisMode = 'normal' | 'manual';
 type ViewMode = 'original' | 'skeleton';
-type GraphType = 'live' | 'estimated' | 'manual';
+type GraphType = 'live' | 'estimated' | 'manual' | 'angles';
 
 export default function RecordingPanel({
   isRecording,
   recordingData,
   recordingProgress,
+  recordingElapsed = 0,
+  recordingSettings,
+  onRecordingSettingsChange,
+  detectorFps = 0,
   onStartRecording,
   onStopRecording,
   onClearRecording,
   currentPoseData,
   currentRebaScore,
   videoRef,
-  assessmentMode = 'REBA'
+  assessmentMode = 'REBA',
+  recordingSource = 'live',
+  loadedManualWeights,
+  loadedTaskSegments,
+  sessionTag,
+  scaleCalibration,
+  onApplyActivity,
+  onUpdateFrame,
+  assessorName
 }: RecordingPanelProps) {
-  const [selectedFrame, setSelectedFrame] = useState<RecordingFrame | null>(null);
+  // Selected frame index into recordingData, driven by the timeline player and the charts
+  const playback = useFramePlayback(recordingData, !isRecording && recordingData.length > 0);
   const [analysisMode, setAnalysisMode] = useState<AnalysisMode>('normal');
   const [viewMode, setViewMode] = useState<ViewMode>('original');
   const [activeGraph, setActiveGraph] = useState<GraphType>('live');
   const [manualWeights, setManualWeights] = useState<ManualWeight[]>([]);
   const [showWeightDialog, setShowWeightDialog] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
   const [showSecondObjectDetection, setShowSecondObjectDetection] = useState(false);
+  const [taskSegments, setTaskSegments] = useState<TaskSegment[]>([]);
 
 
   // Separate graph data that only records during recording session
@@ -101,6 +169,11 @@ export default function RecordingPanel({
 
 
 
+  // Playback replays the pose, so show the skeleton over each frame
+  useEffect(() => {
+    if (playback.isPlaying) setViewMode('skeleton');
+  }, [playback.isPlaying]);
+
   // Clear graph data when recording starts
   useEffect(() => {
     if (isRecording) {
@@ -109,6 +182,7 @@ export default function RecordingPanel({
       setRecordingGraphData([]);
       setEstimatedGraphData([]);
       setManualGraphData([]);
+      setTaskSegments([]);
     } else {
       recordingStartTime.current = null;
       recordingStartTimeRef.current = null;
@@ -120,8 +194,9 @@ export default function RecordingPanel({
     if (isRecording && currentPoseData && currentRebaScore && recordingStartTimeRef.current) {
       const elapsedSeconds = (Date.now() - recordingStartTimeRef.current) / 1000;
 
-      // Stop adding data after 60 seconds
-      if (elapsedSeconds <= 60) {
+      // Stop adding data once the configured duration is reached
+      const durationSeconds = recordingSettings?.durationSeconds ?? null;
+      if (durationSeconds === null || elapsedSeconds <= durationSeconds) {
         // Detect objects in the current frame
         const hasObject = currentPoseData.keypoints && estimateWeightFromPosture(currentPoseData.keypoints).estimatedWeight > 0;
 
@@ -138,8 +213,9 @@ export default function RecordingPanel({
         // Estimated weight data
         if (currentPoseData.keypoints) {
           const weightEstimation = estimateWeightFromPosture(currentPoseData.keypoints);
-          const adjustedRebaScore = calculateWeightAdjustedReba(
+          const adjustedRebaScore = getWeightAdjustedScore(
             currentRebaScore,
+            currentPoseData,
             weightEstimation
           );
 
@@ -157,6 +233,37 @@ export default function RecordingPanel({
     }
   }, [isRecording, currentPoseData, currentRebaScore]);
 
+  // Uploaded videos and loaded sessions never stream through the live effect above,
+  // so their graphs are rebuilt from the stored frames
+  useEffect(() => {
+    if (isRecording || recordingSource === 'live') return;
+
+    const scoredFrames = recordingData.filter(frame => frame.rebaScore);
+    setRecordingGraphData(scoredFrames.map(frame => ({
+      time: frame.timestamp,
+      rebaScore: frame.rebaScore.finalScore || 0,
+      stressLevel: frame.rebaScore.stressLevel || 0,
+      riskLevel: frame.rebaScore.riskLevel || 'Unknown',
+      hasObject: !!frame.poseData?.keypoints && estimateWeightFromPosture(frame.poseData.keypoints).estimatedWeight > 0
+    })));
+    setEstimatedGraphData(scoredFrames.filter(frame => frame.poseData?.keypoints).map(frame => {
+      const weightEstimation = estimateWeightFromPosture(frame.poseData.keypoints);
+      const adjustedRebaScore = getWeightAdjustedScore(frame.rebaScore, frame.poseData, weightEstimation);
+      return {
+        time: frame.timestamp,
+        estimatedWeight: weightEstimation.estimatedWeight || 0,
+        confidence: weightEstimation.confidence || 0,
+        rebaScore: adjustedRebaScore.finalScore || 0,
+        hasObject: weightEstimation.estimatedWeight > 0
+      };
+    }));
+  }, [recordingData, recordingSource, isRecording]);
+
+  // A new or cleared recording starts unselected; frame edits keep the selection
+  useEffect(() => {
+    playback.selectFrame(null);
+  }, [recordingData.length, recordingSource]);
+
   const addManualWeightFromInput = (weight: ManualWeight) => {
     setManualWeights(prev => [...prev, {
       id: weight.id,
@@ -189,6 +296,46 @@ export default function RecordingPanel({
     setManualWeights(prev => prev.filter(weight => weight.id !== id));
   };
 
+  // Manual weights are stored in kg here, the weight-detection helpers expect grams
+  const getWeightAdjustedScore = (score: any, pose: any, weightEstimation: WeightEstimation, manualWeightKg?: number) => {
+    const manualWeightGrams = manualWeightKg !== undefined ? manualWeightKg * 1000 : undefined;
+    return calculateWeightAdjustedScore(score, pose?.keypoints, weightEstimation, manualWeightGrams, pose?.keypoints3D);
+  };
+
+  // Manual weights from a loaded session arrive in grams
+  useEffect(() => {
+    if (loadedManualWeights) {
+      setManualWeights(loadedManualWeights.map(weight => ({ ...weight, weight: weight.weight / 1000 })));
+    }
+  }, [loadedManualWeights]);
+
+  useEffect(() => {
+    if (loadedTaskSegments) {
+      setTaskSegments(loadedTaskSegments);
+    }
+  }, [loadedTaskSegments]);
+
+  const saveRecordingSession = async () => {
+    const defaultName = `${assessmentMode} assessment ${new Date().toLocaleString()}`;
+    const name = prompt('Session name', defaultName);
+    if (name === null) return;
+
+    setIsSaving(true);
+    try {
+      const weightsInGrams = manualWeights.map(weight => ({ ...weight, weight: weight.weight * 1000 }));
+      await saveSession(name.trim() || defaultName, assessmentMode, recordingData, weightsInGrams, sessionTag, taskSegments);
+      queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY });
+      if (sessionTag?.workstationId) {
+        queryClient.invalidateQueries({ queryKey: [`/api/workstations/${sessionTag.workstationId}/history`] });
+      }
+    } catch (error) {
+      console.error('Error saving session:', error);
+      alert('Failed to save session. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const getTotalManualWeight = () => {
     return manualWeights.reduce((total, weight) => total + weight.weight, 0);
   };
@@ -206,8 +353,9 @@ export default function RecordingPanel({
       const processedManualData = recordingData.map(frame => {
         if (frame.poseData?.keypoints) {
           const weightEstimation = estimateWeightFromPosture(frame.poseData.keypoints);
-          const adjustedRebaScore = calculateWeightAdjustedReba(
+          const adjustedRebaScore = getWeightAdjustedScore(
             frame.rebaScore,
+            frame.poseData,
             weightEstimation,
             getTotalManualWeight()
           );
@@ -233,12 +381,40 @@ export default function RecordingPanel({
     }
   }, [recordingData, manualWeights]);
 
+  // OWAS action category distribution and time-fraction analysis over the recording
+  const owasSummary = assessmentMode === 'OWAS' && recordingData.length > 0
+    ? analyzeOwasRecording(recordingData.map(frame => frame.rebaScore))
+    : null;
+
+  // Sustained postures, repetitions and rapid changes over the recording
+  const timelineSummary = useMemo(
+    () => recordingData.length > 1 && !isRecording ? analyzePostureTimeline(recordingData, assessmentMode) : null,
+    [recordingData, assessmentMode, isRecording]
+  );
+
+  // Time in each risk band and above each segment's action level
+  const exposureSummary = useMemo(
+    () => recordingData.length > 0 && !isRecording ? summarizeExposure(recordingData, assessmentMode) : null,
+    [recordingData, assessmentMode, isRecording]
+  );
+
+  // Each task rescored with its own load, coupling and activity
+  const taskSummaries = useMemo(
+    () => taskSegments.length > 0 && !isRecording ? summarizeTasks(recordingData, taskSegments, assessmentMode) : [],
+    [recordingData, taskSegments, assessmentMode, isRecording]
+  );
+
+  // Frames an assessor adjusted or annotated, and every change made to them
+  const annotationRows = useMemo(() => buildAnnotationExportRows(recordingData), [recordingData]);
+  const auditRows = useMemo(() => buildAuditExportRows(recordingData), [recordingData]);
+
   // Process recording data with weight analysis
   const processedData = recordingData.map(frame => {
     if (frame.poseData?.keypoints) {
       const weightEstimation = estimateWeightFromPosture(frame.poseData.keypoints);
-      const adjustedRebaScore = calculateWeightAdjustedReba(
+      const adjustedRebaScore = getWeightAdjustedScore(
         frame.rebaScore,
+        frame.poseData,
         weightEstimation,
         analysisMode === 'manual' ? getTotalManualWeight() : undefined
       );
@@ -253,31 +429,43 @@ export default function RecordingPanel({
     return { ...frame, hasObject: false };
   });
 
+  // The manual graph works on the weight-analysed frames, which carry the weight estimate
+  const selectedFrameIndex = playback.frameIndex;
+  const selectedFrame: RecordingFrame | null = selectedFrameIndex === null
+    ? null
+    : (activeGraph === 'manual' ? processedData : recordingData)[selectedFrameIndex] ?? null;
+  const selectedFrameImage = selectedFrameIndex !== null && recordingData[selectedFrameIndex]
+    ? getFrameImage(recordingData, recordingData[selectedFrameIndex])
+    : '';
+
+  // Edits go to the stored frame, which is rescored from its detected score
+  const handleAnnotateFrame = (changes: AnnotationChanges) => {
+    if (selectedFrameIndex === null || !onUpdateFrame) return;
+    const frame = recordingData[selectedFrameIndex];
+    const result = frame && annotateFrame(frame, changes, assessorName);
+    if (result) onUpdateFrame(frame, result);
+  };
+
+  // Chart rows and stored frames share the recording clock, so a click selects the nearest frame
   const handleChartClick = (data: any) => {
     if (data && data.activePayload && data.activePayload[0]) {
-      const timestamp = data.activePayload[0].payload.time;
-
-      // For live and estimated graphs, find frame from recording data
-      if (activeGraph === 'live' || activeGraph === 'estimated') {
-        const frame = recordingData.find(f => {
-          const frameSeconds = (recordingStartTimeRef.current ? 
-            (f.timestamp - recordingStartTimeRef.current) / 1000 : 
-            f.timestamp);
-          return Math.abs(frameSeconds - timestamp) < 0.5; // 0.5 second tolerance
-        });
-        if (frame) {
-          setSelectedFrame(frame);
-        }
-      } else {
-        // For manual analysis
-        const frame = processedData.find(f => f.timestamp === timestamp);
-        if (frame) {
-          setSelectedFrame(frame);
-        }
-      }
+      playback.pause();
+      playback.selectNearestFrame(data.activePayload[0].payload.time);
     }
   };
 
+  // Charts use a category time axis, so the cursor snaps to the row nearest the selected frame
+  const getChartCursor = (rows: Array<{ time: number }>) => {
+    if (!selectedFrame || rows.length === 0) return null;
+    return rows.reduce((nearest, row) =>
+      Math.abs(row.time - selectedFrame.timestamp) < Math.abs(nearest.time - selectedFrame.timestamp) ? row : nearest
+    ).time;
+  };
+  const renderChartCursor = (rows: Array<{ time: number }>) => {
+    const cursor = getChartCursor(rows);
+    return cursor === null ? null : <ReferenceLine x={cursor} stroke="#F9FAFB" strokeDasharray="4 4" />;
+  };
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -345,7 +533,7 @@ export default function RecordingPanel({
           loadDirection: 'front' as const 
         } 
       };
-      return calculateWeightAdjustedReba(frame.rebaScore, frame.weightEstimation || defaultWeightEstimation, totalManualWeight);
+      return getWeightAdjustedScore(frame.rebaScore, frame.poseData, frame.weightEstimation || defaultWeightEstimation, totalManualWeight);
     }
 
 
@@ -391,8 +579,8 @@ export default function RecordingPanel({
     }));
 
     // Prepare Recording Graph Data (Normal)
-    const recordingData = recordingGraphData.map((point, index) => ({
-      'Time (seconds)': index * (60 / recordingGraphData.length), // 60 seconds total
+    const recordingData = recordingGraphData.map(point => ({
+      'Time (seconds)': Number(point.time.toFixed(2)),
       'REBA Score': point.rebaScore,
       'Risk Level': point.riskLevel,
       'Upper Arm Score': point.upperArm || 'N/A',
@@ -403,8 +591,8 @@ export default function RecordingPanel({
     }));
 
     // Prepare Estimated Graph Data with detailed breakdown
-    const estimatedData = estimatedGraphData.map((point, index) => ({
-      'Time (seconds)': index * (60 / estimatedGraphData.length),
+    const estimatedData = estimatedGraphData.map(point => ({
+      'Time (seconds)': Number(point.time.toFixed(2)),
       'Original REBA Score': point.originalRebaScore,
       'Adjusted REBA Score': point.adjustedRebaScore,
       'Estimated Weight (kg)': point.estimatedWeight,
@@ -424,8 +612,8 @@ export default function RecordingPanel({
     }));
 
     // Prepare Manual Graph Data with detailed breakdown
-    const manualData = manualGraphData.map((point, index) => ({
-      'Time (seconds)': index * (60 / manualGraphData.length),
+    const manualData = manualGraphData.map(point => ({
+      'Time (seconds)': Number(point.time.toFixed(2)),
       'Original REBA Score': point.originalRebaScore,
       'Adjusted REBA Score': point.adjustedRebaScore,
       'Manual Weight (kg)': point.manualWeight,
@@ -484,11 +672,106 @@ export default function RecordingPanel({
       XLSX.utils.book_append_sheet(workbook, weightsSheet, 'Manual Objects List');
     }
 
+    if (owasSummary && owasSummary.totalFrames > 0) {
+      const owasData = [
+        ...owasSummary.actionCategoryDistribution.map(row => ({
+          'Body Part': 'All',
+          'Class': `AC${row.actionCategory}`,
+          'Frames': row.frames,
+          'Time (%)': row.percentage,
+          'Action Category': row.actionCategory
+        })),
+        ...owasSummary.timeFractions.map(row => ({
+          'Body Part': row.bodyPart,
+          'Class': `${row.category} - ${row.label}`,
+          'Frames': row.frames,
+          'Time (%)': row.percentage,
+          'Action Category': row.actionCategory
+        }))
+      ];
+      const owasSheet = XLSX.utils.json_to_sheet(owasData);
+      XLSX.utils.book_append_sheet(workbook, owasSheet, 'OWAS Distribution');
+    }
+
+    if (exposureSummary) {
+      const exposureData = [
+        ...exposureSummary.bands.map(row => ({
+          'Measure': `Time in band: ${RISK_BAND_STYLES[row.band].shortLabel}`,
+          'Value': row.percentage,
+          'Unit': '%',
+          'Seconds': row.seconds
+        })),
+        ...exposureSummary.segments.map(row => ({
+          'Measure': `${row.label} above action level (score >= ${row.actionLevel})`,
+          'Value': row.percentage,
+          'Unit': '%',
+          'Seconds': row.seconds
+        })),
+        { 'Measure': 'Peak score', 'Value': exposureSummary.peakScore, 'Unit': 'score', 'Seconds': exposureSummary.peakTime },
+        { 'Measure': '95th percentile score', 'Value': exposureSummary.percentile95, 'Unit': 'score', 'Seconds': '' },
+        { 'Measure': 'Cumulative exposure index', 'Value': exposureSummary.exposureIndex, 'Unit': 'score-min', 'Seconds': exposureSummary.scoredSeconds }
+      ];
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(exposureData), 'Exposure');
+    }
+
+    if (timelineSummary) {
+      const activityData = [
+        ...timelineSummary.sustainedPostures.map(posture => ({
+          'Finding': 'Sustained posture',
+          'Segment': 'Whole body',
+          'Start (s)': posture.startTime,
+          'End (s)': posture.endTime,
+          'Value': `${posture.duration} s, peak ${posture.peakScore}`
+        })),
+        ...timelineSummary.repetitions.map(row => ({
+          'Finding': row.repeated ? 'Repeated action' : 'Repetitions',
+          'Segment': row.label,
+          'Start (s)': '',
+          'End (s)': '',
+          'Value': `${row.repetitions} crossings of ${row.thresholdDeg}°, ${row.perMinute}/min`
+        })),
+        ...timelineSummary.rapidChanges.map(change => ({
+          'Finding': 'Rapid change',
+          'Segment': change.label,
+          'Start (s)': change.startTime,
+          'End (s)': change.endTime,
+          'Value': `${change.changeDeg}°`
+        }))
+      ];
+      if (activityData.length > 0) {
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(activityData), 'Activity');
+      }
+    }
+
+    if (taskSummaries.length > 0) {
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(buildTaskExportRows(taskSummaries, assessmentMode)), 'Tasks');
+    }
+
+    if (annotationRows.length > 0) {
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(annotationRows), 'Assessor Review');
+    }
+
+    if (auditRows.length > 0) {
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(auditRows), 'Audit Trail');
+    }
+
     // Download the file with standardized naming
     const fileName = generateFileName('Excel');
     XLSX.writeFile(workbook, `${fileName}.xlsx`);
   };
 
+  // Raw joint angles and keypoint confidences per frame, for reprocessing in other tools
+  const exportAnglesToCsv = () => {
+    try {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(buildAngleExportRows(recordingData, assessmentMode)), 'Angles');
+      XLSX.writeFile(workbook, `${generateFileName('CSV')}_angles.csv`, { bookType: 'csv' });
+    } catch (error) {
+      console.error('Error exporting angle data:', error);
+      alert('Failed to export angle data. Please try again.');
+    }
+  };
+
   // Download All Images Function - Creates a single PDF with all image formats per frame
   const downloadAllImages = async () => {
     if (recordingData.length === 0) return;
@@ -503,14 +786,16 @@ export default function RecordingPanel({
     pdf.text('ErgoTrack - Complete Image Analysis', pageWidth/2, 30, { align: 'center' });
     pdf.setFontSize(12);
     pdf.text(`Generated: ${new Date().toLocaleString()}`, pageWidth/2, 45, { align: 'center' });
-    pdf.text(`Total Frames: ${recordingData.length}`, pageWidth/2, 55, { align: 'center' });
+    // Pose-only samples have no image of their own, one page per stored thumbnail
+    const imageFrames = recordingData.filter(frame => frame.imageData);
+    pdf.text(`Total Frames: ${imageFrames.length}`, pageWidth/2, 55, { align: 'center' });
     if (manualWeights.length > 0) {
       pdf.text(`Manual Weight: ${(manualWeights.reduce((total, weight) => total + weight.weight, 0) / 1000).toFixed(1)}kg`, pageWidth/2, 65, { align: 'center' });
     }
 
     // Process each recorded frame
-    for (let i = 0; i < recordingData.length; i++) {
-      const frame = recordingData[i];
+    for (let i = 0; i < imageFrames.length; i++) {
+      const frame = imageFrames[i];
       const frameNumber = String(i + 1).padStart(3, '0');
       const timeSeconds = frame.timestamp.toFixed(1);
       
@@ -554,7 +839,7 @@ export default function RecordingPanel({
       if (frame.poseData && frame.rebaScore) {
         try {
           console.log(`Frame ${frameNumber}: Attempting skeleton generation - poseData:`, frame.poseData, 'rebaScore:', frame.rebaScore);
-          const skeletonCanvas = await createSkeletonImage(frame.imageData, frame.poseData, frame.rebaScore);
+          const skeletonCanvas = await createSkeletonImage(frame.imageData, frame.poseData, frame.rebaScore, !!frame.mirrored);
           if (skeletonCanvas) {
             const pos = positions[1];
             const skeletonImageData = skeletonCanvas.toDataURL('image/jpeg', 0.8);
@@ -595,9 +880,9 @@ export default function RecordingPanel({
           }
           
           console.log(`Frame ${frameNumber}: Generating estimated weight skeleton - weight: ${weightEstimation.estimatedWeight}kg`);
-          const adjustedRebaScore = calculateWeightAdjustedReba(frame.rebaScore, weightEstimation);
+          const adjustedRebaScore = getWeightAdjustedScore(frame.rebaScore, frame.poseData, weightEstimation);
           console.log(`Frame ${frameNumber}: Original REBA: ${frame.rebaScore?.finalScore}, Adjusted REBA: ${adjustedRebaScore?.finalScore}`);
-          const estimatedSkeletonCanvas = await createSkeletonImage(frame.imageData, frame.poseData, adjustedRebaScore, 'estimated');
+          const estimatedSkeletonCanvas = await createSkeletonImage(frame.imageData, frame.poseData, adjustedRebaScore, !!frame.mirrored, 'estimated');
           if (estimatedSkeletonCanvas) {
             const pos = positions[2];
             const estimatedImageData = estimatedSkeletonCanvas.toDataURL('image/jpeg', 0.8);
@@ -636,8 +921,8 @@ export default function RecordingPanel({
               loadDirection: 'front' as const 
             } 
           };
-          const manualAdjustedRebaScore = calculateWeightAdjustedReba(frame.rebaScore, manualWeightEstimation, totalManualWeight);
-          const manualSkeletonCanvas = await createSkeletonImage(frame.imageData, frame.poseData, manualAdjustedRebaScore, 'manual');
+          const manualAdjustedRebaScore = getWeightAdjustedScore(frame.rebaScore, frame.poseData, manualWeightEstimation, totalManualWeight);
+          const manualSkeletonCanvas = await createSkeletonImage(frame.imageData, frame.poseData, manualAdjustedRebaScore, !!frame.mirrored, 'manual');
           if (manualSkeletonCanvas) {
             const pos = positions[3];
             const manualImageData = manualSkeletonCanvas.toDataURL('image/jpeg', 0.8);
@@ -674,7 +959,7 @@ export default function RecordingPanel({
   };
 
   // Helper function to create skeleton overlay image
-  const createSkeletonImage = async (originalImageData: string, poseData: any[], rebaScore: any, mode: 'normal' | 'estimated' | 'manual' = 'normal'): Promise<HTMLCanvasElement | null> => {
+  const createSkeletonImage = async (originalImageData: string, poseData: any[], rebaScore: any, mirrored: boolean, mode: 'normal' | 'estimated' | 'manual' = 'normal'): Promise<HTMLCanvasElement | null> => {
     return new Promise((resolve) => {
       const canvas = document.createElement('canvas');
       const ctx = canvas.getContext('2d');
@@ -708,7 +993,7 @@ export default function RecordingPanel({
           
           if (pose && pose.keypoints && Array.isArray(pose.keypoints)) {
             console.log('Drawing skeleton with', pose.keypoints.length, 'keypoints');
-            drawSkeletonOnCanvas(ctx, pose, rebaScore, canvas.width, canvas.height, mode);
+            drawSkeletonOnCanvas(ctx, pose, rebaScore, canvas.width, canvas.height, mirrored, mode);
           } else {
             console.warn('Invalid pose structure:', pose);
             // Draw a fallback skeleton indicator
@@ -732,24 +1017,27 @@ export default function RecordingPanel({
     });
   };
 
-  // Helper function to draw skeleton on canvas
-  const drawSkeletonOnCanvas = (ctx: CanvasRenderingContext2D, pose: any, rebaScore: any, width: number, height: number, mode: string) => {
+  // Helper function to draw skeleton on canvas. The canvas is the frame's own image, so
+  // keypoints map onto it directly and are flipped only for mirrored live thumbnails
+  const drawSkeletonOnCanvas = (ctx: CanvasRenderingContext2D, pose: any, rebaScore: any, width: number, height: number, mirrored: boolean, mode: string) => {
     if (!pose?.keypoints || !Array.isArray(pose.keypoints)) {
       console.warn('Invalid pose data for skeleton drawing:', pose);
       return;
     }
 
+    const toCanvas = (point: any) => {
+      const x = point.x > 1 ? point.x : point.x * width;
+      const y = point.y > 1 ? point.y : point.y * height;
+      return { x: mirrored ? width - x : x, y };
+    };
+
     const keypoints = pose.keypoints;
     const confidenceThreshold = 0.2; // Lower threshold to catch more poses
 
     // Get risk level color with high contrast
     const getRiskColor = (score: number) => {
-      if (score >= 1 && score <= 2) return '#00FF00'; // Bright Green - Low risk
-      if (score >= 3 && score <= 4) return '#FFFF00'; // Bright Yellow - Medium risk  
-      if (score >= 5 && score <= 7) return '#FF8000'; // Bright Orange - High risk
-      if (score >= 8 && score <= 10) return '#FF0000'; // Bright Red - Very high risk
-      if (score >= 11) return '#800000'; // Dark red - Extremely high risk
-      return '#00FFFF'; // Bright Cyan - Default/No score
+      if (score < 1) return '#00FFFF'; // Bright Cyan - Default/No score
+      return getScoreRiskBand({ method: rebaScore?.method, finalScore: score }, assessmentMode).color;
     };
 
     const finalScore = rebaScore?.finalScore || 0;
@@ -794,18 +1082,11 @@ export default function RecordingPanel({
             typeof endPoint.x === 'number' && typeof endPoint.y === 'number') {
           
           ctx.beginPath();
-          // Transform coordinates with proper mirroring to match camera view
-          const startX = startPoint.x > 1 ? startPoint.x : startPoint.x * width;
-          const startY = startPoint.y > 1 ? startPoint.y : startPoint.y * height;
-          const endX = endPoint.x > 1 ? endPoint.x : endPoint.x * width;
-          const endY = endPoint.y > 1 ? endPoint.y : endPoint.y * height;
-          
-          // Mirror X coordinates to match camera display
-          const mirroredStartX = width - startX;
-          const mirroredEndX = width - endX;
-          
-          ctx.moveTo(mirroredStartX, startY);
-          ctx.lineTo(mirroredEndX, endY);
+          const from = toCanvas(startPoint);
+          const to = toCanvas(endPoint);
+
+          ctx.moveTo(from.x, from.y);
+          ctx.lineTo(to.x, to.y);
           ctx.stroke();
           connectionsDrawn++;
         }
@@ -824,13 +1105,8 @@ export default function RecordingPanel({
           typeof point.x === 'number' && typeof point.y === 'number' &&
           visibleKeypoints.includes(index)) {
         ctx.beginPath();
-        const x = point.x > 1 ? point.x : point.x * width;
-        const y = point.y > 1 ? point.y : point.y * height;
-        
-        // Mirror X coordinate to match camera display
-        const mirroredX = width - x;
-        
-        ctx.arc(mirroredX, y, 5, 0, 2 * Math.PI);
+        const { x, y } = toCanvas(point);
+        ctx.arc(x, y, 5, 0, 2 * Math.PI);
         ctx.fill();
         keypointsDrawn++;
       }
@@ -923,26 +1199,24 @@ export default function RecordingPanel({
 
       // Get risk level
       const getRiskLevel = (score: number) => {
-        if (score <= 2) return "Low Risk - Acceptable";
-        if (score <= 4) return "Medium Risk - Investigate";
-        if (score <= 6) return "High Risk - Change Soon";
-        return "Critical Risk - Change Immediately";
+        return getRiskBand(assessmentMode, Math.round(score)).label;
       };
 
       const generateRecommendations = (avgScore: number, hasManualWeights: boolean) => {
         const recommendations = [];
+        const riskBand = getRiskBand(assessmentMode, Math.round(avgScore)).band;
         
-        if (avgScore <= 2) {
+        if (riskBand === 'acceptable') {
           recommendations.push("Low risk detected - posture is generally acceptable");
           recommendations.push("Continue current practices");
           recommendations.push("Monitor for any changes in work conditions");
-        } else if (avgScore <= 4) {
+        } else if (riskBand === 'investigate') {
           recommendations.push("Minor ergonomic concerns detected");
           recommendations.push("Adjust chair height and monitor position");
           recommendations.push("Check keyboard and mouse placement");
           recommendations.push("Take micro-breaks every 20-30 minutes");
           recommendations.push("Consider ergonomic accessories");
-        } else if (avgScore <= 6) {
+        } else if (riskBand === 'change-soon') {
           recommendations.push("Significant ergonomic issues identified");
           recommendations.push("Immediate workspace assessment recommended");
           recommendations.push("Implement regular stretching routine");
@@ -1016,6 +1290,60 @@ export default function RecordingPanel({
     addText(`  Neck: ${avgBodyParts.neck.toFixed(1)} Trunk: ${avgBodyParts.trunk.toFixed(1)}`);
     addText(`  Group A Score: ${avgBodyParts.scoreA.toFixed(1)} Group B Score: ${avgBodyParts.scoreB.toFixed(1)}`);
 
+    // Left and right arms are scored separately; each frame's score follows the worse side
+    const sideLines = BODY_SIDES.map(side => {
+      const sideScores = validFrames.map(frame => frame.rebaScore?.sides?.[side]).filter(Boolean);
+      if (sideScores.length === 0) return `  ${BODY_SIDE_LABELS[side]} arm: not visible`;
+      const average = (key: 'upperArm' | 'lowerArm' | 'wrist' | 'finalScore') =>
+        (sideScores.reduce((sum: number, sideScore: any) => sum + sideScore[key], 0) / sideScores.length).toFixed(1);
+      const worseFrames = validFrames.filter(frame => frame.rebaScore?.side === side).length;
+      return `  ${BODY_SIDE_LABELS[side]} arm: UA ${average('upperArm')} LA ${average('lowerArm')} W ${average('wrist')}, score ${average('finalScore')}, worse side in ${worseFrames} of ${validFrames.length} frames`;
+    });
+    if (validFrames.some(frame => frame.rebaScore?.sides)) {
+      addText("Left / Right Breakdown:");
+      sideLines.forEach(line => addText(line));
+    }
+
+    // One row per task instead of a single score blended over every task
+    if (taskSummaries.length > 0) {
+      addSection("Task-by-Task Risk");
+      const columns = [0, 45, 75, 95, 110, 125, 140];
+      const addRow = (cells: string[], isBold = false) => {
+        if (yPosition > pageHeight - margin) {
+          pdf.addPage();
+          yPosition = margin;
+        }
+        pdf.setFontSize(9);
+        pdf.setFont('helvetica', isBold ? 'bold' : 'normal');
+        cells.forEach((cell, i) => pdf.text(cell, margin + columns[i], yPosition));
+        yPosition += lineHeight;
+      };
+      addRow(['Task', 'Time', 'Load', 'Avg', 'P95', 'Peak', 'Risk'], true);
+      taskSummaries.forEach(summary => {
+        addRow([
+          summary.task.name.slice(0, 24),
+          `${formatTime(summary.task.startTime)}-${formatTime(summary.task.endTime)}`,
+          `${summary.loadKg.toFixed(1)} kg`,
+          String(summary.averageScore),
+          String(summary.exposure?.percentile95 ?? '-'),
+          String(summary.peakScore),
+          summary.scoredFrames > 0 ? RISK_BAND_STYLES[summary.riskBand].shortLabel : 'Not scored'
+        ]);
+      });
+    }
+
+    // Exposure over the whole recording, time-weighted
+    if (exposureSummary) {
+      addSection("Exposure Summary");
+      addText(`Time in band: ${exposureSummary.bands.map(row => `${RISK_BAND_STYLES[row.band].shortLabel} ${row.percentage}%`).join(', ')}`);
+      exposureSummary.segments.forEach(row => {
+        addText(`  ${row.label} above action level: ${row.percentage}% (${Math.round(row.seconds)} s)`);
+      });
+      addText(`Peak score: ${exposureSummary.peakScore} at ${formatTime(exposureSummary.peakTime)} (frame ${exposureSummary.peakFrameIndex + 1})`);
+      addText(`95th percentile score: ${exposureSummary.percentile95}`);
+      addText(`Cumulative exposure index: ${exposureSummary.exposureIndex} score-min over ${formatTime(exposureSummary.scoredSeconds)}`);
+    }
+
     // Manual Weights (if any)
     if (manualWeights.length > 0) {
       yPosition += 3;
@@ -1027,6 +1355,16 @@ export default function RecordingPanel({
       addText(`Total Weight: ${totalWeight.toFixed(1)}kg`);
     }
 
+    // Assessor Review: frames whose score or note was set by hand
+    if (annotationRows.length > 0) {
+      addSection("Assessor Review");
+      annotationRows.forEach(row => {
+        addText(`Frame ${row['Frame']} (${formatTime(Number(row['Time (s)']))}): ${row['Score Source'] === 'assessor' ? `detected ${row['Detected Score']}, final ${row['Final Score']}` : `score ${row['Final Score']}`}`);
+        if (row['Adjustments']) addText(`  Adjusted: ${row['Adjustments']}`);
+        if (row['Note']) addText(`  Note: ${row['Note']}`);
+      });
+    }
+
     // Recommendations
     addSection("Recommendations");
     const recommendations = generateRecommendations(avgRebaScore, manualWeights.length > 0);
@@ -1047,7 +1385,19 @@ export default function RecordingPanel({
           
           addText(`Frame ${index + 1} (${formatTime(timeSeconds)}):`);
           addText(`  REBA Score: ${frame.rebaScore?.finalScore || 0} - ${getRiskLevel(frame.rebaScore?.finalScore || 0)}`);
+          if (hasAssessorChanges(frame.annotation)) {
+            addText(`  Detected Score: ${frame.annotation!.autoScore?.finalScore ?? 0} (adjusted: ${describeAdjustments(frame.annotation)})`);
+          }
+          if (frame.annotation?.note) {
+            addText(`  Note: ${frame.annotation.note}`);
+          }
           addText(`  Body Parts: UA:${frame.rebaScore?.upperArm || 0} LA:${frame.rebaScore?.lowerArm || 0} W:${frame.rebaScore?.wrist || 0} N:${frame.rebaScore?.neck || 0} T:${frame.rebaScore?.trunk || 0}`);
+          if (frame.rebaScore?.side) {
+            addText(`  Scored side: ${BODY_SIDE_LABELS[frame.rebaScore.side as BodySide]}${BODY_SIDES.map(side => {
+              const sideScore = frame.rebaScore.sides?.[side];
+              return sideScore ? ` ${BODY_SIDE_LABELS[side][0]}:${sideScore.finalScore}` : '';
+            }).join('')}`);
+          }
           
           if (frame.hasObject) {
             addText(`  Object detected in this frame`);
@@ -1087,7 +1437,11 @@ export default function RecordingPanel({
               className="bg-red-600 hover:bg-red-700 px-4 py-2 rounded-lg transition-colors flex items-center space-x-2"
             >
               <span className="material-icon">fiber_manual_record</span>
-              <span>Record 1 Min</span>
+              <span>
+                {recordingSettings?.durationSeconds === null
+                  ? 'Record'
+                  : `Record ${DURATION_OPTIONS.find(option => option.value === (recordingSettings?.durationSeconds ?? 60))?.label ?? `${recordingSettings?.durationSeconds} s`}`}
+              </span>
             </button>
           )}
 
@@ -1103,7 +1457,15 @@ export default function RecordingPanel({
 
           {recordingData.length > 0 && !isRecording && (
             <>
-
+              <button
+                onClick={saveRecordingSession}
+                disabled={isSaving}
+                className="bg-teal-600 hover:bg-teal-700 disabled:bg-gray-600 px-4 py-2 rounded-lg transition-colors flex items-center space-x-2"
+                title="Save Session to Server"
+              >
+                <span className="material-icon">save</span>
+                <span>{isSaving ? 'Saving...' : 'Save Session'}</span>
+              </button>
               <button
                 onClick={generatePDFReport}
                 className="bg-blue-600 hover:bg-blue-700 px-4 py-2 rounded-lg transition-colors flex items-center space-x-2"
@@ -1120,6 +1482,14 @@ export default function RecordingPanel({
                 <span className="material-icon">download</span>
                 <span>Export Excel</span>
               </button>
+              <button
+                onClick={exportAnglesToCsv}
+                className="bg-green-600 hover:bg-green-700 px-4 py-2 rounded-lg transition-colors flex items-center space-x-2"
+                title="Export per-frame joint angles and keypoint confidence as CSV"
+              >
+                <span className="material-icon">table_view</span>
+                <span>Export Angles CSV</span>
+              </button>
               <button
                 onClick={downloadAllImages}
                 className="bg-purple-600 hover:bg-purple-700 px-4 py-2 rounded-lg transition-colors flex items-center space-x-2"
@@ -1140,20 +1510,74 @@ export default function RecordingPanel({
         </div>
       </div>
 
+      {/* Recording Settings */}
+      {!isRecording && recordingData.length === 0 && recordingSettings && onRecordingSettingsChange && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-6">
+          <div className="bg-gray-800 rounded-lg p-3">
+            <label className="block text-xs text-text-secondary mb-2">Duration</label>
+            <select
+              value={recordingSettings.durationSeconds ?? ''}
+              onChange={(e) => onRecordingSettingsChange({
+                ...recordingSettings,
+                durationSeconds: e.target.value === '' ? null : Number(e.target.value)
+              })}
+              className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-sm w-full"
+            >
+              {DURATION_OPTIONS.map(option => (
+                <option key={option.label} value={option.value ?? ''}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="bg-gray-800 rounded-lg p-3">
+            <label className="block text-xs text-text-secondary mb-2">Pose samples per second</label>
+            <select
+              value={recordingSettings.sampleRate}
+              onChange={(e) => onRecordingSettingsChange({ ...recordingSettings, sampleRate: Number(e.target.value) })}
+              className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-sm w-full"
+            >
+              {SAMPLE_RATE_OPTIONS.map(rate => (
+                <option key={rate} value={rate}>{rate}/s</option>
+              ))}
+            </select>
+            {detectorFps > 0 && recordingSettings.sampleRate > detectorFps && (
+              <p className="text-xs text-yellow-400 mt-1">Detector runs at {detectorFps} FPS, samples are capped there</p>
+            )}
+          </div>
+          <div className="bg-gray-800 rounded-lg p-3">
+            <label className="block text-xs text-text-secondary mb-2">Image thumbnail every</label>
+            <select
+              value={recordingSettings.thumbnailInterval}
+              onChange={(e) => onRecordingSettingsChange({ ...recordingSettings, thumbnailInterval: Number(e.target.value) })}
+              className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-sm w-full"
+            >
+              {THUMBNAIL_INTERVAL_OPTIONS.map(interval => (
+                <option key={interval} value={interval}>{interval} s</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
       {/* Recording Progress */}
       {isRecording && (
         <div className="mb-6">
           <div className="flex items-center justify-between mb-2">
             <span className="text-sm text-text-secondary">Recording Progress</span>
-            <span className="text-sm font-mono">{Math.round(recordingProgress)}%</span>
+            <span className="text-sm font-mono">
+              {recordingSettings?.durationSeconds === null ? formatTime(recordingElapsed) : `${Math.round(recordingProgress)}%`}
+            </span>
           </div>
           <div className="w-full bg-gray-700 rounded-full h-2">
             <div 
               className="bg-red-500 h-2 rounded-full transition-all duration-300 animate-pulse" 
-              style={{width: `${recordingProgress}%`}}
+              style={{width: `${recordingSettings?.durationSeconds === null ? 100 : recordingProgress}%`}}
             ></div>
           </div>
-          <p className="text-xs text-text-secondary mt-2">Recording for 60 seconds...</p>
+          <p className="text-xs text-text-secondary mt-2">
+            {recordingSettings?.durationSeconds === null
+              ? `Recording until stopped - ${recordingData.length} samples`
+              : `Recording for ${formatTime(recordingSettings?.durationSeconds ?? 60)} - ${recordingData.length} samples`}
+          </p>
         </div>
       )}
 
@@ -1244,6 +1668,19 @@ export default function RecordingPanel({
           >
             Manual Weight Analysis
           </button>
+          <button
+            onClick={() => setActiveGraph('angles')}
+            disabled={recordingData.length === 0}
+            className={`px-4 py-2 rounded-lg transition-colors ${
+              activeGraph === 'angles' && recordingData.length > 0
+                ? 'bg-purple-600 text-white'
+                : recordingData.length === 0
+                ? 'bg-gray-800 text-gray-500 cursor-not-allowed'
+                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            Joint Angles
+          </button>
         </div>
 
         {/* Normal REBA Graph - Only shows data from recording session */}
@@ -1254,11 +1691,12 @@ export default function RecordingPanel({
               <ResponsiveContainer width="100%" height="100%">
                 <LineChart data={recordingGraphData} onClick={handleChartClick}>
                   <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  {renderChartCursor(recordingGraphData)}
                   <XAxis 
                     dataKey="time" 
                     stroke="#9CA3AF"
                     tickFormatter={formatTime}
-                    domain={[0, 60]}
+                    domain={[0, 'dataMax']}
                   />
                   <YAxis 
                     domain={[1, 7]}
@@ -1291,7 +1729,7 @@ export default function RecordingPanel({
               </ResponsiveContainer>
             </div>
             <p className="text-sm text-gray-400 mt-2">
-              Normal {assessmentMode} scores from recording session. Red dots indicate detected objects. Click on points to view frame details.
+              Normal {assessmentMode} scores from recording session. Red dots indicate detected objects. Click on points to view frame details, the dashed line marks the selected frame.
             </p>
           </div>
         )}
@@ -1311,11 +1749,12 @@ export default function RecordingPanel({
                   onClick={handleChartClick}
                 >
                   <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  {renderChartCursor(recordingGraphData)}
                   <XAxis 
                     dataKey="time" 
                     stroke="#9CA3AF"
                     tickFormatter={formatTime}
-                    domain={[0, 60]}
+                    domain={[0, 'dataMax']}
                   />
                   <YAxis 
                     domain={[1, 7]}
@@ -1366,11 +1805,24 @@ export default function RecordingPanel({
               </ResponsiveContainer>
             </div>
             <p className="text-sm text-gray-400 mt-2">
-              Blue line: Live {assessmentMode} scores | Orange line: Weight-adjusted {assessmentMode} scores | Red dots indicate detected objects. Click on points to view frame details.
+              Blue line: Live {assessmentMode} scores | Orange line: Weight-adjusted {assessmentMode} scores | Red dots indicate detected objects. Click on points to view frame details, the dashed line marks the selected frame.
             </p>
           </div>
         )}
 
+        {/* Joint angle time series with the method's threshold ranges shaded */}
+        {activeGraph === 'angles' && recordingData.length > 0 && (
+          <AngleCharts
+            frames={recordingData}
+            assessmentMode={assessmentMode}
+            cursorTime={selectedFrame?.timestamp ?? null}
+            onSelectTime={(time) => {
+              playback.pause();
+              playback.selectNearestFrame(time);
+            }}
+          />
+        )}
+
         {/* Manual Weight Analysis Graph */}
         {activeGraph === 'manual' && recordingData.length > 0 && manualWeights.length > 0 && (
           <div className="bg-gray-800 rounded-lg p-4">
@@ -1379,6 +1831,7 @@ export default function RecordingPanel({
               <ResponsiveContainer width="100%" height="100%">
                 <LineChart data={manualGraphData} onClick={handleChartClick}>
                   <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  {renderChartCursor(manualGraphData)}
                   <XAxis 
                     dataKey="time" 
                     stroke="#9CA3AF"
@@ -1432,7 +1885,7 @@ export default function RecordingPanel({
               </ResponsiveContainer>
             </div>
             <p className="text-sm text-gray-400 mt-2">
-              Gray dashed: Normal {assessmentMode} | Green solid: Manual weight-adjusted {assessmentMode} (Total: {getTotalManualWeight()}kg) | Red dots indicate detected objects.
+              Gray dashed: Normal {assessmentMode} | Green solid: Manual weight-adjusted {assessmentMode} (Total: {getTotalManualWeight()}kg) | Red dots indicate detected objects. The dashed line marks the selected frame.
             </p>
           </div>
         )}
@@ -1440,14 +1893,34 @@ export default function RecordingPanel({
 
 
 
+      {/* Timeline player - plays and steps through every stored frame, live or uploaded */}
+      {recordingData.length > 0 && !isRecording && (
+        <TimelinePlayer
+          frames={recordingData}
+          playback={playback}
+          sourceLabel={recordingSource === 'video' ? 'uploaded video' : undefined}
+        />
+      )}
+
+      {/* Sub-tasks marked on the timeline, each scored on its own */}
+      {recordingData.length > 1 && !isRecording && (
+        <TaskSegments
+          frames={recordingData}
+          tasks={taskSegments}
+          summaries={taskSummaries}
+          onChange={setTaskSegments}
+          assessmentMode={assessmentMode}
+          cursorTime={selectedFrame?.timestamp}
+          onSelectTime={(time) => { playback.pause(); playback.selectNearestFrame(time); }}
+        />
+      )}
+
       {/* Frame Details */}
       {selectedFrame && (
         <div className="space-y-6">
           <div className="flex items-center justify-between">
             <h4 className="text-lg font-medium">
-              Frame at {recordingStartTimeRef.current ? 
-                formatTime((selectedFrame.timestamp - recordingStartTimeRef.current) / 1000) : 
-                formatTime(selectedFrame.timestamp)}
+              Frame at {formatTime(selectedFrame.timestamp)}
             </h4>
             <div className="flex space-x-2">
               <button
@@ -1469,13 +1942,20 @@ export default function RecordingPanel({
             </div>
           </div>
 
+          {selectedFrame.detectionStatus !== 'detected' && (
+            <div className="bg-yellow-900/40 border border-yellow-700 text-yellow-300 rounded-lg px-3 py-2 text-sm flex items-center space-x-2">
+              <span className="material-icon text-base">warning</span>
+              <span>{DETECTION_STATUS_LABELS[selectedFrame.detectionStatus]} on this frame, it is excluded from the risk scores.</span>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <div>
               <div className="relative w-full aspect-video bg-black rounded-lg overflow-hidden">
                 {viewMode === 'original' && (
                   <div className="relative w-full h-full">
                     <img 
-                      src={selectedFrame.imageData} 
+                      src={selectedFrameImage} 
                       alt="Original frame"
                       className="w-full h-full object-contain"
                     />
@@ -1493,13 +1973,13 @@ export default function RecordingPanel({
                       <SkeletonOverlay
                         poseData={selectedFrame.poseData}
                         rebaScore={getCurrentRebaScore(selectedFrame)}
-                        imageData={selectedFrame.imageData}
+                        imageData={selectedFrameImage}
                         width={640}
                         height={360}
                         showColorCoding={true}
                         weightEstimation={getCurrentWeightEstimation(selectedFrame)}
                         skeletonOnly={false}
-                        videoRef={videoRef}
+                        mirrored={selectedFrame.mirrored}
                         assessmentMode={assessmentMode}
                       />
                       <div className="absolute bottom-2 left-2 bg-black/70 text-white px-2 py-1 rounded text-xs">
@@ -1531,53 +2011,40 @@ export default function RecordingPanel({
                           <div>Original Score: {selectedFrame.rebaScore.finalScore}</div>
                           <div>Adjusted Score: {selectedFrame.adjustedRebaScore.finalScore}</div>
                           <div>Weight: {selectedFrame.adjustedRebaScore.effectiveWeight}kg</div>
-                          <div>Multiplier: {selectedFrame.adjustedRebaScore.weightMultiplier}x</div>
+                          <div>Load/Force Score: {selectedFrame.adjustedRebaScore.forceLoad}</div>
                         </div>
                       </div>
                     )}
 
                     <div className="flex justify-between items-center">
-                      <span>Final Score:</span>
+                      <span>
+                        Final Score:
+                        {hasAssessorChanges(selectedFrame.annotation) && (
+                          <span className="ml-2 px-2 py-0.5 bg-yellow-900/20 border border-yellow-700 rounded text-xs text-yellow-400">
+                            Assessor adjusted
+                          </span>
+                        )}
+                      </span>
                       <span className="font-bold text-xl">
                         {getCurrentRebaScore(selectedFrame)?.finalScore}
                       </span>
                     </div>
                     <div className="flex justify-between items-center">
                       <span>Risk Level:</span>
-                      <span className={`font-medium ${
-                        getCurrentRebaScore(selectedFrame)?.finalScore <= 2 ? 'text-green-400' :
-                        getCurrentRebaScore(selectedFrame)?.finalScore <= 4 ? 'text-yellow-400' :
-                        getCurrentRebaScore(selectedFrame)?.finalScore <= 6 ? 'text-orange-400' : 'text-red-400'
-                      }`}>
+                      <span className={`font-medium ${getScoreRiskBand(getCurrentRebaScore(selectedFrame), assessmentMode).textClass}`}>
                         {getCurrentRebaScore(selectedFrame)?.riskLevel}
                       </span>
                     </div>
 
                     <div className="grid grid-cols-2 gap-3 mt-4">
-                      <div className="bg-dark-secondary rounded p-3">
-                        <div className="text-sm text-text-secondary">Upper Arm</div>
-                        <div className="text-lg font-bold">
-                          {getCurrentRebaScore(selectedFrame)?.upperArm}
-                        </div>
-                      </div>
-                      <div className="bg-dark-secondary rounded p-3">
-                        <div className="text-sm text-text-secondary">Lower Arm</div>
-                        <div className="text-lg font-bold">
-                          {getCurrentRebaScore(selectedFrame)?.lowerArm}
-                        </div>
-                      </div>
-                      <div className="bg-dark-secondary rounded p-3">
-                        <div className="text-sm text-text-secondary">Wrist</div>
-                        <div className="text-lg font-bold">
-                          {getCurrentRebaScore(selectedFrame)?.wrist}
-                        </div>
-                      </div>
-                      <div className="bg-dark-secondary rounded p-3">
-                        <div className="text-sm text-text-secondary">Neck</div>
-                        <div className="text-lg font-bold">
-                          {getCurrentRebaScore(selectedFrame)?.neck}
+                      {getAssessmentMethod(selectedFrame.rebaScore.method ?? assessmentMode).segments.map(segment => (
+                        <div key={segment.key} className="bg-dark-secondary rounded p-3">
+                          <div className="text-sm text-text-secondary">{segment.label}</div>
+                          <div className="text-lg font-bold">
+                            {getCurrentRebaScore(selectedFrame)?.[segment.key]}
+                          </div>
                         </div>
-                      </div>
+                      ))}
                     </div>
 
                     {/* Posture Analysis Status for Recorded Frame */}
@@ -1642,34 +2109,114 @@ export default function RecordingPanel({
                 </div>
               )}
 
-
+              {onUpdateFrame && !isRecording && selectedFrameIndex !== null && recordingData[selectedFrameIndex] && (
+                <FrameAdjustments
+                  key={selectedFrameIndex}
+                  frame={recordingData[selectedFrameIndex]}
+                  assessmentMode={assessmentMode}
+                  onChange={handleAnnotateFrame}
+                />
+              )}
             </div>
           </div>
+
+          {/* 3D replay of the stored pose, in world coordinates when the model provided them */}
+          <ThreeDView
+            poseData={selectedFrame.poseData}
+            rebaScore={getCurrentRebaScore(selectedFrame)}
+            assessmentMode={assessmentMode}
+          />
         </div>
       )}
 
       {/* Recording Stats */}
       {recordingData.length > 0 && !isRecording && (
-        <div className="mt-6 grid grid-cols-3 gap-4">
+        <div className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-4">
           <div className="bg-dark-secondary rounded-lg p-4 text-center">
             <div className="text-2xl font-bold text-material-blue">{recordingData.length}</div>
             <div className="text-sm text-text-secondary">Frames Recorded</div>
           </div>
+          <div className="bg-dark-secondary rounded-lg p-4 text-center">
+            <div className="text-2xl font-bold text-yellow-400">
+              {recordingData.filter(f => f.detectionStatus !== 'detected').length}
+            </div>
+            <div className="text-sm text-text-secondary">Failed Detections</div>
+          </div>
           <div className="bg-dark-secondary rounded-lg p-4 text-center">
             <div className="text-2xl font-bold text-green-400">
-              {recordingData.filter(f => f.rebaScore?.finalScore <= 2).length}
+              {recordingData.filter(f => f.rebaScore && getScoreRiskBand(f.rebaScore, assessmentMode).band === 'acceptable').length}
             </div>
             <div className="text-sm text-text-secondary">Safe Postures</div>
           </div>
           <div className="bg-dark-secondary rounded-lg p-4 text-center">
             <div className="text-2xl font-bold text-red-400">
-              {recordingData.filter(f => f.rebaScore?.finalScore > 4).length}
+              {recordingData.filter(f => f.rebaScore && ['change-soon', 'change-now'].includes(getScoreRiskBand(f.rebaScore, assessmentMode).band)).length}
             </div>
             <div className="text-sm text-text-secondary">Risk Postures</div>
           </div>
         </div>
       )}
 
+      {/* OWAS action category distribution and time-fraction analysis */}
+      {owasSummary && owasSummary.totalFrames > 0 && !isRecording && (
+        <div className="mt-6 bg-dark-secondary rounded-lg p-4">
+          <h4 className="text-lg font-medium mb-3">OWAS Action Categories ({owasSummary.totalFrames} frames)</h4>
+          <div className="space-y-2 mb-4">
+            {owasSummary.actionCategoryDistribution.map(row => {
+              const band = getRiskBand('OWAS', row.actionCategory);
+              return (
+                <div key={row.actionCategory} className="flex items-center space-x-3 text-sm">
+                  <span className={`w-10 font-mono ${band.textClass}`}>AC{row.actionCategory}</span>
+                  <div className="flex-1 bg-gray-700 rounded-full h-3">
+                    <div className={`${band.bgClass} h-3 rounded-full`} style={{ width: `${row.percentage}%` }}></div>
+                  </div>
+                  <span className="w-24 text-right text-text-secondary">{row.percentage}% ({row.frames})</span>
+                </div>
+              );
+            })}
+          </div>
+
+          <h5 className="text-sm font-medium mb-2 text-text-secondary">Time spent per posture class</h5>
+          <table className="w-full text-xs sm:text-sm">
+            <thead>
+              <tr className="text-text-secondary text-left">
+                <th className="py-1">Body part</th>
+                <th className="py-1">Posture class</th>
+                <th className="py-1 text-right">Time</th>
+                <th className="py-1 text-right">Action category</th>
+              </tr>
+            </thead>
+            <tbody>
+              {owasSummary.timeFractions.map(row => (
+                <tr key={`${row.bodyPart}-${row.category}`} className="border-t border-gray-700">
+                  <td className="py-1 capitalize">{row.bodyPart}</td>
+                  <td className="py-1">{row.category} - {row.label}</td>
+                  <td className="py-1 text-right">{row.percentage}%</td>
+                  <td className={`py-1 text-right font-mono ${getRiskBand('OWAS', row.actionCategory).textClass}`}>AC{row.actionCategory}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {exposureSummary && (
+        <ExposureSummary
+          summary={exposureSummary}
+          assessmentMode={assessmentMode}
+          onViewPeakFrame={(frameIndex) => { playback.pause(); playback.selectFrame(frameIndex); }}
+        />
+      )}
+
+      {timelineSummary && timelineSummary.scoredFrames > 1 && (
+        <ActivitySummary
+          summary={timelineSummary}
+          frames={recordingData}
+          assessmentMode={assessmentMode}
+          onApplyActivity={onApplyActivity}
+        />
+      )}
+
       {/* Smart Object Detection Weight Management Dialog */}
       {showWeightDialog && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -1690,7 +2237,8 @@ export default function RecordingPanel({
               videoRef={videoRef}
               currentPoseData={currentPoseData}
               isVisible={showWeightDialog}
-              recordedFrames={recordingData}
+              recordedFrames={recordingData.filter(frame => frame.imageData)}
+              scaleCalibration={scaleCalibration}
             />
           </div>
         </div>
@@ -1723,7 +2271,8 @@ export default function RecordingPanel({
               videoRef={videoRef}
               currentPoseData={currentPoseData}
               isVisible={showSecondObjectDetection}
-              recordedFrames={recordingData}
+              recordedFrames={recordingData.filter(frame => frame.imageData)}
+              scaleCalibration={scaleCalibration}
             />
           </div>
         </div>
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { queryClient } from '@/lib/queryClient';
+import { deleteSession, loadSession, SESSIONS_QUERY_KEY, type LoadedSession } from '@/lib/session-api';
+import type { Session } from '@shared/schema';
+
+interface SessionsPanelProps {
+  onLoadSession: (session: LoadedSession) => void;
+}
+
+export default function SessionsPanel({ onLoadSession }: SessionsPanelProps) {
+  const [loadingId, setLoadingId] = useState<number | null>(null);
+  const { data: sessions = [], isLoading } = useQuery<Session[]>({ queryKey: SESSIONS_QUERY_KEY });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteSession,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: SESSIONS_QUERY_KEY }),
+    onError: (error) => {
+      console.error('Error deleting session:', error);
+      alert('Failed to delete session. Please try again.');
+    }
+  });
+
+  const handleLoad = async (id: number) => {
+    setLoadingId(id);
+    try {
+      onLoadSession(await loadSession(id));
+    } catch (error) {
+      console.error('Error loading session:', error);
+      alert('Failed to load session. Please try again.');
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  const handleDelete = (session: Session) => {
+    if (confirm(`Delete saved session "${session.name}"?`)) {
+      deleteMutation.mutate(session.id);
+    }
+  };
+
+  return (
+    <div className="bg-dark-card rounded-lg shadow-lg p-4 sm:p-6 mt-4 sm:mt-6">
+      <h3 className="text-base sm:text-xl font-medium flex items-center space-x-2 mb-4">
+        <span className="material-icon text-blue-500 text-lg sm:text-2xl">folder_open</span>
+        <span>Saved Sessions</span>
+      </h3>
+
+      {isLoading && <p className="text-sm text-text-secondary">Loading sessions...</p>}
+      {!isLoading && sessions.length === 0 && (
+        <p className="text-sm text-text-secondary">No saved sessions yet. Record an assessment and save it to review it later.</p>
+      )}
+
+      {sessions.length > 0 && (
+        <div className="space-y-2">
+          {sessions.map(session => (
+            <div key={session.id} className="bg-dark-secondary rounded-lg p-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <div>
+                <div className="font-medium text-sm sm:text-base">{session.name}</div>
+                <div className="text-xs text-text-secondary">
+                  {session.assessmentMode} · {session.frameCount} frames · {Math.round(session.duration)}s · {new Date(session.createdAt).toLocaleString()}
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => handleLoad(session.id)}
+                  disabled={loadingId !== null}
+                  className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 px-3 py-1 rounded-lg text-xs sm:text-sm transition-colors"
+                >
+                  {loadingId === session.id ? 'Loading...' : 'Load'}
+                </button>
+                <button
+                  onClick={() => handleDelete(session)}
+                  disabled={deleteMutation.isPending}
+                  className="bg-gray-600 hover:bg-gray-700 px-2 py-1 rounded-lg transition-colors"
+                  title="Delete Session"
+                >
+                  <span className="material-icon text-sm">delete</span>
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import React, { useRef, useEffect } from 'react';
+import { getScoreRiskBand, type AssessmentMode } from '@/lib/scoring';
+import { KEYPOINT_NAMES } from '@/lib/keypoints';
 
 interface SkeletonOverlayProps {
   poseData: any;
@@ -9,8 +11,8 @@ interface SkeletonOverlayProps {
   showColorCoding?: boolean;
   weightEstimation?: any;
   skeletonOnly?: boolean;
-  videoRef?: React.RefObject<HTMLVideoElement>;
-  assessmentMode?: 'RULA' | 'REBA';
+  mirrored?: boolean; // the image is a flipped live thumbnail, see RecordingFrame.mirrored
+  assessmentMode?: AssessmentMode;
 }
 
 // RULA connections - Complete upper body with full torso (no legs)
@@ -31,13 +33,6 @@ const REBA_CONNECTIONS = [
   [0, 1], [0, 2], [1, 3], [2, 4] // Head
 ];
 
-const KEYPOINT_NAMES = [
-  'nose', 'left_eye', 'right_eye', 'left_ear', 'right_ear',
-  'left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow',
-  'left_wrist', 'right_wrist', 'left_hip', 'right_hip',
-  'left_knee', 'right_knee', 'left_ankle', 'right_ankle'
-];
-
 export default function SkeletonOverlay({
   poseData,
   rebaScore,
@@ -47,7 +42,7 @@ export default function SkeletonOverlay({
   showColorCoding = true,
   weightEstimation,
   skeletonOnly = false,
-  videoRef,
+  mirrored = false,
   assessmentMode = 'REBA'
 }: SkeletonOverlayProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -94,74 +89,16 @@ export default function SkeletonOverlay({
         ctx.clearRect(0, 0, width, height);
         ctx.drawImage(img, drawX, drawY, drawWidth, drawHeight);
 
-        // Draw skeleton aligned to the image
-        drawSkeleton(0, 0, width, height);
+        // Keypoints are in the image's own pixels, so scale them onto the drawn image
+        drawSkeletonWithScaling(drawX, drawY, drawWidth, drawHeight, img.width, img.height);
       };
       img.src = imageData;
     } else {
-      // For skeleton-only mode or no image, just draw skeleton with proper scaling
-      drawSkeleton(0, 0, width, height);
+      // For skeleton-only mode or no image, keypoints are taken as canvas pixels
+      drawSkeletonWithScaling(0, 0, width, height, width, height);
     }
 
-    function drawSkeleton(offsetX = 0, offsetY = 0, drawWidth = width, drawHeight = height) {
-      if (!ctx || !poseData?.keypoints) return;
-
-      const keypoints = poseData.keypoints;
-
-      // Calculate proper scaling for live camera feed
-      if (imageData && !skeletonOnly) {
-        // For recorded images with background
-        const img = new Image();
-        img.onload = () => {
-          const imgAspect = img.width / img.height;
-          const canvasAspect = drawWidth / drawHeight;
-
-          let scaleX, scaleY, actualOffsetX, actualOffsetY;
-
-          if (imgAspect > canvasAspect) {
-            // Image is wider - fit to width, center vertically
-            scaleX = drawWidth;
-            scaleY = drawWidth / imgAspect;
-            actualOffsetX = offsetX;
-            actualOffsetY = offsetY + (drawHeight - scaleY) / 2;
-          } else {
-            // Image is taller - fit to height, center horizontally
-            scaleX = drawHeight * imgAspect;
-            scaleY = drawHeight;
-            actualOffsetX = offsetX + (drawWidth - scaleX) / 2;
-            actualOffsetY = offsetY;
-          }
-
-          drawSkeletonWithScaling(actualOffsetX, actualOffsetY, scaleX, scaleY, img.width, img.height);
-        };
-        img.src = imageData;
-      } else {
-        // For live camera feed - use the same scaling logic as camera-view.tsx
-        // Get actual video dimensions if available, otherwise use defaults
-        const videoWidth = 1280; // Common HD width
-        const videoHeight = 720; // Common HD height
-        const videoAspect = videoWidth / videoHeight;
-        const canvasAspect = drawWidth / drawHeight;
-        
-        let scaleX, scaleY, actualOffsetX = offsetX, actualOffsetY = offsetY;
-        
-        if (videoAspect > canvasAspect) {
-          // Video is wider - fit to height
-          scaleY = drawHeight;
-          scaleX = drawHeight * videoAspect;
-          actualOffsetX = offsetX + (drawWidth - scaleX) / 2;
-        } else {
-          // Video is taller - fit to width
-          scaleX = drawWidth;
-          scaleY = drawWidth / videoAspect;
-          actualOffsetY = offsetY + (drawHeight - scaleY) / 2;
-        }
-        
-        drawSkeletonWithScaling(actualOffsetX, actualOffsetY, scaleX, scaleY, 1, 1);
-      }
-    }
-
-    function drawSkeletonWithScaling(offsetX: number, offsetY: number, scaleX: number, scaleY: number, originalWidth: number = 1, originalHeight: number = 1) {
+    function drawSkeletonWithScaling(offsetX: number, offsetY: number, scaleX: number, scaleY: number, originalWidth: number, originalHeight: number) {
       if (!ctx || !poseData?.keypoints) return;
 
       const keypoints = poseData.keypoints;
@@ -176,10 +113,12 @@ export default function SkeletonOverlay({
         if (rebaScore) {
           // Use the actual REBA score passed in (which should be weight-adjusted in manual mode)
           // Map joint to REBA component
+          // Arms and wrists take their own side's scores when both sides were scored
+          const armScores = rebaScore.sides?.[jointIndex % 2 === 1 ? 'left' : 'right'] ?? rebaScore;
           if ([5, 6, 7, 8].includes(jointIndex)) { // Arms
-            riskLevel = Math.max(rebaScore.upperArm || 1, rebaScore.lowerArm || 1);
+            riskLevel = Math.max(armScores.upperArm || 1, armScores.lowerArm || 1);
           } else if ([9, 10].includes(jointIndex)) { // Wrists
-            riskLevel = rebaScore.wrist || 1;
+            riskLevel = armScores.wrist || 1;
           } else if ([0, 1, 2, 3, 4].includes(jointIndex)) { // Neck/Head
             riskLevel = rebaScore.neck || 1;
           } else if ([11, 12].includes(jointIndex)) { // Trunk
@@ -201,52 +140,17 @@ export default function SkeletonOverlay({
         return '#FF0000'; // Red - Critical
       };
 
-      // Transform coordinates to match camera view exactly - replicate camera-view.tsx logic
+      // Map a keypoint from image pixels (or 0-1 coordinates) onto the drawn image. Live
+      // thumbnails are stored flipped to match the camera view but their keypoints are not
       const transformCoordinate = (point: any) => {
-        if (!videoRef?.current) {
-          // Fallback for recorded images - use simpler transformation
-          const x = point.x > 1 ? point.x : point.x * width;
-          const y = point.y > 1 ? point.y : point.y * height;
-          return { x: width - x, y }; // Mirror X coordinate
-        }
-        
-        const video = videoRef.current;
-        
-        // Use EXACT same logic as camera-view.tsx transformCoordinates function  
-        const videoAspect = video.videoWidth / video.videoHeight;
-        const canvasAspect = width / height;
-        
-        let scaleX, scaleY, offsetX = 0, offsetY = 0;
-        
-        if (videoAspect > canvasAspect) {
-          // Video is wider - fit to height
-          scaleY = height;
-          scaleX = height * videoAspect;
-          offsetX = (width - scaleX) / 2;
-        } else {
-          // Video is taller - fit to width
-          scaleX = width;
-          scaleY = width / videoAspect;
-          offsetY = (height - scaleY) / 2;
-        }
-        
-        let transformedX, transformedY;
-        
-        // Handle different coordinate systems exactly like camera-view.tsx
-        if (point.x > 1 || point.y > 1) {
-          // Absolute coordinates - normalize first
-          transformedX = (point.x / video.videoWidth) * scaleX + offsetX;
-          transformedY = (point.y / video.videoHeight) * scaleY + offsetY;
-        } else {
-          // Normalized coordinates (0-1)
-          transformedX = point.x * scaleX + offsetX;
-          transformedY = point.y * scaleY + offsetY;
-        }
-        
-        // Since canvas is mirrored, flip X coordinate (exact same as camera-view.tsx)
-        transformedX = width - transformedX;
-        
-        return { x: transformedX, y: transformedY };
+        let x = point.x > 1 || point.y > 1 ? point.x : point.x * originalWidth;
+        const y = point.x > 1 || point.y > 1 ? point.y : point.y * originalHeight;
+        if (mirrored) x = originalWidth - x;
+
+        return {
+          x: offsetX + (x / originalWidth) * scaleX,
+          y: offsetY + (y / originalHeight) * scaleY
+        };
       };
 
       // Get appropriate connections based on assessment mode
@@ -393,9 +297,10 @@ export default function SkeletonOverlay({
       }
       
       // Add recommendation
-      if (rebaScore.finalScore >= 5) {
+      const riskBand = getScoreRiskBand(rebaScore, assessmentMode).band;
+      if (riskBand === 'change-soon' || riskBand === 'change-now') {
         analysis += "Immediate posture correction recommended.";
-      } else if (rebaScore.finalScore >= 3) {
+      } else if (riskBand === 'investigate') {
         analysis += "Consider adjusting posture soon.";
       } else {
         analysis += "Overall posture is acceptable.";
@@ -405,7 +310,7 @@ export default function SkeletonOverlay({
     }
 
     
-  }, [poseData, rebaScore, imageData, width, height, showColorCoding, weightEstimation]);
+  }, [poseData, rebaScore, imageData, width, height, showColorCoding, weightEstimation, mirrored, assessmentMode]);
 
   return (
     <canvas
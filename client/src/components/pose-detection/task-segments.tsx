@@ -0,0 +1,330 @@
+import React, { useRef, useState } from 'react';
+import ManualWeightInput, { type ManualWeight } from './manual-weight-input';
+import { RISK_BAND_STYLES, type AssessmentMode, type CouplingQuality, type RebaActivity } from '@/lib/scoring';
+import {
+  createTaskSegment,
+  findOverlappingTask,
+  getHighRiskPercentage,
+  type TaskSegment,
+  type TaskSummary
+} from '@/lib/task-segments';
+
+interface TaskSegmentsProps {
+  frames: Array<{ timestamp: number; rebaScore: any; poseData: any; imageData: string; hasObject?: boolean }>;
+  tasks: TaskSegment[];
+  summaries: TaskSummary[];
+  onChange: (tasks: TaskSegment[]) => void;
+  assessmentMode: AssessmentMode;
+  cursorTime?: number | null;
+  onSelectTime?: (time: number) => void;
+}
+
+const COUPLING_OPTIONS: CouplingQuality[] = ['good', 'fair', 'poor', 'unacceptable'];
+
+const ACTIVITY_OPTIONS: { key: keyof RebaActivity; label: string }[] = [
+  { key: 'staticPosture', label: 'Static posture (>1 min)' },
+  { key: 'repeatedActions', label: 'Repeated actions (>4/min)' },
+  { key: 'rapidChanges', label: 'Rapid changes / unstable base' }
+];
+
+// Drags shorter than this count as a click on the timeline
+const MIN_TASK_S = 0.3;
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+
+export default function TaskSegments({ frames, tasks, summaries, onChange, assessmentMode, cursorTime, onSelectTime }: TaskSegmentsProps) {
+  const stripRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<{ start: number; end: number } | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [showLoadPicker, setShowLoadPicker] = useState(false);
+
+  const startTime = frames[0]?.timestamp ?? 0;
+  const endTime = frames[frames.length - 1]?.timestamp ?? 0;
+  const span = Math.max(endTime - startTime, 0.001);
+  const toPercent = (time: number) => ((Math.min(Math.max(time, startTime), endTime) - startTime) / span) * 100;
+  const selected = tasks.find(task => task.id === selectedId) ?? null;
+
+  const timeAt = (clientX: number) => {
+    const rect = stripRef.current!.getBoundingClientRect();
+    const fraction = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+    return startTime + fraction * span;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const time = timeAt(e.clientX);
+    setDrag({ start: time, end: time });
+    setError('');
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (drag) setDrag({ ...drag, end: timeAt(e.clientX) });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    setDrag(null);
+    const from = Math.min(drag.start, drag.end);
+    const to = Math.max(drag.start, drag.end);
+    if (to - from < MIN_TASK_S) {
+      onSelectTime?.(drag.start);
+      return;
+    }
+    const overlapping = findOverlappingTask(tasks, from, to);
+    if (overlapping) {
+      setError(`The range overlaps "${overlapping.name}", tasks cannot share frames.`);
+      return;
+    }
+    const task = createTaskSegment(frames, tasks, from, to, assessmentMode);
+    onChange([...tasks, task]);
+    setSelectedId(task.id);
+  };
+
+  const updateTask = (changes: Partial<TaskSegment>) => {
+    if (!selected) return;
+    const next = { ...selected, ...changes };
+    if (next.endTime - next.startTime < MIN_TASK_S) {
+      setError('A task must be at least a fraction of a second long.');
+      return;
+    }
+    const overlapping = findOverlappingTask(tasks, next.startTime, next.endTime, next.id);
+    if (overlapping) {
+      setError(`The range overlaps "${overlapping.name}", tasks cannot share frames.`);
+      return;
+    }
+    setError('');
+    onChange(tasks.map(task => task.id === next.id ? next : task));
+  };
+
+  const removeTask = (id: string) => {
+    onChange(tasks.filter(task => task.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  // Stored without the preview image, which would otherwise be saved with every task
+  const addLoad = (weight: ManualWeight) => {
+    if (!selected) return;
+    updateTask({ loads: [...selected.loads, { id: weight.id, name: weight.name, weight: weight.weight, icon: weight.icon }] });
+    setShowLoadPicker(false);
+  };
+
+  const draftFrom = drag ? Math.min(drag.start, drag.end) : 0;
+  const draftTo = drag ? Math.max(drag.start, drag.end) : 0;
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-lg font-medium">Tasks</h4>
+        <span className="text-xs text-text-secondary">Drag across the timeline to mark a task</span>
+      </div>
+
+      <div
+        ref={stripRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        className="relative h-10 bg-dark-secondary rounded cursor-crosshair select-none touch-none overflow-hidden"
+      >
+        {tasks.map(task => (
+          <div
+            key={task.id}
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={() => { setSelectedId(task.id); setError(''); }}
+            className={`absolute top-0 bottom-0 flex items-center px-1 text-xs text-white truncate cursor-pointer border-2 ${
+              task.id === selectedId ? 'border-white' : 'border-transparent'
+            }`}
+            style={{
+              left: `${toPercent(task.startTime)}%`,
+              width: `${toPercent(task.endTime) - toPercent(task.startTime)}%`,
+              backgroundColor: `${task.color}99`
+            }}
+            title={`${task.name} (${formatTime(task.startTime)} - ${formatTime(task.endTime)})`}
+          >
+            {task.name}
+          </div>
+        ))}
+        {drag && (
+          <div
+            className="absolute top-0 bottom-0 bg-white/30 border border-white pointer-events-none"
+            style={{ left: `${toPercent(draftFrom)}%`, width: `${toPercent(draftTo) - toPercent(draftFrom)}%` }}
+          />
+        )}
+        {typeof cursorTime === 'number' && (
+          <div className="absolute top-0 bottom-0 w-px bg-white pointer-events-none" style={{ left: `${toPercent(cursorTime)}%` }} />
+        )}
+      </div>
+      <div className="flex justify-between text-xs text-text-secondary mt-1">
+        <span>{formatTime(startTime)}</span>
+        <span>{formatTime(endTime)}</span>
+      </div>
+
+      {error && <p className="text-xs text-yellow-400 mt-2">{error}</p>}
+
+      {selected && (
+        <div className="bg-dark-secondary rounded-lg p-4 mt-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: selected.color }} />
+            <input
+              value={selected.name}
+              onChange={(e) => updateTask({ name: e.target.value })}
+              className="flex-1 min-w-0 bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm"
+              placeholder="Task name"
+            />
+            <button onClick={() => removeTask(selected.id)} className="text-red-400 hover:text-red-300" title="Remove task">
+              <span className="material-icon text-base">delete</span>
+            </button>
+            <button onClick={() => setSelectedId(null)} className="text-gray-400 hover:text-white" title="Close">
+              <span className="material-icon text-base">close</span>
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2 text-xs sm:text-sm">
+            <label className="flex items-center justify-between gap-2">
+              <span>Start (s)</span>
+              <input
+                type="number"
+                step={0.1}
+                min={startTime}
+                max={endTime}
+                value={selected.startTime}
+                onChange={(e) => updateTask({ startTime: Number(e.target.value) })}
+                className="w-24 bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm"
+              />
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              <span>End (s)</span>
+              <input
+                type="number"
+                step={0.1}
+                min={startTime}
+                max={endTime}
+                value={selected.endTime}
+                onChange={(e) => updateTask({ endTime: Number(e.target.value) })}
+                className="w-24 bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm"
+              />
+            </label>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between text-xs sm:text-sm mb-1">
+              <span>Load: {(selected.loads.reduce((total, load) => total + load.weight, 0) / 1000).toFixed(1)} kg</span>
+              <button onClick={() => setShowLoadPicker(true)} className="text-xs text-blue-400 hover:text-blue-300">
+                Add object
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {selected.loads.map(load => (
+                <span key={load.id} className="flex items-center gap-1 bg-gray-700 rounded px-2 py-1 text-xs">
+                  {load.icon} {load.name} ({load.weight}g)
+                  <button
+                    onClick={() => updateTask({ loads: selected.loads.filter(item => item.id !== load.id) })}
+                    className="text-gray-400 hover:text-white"
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {assessmentMode === 'REBA' && (
+            <label className="flex items-center justify-between gap-2 text-xs sm:text-sm">
+              <span>Coupling</span>
+              <select
+                value={selected.coupling}
+                onChange={(e) => updateTask({ coupling: e.target.value as CouplingQuality })}
+                className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm capitalize"
+              >
+                {COUPLING_OPTIONS.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {assessmentMode !== 'OWAS' && (
+            <div className="space-y-1 text-xs sm:text-sm">
+              {ACTIVITY_OPTIONS.map(option => (
+                <label key={option.key} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={selected.activity[option.key]}
+                    onChange={(e) => updateTask({ activity: { ...selected.activity, [option.key]: e.target.checked } })}
+                  />
+                  <span>{option.label}</span>
+                </label>
+              ))}
+              {assessmentMode === 'RULA' && (
+                <p className="text-xs text-text-secondary">RULA counts static or repeated work as muscle use.</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {summaries.length > 0 && (
+        <div className="overflow-x-auto mt-4">
+          <table className="w-full text-xs sm:text-sm">
+            <thead>
+              <tr className="text-left text-text-secondary border-b border-gray-700">
+                <th className="py-2 pr-2">Task</th>
+                <th className="py-2 pr-2">Time</th>
+                <th className="py-2 pr-2">Load</th>
+                <th className="py-2 pr-2">Avg</th>
+                <th className="py-2 pr-2">P95</th>
+                <th className="py-2 pr-2">Peak</th>
+                <th className="py-2 pr-2">Risk</th>
+                <th className="py-2">High risk time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summaries.map(summary => (
+                <tr
+                  key={summary.task.id}
+                  onClick={() => { setSelectedId(summary.task.id); onSelectTime?.(summary.task.startTime); }}
+                  className="border-b border-gray-700 cursor-pointer hover:bg-gray-700/50"
+                >
+                  <td className="py-2 pr-2">
+                    <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: summary.task.color }} />
+                    {summary.task.name}
+                  </td>
+                  <td className="py-2 pr-2 font-mono">{formatTime(summary.task.startTime)}-{formatTime(summary.task.endTime)}</td>
+                  <td className="py-2 pr-2">{summary.loadKg.toFixed(1)} kg</td>
+                  <td className="py-2 pr-2 font-mono">{summary.scoredFrames > 0 ? summary.averageScore : '-'}</td>
+                  <td className="py-2 pr-2 font-mono">{summary.exposure?.percentile95 ?? '-'}</td>
+                  <td className="py-2 pr-2 font-mono">{summary.scoredFrames > 0 ? summary.peakScore : '-'}</td>
+                  <td className={`py-2 pr-2 ${RISK_BAND_STYLES[summary.riskBand].textClass}`}>
+                    {summary.scoredFrames > 0 ? summary.riskLevel : 'Not scored'}
+                  </td>
+                  <td className="py-2">{getHighRiskPercentage(summary)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-text-secondary mt-2">
+            Each task is rescored with its own load{assessmentMode === 'REBA' ? ', coupling' : ''}{assessmentMode !== 'OWAS' ? ' and activity' : ''}. Risk is the band of the task's peak score.
+          </p>
+        </div>
+      )}
+
+      {showLoadPicker && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-gray-800 rounded-lg p-6 w-full max-w-4xl mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-medium">Load for {selected?.name}</h3>
+              <button onClick={() => setShowLoadPicker(false)} className="text-gray-400 hover:text-white text-xl">
+                ×
+              </button>
+            </div>
+            <ManualWeightInput
+              onAddWeight={addLoad}
+              existingWeights={selected?.loads ?? []}
+              recordedFrames={frames.filter(frame => selected && frame.timestamp >= selected.startTime && frame.timestamp <= selected.endTime && frame.imageData)}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,11 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import * as THREE from 'three';
+import { getScoreRiskBand, type AssessmentMode } from '@/lib/scoring';
 
 interface ThreeDViewProps {
   poseData: any;
   rebaScore: any;
-  assessmentMode?: 'RULA' | 'REBA';
+  assessmentMode?: AssessmentMode;
 }
 
 // RULA connections - Complete upper body with full torso (no legs)
@@ -66,10 +67,10 @@ const CONNECTION_BODY_PARTS: { [key: string]: string } = {
 // Map REBA score properties to our body part names
 const REBA_SCORE_MAPPING = {
   neck: 'neck',
-  upperArmLeft: 'upperArm',   // REBA typically assesses one arm
+  upperArmLeft: 'upperArm',   // Each side uses its own score from rebaScore.sides when present
   lowerArmLeft: 'lowerArm',
   wristLeft: 'wrist',
-  upperArmRight: 'upperArm',  // Use same scores for both sides
+  upperArmRight: 'upperArm',
   lowerArmRight: 'lowerArm',
   wristRight: 'wrist',
   trunk: 'trunk',
@@ -98,7 +99,13 @@ export default function ThreeDView({ poseData, rebaScore, assessmentMode = 'REBA
     const rebaProperty = REBA_SCORE_MAPPING[bodyPart as keyof typeof REBA_SCORE_MAPPING];
     let score = 1; // Default low score
 
-    if (rebaProperty && rebaScore[rebaProperty] !== undefined) {
+    // Arms take their own side's score when both sides were scored
+    const side = bodyPart.endsWith('Left') ? 'left' : bodyPart.endsWith('Right') ? 'right' : null;
+    const sideScore = side ? rebaScore.sides?.[side] : undefined;
+
+    if (rebaProperty && sideScore?.[rebaProperty] !== undefined) {
+      score = sideScore[rebaProperty];
+    } else if (rebaProperty && rebaScore[rebaProperty] !== undefined) {
       score = rebaScore[rebaProperty];
     } else {
       // Fallback to final score if specific part not found
@@ -205,8 +212,30 @@ export default function ThreeDView({ poseData, rebaScore, assessmentMode = 'REBA
     return transformedPositions;
   }, []);
 
+  // World landmarks are already in metres around the hips: centre them and keep their depth.
+  // BlazePose's y points down and z away from the camera, the scene's y up and z towards the viewer
+  const transformWorldCoordinates = useCallback((keypoints3D: any[]) => {
+    const confidenceThreshold = 0.3;
+    const valid = keypoints3D.filter(kp => kp && kp.score > confidenceThreshold);
+    if (valid.length === 0) return [];
+
+    const centre = new THREE.Vector3(
+      (Math.min(...valid.map(kp => kp.x)) + Math.max(...valid.map(kp => kp.x))) / 2,
+      (Math.min(...valid.map(kp => kp.y)) + Math.max(...valid.map(kp => kp.y))) / 2,
+      (Math.min(...valid.map(kp => kp.z)) + Math.max(...valid.map(kp => kp.z))) / 2
+    );
+
+    // About 1.7 scene units per metre, so a standing person matches the flat view's size
+    const scale = 1.7;
+
+    return keypoints3D.map(kp => kp && kp.score > confidenceThreshold
+      ? new THREE.Vector3((kp.x - centre.x) * scale, -(kp.y - centre.y) * scale, -(kp.z - centre.z) * scale)
+      : null
+    );
+  }, []);
+
   // Update skeleton visualization with individual REBA coloring
-  const updateSkeleton = useCallback((keypoints: any[], rebaScore: any) => {
+  const updateSkeleton = useCallback((keypoints: any[], rebaScore: any, keypoints3D?: any[]) => {
     if (!skeletonGroupRef.current || !keypoints || keypoints.length === 0) {
       console.log('Cannot update skeleton: missing skeleton group or keypoints');
       return;
@@ -215,8 +244,10 @@ export default function ThreeDView({ poseData, rebaScore, assessmentMode = 'REBA
     // Clear existing skeleton
     skeletonGroupRef.current.clear();
     
-    // Transform pose coordinates to 3D space
-    const transformedPositions = transformPoseCoordinates(keypoints);
+    // Real world-space landmarks when the model provides them, otherwise a flat skeleton from the image keypoints
+    const transformedPositions = keypoints3D?.length
+      ? transformWorldCoordinates(keypoints3D)
+      : transformPoseCoordinates(keypoints);
     
     if (transformedPositions.length === 0) {
       console.log('No transformed positions available for skeleton rendering');
@@ -292,7 +323,7 @@ export default function ThreeDView({ poseData, rebaScore, assessmentMode = 'REBA
     });
     
     console.log(`3D Skeleton rendered: ${jointsDrawn} joints and ${bonesDrawn} bones with individual REBA coloring`);
-  }, [transformPoseCoordinates, getRebaColor, getBodyPartForLandmark]);
+  }, [transformPoseCoordinates, transformWorldCoordinates, getRebaColor, getBodyPartForLandmark]);
 
   // Initialize Three.js scene
   const initializeScene = useCallback((container: HTMLDivElement) => {
@@ -460,7 +491,7 @@ export default function ThreeDView({ poseData, rebaScore, assessmentMode = 'REBA
   useEffect(() => {
     if (poseData && poseData.keypoints && isInitializedRef.current) {
       console.log('Received pose data update:', poseData.keypoints.length, 'keypoints');
-      updateSkeleton(poseData.keypoints, rebaScore);
+      updateSkeleton(poseData.keypoints, rebaScore, poseData.keypoints3D);
     }
   }, [poseData, rebaScore, updateSkeleton]);
 
@@ -555,11 +586,7 @@ export default function ThreeDView({ poseData, rebaScore, assessmentMode = 'REBA
                 <span className="font-semibold">{assessmentMode}: {String(rebaScore.finalScore || 'N/A')}</span>
               </div>
               <div className="text-[10px] sm:text-xs text-gray-300">
-                Risk: <span className={`font-semibold ${
-                  rebaScore.finalScore <= 2 ? 'text-green-400' :
-                  rebaScore.finalScore <= 4 ? 'text-yellow-400' :
-                  rebaScore.finalScore <= 6 ? 'text-orange-400' : 'text-red-400'
-                }`}>
+                Risk: <span className={`font-semibold ${getScoreRiskBand(rebaScore, assessmentMode).textClass}`}>
                   {String(rebaScore.riskLevel || 'Unknown')}
                 </span>
               </div>
@@ -571,10 +598,20 @@ export default function ThreeDView({ poseData, rebaScore, assessmentMode = 'REBA
         {poseData && rebaScore && (
           <div className="hidden sm:block absolute top-4 right-20 bg-black bg-opacity-70 rounded-lg p-2 text-xs text-gray-300">
             <div className="font-semibold mb-1">Debug Info</div>
+            <div>Depth: {poseData.keypoints3D?.length ? 'World landmarks' : 'Flat (2D model)'}</div>
             <div>Keypoints: {poseData.keypoints?.length || 0}</div>
             <div>Valid: {poseData.keypoints?.filter((kp: any) => kp && kp.score > 0.3).length || 0}</div>
             <div>Final {assessmentMode}: {rebaScore.finalScore || 'N/A'}</div>
             <div>Stress Level: {rebaScore.stressLevel || 'N/A'}</div>
+            {rebaScore.angleSource === '3d' && (
+              <>
+                <div>Trunk twist: {Math.round(rebaScore.trunkTwistAngle)}°</div>
+                <div>Side bend: {Math.round(rebaScore.trunkSideBendAngle)}°</div>
+                {rebaScore.shoulderAbductionAngle !== undefined && (
+                  <div>Shoulder abduction: {Math.round(rebaScore.shoulderAbductionAngle)}°</div>
+                )}
+              </>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,70 @@
+import React from 'react';
+import { PLAYBACK_SPEEDS, type FramePlayback } from '@/hooks/use-frame-playback';
+
+interface TimelinePlayerProps {
+  frames: Array<{ timestamp: number }>;
+  playback: FramePlayback;
+  sourceLabel?: string;
+}
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+
+export default function TimelinePlayer({ frames, playback, sourceLabel }: TimelinePlayerProps) {
+  const { frameIndex, isPlaying, speed, setSpeed, selectFrame, step, togglePlay, pause } = playback;
+  const lastIndex = frames.length - 1;
+  const current = frameIndex ?? 0;
+  const buttonClass = 'p-1 rounded bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500 transition-colors';
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 mb-6">
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <button onClick={() => { pause(); selectFrame(0); }} disabled={current === 0} className={buttonClass} title="First frame (Home)">
+          <span className="material-icon text-base">first_page</span>
+        </button>
+        <button onClick={() => step(-1)} disabled={current === 0} className={buttonClass} title="Previous frame (←, Shift+← for 10)">
+          <span className="material-icon text-base">skip_previous</span>
+        </button>
+        <button
+          onClick={togglePlay}
+          disabled={lastIndex < 1}
+          className="p-1 rounded bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 transition-colors"
+          title={isPlaying ? 'Pause (Space)' : 'Play (Space)'}
+        >
+          <span className="material-icon text-base">{isPlaying ? 'pause' : 'play_arrow'}</span>
+        </button>
+        <button onClick={() => step(1)} disabled={current >= lastIndex} className={buttonClass} title="Next frame (→, Shift+→ for 10)">
+          <span className="material-icon text-base">skip_next</span>
+        </button>
+        <button onClick={() => { pause(); selectFrame(lastIndex); }} disabled={current >= lastIndex} className={buttonClass} title="Last frame (End)">
+          <span className="material-icon text-base">last_page</span>
+        </button>
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm"
+          title="Playback speed"
+        >
+          {PLAYBACK_SPEEDS.map(option => (
+            <option key={option} value={option}>{option}×</option>
+          ))}
+        </select>
+        <span className="ml-auto text-xs text-text-secondary">
+          {frameIndex !== null ? `${formatTime(frames[frameIndex].timestamp)} · ` : ''}
+          {frameIndex !== null ? frameIndex + 1 : 0} / {frames.length}
+          {sourceLabel && ` · ${sourceLabel}`}
+        </span>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={lastIndex}
+        value={current}
+        onChange={(e) => { pause(); selectFrame(Number(e.target.value)); }}
+        className="w-full"
+      />
+      <p className="text-xs text-text-secondary mt-1">
+        Space play/pause · ← → step · Shift+← → 10 frames · Home/End first/last frame
+      </p>
+    </div>
+  );
+}
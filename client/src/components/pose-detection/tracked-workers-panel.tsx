@@ -0,0 +1,157 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LineChart, Line, YAxis, ResponsiveContainer } from 'recharts';
+import { RISK_BAND_STYLES, type RiskBand } from '@/lib/scoring';
+import { getWorkerLabel, type DetectionMode, type TrackedWorker } from '@/lib/pose-tracking';
+
+export interface RecordedWorker {
+  trackId: number;
+  frameCount: number;
+  averageScore: number | null;
+}
+
+interface TrackedWorkersPanelProps {
+  detectionMode: DetectionMode;
+  onDetectionModeChange: (mode: DetectionMode) => void;
+  isSwitchingMode: boolean;
+  trackedWorkers: TrackedWorker[];
+  selectedTrackId: number | null;
+  onSelectWorker: (trackId: number | null) => void;
+  recordedWorkers: RecordedWorker[];
+}
+
+// Per-worker live history length
+const HISTORY_SECONDS = 30;
+
+export default function TrackedWorkersPanel({
+  detectionMode,
+  onDetectionModeChange,
+  isSwitchingMode,
+  trackedWorkers,
+  selectedTrackId,
+  onSelectWorker,
+  recordedWorkers
+}: TrackedWorkersPanelProps) {
+  const [histories, setHistories] = useState<Record<number, { time: number; score: number }[]>>({});
+  const startRef = useRef(Date.now());
+
+  useEffect(() => {
+    setHistories({});
+    startRef.current = Date.now();
+  }, [detectionMode]);
+
+  // Each tracked worker keeps their own score history while they are in frame
+  useEffect(() => {
+    if (trackedWorkers.length === 0) return;
+    const time = (Date.now() - startRef.current) / 1000;
+
+    setHistories(prev => {
+      const next: Record<number, { time: number; score: number }[]> = {};
+      Object.entries(prev).forEach(([trackId, points]) => {
+        const recent = points.filter(point => time - point.time <= HISTORY_SECONDS);
+        if (recent.length > 0) next[Number(trackId)] = recent;
+      });
+      trackedWorkers.forEach(worker => {
+        if (!worker.score) return;
+        next[worker.trackId] = [...(next[worker.trackId] ?? []), { time, score: worker.score.finalScore }];
+      });
+      return next;
+    });
+  }, [trackedWorkers]);
+
+  const liveIds = new Set(trackedWorkers.map(worker => worker.trackId));
+  const workerIds = Array.from(new Set([
+    ...trackedWorkers.map(worker => worker.trackId),
+    ...recordedWorkers.map(worker => worker.trackId),
+    ...(selectedTrackId !== null ? [selectedTrackId] : [])
+  ])).sort((a, b) => a - b);
+
+  return (
+    <div className="bg-dark-card rounded-lg shadow-lg p-4 sm:p-6 mb-4 sm:mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-base sm:text-xl font-medium flex items-center space-x-2">
+          <span className="material-icon text-indigo-400 text-lg sm:text-2xl">groups</span>
+          <span>Workers</span>
+        </h3>
+        <select
+          value={detectionMode}
+          onChange={(e) => onDetectionModeChange(e.target.value as DetectionMode)}
+          disabled={isSwitchingMode}
+          className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm disabled:opacity-50"
+        >
+          <option value="single">Single person</option>
+          <option value="multi">Multi-person (up to 6)</option>
+        </select>
+      </div>
+
+      {isSwitchingMode && <p className="text-xs text-text-secondary">Loading pose model...</p>}
+
+      {detectionMode === 'single' ? (
+        <p className="text-xs text-text-secondary">
+          Switch to multi-person mode to track several workers and choose whom to assess.
+        </p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-xs text-text-secondary">
+              Click a person on the camera feed, or pick them below. Each worker is recorded separately.
+            </p>
+            <button
+              onClick={() => onSelectWorker(null)}
+              className={`text-xs px-2 py-1 rounded transition-colors ${selectedTrackId === null ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              Auto
+            </button>
+          </div>
+
+          {workerIds.length === 0 ? (
+            <p className="text-xs text-text-secondary">No workers tracked yet.</p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 sm:gap-3">
+              {workerIds.map(trackId => {
+                const live = trackedWorkers.find(worker => worker.trackId === trackId);
+                const recorded = recordedWorkers.find(worker => worker.trackId === trackId);
+                const history = histories[trackId] ?? [];
+                const band = live?.score?.riskBand as RiskBand | undefined;
+                const isSelected = selectedTrackId === trackId;
+
+                return (
+                  <button
+                    key={trackId}
+                    onClick={() => onSelectWorker(trackId)}
+                    className={`text-left bg-dark-secondary rounded-lg p-3 border transition-colors ${isSelected ? 'border-blue-500' : 'border-transparent hover:border-gray-600'}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium">{getWorkerLabel(trackId)}</span>
+                      <span className={`text-xs ${liveIds.has(trackId) ? 'text-green-400' : 'text-text-secondary'}`}>
+                        {liveIds.has(trackId) ? 'In frame' : 'Not visible'}
+                      </span>
+                    </div>
+                    <div className={`text-2xl font-bold ${band ? RISK_BAND_STYLES[band].textClass : 'text-gray-500'}`}>
+                      {live?.score ? live.score.finalScore : '--'}
+                    </div>
+                    {history.length > 1 && (
+                      <div className="h-10">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <LineChart data={history}>
+                            <YAxis hide domain={[1, 'dataMax']} />
+                            <Line type="monotone" dataKey="score" stroke="#818CF8" dot={false} isAnimationActive={false} />
+                          </LineChart>
+                        </ResponsiveContainer>
+                      </div>
+                    )}
+                    {recorded && (
+                      <div className="text-xs text-text-secondary mt-1">
+                        Recorded {recorded.frameCount} frames
+                        {recorded.averageScore !== null && `, avg ${recorded.averageScore.toFixed(1)}`}
+                      </div>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
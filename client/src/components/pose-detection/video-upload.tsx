@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { useVideoAnalysis } from '@/hooks/use-video-analysis';
+import type { RecordingFrame } from '@/hooks/use-recording';
+import type { AssessmentOptions } from '@/lib/pose-scoring';
+import type { PoseDetector } from '@/lib/pose-detection';
+import type { KeypointFilterSettings } from '@/lib/keypoint-filter';
+import type { AssessmentMode } from '@/lib/scoring';
+
+interface VideoUploadProps {
+  poseDetector: PoseDetector | null;
+  assessmentMode: AssessmentMode;
+  assessmentOptions: AssessmentOptions;
+  filterSettings: KeypointFilterSettings;
+  disabled?: boolean;
+  onAnalysisComplete: (frames: RecordingFrame[]) => void;
+}
+
+const SAMPLE_RATES = [1, 2, 5, 10, 15];
+
+export default function VideoUpload({
+  poseDetector,
+  assessmentMode,
+  assessmentOptions,
+  filterSettings,
+  disabled = false,
+  onAnalysisComplete
+}: VideoUploadProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [sampleRate, setSampleRate] = useState(2);
+  const { isAnalyzing, analysisProgress, analysisError, analyzeVideo, cancelAnalysis } = useVideoAnalysis();
+
+  const handleAnalyze = async () => {
+    if (!file) return;
+    const frames = await analyzeVideo(file, poseDetector, {
+      sampleRate,
+      assessmentMode,
+      options: assessmentOptions,
+      filterSettings
+    });
+    if (frames) {
+      onAnalysisComplete(frames);
+    }
+  };
+
+  return (
+    <div className="bg-dark-card rounded-lg shadow-lg p-4 sm:p-6 mb-4 sm:mb-6">
+      <h3 className="text-base sm:text-xl font-medium flex items-center space-x-2 mb-4">
+        <span className="material-icon text-purple-500 text-lg sm:text-2xl">video_file</span>
+        <span>Analyse Video File</span>
+      </h3>
+
+      <div className="flex flex-col md:flex-row md:items-end gap-3">
+        <div className="flex-1">
+          <label className="block text-xs text-text-secondary mb-2">MP4 or WebM recording</label>
+          <input
+            type="file"
+            accept="video/mp4,video/webm,video/quicktime"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            disabled={isAnalyzing}
+            className="block w-full text-xs sm:text-sm text-text-secondary file:mr-3 file:py-1 file:px-3 file:rounded file:border-0 file:bg-gray-700 file:text-white"
+          />
+        </div>
+
+        <div>
+          <label className="block text-xs text-text-secondary mb-2">Sample rate</label>
+          <select
+            value={sampleRate}
+            onChange={(e) => setSampleRate(Number(e.target.value))}
+            disabled={isAnalyzing}
+            className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm"
+          >
+            {SAMPLE_RATES.map(rate => (
+              <option key={rate} value={rate}>{rate} frame{rate > 1 ? 's' : ''}/s</option>
+            ))}
+          </select>
+        </div>
+
+        {isAnalyzing ? (
+          <button
+            onClick={cancelAnalysis}
+            className="bg-gray-600 hover:bg-gray-700 px-4 py-2 rounded-lg transition-colors flex items-center space-x-2"
+          >
+            <span className="material-icon">stop</span>
+            <span>Cancel</span>
+          </button>
+        ) : (
+          <button
+            onClick={handleAnalyze}
+            disabled={!file || !poseDetector || disabled}
+            className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 px-4 py-2 rounded-lg transition-colors flex items-center space-x-2"
+          >
+            <span className="material-icon">analytics</span>
+            <span>Analyse</span>
+          </button>
+        )}
+      </div>
+
+      {isAnalyzing && (
+        <div className="mt-4">
+          <div className="w-full bg-gray-700 rounded-full h-2">
+            <div
+              className="bg-purple-500 h-2 rounded-full transition-all duration-300"
+              style={{ width: `${analysisProgress}%` }}
+            ></div>
+          </div>
+          <p className="text-xs text-text-secondary mt-2">Analysing frames... {Math.round(analysisProgress)}%</p>
+        </div>
+      )}
+      {disabled && !isAnalyzing && <p className="text-xs text-text-secondary mt-2">Stop the camera to analyse a file.</p>}
+      {!poseDetector && <p className="text-xs text-text-secondary mt-2">Waiting for the pose model to load...</p>}
+      {analysisError && <p className="text-xs text-red-400 mt-2">{analysisError}</p>}
+    </div>
+  );
+}
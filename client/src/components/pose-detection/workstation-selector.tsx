@@ -0,0 +1,177 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { RISK_BAND_STYLES, type RiskBand } from '@/lib/scoring';
+import type { SessionTag } from '@/lib/session-api';
+import type { Department, JobTask, Organisation, SessionWithAssessments, Site, Workstation } from '@shared/schema';
+
+export interface WorkstationSelection extends SessionTag {
+  organisationId?: number | null;
+  siteId?: number | null;
+  departmentId?: number | null;
+}
+
+interface WorkstationSelectorProps {
+  selection: WorkstationSelection;
+  onSelectionChange: (selection: WorkstationSelection) => void;
+}
+
+type LevelKey = 'organisationId' | 'siteId' | 'departmentId' | 'workstationId' | 'taskId';
+
+// Each level and the selections below it that become invalid when it changes
+const LEVELS: { key: LevelKey; route: string; label: string; parentKey?: LevelKey; parentField?: string }[] = [
+  { key: 'organisationId', route: 'organisations', label: 'Organisation' },
+  { key: 'siteId', route: 'sites', label: 'Site', parentKey: 'organisationId', parentField: 'organisationId' },
+  { key: 'departmentId', route: 'departments', label: 'Department', parentKey: 'siteId', parentField: 'siteId' },
+  { key: 'workstationId', route: 'workstations', label: 'Workstation', parentKey: 'departmentId', parentField: 'departmentId' },
+  { key: 'taskId', route: 'tasks', label: 'Job task', parentKey: 'workstationId', parentField: 'workstationId' }
+];
+
+const levelUrl = (route: string, parentId?: number | null) =>
+  parentId !== undefined && parentId !== null ? `/api/${route}?parentId=${parentId}` : `/api/${route}`;
+
+function LevelSelect({
+  level,
+  selection,
+  onSelect
+}: {
+  level: typeof LEVELS[number];
+  selection: WorkstationSelection;
+  onSelect: (key: LevelKey, id: number | null) => void;
+}) {
+  const parentId = level.parentKey ? selection[level.parentKey] : undefined;
+  const enabled = !level.parentKey || !!parentId;
+  const url = levelUrl(level.route, parentId);
+
+  const { data: items = [] } = useQuery<Array<Organisation | Site | Department | Workstation | JobTask>>({
+    queryKey: [url],
+    enabled
+  });
+
+  const addItem = async () => {
+    const name = prompt(`New ${level.label.toLowerCase()} name`);
+    if (!name?.trim()) return;
+
+    try {
+      const body: Record<string, any> = { name: name.trim() };
+      if (level.parentField) body[level.parentField] = parentId;
+      const res = await apiRequest('POST', `/api/${level.route}`, body);
+      const created = await res.json();
+      await queryClient.invalidateQueries({ queryKey: [url] });
+      onSelect(level.key, created.id);
+    } catch (error) {
+      console.error(`Error creating ${level.label}:`, error);
+      alert(`Failed to create ${level.label.toLowerCase()}. Please try again.`);
+    }
+  };
+
+  return (
+    <div className="bg-dark-secondary rounded-lg p-3">
+      <label className="block text-xs text-text-secondary mb-2">{level.label}</label>
+      <div className="flex items-center space-x-1">
+        <select
+          value={selection[level.key] ?? ''}
+          onChange={(e) => onSelect(level.key, e.target.value === '' ? null : Number(e.target.value))}
+          disabled={!enabled}
+          className="bg-gray-700 text-white border border-gray-600 rounded px-2 py-1 text-xs sm:text-sm w-full disabled:opacity-50"
+        >
+          <option value="">{enabled ? 'None' : '--'}</option>
+          {items.map(item => (
+            <option key={item.id} value={item.id}>{item.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={addItem}
+          disabled={!enabled}
+          className="bg-gray-600 hover:bg-gray-700 disabled:opacity-50 px-2 py-1 rounded transition-colors"
+          title={`Add ${level.label}`}
+        >
+          <span className="material-icon text-sm">add</span>
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function WorkstationSelector({ selection, onSelectionChange }: WorkstationSelectorProps) {
+  const workstationId = selection.workstationId;
+
+  const { data: history = [] } = useQuery<SessionWithAssessments[]>({
+    queryKey: [`/api/workstations/${workstationId}/history`],
+    enabled: !!workstationId
+  });
+
+  // Picking a level clears everything below it
+  const handleSelect = (key: LevelKey, id: number | null) => {
+    const index = LEVELS.findIndex(level => level.key === key);
+    const next: WorkstationSelection = { ...selection, [key]: id };
+    LEVELS.slice(index + 1).forEach(level => {
+      next[level.key] = null;
+    });
+    onSelectionChange(next);
+  };
+
+  const historyData = history
+    .filter(session => session.assessments.length > 0)
+    .map(session => ({
+      date: new Date(session.createdAt).toLocaleDateString(),
+      name: session.name,
+      method: session.assessments[0].method,
+      averageScore: session.assessments[0].averageScore,
+      maxScore: session.assessments[0].maxScore,
+      riskBand: session.assessments[0].riskBand as RiskBand
+    }));
+
+  return (
+    <div className="bg-dark-card rounded-lg shadow-lg p-4 sm:p-6 mb-4 sm:mb-6">
+      <h3 className="text-base sm:text-xl font-medium flex items-center space-x-2 mb-4">
+        <span className="material-icon text-teal-500 text-lg sm:text-2xl">factory</span>
+        <span>Workstation</span>
+      </h3>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-2 sm:gap-3">
+        {LEVELS.map(level => (
+          <LevelSelect key={level.key} level={level} selection={selection} onSelect={handleSelect} />
+        ))}
+      </div>
+      <p className="text-xs text-text-secondary mt-2">
+        {workstationId ? 'Saved sessions will be filed under this workstation.' : 'Select a workstation to tag saved sessions.'}
+      </p>
+
+      {workstationId && (
+        <div className="mt-4">
+          <h4 className="text-sm font-medium mb-2">Risk history</h4>
+          {historyData.length === 0 ? (
+            <p className="text-xs text-text-secondary">No saved sessions for this workstation yet.</p>
+          ) : (
+            <>
+              <div className="h-40">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={historyData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis dataKey="date" stroke="#9CA3AF" fontSize={10} />
+                    <YAxis stroke="#9CA3AF" fontSize={10} allowDecimals={false} />
+                    <Tooltip contentStyle={{ backgroundColor: '#1F2937', border: '1px solid #374151' }} />
+                    <Line type="monotone" dataKey="averageScore" name="Average" stroke="#3B82F6" dot />
+                    <Line type="monotone" dataKey="maxScore" name="Peak" stroke="#EF4444" dot />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="space-y-1 mt-2">
+                {historyData.slice(-5).reverse().map((entry, index) => (
+                  <div key={index} className="flex items-center justify-between text-xs">
+                    <span className="text-text-secondary">{entry.date} · {entry.name}</span>
+                    <span className={RISK_BAND_STYLES[entry.riskBand]?.textClass ?? 'text-gray-400'}>
+                      {entry.method} avg {entry.averageScore} / peak {entry.maxScore}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
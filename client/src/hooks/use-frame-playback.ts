@@ -0,0 +1,133 @@
+import { useState, useCallback, useEffect } from "react";
+
+interface TimedFrame {
+  timestamp: number; // seconds since the recording started
+}
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+// Longest real pause between two frames during playback; gaps in the recording are skipped over
+const MAX_FRAME_DELAY_S = 1;
+// Frames jumped by Shift + arrow
+const LARGE_STEP = 10;
+
+// Index of the frame closest in time, or null when there are no frames
+export function findNearestFrameIndex(frames: TimedFrame[], time: number): number | null {
+  if (frames.length === 0) return null;
+  let nearest = 0;
+  frames.forEach((frame, i) => {
+    if (Math.abs(frame.timestamp - time) < Math.abs(frames[nearest].timestamp - time)) nearest = i;
+  });
+  return nearest;
+}
+
+// Keys typed into form controls (and space on buttons) stay with the control. The frame
+// slider is left to the shortcuts, which cancel its own arrow key handling
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target instanceof HTMLInputElement && target.type === 'range') return false;
+  return ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'].includes(target.tagName) || target.isContentEditable;
+}
+
+// Steps through recorded frames at their recorded pace. With keyboard shortcuts enabled:
+// space plays or pauses, the arrow keys step (Shift for 10 frames), Home and End jump to the ends
+export function useFramePlayback(frames: TimedFrame[], enabled: boolean) {
+  const [frameIndex, setFrameIndex] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const lastIndex = frames.length - 1;
+
+  const selectFrame = useCallback((index: number | null) => {
+    setFrameIndex(index === null || lastIndex < 0 ? null : Math.max(0, Math.min(lastIndex, index)));
+  }, [lastIndex]);
+
+  const selectNearestFrame = useCallback((time: number) => {
+    setFrameIndex(findNearestFrameIndex(frames, time));
+  }, [frames]);
+
+  const step = useCallback((delta: number) => {
+    setIsPlaying(false);
+    setFrameIndex(current => lastIndex < 0 ? null : Math.max(0, Math.min(lastIndex, (current ?? -1) + delta)));
+  }, [lastIndex]);
+
+  const togglePlay = useCallback(() => {
+    if (lastIndex < 1) return;
+    // Playing from the last frame starts over
+    if (!isPlaying) setFrameIndex(current => current === null || current >= lastIndex ? 0 : current);
+    setIsPlaying(!isPlaying);
+  }, [isPlaying, lastIndex]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  // Frames can shrink (cleared or reloaded recordings) under the selection
+  useEffect(() => {
+    if (frameIndex !== null && frameIndex > lastIndex) setFrameIndex(lastIndex >= 0 ? lastIndex : null);
+  }, [frameIndex, lastIndex]);
+
+  useEffect(() => {
+    if (!enabled) setIsPlaying(false);
+  }, [enabled]);
+
+  // Wait out the recorded interval to the next frame, scaled by the playback speed
+  useEffect(() => {
+    if (!isPlaying || frameIndex === null) return;
+    if (frameIndex >= lastIndex) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const interval = frames[frameIndex + 1].timestamp - frames[frameIndex].timestamp;
+    const delay = Math.max(0, Math.min(interval, MAX_FRAME_DELAY_S)) / speed;
+    const timer = window.setTimeout(() => setFrameIndex(frameIndex + 1), delay * 1000);
+    return () => window.clearTimeout(timer);
+  }, [isPlaying, frameIndex, frames, lastIndex, speed]);
+
+  useEffect(() => {
+    if (!enabled || lastIndex < 0) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target) || event.ctrlKey || event.metaKey || event.altKey) return;
+
+      switch (event.key) {
+        case ' ':
+          togglePlay();
+          break;
+        case 'ArrowLeft':
+          step(event.shiftKey ? -LARGE_STEP : -1);
+          break;
+        case 'ArrowRight':
+          step(event.shiftKey ? LARGE_STEP : 1);
+          break;
+        case 'Home':
+          setIsPlaying(false);
+          setFrameIndex(0);
+          break;
+        case 'End':
+          setIsPlaying(false);
+          setFrameIndex(lastIndex);
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, lastIndex, togglePlay, step]);
+
+  return {
+    frameIndex,
+    isPlaying,
+    speed,
+    setSpeed,
+    selectFrame,
+    selectNearestFrame,
+    step,
+    togglePlay,
+    pause
+  };
+}
+
+export type FramePlayback = ReturnType<typeof useFramePlayback>;
@@ -1,28 +1,69 @@
 import { useState, useCallback, useEffect, useRef } from "react";
-import { initializePoseDetection, detectPose } from "@/lib/pose-detection";
-import { calculateRebaScore } from "@/lib/reba-calculator-simple";
-import { calculateRulaScore } from "@/lib/rula-calculator-new";
+import { initializePoseDetection, detectPose, grabVideoFrame, DEFAULT_POSE_MODEL_SETTINGS, type PoseDetector, type PoseModelSettings } from "@/lib/pose-detection";
+import type { AssessmentMode, OwasOptions, RebaOptions, RulaOptions } from "@/lib/scoring";
+import { evaluateDetection, type DetectionStatus, type FrameDetection } from "@/lib/pose-scoring";
+import { createPoseFilter, DEFAULT_KEYPOINT_FILTER_SETTINGS, type KeypointFilterSettings, type PoseFilter } from "@/lib/keypoint-filter";
+import { getTrackId, type TrackedWorker } from "@/lib/pose-tracking";
+import { DEFAULT_VIEWPOINT_CALIBRATION, type ViewpointCalibration } from "@/lib/viewpoint-calibration";
+import type { FrameCapture } from "./use-recording";
 
 export function usePoseDetection(
   videoRef: React.RefObject<HTMLVideoElement>,
   canvasRef: React.RefObject<HTMLCanvasElement>,
   cameraActive: boolean,
-  assessmentMode: 'RULA' | 'REBA' = 'REBA'
+  assessmentMode: AssessmentMode = 'REBA',
+  rebaOptions: RebaOptions = {},
+  rulaOptions: RulaOptions = {},
+  owasOptions: OwasOptions = {},
+  frameCapture?: FrameCapture,
+  filterSettings: KeypointFilterSettings = DEFAULT_KEYPOINT_FILTER_SETTINGS,
+  selectedTrackId: number | null = null,
+  viewpointCalibration: ViewpointCalibration = DEFAULT_VIEWPOINT_CALIBRATION
 ) {
-  const [poseDetector, setPoseDetector] = useState<any>(null);
+  const [poseDetector, setPoseDetector] = useState<PoseDetector | null>(null);
   const [poseData, setPoseData] = useState<any>(null);
   const [rebaScore, setRebaScore] = useState<any>(null);
+  const [rawScore, setRawScore] = useState<any>(null);
   const [confidence, setConfidence] = useState(0);
+  const [detectionStatus, setDetectionStatus] = useState<DetectionStatus | null>(null);
+  const [trackedWorkers, setTrackedWorkers] = useState<TrackedWorker[]>([]);
   const [fps, setFps] = useState(0);
   const [isProcessing, setIsProcessing] = useState(false);
   
   const fpsCounterRef = useRef(0);
   const lastTimeRef = useRef(Date.now());
   const animationIdRef = useRef<number>();
+  // Bumped whenever the loop is stopped, so a detection still awaiting from an older loop
+  // neither reports its result nor schedules another frame
+  const runIdRef = useRef(0);
+  const detectorRef = useRef<PoseDetector | null>(null);
+  // One filter per tracked worker (key 0 in single-person mode), with when it was last used
+  const poseFiltersRef = useRef(new Map<number, { filter: PoseFilter; lastSeen: number }>());
 
-  const initializeModel = useCallback(async () => {
+  // Filter state is tied to its settings, start fresh whenever they change
+  useEffect(() => {
+    poseFiltersRef.current = new Map();
+  }, [filterSettings]);
+
+  const getPoseFilter = useCallback((trackId: number, now: number) => {
+    const filters = poseFiltersRef.current;
+    let entry = filters.get(trackId);
+    if (!entry) {
+      entry = { filter: createPoseFilter(filterSettings), lastSeen: now };
+      filters.set(trackId, entry);
+    }
+    entry.lastSeen = now;
+    return entry.filter;
+  }, [filterSettings]);
+
+  // Loading a different model or backend replaces the running detector
+  const initializeModel = useCallback(async (settings: PoseModelSettings = DEFAULT_POSE_MODEL_SETTINGS) => {
     try {
-      const detector = await initializePoseDetection();
+      const detector = await initializePoseDetection(settings);
+      detectorRef.current?.dispose();
+      detectorRef.current = detector;
+      poseFiltersRef.current = new Map();
+      setTrackedWorkers([]);
       setPoseDetector(detector);
       return detector;
     } catch (error) {
@@ -31,43 +72,80 @@ export function usePoseDetection(
     }
   }, []);
 
-  const processFrame = useCallback(async () => {
-    if (!poseDetector || !videoRef.current || !cameraActive) {
-      animationIdRef.current = requestAnimationFrame(processFrame);
+  // The loop reads the latest options on every frame instead of restarting when they change
+  const loopSettingsRef = useRef({ assessmentMode, rebaOptions, rulaOptions, owasOptions, frameCapture, getPoseFilter, selectedTrackId, viewpointCalibration });
+  loopSettingsRef.current = { assessmentMode, rebaOptions, rulaOptions, owasOptions, frameCapture, getPoseFilter, selectedTrackId, viewpointCalibration };
+
+  const processFrame = useCallback(async (detector: PoseDetector, runId: number) => {
+    const scheduleNext = () => {
+      if (runIdRef.current === runId) {
+        animationIdRef.current = requestAnimationFrame(() => processFrame(detector, runId));
+      }
+    };
+
+    const video = videoRef.current;
+    if (!video || video.readyState < 2) {
+      scheduleNext();
       return;
     }
 
     try {
       setIsProcessing(true);
-      const poses = await detectPose(poseDetector, videoRef.current);
-      
-      if (poses && poses.length > 0) {
-        const pose = poses[0];
-        setPoseData(pose);
-        
-        // Calculate average confidence
-        const avgConfidence = pose.keypoints.reduce((sum: number, kp: any) => sum + kp.score, 0) / pose.keypoints.length;
-        setConfidence(Math.round(avgConfidence * 100));
-        
-        // Calculate score based on assessment mode
-        console.log('Assessment mode:', assessmentMode);
-        const score = assessmentMode === 'RULA' 
-          ? calculateRulaScore(pose.keypoints)
-          : calculateRebaScore(pose.keypoints);
-        
-        if (score) {
-          console.log(`${assessmentMode} Score calculated:`, score.finalScore, score.riskLevel);
-        } else {
-          console.log(`${assessmentMode} Score calculation failed`);
+
+      // When the recording wants this frame with an image, detect on a grabbed copy
+      // so the stored thumbnail, pose and score all come from the same pixels
+      const { frameCapture } = loopSettingsRef.current;
+      const capturedAt = Date.now();
+      const plan = frameCapture?.planFrame(capturedAt) ?? null;
+      const frame = plan?.withImage ? grabVideoFrame(video) : null;
+      const detectedAt = performance.now();
+      const poses = await detectPose(detector, frame ?? video, detectedAt);
+      if (runIdRef.current !== runId) return;
+
+      const { assessmentMode, rebaOptions, rulaOptions, owasOptions, getPoseFilter, selectedTrackId, viewpointCalibration } = loopSettingsRef.current;
+      const options = { reba: rebaOptions, rula: rulaOptions, owas: owasOptions, viewpoint: viewpointCalibration };
+      const evaluate = (detected: any[] | null, trackId: number) =>
+        evaluateDetection(detected, assessmentMode, options, pose => getPoseFilter(trackId, detectedAt).apply(pose, detectedAt));
+
+      let detection: FrameDetection;
+      let subjectTrackId: number | null = null;
+
+      if (detector.detectionMode === 'multi' && poses) {
+        // Every person is scored with their own filter, the selected one drives the dashboard
+        const workers: TrackedWorker[] = poses.map((pose: any, index: number) => {
+          const trackId = getTrackId(pose) ?? index + 1;
+          return { ...evaluate([pose], trackId), trackId };
+        });
+        setTrackedWorkers(workers);
+
+        const subject = selectedTrackId === null
+          ? workers[0]
+          : workers.find(worker => worker.trackId === selectedTrackId);
+        // A selected worker who has left the frame is reported as missing, not swapped for someone else
+        detection = subject ?? evaluate([], selectedTrackId ?? 0);
+        subjectTrackId = subject?.trackId ?? selectedTrackId;
+
+        if (plan) {
+          workers.forEach(worker => frameCapture?.addFrame(plan, worker, frame, worker.trackId));
+          if (!subject) frameCapture?.addFrame(plan, detection, frame, subjectTrackId);
         }
-        
-        setRebaScore(score);
+
+        // Forget filters for people who have been gone for a while
+        poseFiltersRef.current.forEach((entry, trackId) => {
+          if (detectedAt - entry.lastSeen > 5000) poseFiltersRef.current.delete(trackId);
+        });
       } else {
-        setPoseData(null);
-        setRebaScore(null);
-        setConfidence(0);
+        detection = evaluate(poses, 0);
+        if (detector.detectionMode === 'multi') setTrackedWorkers([]);
+        if (plan) frameCapture?.addFrame(plan, detection, frame);
       }
-      
+
+      setPoseData(detection.pose);
+      setRebaScore(detection.score);
+      setRawScore(detection.rawScore);
+      setConfidence(detection.confidence);
+      setDetectionStatus(detection.status);
+
       // Update FPS
       fpsCounterRef.current++;
       const now = Date.now();
@@ -83,19 +161,17 @@ export function usePoseDetection(
       setIsProcessing(false);
     }
 
-    animationIdRef.current = requestAnimationFrame(processFrame);
-  }, [poseDetector, videoRef, cameraActive, assessmentMode]);
+    scheduleNext();
+  }, [videoRef]);
 
   useEffect(() => {
-    if (cameraActive && poseDetector) {
-      animationIdRef.current = requestAnimationFrame(processFrame);
-    } else {
-      if (animationIdRef.current) {
-        cancelAnimationFrame(animationIdRef.current);
-      }
-    }
+    if (!cameraActive || !poseDetector) return;
+
+    const runId = ++runIdRef.current;
+    animationIdRef.current = requestAnimationFrame(() => processFrame(poseDetector, runId));
 
     return () => {
+      runIdRef.current++;
       if (animationIdRef.current) {
         cancelAnimationFrame(animationIdRef.current);
       }
@@ -106,7 +182,11 @@ export function usePoseDetection(
     poseDetector,
     poseData,
     rebaScore,
+    rawScore,
     confidence,
+    detectionStatus,
+    detectionMode: poseDetector?.detectionMode ?? 'single',
+    trackedWorkers,
     fps,
     isProcessing,
     initializeModel
@@ -1,115 +1,204 @@
-import { useState, useCallback, useRef } from "react";
+import { useState, useCallback, useRef, useMemo } from "react";
+import type { DetectionStatus, FrameDetection } from "@/lib/pose-scoring";
+import type { FrameAnnotation } from "@/lib/frame-annotations";
 
-interface RecordingFrame {
+export interface RecordingFrame {
   timestamp: number;
-  rebaScore: any;
-  imageData: string;
+  rebaScore: any; // null unless detectionStatus is 'detected'
+  rawScore?: any; // score before keypoint filtering, kept in memory for comparison but not saved
+  imageData: string; // Empty on pose-only frames between thumbnails
+  mirrored?: boolean; // live thumbnails are flipped to match the camera view, their keypoints are not
   poseData: any;
+  confidence: number; // mean keypoint confidence, 0-100
+  detectionStatus: DetectionStatus;
+  trackId?: number | null; // worker the frame belongs to in multi-person mode
+  annotation?: FrameAnnotation; // assessor adjustments, notes and audit trail
 }
 
-export function useRecording() {
+// Where the frames in recordingData came from
+export type RecordingSource = 'live' | 'video' | 'session';
+
+export interface RecordingSettings {
+  durationSeconds: number | null; // null records until stopped
+  sampleRate: number;             // pose samples kept per second, capped by the detector's FPS
+  thumbnailInterval: number;      // seconds between stored JPEG thumbnails
+}
+
+export const DEFAULT_RECORDING_SETTINGS: RecordingSettings = {
+  durationSeconds: 60,
+  sampleRate: 10,
+  thumbnailInterval: 1
+};
+
+// Image to show for a frame: its own thumbnail, or the closest earlier one
+export function getFrameImage(frames: RecordingFrame[], frame: RecordingFrame): string {
+  if (frame.imageData) return frame.imageData;
+  const index = frames.indexOf(frame);
+  for (let i = index - 1; i >= 0; i--) {
+    if (frames[i].imageData) return frames[i].imageData;
+  }
+  return frames.find(f => f.imageData)?.imageData ?? '';
+}
+
+// A frame the recording wants, decided before detection runs on it
+export interface FramePlan {
+  timestamp: number;  // seconds since the recording started
+  withImage: boolean; // a thumbnail is due, so detect on a grabbed copy of the frame
+}
+
+// Handed to the detection loop so each kept frame is stored with the pose, score
+// and image from the same video frame
+export interface FrameCapture {
+  planFrame: (capturedAt: number) => FramePlan | null;
+  // Called once per tracked worker in multi-person mode, all with the same plan and frame
+  addFrame: (plan: FramePlan, detection: FrameDetection, frame: HTMLCanvasElement | null, trackId?: number | null) => void;
+}
+
+function captureThumbnail(frame: HTMLCanvasElement): string {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  if (!ctx) return '';
+
+  // Apply horizontal flip to match camera display
+  ctx.save();
+  ctx.scale(-1, 1);
+  ctx.translate(-canvas.width, 0);
+  ctx.drawImage(frame, 0, 0);
+  ctx.restore();
+
+  return canvas.toDataURL('image/jpeg', 0.9);
+}
+
+export function useRecording(settings: RecordingSettings = DEFAULT_RECORDING_SETTINGS) {
   const [isRecording, setIsRecording] = useState(false);
+  const [recordingSource, setRecordingSource] = useState<RecordingSource>('live');
   const [recordingData, setRecordingData] = useState<RecordingFrame[]>([]);
   const [recordingProgress, setRecordingProgress] = useState(0);
+  const [recordingElapsed, setRecordingElapsed] = useState(0);
   const recordingStartTime = useRef<number>(0);
   const recordingInterval = useRef<NodeJS.Timeout | null>(null);
+  const isRecordingRef = useRef(false);
+  const lastSampleTime = useRef(-Infinity);
+  const lastThumbnailTime = useRef(-Infinity);
+  // Settings are fixed for the length of a recording
+  const activeSettings = useRef<RecordingSettings>(settings);
+
+  const stopRecording = useCallback(() => {
+    isRecordingRef.current = false;
+    setIsRecording(false);
+    setRecordingProgress(0);
+    if (recordingInterval.current) {
+      clearInterval(recordingInterval.current);
+      recordingInterval.current = null;
+    }
+  }, []);
 
   const startRecording = useCallback((videoRef: React.RefObject<HTMLVideoElement>) => {
     if (!videoRef.current) return;
 
+    activeSettings.current = settings;
+    lastSampleTime.current = -Infinity;
+    lastThumbnailTime.current = -Infinity;
+    isRecordingRef.current = true;
+
     setIsRecording(true);
+    setRecordingSource('live');
     setRecordingData([]);
     setRecordingProgress(0);
+    setRecordingElapsed(0);
     recordingStartTime.current = Date.now();
 
-    // Record frame every 1000ms (1 second) for 60 seconds
+    // Progress and the duration limit only, frames arrive through frameCapture
     recordingInterval.current = setInterval(() => {
       const elapsed = Date.now() - recordingStartTime.current;
-      const progress = Math.min((elapsed / 60000) * 100, 100);
-      setRecordingProgress(progress);
-
-      if (elapsed >= 60000) {
-        stopRecording();
-        return;
-      }
+      const { durationSeconds } = activeSettings.current;
+      setRecordingElapsed(elapsed / 1000);
 
-      // Capture frame with proper alignment and aspect ratio
-      if (videoRef.current) {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        const video = videoRef.current;
-        
-        // Set canvas to match video resolution
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-        
-        if (ctx) {
-          
-          // Save context state
-          ctx.save();
-          
-          // Apply horizontal flip to match camera display
-          ctx.scale(-1, 1);
-          ctx.translate(-canvas.width, 0);
-          
-          // Draw video frame directly
-          ctx.drawImage(video, 0, 0);
-          
-          // Restore context
-          ctx.restore();
-          
-          // Generate high-quality image data
-          const imageData = canvas.toDataURL('image/jpeg', 0.9);
-          
-          // Create frame data structure
-          const frame: RecordingFrame = {
-            timestamp: elapsed / 1000,
-            rebaScore: null,
-            imageData,
-            poseData: null
-          };
-          
-          setRecordingData(prev => [...prev, frame]);
+      if (durationSeconds !== null) {
+        setRecordingProgress(Math.min((elapsed / (durationSeconds * 1000)) * 100, 100));
+        if (elapsed >= durationSeconds * 1000) {
+          stopRecording();
         }
       }
-    }, 1000);
-  }, []);
+    }, 250);
+  }, [settings, stopRecording]);
 
-  const stopRecording = useCallback(() => {
-    setIsRecording(false);
-    setRecordingProgress(0);
-    if (recordingInterval.current) {
-      clearInterval(recordingInterval.current);
-      recordingInterval.current = null;
-    }
-  }, []);
+  // Keeps one frame per sampling interval, with a thumbnail every thumbnailInterval
+  // seconds. Frames where detection fails are kept and flagged by their status
+  const frameCapture = useMemo<FrameCapture>(() => {
+    // Workers sharing a video frame share its encoded thumbnail
+    const thumbnails = new WeakMap<HTMLCanvasElement, string>();
+    const thumbnailFor = (frame: HTMLCanvasElement) => {
+      if (!thumbnails.has(frame)) thumbnails.set(frame, captureThumbnail(frame));
+      return thumbnails.get(frame)!;
+    };
+
+    return {
+      planFrame: (capturedAt) => {
+        if (!isRecordingRef.current) return null;
+
+        const elapsed = capturedAt - recordingStartTime.current;
+        const { sampleRate, thumbnailInterval } = activeSettings.current;
+        if (elapsed - lastSampleTime.current < 1000 / sampleRate) return null;
+        lastSampleTime.current = elapsed;
+
+        const withImage = elapsed - lastThumbnailTime.current >= thumbnailInterval * 1000;
+        if (withImage) lastThumbnailTime.current = elapsed;
+
+        return { timestamp: elapsed / 1000, withImage };
+      },
+      addFrame: (plan, detection, frame, trackId = null) => {
+        // Detection is async, the recording may have stopped in the meantime
+        if (!isRecordingRef.current) return;
 
-  const updateLastFrame = useCallback((rebaScore: any, poseData: any) => {
-    setRecordingData(prev => {
-      if (prev.length === 0) return prev;
-      const updated = [...prev];
-      const lastIndex = updated.length - 1;
-      updated[lastIndex] = {
-        ...updated[lastIndex],
-        rebaScore,
-        poseData
-      };
-      return updated;
-    });
+        const recordingFrame: RecordingFrame = {
+          timestamp: plan.timestamp,
+          rebaScore: detection.score,
+          rawScore: detection.rawScore,
+          imageData: plan.withImage && frame ? thumbnailFor(frame) : '',
+          mirrored: true,
+          poseData: detection.pose,
+          confidence: detection.confidence,
+          detectionStatus: detection.status,
+          trackId
+        };
+        setRecordingData(prev => [...prev, recordingFrame]);
+      }
+    };
   }, []);
 
   const clearRecording = useCallback(() => {
     setRecordingData([]);
     setRecordingProgress(0);
+    setRecordingElapsed(0);
+  }, []);
+
+  // Assessor edits replace one frame, found by identity since panels see filtered frame lists
+  const updateFrame = useCallback((frame: RecordingFrame, changes: Partial<RecordingFrame>) => {
+    setRecordingData(prev => prev.map(f => f === frame ? { ...f, ...changes } : f));
   }, []);
 
+  // Replace the current recording with frames from a saved session or an analysed video file
+  const loadRecording = useCallback((frames: RecordingFrame[], source: RecordingSource = 'session') => {
+    stopRecording();
+    setRecordingSource(source);
+    setRecordingData(frames);
+  }, [stopRecording]);
+
   return {
     isRecording,
+    recordingSource,
     recordingData,
     recordingProgress,
+    recordingElapsed,
     startRecording,
     stopRecording,
-    updateLastFrame,
-    clearRecording
+    frameCapture,
+    clearRecording,
+    loadRecording,
+    updateFrame
   };
-}
\ No newline at end of file
+}
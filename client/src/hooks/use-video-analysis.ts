@@ -0,0 +1,169 @@
+import { useState, useCallback, useRef } from "react";
+import { detectPose, type PoseDetector } from "@/lib/pose-detection";
+import type { NormalizedPose } from "@/lib/keypoints";
+import { evaluateDetection, type AssessmentOptions } from "@/lib/pose-scoring";
+import type { AssessmentMode } from "@/lib/scoring";
+import { filterPoseSequence, type KeypointFilterSettings } from "@/lib/keypoint-filter";
+import type { RecordingFrame } from "./use-recording";
+
+export interface VideoAnalysisSettings {
+  sampleRate: number; // frames analysed per second of video
+  assessmentMode: AssessmentMode;
+  options: AssessmentOptions;
+  filterSettings: KeypointFilterSettings;
+}
+
+// Thumbnails are stored downscaled, phone footage is often 1080p or more
+const MAX_THUMBNAIL_WIDTH = 640;
+
+// Keypoints are filtered and scored in video pixels, only the stored copy is rescaled to
+// the thumbnail it is drawn over. keypoints3D are in metres and need no rescaling
+function scalePose(pose: NormalizedPose, scale: number): NormalizedPose {
+  return {
+    ...pose,
+    keypoints: pose.keypoints.map(kp => ({ ...kp, x: kp.x * scale, y: kp.y * scale })),
+    landmarks: pose.landmarks?.map(kp => ({ ...kp, x: kp.x * scale, y: kp.y * scale }))
+  };
+}
+
+function waitForEvent(video: HTMLVideoElement, event: 'loadeddata' | 'seeked'): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error(video.error?.message || 'Video could not be decoded'));
+    };
+    const cleanup = () => {
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener('error', onError);
+    };
+    video.addEventListener(event, onEvent);
+    video.addEventListener('error', onError);
+  });
+}
+
+export function useVideoAnalysis() {
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState(0);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const cancelledRef = useRef(false);
+
+  // Decodes the file frame by frame (seeking, not playback) and runs each sample
+  // through the same detector and scoring engine as the live camera
+  const analyzeVideo = useCallback(async (
+    file: File,
+    detector: PoseDetector | null,
+    settings: VideoAnalysisSettings
+  ): Promise<RecordingFrame[] | null> => {
+    if (!detector) {
+      setAnalysisError('Pose detection model is not loaded yet');
+      return null;
+    }
+
+    cancelledRef.current = false;
+    setIsAnalyzing(true);
+    setAnalysisProgress(0);
+    setAnalysisError(null);
+
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+
+    try {
+      const loaded = waitForEvent(video, 'loadeddata');
+      video.src = url;
+      await loaded;
+
+      const duration = video.duration;
+      if (!Number.isFinite(duration) || duration <= 0) {
+        throw new Error('Video has no readable duration');
+      }
+
+      const scale = Math.min(1, MAX_THUMBNAIL_WIDTH / video.videoWidth);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      const ctx = canvas.getContext('2d');
+
+      // Smoothing state from the live camera must not leak into the file
+      detector.reset();
+
+      const step = 1 / settings.sampleRate;
+      const sampleCount = Math.floor(duration / step) + 1;
+      const samples: { time: number; poses: NormalizedPose[] | null; imageData: string }[] = [];
+
+      for (let i = 0; i < sampleCount; i++) {
+        if (cancelledRef.current) return null;
+
+        const time = Math.min(i * step, duration);
+        const seeked = waitForEvent(video, 'seeked');
+        video.currentTime = time;
+        await seeked;
+
+        const poses = await detectPose(detector, video, time * 1000);
+
+        let imageData = '';
+        if (ctx) {
+          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+          imageData = canvas.toDataURL('image/jpeg', 0.8);
+        }
+
+        samples.push({ time, poses, imageData });
+
+        setAnalysisProgress(((i + 1) / sampleCount) * 100);
+      }
+
+      // The whole file is available, so keypoints are filtered as one sequence with
+      // gaps interpolated from both sides rather than only held from the past
+      const filtered = filterPoseSequence(
+        samples.map(sample => ({ pose: sample.poses?.[0] ?? null, timestampMs: sample.time * 1000 })),
+        settings.filterSettings
+      );
+
+      return samples.map((sample, i): RecordingFrame => {
+        const pose = filtered[i];
+        const detection = evaluateDetection(
+          sample.poses,
+          settings.assessmentMode,
+          settings.options,
+          pose ? () => pose : undefined
+        );
+        return {
+          timestamp: sample.time,
+          rebaScore: detection.score,
+          rawScore: detection.rawScore,
+          imageData: sample.imageData,
+          poseData: detection.pose && scalePose(detection.pose, scale),
+          confidence: detection.confidence,
+          detectionStatus: detection.status
+        };
+      });
+    } catch (error) {
+      console.error('Error analysing video:', error);
+      setAnalysisError(error instanceof Error ? error.message : 'Failed to analyse video');
+      return null;
+    } finally {
+      URL.revokeObjectURL(url);
+      video.removeAttribute('src');
+      video.load();
+      setIsAnalyzing(false);
+    }
+  }, []);
+
+  const cancelAnalysis = useCallback(() => {
+    cancelledRef.current = true;
+  }, []);
+
+  return {
+    isAnalyzing,
+    analysisProgress,
+    analysisError,
+    analyzeVideo,
+    cancelAnalysis
+  };
+}
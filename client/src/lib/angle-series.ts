@@ -0,0 +1,150 @@
+// Joint angles over a recording, with the angle ranges each method scores differently. The
+// angles are the ones the scoring engine measured, so charts and exports match the scores
+import { KEYPOINT_NAMES } from "./keypoints";
+import { BODY_SIDES, type AssessmentMode } from "./scoring";
+import { describeAdjustments, hasAssessorChanges, type FrameAnnotation } from "./frame-annotations";
+
+export type AngleJoint = 'trunkAngle' | 'neckAngle' | 'upperArmAngle' | 'lowerArmAngle' | 'wristAngle' | 'kneeAngle';
+
+// 0 neutral, 1 moderate, 2 high, 3 extreme: how far a range sits above the joint's best score
+export type AngleLevel = 0 | 1 | 2 | 3;
+
+export interface AngleBand {
+  min: number;
+  max: number;
+  level: AngleLevel;
+  label: string;
+}
+
+interface AngleJointDefinition {
+  label: string;
+  color: string;
+  range: [number, number]; // chart axis, degrees
+}
+
+export const ANGLE_JOINTS: Record<AngleJoint, AngleJointDefinition> = {
+  trunkAngle: { label: 'Trunk flexion', color: '#3B82F6', range: [-30, 120] },
+  neckAngle: { label: 'Neck flexion', color: '#8B5CF6', range: [-40, 90] },
+  upperArmAngle: { label: 'Upper arm flexion', color: '#F59E0B', range: [-60, 180] },
+  lowerArmAngle: { label: 'Elbow flexion', color: '#10B981', range: [0, 180] },
+  wristAngle: { label: 'Wrist flexion', color: '#EC4899', range: [-90, 90] },
+  kneeAngle: { label: 'Knee flexion', color: '#06B6D4', range: [0, 150] }
+};
+
+export const ANGLE_LEVEL_COLORS: Record<AngleLevel, string> = {
+  0: '#10B981',
+  1: '#EAB308',
+  2: '#F97316',
+  3: '#EF4444'
+};
+
+// Splits a joint's axis range at the method's thresholds; levels has one entry per range
+function bands(joint: AngleJoint, thresholds: number[], levels: AngleLevel[]): AngleBand[] {
+  const [low, high] = ANGLE_JOINTS[joint].range;
+  const edges = [low, ...thresholds, high];
+  return levels.map((level, i) => ({
+    min: edges[i],
+    max: edges[i + 1],
+    level,
+    label: i === 0 ? `< ${edges[1]}°` : i === levels.length - 1 ? `> ${edges[i]}°` : `${edges[i]}-${edges[i + 1]}°`
+  }));
+}
+
+// Score thresholds from the REBA, RULA and OWAS worksheets, as applied by the scoring engine
+export const ANGLE_BANDS: Record<AssessmentMode, Partial<Record<AngleJoint, AngleBand[]>>> = {
+  REBA: {
+    trunkAngle: bands('trunkAngle', [5, 20, 60], [0, 1, 2, 3]),
+    neckAngle: bands('neckAngle', [20], [0, 1]),
+    upperArmAngle: bands('upperArmAngle', [20, 45, 90], [0, 1, 2, 3]),
+    lowerArmAngle: bands('lowerArmAngle', [60, 100], [1, 0, 1]),
+    wristAngle: bands('wristAngle', [-15, 15], [1, 0, 1]),
+    kneeAngle: bands('kneeAngle', [30, 60], [0, 1, 2])
+  },
+  RULA: {
+    trunkAngle: bands('trunkAngle', [5, 20, 60], [0, 1, 2, 3]),
+    neckAngle: bands('neckAngle', [10, 20], [0, 1, 2]),
+    upperArmAngle: bands('upperArmAngle', [20, 45, 90], [0, 1, 2, 3]),
+    lowerArmAngle: bands('lowerArmAngle', [60, 100], [1, 0, 1]),
+    wristAngle: bands('wristAngle', [5, 15], [0, 1, 2])
+  },
+  OWAS: {
+    trunkAngle: bands('trunkAngle', [20], [0, 1]),
+    kneeAngle: bands('kneeAngle', [30], [0, 1])
+  }
+};
+
+// Joints a method measures, in body order
+export function getAngleJoints(mode: AssessmentMode): AngleJoint[] {
+  return (Object.keys(ANGLE_JOINTS) as AngleJoint[]).filter(joint => ANGLE_BANDS[mode][joint]);
+}
+
+interface AngleFrame {
+  timestamp: number;
+  rebaScore: any;
+  poseData?: any;
+  detectionStatus?: string;
+  annotation?: FrameAnnotation;
+}
+
+export type AngleSeriesRow = { time: number; frameIndex: number } & Partial<Record<AngleJoint, number | null>>;
+
+// One chart row per frame; joints the frame did not measure are null so lines break there
+export function buildAngleSeries(frames: AngleFrame[], joints: AngleJoint[]): AngleSeriesRow[] {
+  return frames.map((frame, frameIndex) => {
+    const row: AngleSeriesRow = { time: frame.timestamp, frameIndex };
+    joints.forEach(joint => {
+      const angle = frame.rebaScore?.[joint];
+      row[joint] = typeof angle === 'number' ? angle : null;
+    });
+    return row;
+  });
+}
+
+const SIDE_ANGLES = ['upperArmAngle', 'lowerArmAngle', 'wristAngle'] as const;
+
+// upperArmAngle -> upper_arm
+const toColumnName = (angle: string) => angle.replace('Angle', '').replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+
+const formatNumber = (value: unknown, digits: number) => typeof value === 'number' && isFinite(value) ? Number(value.toFixed(digits)) : '';
+
+// Flat per-frame rows for reprocessing outside the app: every measured angle, both arms when
+// they were scored separately, assessor adjustments, and the detector's confidence for each keypoint
+export function buildAngleExportRows(frames: AngleFrame[], mode: AssessmentMode): Record<string, string | number>[] {
+  const joints = getAngleJoints(mode);
+
+  return frames.map((frame, index) => {
+    const score = frame.rebaScore;
+    const row: Record<string, string | number> = {
+      frame: index + 1,
+      time_s: formatNumber(frame.timestamp, 3),
+      detection_status: frame.detectionStatus ?? '',
+      method: score?.method ?? mode,
+      final_score: score?.finalScore ?? '',
+      detected_score: frame.annotation ? frame.annotation.autoScore?.finalScore ?? '' : score?.finalScore ?? '',
+      score_source: hasAssessorChanges(frame.annotation) ? 'assessor' : score ? 'detected' : '',
+      scored_side: score?.side ?? '',
+      angle_source: score ? score.angleSource ?? '2d' : ''
+    };
+
+    joints.forEach(joint => {
+      row[`${toColumnName(joint)}_deg`] = formatNumber(score?.[joint], 1);
+    });
+    if (mode !== 'OWAS') {
+      BODY_SIDES.forEach(side => {
+        SIDE_ANGLES.forEach(angle => {
+          row[`${side}_${toColumnName(angle)}_deg`] = formatNumber(score?.sides?.[side]?.[angle], 1);
+        });
+      });
+    }
+    row.trunk_twist_deg = formatNumber(score?.trunkTwistAngle, 1);
+    row.trunk_side_bend_deg = formatNumber(score?.trunkSideBendAngle, 1);
+
+    row.assessor_adjustments = describeAdjustments(frame.annotation);
+    row.assessor_note = frame.annotation?.note ?? '';
+
+    KEYPOINT_NAMES.forEach((name, i) => {
+      row[`${name}_confidence`] = formatNumber(frame.poseData?.keypoints?.[i]?.score, 3);
+    });
+    return row;
+  });
+}
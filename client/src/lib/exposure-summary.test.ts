@@ -0,0 +1,82 @@
+// Time-weighted exposure over synthetic REBA recordings: band and segment shares, peak,
+// P95 and the exposure index
+import { describe, expect, it } from "vitest";
+import { summarizeExposure } from "./exposure-summary";
+import type { TimelineFrame } from "./posture-timeline";
+
+const frame = (timestamp: number, finalScore: number | null, segments: Record<string, number> = {}): TimelineFrame =>
+  ({ timestamp, rebaScore: finalScore === null ? null : { method: 'REBA', finalScore, ...segments } });
+
+describe("band exposure", () => {
+  it("weights each frame by the time until the next one, capped at 2 s", () => {
+    // The first frame stands for 2 s of a 3 s gap, the last for the typical 0.5 s
+    const summary = summarizeExposure([frame(0, 9), frame(3, 2), frame(3.5, 2), frame(4, 2)], 'REBA');
+
+    expect(summary?.scoredSeconds).toBe(3.5);
+    expect(summary?.bands).toEqual([
+      { band: 'acceptable', seconds: 0, percentage: 0 },
+      { band: 'investigate', seconds: 1.5, percentage: 42.9 },
+      { band: 'change-soon', seconds: 0, percentage: 0 },
+      { band: 'change-now', seconds: 2, percentage: 57.1 }
+    ]);
+  });
+
+  it("leaves unscored frames out of the scored time", () => {
+    const summary = summarizeExposure([frame(0, 5), frame(1, null), frame(2, 1), frame(3, 1)], 'REBA');
+
+    expect(summary?.scoredSeconds).toBe(3);
+    expect(summary?.bands.map(row => row.percentage)).toEqual([66.7, 0, 33.3, 0]);
+  });
+
+  it("returns null when no frame was scored", () => {
+    expect(summarizeExposure([frame(0, null), frame(1, null)], 'REBA')).toBeNull();
+    expect(summarizeExposure([], 'REBA')).toBeNull();
+  });
+});
+
+describe("segment exposure", () => {
+  it("counts the time each segment spends at or above its action level", () => {
+    const summary = summarizeExposure([
+      frame(0, 4, { neck: 2, trunk: 3, upperArm: 1, wrist: 1 }),
+      frame(1, 4, { neck: 1, trunk: 4, upperArm: 2, wrist: 1 }),
+      frame(2, 4, { neck: 1, trunk: 2, upperArm: 3, wrist: 1 }),
+      frame(3, 4, { neck: 1, trunk: 1, upperArm: 1, wrist: 1 })
+    ], 'REBA');
+
+    expect(summary?.segments.map(({ segment, actionLevel, seconds, percentage }) => ({ segment, actionLevel, seconds, percentage }))).toEqual([
+      { segment: 'neck', actionLevel: 2, seconds: 1, percentage: 25 },
+      { segment: 'trunk', actionLevel: 3, seconds: 2, percentage: 50 },
+      { segment: 'upperArm', actionLevel: 3, seconds: 1, percentage: 25 },
+      { segment: 'wrist', actionLevel: 2, seconds: 0, percentage: 0 }
+    ]);
+  });
+
+  it("has no segment rows for OWAS", () => {
+    const summary = summarizeExposure([{ timestamp: 0, rebaScore: { method: 'OWAS', finalScore: 2 } }], 'OWAS');
+    expect(summary?.segments).toEqual([]);
+  });
+});
+
+describe("peak, P95 and exposure index", () => {
+  // 19 s at score 4 and 1 s at score 10, one frame per second
+  const scores = [...Array.from({ length: 19 }, () => 4), 10];
+  const frames = scores.map((score, t) => frame(t, score));
+
+  it("finds the peak frame", () => {
+    const summary = summarizeExposure([frame(-1, null), ...frames], 'REBA');
+    expect(summary).toMatchObject({ peakScore: 10, peakFrameIndex: 20, peakTime: 19 });
+  });
+
+  it("takes the time-weighted 95th percentile", () => {
+    expect(summarizeExposure(frames, 'REBA')?.percentile95).toBe(4);
+
+    // A second second at score 10 pushes it past 5% of the time
+    const longer = [...frames.slice(0, 18), frame(18, 10), frame(19, 10)];
+    expect(summarizeExposure(longer, 'REBA')?.percentile95).toBe(10);
+  });
+
+  it("sums the score-minutes above the acceptable band", () => {
+    // (19 s x (4 - 1) + 1 s x (10 - 1)) / 60
+    expect(summarizeExposure(frames, 'REBA')?.exposureIndex).toBe(1.1);
+  });
+});
@@ -0,0 +1,136 @@
+// Exposure over a whole recording rather than single frames: how long the worker spent in
+// each risk band and above each body segment's action level. Every frame counts for the
+// time until the next one, so uneven sampling and dropped frames do not skew the shares
+import {
+  RISK_BAND_ORDER,
+  getAssessmentMethod,
+  getScoreRiskBand,
+  type AssessmentMode,
+  type RiskBand
+} from "./scoring";
+import type { TimelineFrame } from "./posture-timeline";
+
+export type ExposureSegment = 'neck' | 'trunk' | 'upperArm' | 'wrist';
+
+// Segment score from which a body part counts as above its action level: flexed past
+// 20° (neck, trunk), 45° (upper arm) or 15° (wrist), modifiers included
+export const SEGMENT_ACTION_LEVELS: Partial<Record<AssessmentMode, Record<ExposureSegment, number>>> = {
+  REBA: { neck: 2, trunk: 3, upperArm: 3, wrist: 2 },
+  RULA: { neck: 3, trunk: 3, upperArm: 3, wrist: 3 }
+};
+
+export const EXPOSURE_SEGMENT_LABELS: Record<ExposureSegment, string> = {
+  neck: 'Neck',
+  trunk: 'Trunk',
+  upperArm: 'Upper arm',
+  wrist: 'Wrist'
+};
+
+// Longest time one frame may stand for; longer gaps count as unobserved
+const MAX_FRAME_S = 2;
+
+export interface BandExposure {
+  band: RiskBand;
+  seconds: number;
+  percentage: number;
+}
+
+export interface SegmentExposure {
+  segment: ExposureSegment;
+  label: string;
+  actionLevel: number;
+  seconds: number;
+  percentage: number;
+}
+
+export interface ExposureSummary {
+  scoredSeconds: number;
+  bands: BandExposure[];
+  segments: SegmentExposure[]; // empty for methods without segment action levels
+  peakScore: number;
+  peakFrameIndex: number;      // index into the frames passed in
+  peakTime: number;
+  percentile95: number;
+  // Score points above the acceptable band, summed over time in minutes (score-minutes)
+  exposureIndex: number;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Seconds each frame stands for: the interval to the next frame, capped, with the last
+// frame taking the typical interval
+function getFrameDurations(frames: TimelineFrame[]): number[] {
+  const intervals = frames.slice(1).map((frame, i) => frame.timestamp - frames[i].timestamp).filter(dt => dt > 0);
+  const sorted = [...intervals].sort((a, b) => a - b);
+  const typical = sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : 0;
+
+  return frames.map((frame, i) => {
+    const dt = i < frames.length - 1 ? frames[i + 1].timestamp - frame.timestamp : typical;
+    return Math.max(0, Math.min(dt, MAX_FRAME_S));
+  });
+}
+
+// Time-weighted percentile of the frame scores
+function weightedPercentile(samples: Array<{ score: number; seconds: number }>, fraction: number): number {
+  const sorted = [...samples].sort((a, b) => a.score - b.score);
+  const total = sorted.reduce((sum, sample) => sum + sample.seconds, 0);
+  let cumulative = 0;
+  for (const sample of sorted) {
+    cumulative += sample.seconds;
+    if (cumulative >= total * fraction) return sample.score;
+  }
+  return sorted.length > 0 ? sorted[sorted.length - 1].score : 0;
+}
+
+export function summarizeExposure(frames: TimelineFrame[], mode: AssessmentMode): ExposureSummary | null {
+  const durations = getFrameDurations(frames);
+  const scored = frames
+    .map((frame, index) => ({ frame, index, seconds: durations[index] }))
+    .filter(({ frame }) => typeof frame.rebaScore?.finalScore === 'number');
+  if (scored.length === 0) return null;
+
+  const scoredSeconds = scored.reduce((sum, sample) => sum + sample.seconds, 0);
+  const percentageOf = (seconds: number) => scoredSeconds > 0 ? round1((seconds / scoredSeconds) * 100) : 0;
+
+  const bands = RISK_BAND_ORDER.map(band => {
+    const seconds = scored
+      .filter(({ frame }) => getScoreRiskBand(frame.rebaScore, mode).band === band)
+      .reduce((sum, sample) => sum + sample.seconds, 0);
+    return { band, seconds: round1(seconds), percentage: percentageOf(seconds) };
+  });
+
+  const actionLevels = SEGMENT_ACTION_LEVELS[mode];
+  const segments: SegmentExposure[] = actionLevels
+    ? (Object.keys(actionLevels) as ExposureSegment[]).map(segment => {
+        const seconds = scored
+          .filter(({ frame }) => (frame.rebaScore[segment] ?? 0) >= actionLevels[segment])
+          .reduce((sum, sample) => sum + sample.seconds, 0);
+        return {
+          segment,
+          label: EXPOSURE_SEGMENT_LABELS[segment],
+          actionLevel: actionLevels[segment],
+          seconds: round1(seconds),
+          percentage: percentageOf(seconds)
+        };
+      })
+    : [];
+
+  const peak = scored.reduce((worst, sample) => sample.frame.rebaScore.finalScore > worst.frame.rebaScore.finalScore ? sample : worst);
+
+  const acceptableMax = getAssessmentMethod(mode).riskBands[0].maxScore;
+  const exposureIndex = scored.reduce(
+    (sum, { frame, seconds }) => sum + Math.max(0, frame.rebaScore.finalScore - acceptableMax) * seconds,
+    0
+  ) / 60;
+
+  return {
+    scoredSeconds: round1(scoredSeconds),
+    bands,
+    segments,
+    peakScore: peak.frame.rebaScore.finalScore,
+    peakFrameIndex: peak.index,
+    peakTime: peak.frame.timestamp,
+    percentile95: weightedPercentile(scored.map(({ frame, seconds }) => ({ score: frame.rebaScore.finalScore, seconds })), 0.95),
+    exposureIndex: round1(exposureIndex)
+  };
+}
@@ -0,0 +1,183 @@
+// Assessor review of recorded frames: posture modifiers and coupling set by hand, free-text
+// notes, and an audit trail of each change against what the scoring engine detected.
+// Adjusted frames are rescored through the calculator, the detected score is kept beside it
+import {
+  POSTURE_MODIFIER_LABELS,
+  rescoreWithOptions,
+  type CouplingQuality,
+  type PostureAdjustments,
+  type PostureModifier
+} from "./scoring";
+
+export type AnnotationField = PostureModifier | 'coupling' | 'note';
+
+// A value of null means the field was left to detection (or, for notes, empty)
+export interface AnnotationAuditEntry {
+  at: string;   // ISO time of the change
+  by?: string;  // username of the assessor
+  field: AnnotationField;
+  detected?: boolean | string | null; // what the engine found, for modifiers and coupling
+  from: boolean | string | null;
+  to: boolean | string | null;
+}
+
+export interface FrameAnnotation {
+  adjustments: PostureAdjustments;
+  coupling?: CouplingQuality;
+  note: string;
+  autoScore: any; // score as detected, before any adjustment
+  audit: AnnotationAuditEntry[];
+}
+
+export interface AnnotationChanges {
+  adjustments?: PostureAdjustments;
+  coupling?: CouplingQuality | null; // null hands coupling back to the session setting
+  note?: string;
+}
+
+interface AnnotatableFrame {
+  rebaScore: any;
+  poseData?: any;
+  annotation?: FrameAnnotation;
+}
+
+export const ANNOTATION_FIELD_LABELS: Record<AnnotationField, string> = {
+  ...POSTURE_MODIFIER_LABELS,
+  coupling: 'Coupling',
+  note: 'Note'
+};
+
+// The score the engine produced for a frame, whether or not an assessor changed it since
+export function getAutoScore(frame: AnnotatableFrame): any {
+  return frame.annotation ? frame.annotation.autoScore : frame.rebaScore;
+}
+
+export function hasAssessorChanges(annotation: FrameAnnotation | undefined): boolean {
+  return !!annotation && (Object.keys(annotation.adjustments).length > 0 || annotation.coupling !== undefined);
+}
+
+// Applies an assessor's edit to a frame: returns the new annotation and the frame's score
+// recalculated with the adjustments, or null when nothing changed
+export function annotateFrame(
+  frame: AnnotatableFrame,
+  changes: AnnotationChanges,
+  by?: string
+): { annotation: FrameAnnotation; rebaScore: any } | null {
+  const autoScore = getAutoScore(frame);
+  const previous: FrameAnnotation = frame.annotation ?? { adjustments: {}, note: '', autoScore, audit: [] };
+  const at = new Date().toISOString();
+  const entries: AnnotationAuditEntry[] = [];
+
+  const adjustments: PostureAdjustments = { ...previous.adjustments };
+  if (changes.adjustments) {
+    (Object.keys(changes.adjustments) as PostureModifier[]).forEach(modifier => {
+      const value = changes.adjustments![modifier];
+      if (value === previous.adjustments[modifier]) return;
+      if (value === undefined) delete adjustments[modifier];
+      else adjustments[modifier] = value;
+      entries.push({
+        at,
+        by,
+        field: modifier,
+        detected: autoScore?.detectedModifiers?.[modifier] ?? null,
+        from: previous.adjustments[modifier] ?? null,
+        to: value ?? null
+      });
+    });
+  }
+
+  let coupling = previous.coupling;
+  if (changes.coupling !== undefined && (changes.coupling ?? undefined) !== previous.coupling) {
+    coupling = changes.coupling ?? undefined;
+    entries.push({
+      at,
+      by,
+      field: 'coupling',
+      detected: autoScore?.options?.coupling ?? 'good',
+      from: previous.coupling ?? null,
+      to: coupling ?? null
+    });
+  }
+
+  let note = previous.note;
+  if (changes.note !== undefined && changes.note.trim() !== previous.note) {
+    note = changes.note.trim();
+    entries.push({ at, by, field: 'note', from: previous.note || null, to: note || null });
+  }
+
+  if (entries.length === 0) return null;
+
+  const annotation: FrameAnnotation = {
+    adjustments,
+    ...(coupling !== undefined && { coupling }),
+    note,
+    autoScore,
+    audit: [...previous.audit, ...entries]
+  };
+
+  // Unscored frames can still carry notes, there is nothing to recalculate
+  const keypoints = frame.poseData?.keypoints;
+  const rebaScore = autoScore && keypoints
+    ? rescoreWithOptions(autoScore, keypoints, {
+        adjustments,
+        ...(coupling !== undefined && { coupling })
+      }, frame.poseData.keypoints3D)
+    : frame.rebaScore;
+
+  return { annotation, rebaScore };
+}
+
+const describeValue = (field: AnnotationField, value: boolean | string | null | undefined) => {
+  if (value === null || value === undefined) return field === 'note' ? '(none)' : 'auto';
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  return value;
+};
+
+// One line per change, e.g. "Trunk twisted: auto -> yes (detected no)"
+export function describeAuditEntry(entry: AnnotationAuditEntry): string {
+  // Coupling is not detected, the assessor overrides the session's setting
+  const detected = entry.detected !== undefined && entry.detected !== null
+    ? ` (${entry.field === 'coupling' ? 'session' : 'detected'} ${describeValue(entry.field, entry.detected)})`
+    : '';
+  return `${ANNOTATION_FIELD_LABELS[entry.field]}: ${describeValue(entry.field, entry.from)} -> ${describeValue(entry.field, entry.to)}${detected}`;
+}
+
+// Adjustments in force on a frame, e.g. "Trunk twisted: yes; Coupling: poor"
+export function describeAdjustments(annotation: FrameAnnotation | undefined): string {
+  if (!annotation) return '';
+  const parts = (Object.keys(annotation.adjustments) as PostureModifier[]).map(modifier =>
+    `${POSTURE_MODIFIER_LABELS[modifier]}: ${annotation.adjustments[modifier] ? 'yes' : 'no'}`
+  );
+  if (annotation.coupling) parts.push(`Coupling: ${annotation.coupling}`);
+  return parts.join('; ');
+}
+
+// One row per reviewed frame for exports, detected and final scores side by side
+export function buildAnnotationExportRows(frames: (AnnotatableFrame & { timestamp: number })[]): Record<string, string | number>[] {
+  return frames.flatMap((frame, index) => {
+    const annotation = frame.annotation;
+    if (!annotation) return [];
+    return [{
+      'Frame': index + 1,
+      'Time (s)': Number(frame.timestamp.toFixed(2)),
+      'Detected Score': annotation.autoScore?.finalScore ?? '',
+      'Final Score': frame.rebaScore?.finalScore ?? '',
+      'Score Source': hasAssessorChanges(annotation) ? 'assessor' : 'detected',
+      'Adjustments': describeAdjustments(annotation),
+      'Note': annotation.note
+    }];
+  });
+}
+
+// Every recorded change across the recording, oldest first within each frame
+export function buildAuditExportRows(frames: AnnotatableFrame[]): Record<string, string | number>[] {
+  return frames.flatMap((frame, index) => (frame.annotation?.audit ?? []).map(entry => ({
+    'Frame': index + 1,
+    'Changed At': entry.at,
+    'Assessor': entry.by ?? '',
+    'Field': ANNOTATION_FIELD_LABELS[entry.field],
+    'Detected': entry.detected === undefined ? '' : entry.detected === null ? 'not measured' : describeValue(entry.field, entry.detected),
+    'From': describeValue(entry.field, entry.from),
+    'To': describeValue(entry.field, entry.to)
+  })));
+}
@@ -0,0 +1,302 @@
+// Temporal filtering of keypoints before scoring. Raw per-frame MoveNet keypoints jitter
+// enough to flip scores between risk bands, so each keypoint's x and y (and z for world
+// keypoints) are smoothed independently, low-confidence detections are gated out and
+// short gaps are bridged
+import type { Keypoint, Keypoint3D } from "./scoring/geometry";
+
+export type KeypointFilterMethod = 'none' | 'one-euro' | 'kalman' | 'median';
+
+export interface KeypointFilterSettings {
+  method: KeypointFilterMethod;
+  minConfidence: number; // keypoints scored below this are treated as missing
+  maxGapMs: number;      // how long a missing keypoint is bridged before it is dropped
+  oneEuro: {
+    minCutoff: number;   // Hz, lower smooths more when still
+    beta: number;        // speed coefficient, higher reduces lag on fast moves
+    derivateCutoff: number;
+  };
+  kalman: {
+    processNoise: number;     // px²/s, how far a joint is expected to wander
+    measurementNoise: number; // px², variance of MoveNet's estimate
+  };
+  medianWindow: number; // samples
+}
+
+export const DEFAULT_KEYPOINT_FILTER_SETTINGS: KeypointFilterSettings = {
+  method: 'one-euro',
+  minConfidence: 0.3,
+  maxGapMs: 500,
+  oneEuro: { minCutoff: 1, beta: 0.01, derivateCutoff: 1 },
+  kalman: { processNoise: 300, measurementNoise: 25 },
+  medianWindow: 5
+};
+
+export const KEYPOINT_FILTER_METHODS: { id: KeypointFilterMethod; label: string }[] = [
+  { id: 'none', label: 'Raw (no filter)' },
+  { id: 'one-euro', label: 'One Euro' },
+  { id: 'kalman', label: 'Kalman' },
+  { id: 'median', label: 'Median window' }
+];
+
+export interface FilteredKeypoint extends Keypoint {
+  z?: number; // world keypoints only
+  name?: string;
+  interpolated?: boolean; // position bridged across a low-confidence gap, not detected
+}
+
+interface AxisFilter {
+  filter: (value: number, timestampMs: number) => number;
+}
+
+function createOneEuroFilter({ minCutoff, beta, derivateCutoff }: KeypointFilterSettings['oneEuro']): AxisFilter {
+  let previous: number | null = null;
+  let previousDerivative = 0;
+  let previousTime = 0;
+
+  const alpha = (cutoff: number, dt: number) => {
+    const tau = 1 / (2 * Math.PI * cutoff);
+    return 1 / (1 + tau / dt);
+  };
+
+  return {
+    filter: (value, timestampMs) => {
+      if (previous === null) {
+        previous = value;
+        previousTime = timestampMs;
+        return value;
+      }
+
+      const dt = Math.max((timestampMs - previousTime) / 1000, 1e-3);
+      const derivative = (value - previous) / dt;
+      const smoothedDerivative = previousDerivative + alpha(derivateCutoff, dt) * (derivative - previousDerivative);
+      const cutoff = minCutoff + beta * Math.abs(smoothedDerivative);
+      const smoothed = previous + alpha(cutoff, dt) * (value - previous);
+
+      previous = smoothed;
+      previousDerivative = smoothedDerivative;
+      previousTime = timestampMs;
+      return smoothed;
+    }
+  };
+}
+
+// Constant-position model: uncertainty grows with elapsed time and shrinks with each measurement
+function createKalmanFilter({ processNoise, measurementNoise }: KeypointFilterSettings['kalman']): AxisFilter {
+  let estimate: number | null = null;
+  let variance = measurementNoise;
+  let previousTime = 0;
+
+  return {
+    filter: (value, timestampMs) => {
+      if (estimate === null) {
+        estimate = value;
+        previousTime = timestampMs;
+        return value;
+      }
+
+      const dt = Math.max((timestampMs - previousTime) / 1000, 0);
+      variance += processNoise * dt;
+      const gain = variance / (variance + measurementNoise);
+      estimate += gain * (value - estimate);
+      variance *= 1 - gain;
+      previousTime = timestampMs;
+      return estimate;
+    }
+  };
+}
+
+function createMedianFilter(windowSize: number): AxisFilter {
+  const window: number[] = [];
+
+  return {
+    filter: (value) => {
+      window.push(value);
+      if (window.length > windowSize) window.shift();
+      const sorted = [...window].sort((a, b) => a - b);
+      const middle = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+    }
+  };
+}
+
+function createAxisFilter(settings: KeypointFilterSettings): AxisFilter {
+  switch (settings.method) {
+    case 'one-euro':
+      return createOneEuroFilter(settings.oneEuro);
+    case 'kalman':
+      return createKalmanFilter(settings.kalman);
+    case 'median':
+      return createMedianFilter(Math.max(1, Math.round(settings.medianWindow)));
+    default:
+      return { filter: value => value };
+  }
+}
+
+interface KeypointTrack {
+  x: AxisFilter;
+  y: AxisFilter;
+  z: AxisFilter;
+  last: FilteredKeypoint | null;
+  lastSeen: number;
+}
+
+export interface KeypointFilter {
+  apply: (keypoints: FilteredKeypoint[], timestampMs: number) => FilteredKeypoint[];
+  reset: () => void;
+}
+
+// Streaming filter for the live camera. With no future frames to interpolate towards,
+// a keypoint that drops below minConfidence holds its last filtered position for up to
+// maxGapMs, after which the raw low-confidence point is passed through for scoring to skip
+export function createKeypointFilter(settings: KeypointFilterSettings): KeypointFilter {
+  let tracks: KeypointTrack[] = [];
+
+  const track = (index: number): KeypointTrack => {
+    if (!tracks[index]) {
+      tracks[index] = { x: createAxisFilter(settings), y: createAxisFilter(settings), z: createAxisFilter(settings), last: null, lastSeen: -Infinity };
+    }
+    return tracks[index];
+  };
+
+  return {
+    apply: (keypoints, timestampMs) => {
+      if (settings.method === 'none') return keypoints;
+
+      return keypoints.map((keypoint, index) => {
+        const state = track(index);
+
+        if (keypoint.score >= settings.minConfidence) {
+          const filtered: FilteredKeypoint = {
+            ...keypoint,
+            x: state.x.filter(keypoint.x, timestampMs),
+            y: state.y.filter(keypoint.y, timestampMs),
+            ...(keypoint.z !== undefined && { z: state.z.filter(keypoint.z, timestampMs) })
+          };
+          state.last = filtered;
+          state.lastSeen = timestampMs;
+          return filtered;
+        }
+
+        if (state.last && timestampMs - state.lastSeen <= settings.maxGapMs) {
+          return { ...keypoint, x: state.last.x, y: state.last.y, z: state.last.z, score: state.last.score, interpolated: true };
+        }
+        return keypoint;
+      });
+    },
+    reset: () => {
+      tracks = [];
+    }
+  };
+}
+
+export interface KeypointSample {
+  keypoints: FilteredKeypoint[] | null; // null when no pose was detected in the frame
+  timestampMs: number;
+}
+
+// Whole-recording filter for analysed video files. Gaps are filled by linear
+// interpolation between the confident samples either side, then the sequence runs
+// through the same temporal filter as the live camera
+export function filterKeypointSequence(samples: KeypointSample[], settings: KeypointFilterSettings): Array<FilteredKeypoint[] | null> {
+  if (settings.method === 'none') return samples.map(sample => sample.keypoints);
+
+  const filled: Array<FilteredKeypoint[] | null> = samples.map(sample => sample.keypoints ? sample.keypoints.map(kp => ({ ...kp })) : null);
+  const keypointCount = Math.max(0, ...samples.map(sample => sample.keypoints?.length ?? 0));
+
+  for (let index = 0; index < keypointCount; index++) {
+    let previousGood = -1;
+
+    for (let i = 0; i < samples.length; i++) {
+      const keypoint = filled[i]?.[index];
+      if (!keypoint || keypoint.score < settings.minConfidence) continue;
+
+      // Fill every low-confidence sample since the last confident one, if the gap is short enough
+      if (previousGood >= 0 && i - previousGood > 1) {
+        const before = filled[previousGood]![index];
+        const span = samples[i].timestampMs - samples[previousGood].timestampMs;
+
+        for (let j = previousGood + 1; j < i; j++) {
+          const missing = filled[j]?.[index];
+          if (!missing || samples[j].timestampMs - samples[previousGood].timestampMs > settings.maxGapMs) continue;
+
+          const t = span > 0 ? (samples[j].timestampMs - samples[previousGood].timestampMs) / span : 0;
+          filled[j]![index] = {
+            ...missing,
+            x: before.x + (keypoint.x - before.x) * t,
+            y: before.y + (keypoint.y - before.y) * t,
+            ...(keypoint.z !== undefined && before.z !== undefined && { z: before.z + (keypoint.z - before.z) * t }),
+            score: Math.min(before.score, keypoint.score),
+            interpolated: true
+          };
+        }
+      }
+      previousGood = i;
+    }
+  }
+
+  const filter = createKeypointFilter(settings);
+  return filled.map((keypoints, i) => keypoints ? filter.apply(keypoints, samples[i].timestampMs) : null);
+}
+
+// World keypoints are in metres. They are filtered in millimetres, so the speed and noise
+// settings tuned on image pixels give them a similar amount of smoothing
+const WORLD_FILTER_SCALE = 1000;
+
+const toFilterUnits = (world: Keypoint3D[]): FilteredKeypoint[] =>
+  world.map(kp => ({ ...kp, x: kp.x * WORLD_FILTER_SCALE, y: kp.y * WORLD_FILTER_SCALE, z: kp.z * WORLD_FILTER_SCALE }));
+
+const fromFilterUnits = (keypoints: FilteredKeypoint[]): Keypoint3D[] =>
+  keypoints.map(kp => ({ ...kp, x: kp.x / WORLD_FILTER_SCALE, y: kp.y / WORLD_FILTER_SCALE, z: (kp.z ?? 0) / WORLD_FILTER_SCALE }));
+
+export interface FilterablePose {
+  keypoints: FilteredKeypoint[];
+  keypoints3D?: Keypoint3D[];
+}
+
+export interface PoseFilter {
+  apply: <P extends FilterablePose>(pose: P, timestampMs: number) => P;
+  reset: () => void;
+}
+
+// Streaming filter for a whole pose. Scoring prefers keypoints3D when the model gives them,
+// so the world keypoints get their own filter alongside the image keypoints
+export function createPoseFilter(settings: KeypointFilterSettings): PoseFilter {
+  const image = createKeypointFilter(settings);
+  const world = createKeypointFilter(settings);
+
+  return {
+    apply: (pose, timestampMs) => ({
+      ...pose,
+      keypoints: image.apply(pose.keypoints, timestampMs),
+      ...(pose.keypoints3D && { keypoints3D: fromFilterUnits(world.apply(toFilterUnits(pose.keypoints3D), timestampMs)) })
+    }),
+    reset: () => {
+      image.reset();
+      world.reset();
+    }
+  };
+}
+
+export interface PoseSample<P extends FilterablePose> {
+  pose: P | null; // null when no pose was detected in the frame
+  timestampMs: number;
+}
+
+// filterKeypointSequence over whole poses, image and world keypoints alike
+export function filterPoseSequence<P extends FilterablePose>(samples: PoseSample<P>[], settings: KeypointFilterSettings): Array<P | null> {
+  const image = filterKeypointSequence(
+    samples.map(sample => ({ keypoints: sample.pose?.keypoints ?? null, timestampMs: sample.timestampMs })),
+    settings
+  );
+  const world = filterKeypointSequence(
+    samples.map(sample => ({ keypoints: sample.pose?.keypoints3D ? toFilterUnits(sample.pose.keypoints3D) : null, timestampMs: sample.timestampMs })),
+    settings
+  );
+
+  return samples.map((sample, i) => {
+    const keypoints = image[i];
+    const keypoints3D = world[i];
+    if (!sample.pose || !keypoints) return null;
+    return { ...sample.pose, keypoints, ...(keypoints3D && { keypoints3D: fromFilterUnits(keypoints3D) }) };
+  });
+}
@@ -0,0 +1,79 @@
+// Shared keypoint layout. Scoring, overlays and saved sessions all use MoveNet's 17-point
+// COCO order; models with more landmarks are mapped onto it and keep their full set alongside
+import type { Keypoint, Keypoint3D } from "./scoring/geometry";
+
+export type { Keypoint3D };
+
+export const KEYPOINT_NAMES = [
+  'nose', 'left_eye', 'right_eye', 'left_ear', 'right_ear',
+  'left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow',
+  'left_wrist', 'right_wrist', 'left_hip', 'right_hip',
+  'left_knee', 'right_knee', 'left_ankle', 'right_ankle'
+] as const;
+
+export type KeypointName = typeof KEYPOINT_NAMES[number];
+
+export const KEYPOINT_INDEX = Object.fromEntries(
+  KEYPOINT_NAMES.map((name, index) => [name, index])
+) as Record<KeypointName, number>;
+
+export const KEYPOINT_CONNECTIONS = [
+  [0, 1], [0, 2], [1, 3], [2, 4], // Head
+  [5, 6], // Shoulders
+  [5, 7], [7, 9], // Left arm
+  [6, 8], [8, 10], // Right arm
+  [5, 11], [6, 12], // Torso
+  [11, 12], // Hips
+  [11, 13], [13, 15], // Left leg
+  [12, 14], [14, 16] // Right leg
+];
+
+// BlazePose's 33 landmarks
+export const BLAZEPOSE_LANDMARK_NAMES = [
+  'nose', 'left_eye_inner', 'left_eye', 'left_eye_outer', 'right_eye_inner', 'right_eye', 'right_eye_outer',
+  'left_ear', 'right_ear', 'mouth_left', 'mouth_right',
+  'left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow', 'left_wrist', 'right_wrist',
+  'left_pinky', 'right_pinky', 'left_index', 'right_index', 'left_thumb', 'right_thumb',
+  'left_hip', 'right_hip', 'left_knee', 'right_knee', 'left_ankle', 'right_ankle',
+  'left_heel', 'right_heel', 'left_foot_index', 'right_foot_index'
+] as const;
+
+// BlazePose landmark index for each COCO keypoint, in KEYPOINT_NAMES order
+export const BLAZEPOSE_TO_COCO = KEYPOINT_NAMES.map(name =>
+  (BLAZEPOSE_LANDMARK_NAMES as readonly string[]).indexOf(name)
+);
+
+export type KeypointLayout = 'coco-17' | 'blazepose-33';
+
+export interface NormalizedPose {
+  keypoints: Array<Keypoint & { name?: string }>; // always the 17 COCO keypoints, image pixels
+  keypoints3D?: Keypoint3D[];                      // same 17 keypoints in world space, when the model provides them
+  landmarks?: Array<Keypoint & { name?: string }>; // the model's full landmark set, image pixels
+  score?: number;
+  id?: number;
+  box?: any;
+}
+
+const pick = <T>(points: T[] | undefined, indices: number[]) =>
+  points && points.length > 0 ? indices.map(index => points[index]) : undefined;
+
+// Maps a detector's raw pose onto the shared layout
+export function normalizePose(pose: any, layout: KeypointLayout): NormalizedPose {
+  if (layout === 'coco-17') {
+    return { ...pose, keypoints: pose.keypoints };
+  }
+
+  const { keypoints, keypoints3D, ...rest } = pose;
+  return {
+    ...rest,
+    keypoints: pick(keypoints, BLAZEPOSE_TO_COCO)!.map((kp: any, index: number) => ({ ...kp, name: KEYPOINT_NAMES[index] })),
+    keypoints3D: pick<any>(keypoints3D, BLAZEPOSE_TO_COCO)?.map((kp: any, index: number) => ({
+      x: kp.x,
+      y: kp.y,
+      z: kp.z,
+      score: kp.score ?? 0,
+      name: KEYPOINT_NAMES[index]
+    })),
+    landmarks: keypoints
+  };
+}
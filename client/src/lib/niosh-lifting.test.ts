@@ -0,0 +1,116 @@
+// Multipliers of the revised NIOSH lifting equation (Waters et al. 1993) against the values
+// tabulated in the Applications Manual, and a two-ended lift worked through by hand
+import { describe, expect, it } from "vitest";
+import {
+  assessLift,
+  calculateRwl,
+  getAsymmetryMultiplier,
+  getCouplingMultiplier,
+  getDistanceMultiplier,
+  getFrequencyMultiplier,
+  getHorizontalMultiplier,
+  getLiftingIndexBand,
+  getVerticalMultiplier
+} from "./niosh-lifting";
+
+describe("NIOSH multipliers", () => {
+  it("HM is 25/H, 1 inside 25 cm and 0 past 63 cm", () => {
+    expect(getHorizontalMultiplier(25)).toBe(1);
+    expect(getHorizontalMultiplier(10)).toBe(1);
+    expect(getHorizontalMultiplier(50)).toBe(0.5);
+    expect(getHorizontalMultiplier(63)).toBeCloseTo(0.40, 2);
+    expect(getHorizontalMultiplier(64)).toBe(0);
+  });
+
+  it("VM falls 0.003 per cm either side of 75 cm and is 0 outside 0-175 cm", () => {
+    expect(getVerticalMultiplier(75)).toBe(1);
+    expect(getVerticalMultiplier(0)).toBeCloseTo(0.775, 3);
+    expect(getVerticalMultiplier(175)).toBeCloseTo(0.70, 2);
+    expect(getVerticalMultiplier(176)).toBe(0);
+    expect(getVerticalMultiplier(-1)).toBe(0);
+  });
+
+  it("DM is 0.82 + 4.5/D, 1 for travel up to 25 cm and 0 past 175 cm", () => {
+    expect(getDistanceMultiplier(25)).toBe(1);
+    expect(getDistanceMultiplier(10)).toBe(1);
+    expect(getDistanceMultiplier(90)).toBeCloseTo(0.87, 2);
+    expect(getDistanceMultiplier(175)).toBeCloseTo(0.85, 2);
+    expect(getDistanceMultiplier(176)).toBe(0);
+  });
+
+  it("AM falls 0.0032 per degree and is 0 past 135°", () => {
+    expect(getAsymmetryMultiplier(0)).toBe(1);
+    expect(getAsymmetryMultiplier(-10)).toBe(1);
+    expect(getAsymmetryMultiplier(90)).toBeCloseTo(0.71, 2);
+    expect(getAsymmetryMultiplier(135)).toBeCloseTo(0.57, 2);
+    expect(getAsymmetryMultiplier(136)).toBe(0);
+  });
+
+  it("FM reads the frequency table by rate, duration and V above or below 75 cm", () => {
+    expect(getFrequencyMultiplier(0.1, 'short', 50)).toBe(1);
+    expect(getFrequencyMultiplier(1, 'short', 50)).toBe(0.94);
+    expect(getFrequencyMultiplier(1, 'long', 100)).toBe(0.75);
+    expect(getFrequencyMultiplier(4, 'moderate', 50)).toBe(0.72);
+    expect(getFrequencyMultiplier(9, 'long', 50)).toBe(0);
+    expect(getFrequencyMultiplier(9, 'long', 100)).toBe(0.15);
+    expect(getFrequencyMultiplier(15, 'short', 100)).toBe(0.28);
+    expect(getFrequencyMultiplier(16, 'short', 100)).toBe(0);
+  });
+
+  it("CM depends on coupling quality and, for fair grips, on V", () => {
+    expect(getCouplingMultiplier('good', 50)).toBe(1);
+    expect(getCouplingMultiplier('fair', 50)).toBe(0.95);
+    expect(getCouplingMultiplier('fair', 100)).toBe(1);
+    expect(getCouplingMultiplier('poor', 100)).toBe(0.9);
+  });
+});
+
+describe("NIOSH recommended weight limit", () => {
+  it("is the full 23 kg load constant for an ideal lift", () => {
+    const result = calculateRwl(
+      { horizontalCm: 25, verticalCm: 75, asymmetryDeg: 0 },
+      25,
+      { loadKg: 23, frequency: 0.2, duration: 'short', coupling: 'good' }
+    );
+    expect(result.rwl).toBe(23);
+    expect(result.liftingIndex).toBe(1);
+  });
+
+  it("works a 12 kg lift from 25 cm to a 115 cm shelf, turning 45° at the shelf", () => {
+    // Origin:      HM 0.50 x VM 0.85 x DM 0.87 x AM 1.00 x FM 0.94 x CM 0.95 -> RWL 7.59 kg
+    // Destination: HM 0.50 x VM 0.88 x DM 0.87 x AM 0.86 x FM 0.94 x CM 1.00 -> RWL 7.12 kg
+    const assessment = assessLift(
+      { horizontalCm: 50, verticalCm: 25, asymmetryDeg: 0 },
+      { horizontalCm: 50, verticalCm: 115, asymmetryDeg: 45 },
+      { loadKg: 12, frequency: 1, duration: 'short', coupling: 'fair' }
+    );
+
+    expect(assessment.travelDistanceCm).toBe(90);
+    expect(assessment.origin.multipliers).toEqual({ hm: 0.5, vm: 0.85, dm: 0.87, am: 1, fm: 0.94, cm: 0.95 });
+    expect(assessment.origin).toMatchObject({ rwl: 7.59, liftingIndex: 1.58 });
+    expect(assessment.destination.multipliers).toEqual({ hm: 0.5, vm: 0.88, dm: 0.87, am: 0.86, fm: 0.94, cm: 1 });
+    expect(assessment.destination).toMatchObject({ rwl: 7.12, liftingIndex: 1.69 });
+    expect(assessment.liftingIndex).toBe(1.69);
+    expect(assessment.riskLevel).toBe('Increased risk - redesign recommended');
+    expect(getLiftingIndexBand(assessment.liftingIndex)).toBe('investigate');
+  });
+
+  it("gives an infinite lifting index when a multiplier is out of range", () => {
+    const result = calculateRwl(
+      { horizontalCm: 70, verticalCm: 75, asymmetryDeg: 0 },
+      25,
+      { loadKg: 5, frequency: 1, duration: 'short', coupling: 'good' }
+    );
+    expect(result.rwl).toBe(0);
+    expect(result.liftingIndex).toBe(Infinity);
+  });
+
+  it("uses a measured asymmetry angle over the estimate", () => {
+    const result = calculateRwl(
+      { horizontalCm: 25, verticalCm: 75, asymmetryDeg: 0 },
+      25,
+      { loadKg: 10, frequency: 0.2, duration: 'short', coupling: 'good', asymmetryOverride: 90 }
+    );
+    expect(result.multipliers.am).toBe(0.71);
+  });
+});
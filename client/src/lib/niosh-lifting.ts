@@ -0,0 +1,264 @@
+// NIOSH Revised Lifting Equation (Waters et al. 1993, Applications Manual 1994).
+// RWL = LC x HM x VM x DM x AM x FM x CM, Lifting Index = load / RWL.
+// Hand and foot positions come from MoveNet keypoints, scaled to centimetres
+// with the worker's stature or a marked reference object.
+import type { RiskBand } from "./scoring";
+import { ANKLE_HEIGHT_RATIO, DEFAULT_SCALE_CALIBRATION, getPixelsPerCm, type ScaleCalibration } from "./scale-calibration";
+
+interface Keypoint {
+  x: number;
+  y: number;
+  score: number;
+}
+
+export type NioshCoupling = 'good' | 'fair' | 'poor';
+export type NioshDuration = 'short' | 'moderate' | 'long'; // <=1 h, 1-2 h, 2-8 h
+
+export interface NioshTaskInputs {
+  loadKg: number;
+  frequency: number;        // Lifts per minute
+  duration: NioshDuration;
+  coupling: NioshCoupling;
+  asymmetryOverride?: number; // Measured asymmetry angle in degrees, replaces the estimate
+}
+
+// Hand location relative to the feet at one end of the lift
+export interface NioshGeometry {
+  horizontalCm: number; // H - hands to midpoint between the ankles
+  verticalCm: number;   // V - hands above the floor
+  asymmetryDeg: number; // A - trunk rotation away from the sagittal plane
+}
+
+export interface NioshMultipliers {
+  hm: number;
+  vm: number;
+  dm: number;
+  am: number;
+  fm: number;
+  cm: number;
+}
+
+export interface NioshLiftResult {
+  rwl: number;
+  liftingIndex: number;
+  multipliers: NioshMultipliers;
+}
+
+export interface NioshAssessment {
+  origin: NioshLiftResult;
+  destination: NioshLiftResult;
+  travelDistanceCm: number;
+  liftingIndex: number; // Worse of origin and destination
+  riskLevel: string;
+}
+
+export interface DetectedLift {
+  startIndex: number;
+  endIndex: number;
+  startTime: number;
+  endTime: number;
+  direction: 'up' | 'down';
+  origin: NioshGeometry;
+  destination: NioshGeometry;
+}
+
+export const NIOSH_LOAD_CONSTANT = 23; // kg
+
+// Frequency multiplier table - [lifts/min, <=1h V<75, <=1h V>=75, 1-2h V<75, 1-2h V>=75, 2-8h V<75, 2-8h V>=75]
+const FREQUENCY_TABLE: number[][] = [
+  [0.2, 1.00, 1.00, 0.95, 0.95, 0.85, 0.85],
+  [0.5, 0.97, 0.97, 0.92, 0.92, 0.81, 0.81],
+  [1, 0.94, 0.94, 0.88, 0.88, 0.75, 0.75],
+  [2, 0.91, 0.91, 0.84, 0.84, 0.65, 0.65],
+  [3, 0.88, 0.88, 0.79, 0.79, 0.55, 0.55],
+  [4, 0.84, 0.84, 0.72, 0.72, 0.45, 0.45],
+  [5, 0.80, 0.80, 0.60, 0.60, 0.35, 0.35],
+  [6, 0.75, 0.75, 0.50, 0.50, 0.27, 0.27],
+  [7, 0.70, 0.70, 0.42, 0.42, 0.22, 0.22],
+  [8, 0.60, 0.60, 0.35, 0.35, 0.18, 0.18],
+  [9, 0.52, 0.52, 0.30, 0.30, 0.00, 0.15],
+  [10, 0.45, 0.45, 0.26, 0.26, 0.00, 0.13],
+  [11, 0.41, 0.41, 0.00, 0.23, 0.00, 0.00],
+  [12, 0.37, 0.37, 0.00, 0.21, 0.00, 0.00],
+  [13, 0.00, 0.34, 0.00, 0.00, 0.00, 0.00],
+  [14, 0.00, 0.31, 0.00, 0.00, 0.00, 0.00],
+  [15, 0.00, 0.28, 0.00, 0.00, 0.00, 0.00]
+];
+
+const DURATION_COLUMNS: Record<NioshDuration, number> = {
+  short: 1,
+  moderate: 3,
+  long: 5
+};
+
+// Shoulder line is about 1.35x the hip line when the trunk faces the camera
+const FRONTAL_SHOULDER_HIP_RATIO = 1.35;
+// Smallest vertical hand travel counted as a lift
+const MIN_LIFT_TRAVEL_CM = 25;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function getHorizontalMultiplier(horizontalCm: number): number {
+  if (horizontalCm > 63) return 0;
+  return Math.min(1, 25 / Math.max(horizontalCm, 25));
+}
+
+export function getVerticalMultiplier(verticalCm: number): number {
+  if (verticalCm > 175 || verticalCm < 0) return 0;
+  return Math.max(0, 1 - 0.003 * Math.abs(verticalCm - 75));
+}
+
+export function getDistanceMultiplier(distanceCm: number): number {
+  if (distanceCm > 175) return 0;
+  return Math.min(1, 0.82 + 4.5 / Math.max(distanceCm, 25));
+}
+
+export function getAsymmetryMultiplier(asymmetryDeg: number): number {
+  if (asymmetryDeg > 135) return 0;
+  return 1 - 0.0032 * Math.max(asymmetryDeg, 0);
+}
+
+export function getFrequencyMultiplier(frequency: number, duration: NioshDuration, verticalCm: number): number {
+  if (frequency > 15) return 0;
+  // Lifts less often than once every 5 minutes use the 0.2 lifts/min row
+  const row = FREQUENCY_TABLE.find(entry => frequency <= entry[0]) ?? FREQUENCY_TABLE[FREQUENCY_TABLE.length - 1];
+  const column = DURATION_COLUMNS[duration] + (verticalCm >= 75 ? 1 : 0);
+  return row[column];
+}
+
+export function getCouplingMultiplier(coupling: NioshCoupling, verticalCm: number): number {
+  if (coupling === 'good') return 1;
+  if (coupling === 'fair') return verticalCm < 75 ? 0.95 : 1;
+  return 0.9;
+}
+
+export function calculateRwl(geometry: NioshGeometry, travelDistanceCm: number, inputs: NioshTaskInputs): NioshLiftResult {
+  const asymmetry = inputs.asymmetryOverride ?? geometry.asymmetryDeg;
+  const multipliers: NioshMultipliers = {
+    hm: round2(getHorizontalMultiplier(geometry.horizontalCm)),
+    vm: round2(getVerticalMultiplier(geometry.verticalCm)),
+    dm: round2(getDistanceMultiplier(travelDistanceCm)),
+    am: round2(getAsymmetryMultiplier(asymmetry)),
+    fm: getFrequencyMultiplier(inputs.frequency, inputs.duration, geometry.verticalCm),
+    cm: getCouplingMultiplier(inputs.coupling, geometry.verticalCm)
+  };
+
+  const rwl = NIOSH_LOAD_CONSTANT * multipliers.hm * multipliers.vm * multipliers.dm *
+    multipliers.am * multipliers.fm * multipliers.cm;
+  const liftingIndex = rwl > 0 ? inputs.loadKg / rwl : Infinity;
+
+  return { rwl: round2(rwl), liftingIndex: round2(liftingIndex), multipliers };
+}
+
+export function getLiftingIndexRiskLevel(liftingIndex: number): string {
+  if (liftingIndex <= 1) return 'Acceptable - nearly all workers can perform the lift';
+  if (liftingIndex <= 2) return 'Increased risk - redesign recommended';
+  if (liftingIndex <= 3) return 'High risk - redesign soon';
+  return 'Very high risk - redesign immediately';
+}
+
+// Lifting index mapped onto the shared action bands used for REBA/RULA/OWAS colours
+export function getLiftingIndexBand(liftingIndex: number): RiskBand {
+  if (liftingIndex <= 1) return 'acceptable';
+  if (liftingIndex <= 2) return 'investigate';
+  if (liftingIndex <= 3) return 'change-soon';
+  return 'change-now';
+}
+
+export function assessLift(origin: NioshGeometry, destination: NioshGeometry, inputs: NioshTaskInputs): NioshAssessment {
+  const travelDistanceCm = Math.abs(destination.verticalCm - origin.verticalCm);
+  const originResult = calculateRwl(origin, travelDistanceCm, inputs);
+  const destinationResult = calculateRwl(destination, travelDistanceCm, inputs);
+  const liftingIndex = Math.max(originResult.liftingIndex, destinationResult.liftingIndex);
+
+  return {
+    origin: originResult,
+    destination: destinationResult,
+    travelDistanceCm: Math.round(travelDistanceCm),
+    liftingIndex,
+    riskLevel: getLiftingIndexRiskLevel(liftingIndex)
+  };
+}
+
+// Hand position relative to the feet, or null when hands or feet are not visible
+export function measureLiftGeometry(keypoints: Keypoint[], scale: ScaleCalibration = DEFAULT_SCALE_CALIBRATION): NioshGeometry | null {
+  if (!keypoints || keypoints.length < 17) return null;
+
+  const minConfidence = 0.3;
+  const nose = keypoints[0];
+  const [leftShoulder, rightShoulder] = [keypoints[5], keypoints[6]];
+  const [leftWrist, rightWrist] = [keypoints[9], keypoints[10]];
+  const [leftHip, rightHip] = [keypoints[11], keypoints[12]];
+  const [leftAnkle, rightAnkle] = [keypoints[15], keypoints[16]];
+
+  const required = [nose, leftWrist, rightWrist, leftAnkle, rightAnkle];
+  if (required.some(kp => kp.score < minConfidence)) return null;
+
+  const ankleX = (leftAnkle.x + rightAnkle.x) / 2;
+  const ankleY = (leftAnkle.y + rightAnkle.y) / 2;
+  const handX = (leftWrist.x + rightWrist.x) / 2;
+  const handY = (leftWrist.y + rightWrist.y) / 2;
+
+  const pxPerCm = getPixelsPerCm(scale, keypoints);
+  if (!pxPerCm) return null;
+  const floorY = ankleY + ANKLE_HEIGHT_RATIO * scale.statureCm * pxPerCm;
+
+  // Asymmetry from the shoulder line rotating against the hips (frontal view estimate)
+  const shoulderWidth = Math.abs(rightShoulder.x - leftShoulder.x);
+  const hipWidth = Math.abs(rightHip.x - leftHip.x);
+  const widthRatio = hipWidth > 0 ? Math.min(1, shoulderWidth / (hipWidth * FRONTAL_SHOULDER_HIP_RATIO)) : 1;
+  const asymmetryDeg = Math.acos(widthRatio) * (180 / Math.PI);
+
+  return {
+    horizontalCm: Math.round(Math.abs(handX - ankleX) / pxPerCm),
+    verticalCm: Math.round(Math.max(0, (floorY - handY) / pxPerCm)),
+    asymmetryDeg: Math.round(asymmetryDeg)
+  };
+}
+
+// Finds lifts in a recording from the hand height trajectory: each run of
+// vertical hand travel of at least 25 cm between two turning points is one lift
+export function detectLifts(
+  frames: Array<{ timestamp: number; poseData: any }>,
+  scale: ScaleCalibration = DEFAULT_SCALE_CALIBRATION
+): DetectedLift[] {
+  const samples = frames
+    .map((frame, index) => ({ index, timestamp: frame.timestamp, geometry: measureLiftGeometry(frame.poseData?.keypoints, scale) }))
+    .filter((sample): sample is { index: number; timestamp: number; geometry: NioshGeometry } => sample.geometry !== null);
+
+  if (samples.length < 2) return [];
+
+  // Light 3-sample smoothing so single-frame jitter does not split a lift
+  const heights = samples.map((_, i) => {
+    const window = samples.slice(Math.max(0, i - 1), i + 2);
+    return window.reduce((sum, sample) => sum + sample.geometry.verticalCm, 0) / window.length;
+  });
+
+  const lifts: DetectedLift[] = [];
+  let start = 0;
+  for (let i = 1; i <= heights.length; i++) {
+    const direction = Math.sign(heights[Math.min(i, heights.length - 1)] - heights[i - 1]);
+    const runDirection = Math.sign(heights[i - 1] - heights[start]);
+    const turned = i === heights.length || (direction !== 0 && runDirection !== 0 && direction !== runDirection);
+
+    if (!turned) continue;
+
+    const travel = Math.abs(heights[i - 1] - heights[start]);
+    if (travel >= MIN_LIFT_TRAVEL_CM) {
+      const origin = samples[start];
+      const destination = samples[i - 1];
+      lifts.push({
+        startIndex: origin.index,
+        endIndex: destination.index,
+        startTime: origin.timestamp,
+        endTime: destination.timestamp,
+        direction: heights[i - 1] > heights[start] ? 'up' : 'down',
+        origin: origin.geometry,
+        destination: destination.geometry
+      });
+    }
+    start = i - 1;
+  }
+
+  return lifts;
+}
@@ -1,4 +1,5 @@
 import * as tf from '@tensorflow/tfjs';
+import { estimateObjectSize } from './scale-calibration';
 
 // Common objects that people typically hold or carry with estimated weights
 export const DETECTABLE_OBJECTS = {
@@ -198,12 +199,20 @@ export async function detectObjectsFromImageData(imageData: string): Promise<Det
   return detectObjects(imageData);
 }
 
-// Analyze frame for objects and pose to determine if person is holding something
+// Hands within this distance of an object can be holding it, once the frame has a scale
+const HAND_PROXIMITY_CM = 25;
+// Pixel fallback when no scale calibration is available
+const HAND_PROXIMITY_PX = 60;
+
+// Analyze frame for objects and pose to determine if person is holding something.
+// pxPerCm from a scale calibration sizes the hand proximity check in centimetres and
+// replaces the catalogue weight of held objects with one estimated from their size
 export function analyzeObjectInteraction(
   detectedObjects: DetectedObject[],
   poseKeypoints: any[],
   frameWidth: number,
-  frameHeight: number
+  frameHeight: number,
+  pxPerCm?: number | null
 ): { isHoldingObject: boolean; heldObjects: DetectedObject[]; totalEstimatedWeight: number } {
   if (!poseKeypoints || poseKeypoints.length === 0) {
     return { isHoldingObject: false, heldObjects: [], totalEstimatedWeight: 0 };
@@ -229,7 +238,7 @@ export function analyzeObjectInteraction(
     let confidenceScore = 0;
 
     // Check proximity to hands/wrists with tighter thresholds
-    const handProximityThreshold = 60; // Reduced for tighter detection
+    const handProximityThreshold = pxPerCm ? HAND_PROXIMITY_CM * pxPerCm : HAND_PROXIMITY_PX;
     
     // Left hand analysis
     if (leftWrist?.score > 0.4 && leftElbow?.score > 0.4) {
@@ -348,6 +357,7 @@ export function analyzeObjectInteraction(
     if (isHeldObject) {
       heldObjects.push({
         ...obj,
+        ...(pxPerCm && { estimatedWeight: estimateObjectSize(obj.bbox, obj.category, pxPerCm).estimatedWeight }),
         confidence: Math.min(obj.confidence * confidenceScore, 1.0) // Adjust confidence
       });
     }
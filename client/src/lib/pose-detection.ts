@@ -1,4 +1,7 @@
 // TensorFlow.js pose detection utilities
+import type { DetectionMode } from "./pose-tracking";
+import { normalizePose, type KeypointLayout, type NormalizedPose } from "./keypoints";
+
 declare global {
   interface Window {
     poseDetection: any;
@@ -6,7 +9,82 @@ declare global {
   }
 }
 
-export async function initializePoseDetection() {
+export type PoseModelId = 'movenet-lightning' | 'movenet-thunder' | 'blazepose-lite' | 'blazepose-full' | 'blazepose-heavy';
+export type PoseBackend = 'webgl' | 'wasm' | 'cpu';
+
+export interface PoseModelDefinition {
+  id: PoseModelId;
+  label: string;
+  description: string;
+  layout: KeypointLayout;
+  supportsMultiPose: boolean;
+  has3D: boolean; // provides world-space keypoints3D
+}
+
+export const POSE_MODELS: PoseModelDefinition[] = [
+  { id: 'movenet-lightning', label: 'MoveNet Lightning', description: 'Fastest, 17 keypoints', layout: 'coco-17', supportsMultiPose: true, has3D: false },
+  { id: 'movenet-thunder', label: 'MoveNet Thunder', description: 'More accurate, about half the speed', layout: 'coco-17', supportsMultiPose: false, has3D: false },
+  { id: 'blazepose-lite', label: 'BlazePose Lite', description: '33 landmarks with 3D, fast', layout: 'blazepose-33', supportsMultiPose: false, has3D: true },
+  { id: 'blazepose-full', label: 'BlazePose Full', description: '33 landmarks with 3D, balanced', layout: 'blazepose-33', supportsMultiPose: false, has3D: true },
+  { id: 'blazepose-heavy', label: 'BlazePose Heavy', description: '33 landmarks with 3D, most accurate, needs a GPU', layout: 'blazepose-33', supportsMultiPose: false, has3D: true }
+];
+
+export const POSE_BACKENDS: { id: PoseBackend; label: string }[] = [
+  { id: 'webgl', label: 'WebGL (GPU)' },
+  { id: 'wasm', label: 'WebAssembly' },
+  { id: 'cpu', label: 'CPU (slowest)' }
+];
+
+export interface PoseModelSettings {
+  model: PoseModelId;
+  backend: PoseBackend;
+  detectionMode: DetectionMode;
+}
+
+export const DEFAULT_POSE_MODEL_SETTINGS: PoseModelSettings = {
+  model: 'movenet-lightning',
+  backend: 'webgl',
+  detectionMode: 'single'
+};
+
+const WASM_BINARIES_URL = 'https://cdn.jsdelivr.net/npm/@tensorflow/tfjs-backend-wasm@4.15.0/dist/';
+
+// Detector wrapper that reports the model actually loaded and returns poses in the shared keypoint layout
+export interface PoseDetector {
+  model: PoseModelDefinition;
+  backend: PoseBackend;
+  detectionMode: DetectionMode;
+  estimatePoses: (source: HTMLVideoElement | HTMLCanvasElement, config?: any, timestamp?: number) => Promise<NormalizedPose[]>;
+  reset: () => void;
+  dispose: () => void;
+}
+
+export function getPoseModel(id: PoseModelId): PoseModelDefinition {
+  return POSE_MODELS.find(model => model.id === id) ?? POSE_MODELS[0];
+}
+
+// Falls back to the CPU backend when the chosen one is not available on this machine
+async function setBackend(backend: PoseBackend): Promise<PoseBackend> {
+  try {
+    if (backend === 'wasm') {
+      if (!window.tf.wasm) throw new Error("WebAssembly backend script not loaded");
+      window.tf.wasm.setWasmPaths(WASM_BINARIES_URL);
+    }
+    if (!(await window.tf.setBackend(backend))) throw new Error(`${backend} backend failed to initialise`);
+    return backend;
+  } catch (backendError) {
+    if (backend === 'cpu') {
+      console.error("All backends failed:", backendError);
+      throw new Error("No compatible TensorFlow.js backend available");
+    }
+    console.warn(`${backend} backend failed, trying CPU backend:`, backendError);
+    return setBackend('cpu');
+  }
+}
+
+// Multi-person mode always uses MoveNet MultiPose Lightning, whose bounding-box tracker
+// keeps a stable id per person; the other models track a single person
+export async function initializePoseDetection(settings: PoseModelSettings = DEFAULT_POSE_MODEL_SETTINGS): Promise<PoseDetector> {
   try {
     // Wait for TensorFlow.js to load
     while (!window.tf) {
@@ -19,55 +97,67 @@ export async function initializePoseDetection() {
     }
 
     console.log("Initializing TensorFlow.js backend...");
-    
-    // Set up TensorFlow.js backend with fallbacks
-    try {
-      // Try WebGL backend first (most compatible)
-      await window.tf.setBackend('webgl');
-      console.log("Using WebGL backend");
-    } catch (webglError) {
-      console.warn("WebGL backend failed, trying CPU backend:", webglError);
-      try {
-        await window.tf.setBackend('cpu');
-        console.log("Using CPU backend");
-      } catch (cpuError) {
-        console.error("All backends failed:", cpuError);
-        throw new Error("No compatible TensorFlow.js backend available");
-      }
-    }
+    const backend = await setBackend(settings.backend);
 
     // Wait for backend to be ready
     await window.tf.ready();
     console.log("TensorFlow.js backend ready");
 
-    console.log("Initializing pose detection model...");
-    
-    const model = window.poseDetection.SupportedModels.MoveNet;
-    const detectorConfig = {
-      modelType: window.poseDetection.movenet.modelType.SINGLEPOSE_LIGHTNING,
-      enableSmoothing: true,
-      multiPoseMaxDimension: 256,
-      enableTracking: true,
-      trackerType: window.poseDetection.TrackerType.BoundingBox
-    };
-    
-    const detector = await window.poseDetection.createDetector(model, detectorConfig);
+    const model = getPoseModel(settings.detectionMode === 'multi' ? 'movenet-lightning' : settings.model);
+
+    const { SupportedModels, movenet, TrackerType } = window.poseDetection;
+    let detector;
+
+    if (model.layout === 'blazepose-33') {
+      detector = await window.poseDetection.createDetector(SupportedModels.BlazePose, {
+        runtime: 'tfjs',
+        modelType: model.id.replace('blazepose-', ''),
+        enableSmoothing: true
+      });
+    } else {
+      const modelType = settings.detectionMode === 'multi'
+        ? movenet.modelType.MULTIPOSE_LIGHTNING
+        : model.id === 'movenet-thunder' ? movenet.modelType.SINGLEPOSE_THUNDER : movenet.modelType.SINGLEPOSE_LIGHTNING;
+      detector = await window.poseDetection.createDetector(SupportedModels.MoveNet, {
+        modelType,
+        enableSmoothing: true,
+        multiPoseMaxDimension: 256,
+        enableTracking: true,
+        trackerType: TrackerType.BoundingBox
+      });
+    }
     console.log("Pose detection model initialized successfully");
-    
-    return detector;
+
+    return {
+      model,
+      backend,
+      detectionMode: settings.detectionMode,
+      estimatePoses: async (source, config, timestamp) => {
+        const poses = await detector.estimatePoses(source, config, timestamp);
+        return poses.map((pose: any) => normalizePose(pose, model.layout));
+      },
+      reset: () => detector.reset?.(),
+      dispose: () => detector.dispose?.()
+    };
   } catch (error) {
     console.error("Failed to initialize pose detection:", error);
     throw error;
   }
 }
 
-export async function detectPose(detector: any, video: HTMLVideoElement) {
+// timestamp (ms) keeps MoveNet's smoothing correct when frames are not real-time, e.g. seeking through a file.
+// source may be a canvas holding a grabbed video frame so the pose matches a stored image exactly
+export async function detectPose(
+  detector: PoseDetector | null,
+  source: HTMLVideoElement | HTMLCanvasElement,
+  timestamp?: number
+): Promise<NormalizedPose[] | null> {
   try {
-    if (!detector || !video || video.readyState < 2) {
+    if (!detector || !source || (source instanceof HTMLVideoElement && source.readyState < 2)) {
       return null;
     }
 
-    const poses = await detector.estimatePoses(video);
+    const poses = await detector.estimatePoses(source, undefined, timestamp);
     return poses;
   } catch (error) {
     console.error("Error detecting pose:", error);
@@ -75,21 +165,14 @@ export async function detectPose(detector: any, video: HTMLVideoElement) {
   }
 }
 
-// MoveNet keypoint indices
-export const KEYPOINT_CONNECTIONS = [
-  [0, 1], [0, 2], [1, 3], [2, 4], // Head
-  [5, 6], // Shoulders  
-  [5, 7], [7, 9], // Left arm
-  [6, 8], [8, 10], // Right arm
-  [5, 11], [6, 12], // Torso
-  [11, 12], // Hips
-  [11, 13], [13, 15], // Left leg
-  [12, 14], [14, 16] // Right leg
-];
+// Copies the current video frame to a canvas, so detection and the stored image see the same pixels
+export function grabVideoFrame(video: HTMLVideoElement): HTMLCanvasElement | null {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx || canvas.width === 0 || canvas.height === 0) return null;
 
-export const KEYPOINT_NAMES = [
-  'nose', 'left_eye', 'right_eye', 'left_ear', 'right_ear',
-  'left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow',
-  'left_wrist', 'right_wrist', 'left_hip', 'right_hip',
-  'left_knee', 'right_knee', 'left_ankle', 'right_ankle'
-];
+  ctx.drawImage(video, 0, 0);
+  return canvas;
+}
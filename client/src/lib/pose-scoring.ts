@@ -0,0 +1,81 @@
+// Scores one detected pose with the current method and worksheet options, shared by
+// the live camera loop and uploaded-video analysis so both produce identical frames
+import { calculateAssessment, type AssessmentMode, type AssessmentScore, type Keypoint, type Keypoint3D, type OwasOptions, type RebaOptions, type RulaOptions } from "./scoring";
+import { resolveView, type ViewpointCalibration } from "./viewpoint-calibration";
+
+export interface AssessmentOptions {
+  reba?: RebaOptions;
+  rula?: RulaOptions;
+  owas?: OwasOptions;
+  viewpoint?: ViewpointCalibration; // estimated per frame when not given
+}
+
+// world is the pose's keypoints3D, used for true 3D joint angles when the model provides it
+export function scorePose(mode: AssessmentMode, keypoints: Keypoint[], options: AssessmentOptions = {}, world?: Keypoint3D[]): AssessmentScore | null {
+  const view = resolveView(options.viewpoint, keypoints, world);
+  const methodOptions: RebaOptions | RulaOptions | OwasOptions = (mode === 'REBA' ? options.reba : mode === 'RULA' ? options.rula : options.owas) ?? {};
+  return calculateAssessment(mode, keypoints, {
+    ...methodOptions,
+    view,
+    // Only an entered (ManualWeight or COCO-SSD) load is scored; the posture-based
+    // estimate is a display-only guess and would add a load for raised arms alone
+    loadKg: methodOptions.loadKg ?? 0
+  }, world);
+}
+
+// Mean keypoint confidence as a 0-100 percentage
+export function getPoseConfidence(pose: any): number {
+  if (!pose?.keypoints?.length) return 0;
+  const total = pose.keypoints.reduce((sum: number, kp: any) => sum + (kp.score ?? 0), 0);
+  return Math.round((total / pose.keypoints.length) * 100);
+}
+
+// Outcome of running the detector on one frame. Failed frames are kept in recordings
+// and flagged rather than stored with a silent null score
+export type DetectionStatus =
+  | 'detected'  // pose found and scored
+  | 'unscored'  // pose found but too few confident keypoints to score
+  | 'no-pose'   // detector ran but found nobody
+  | 'failed';   // detector threw or could not read the frame
+
+export interface FrameDetection {
+  pose: any | null;
+  score: AssessmentScore | null;
+  rawScore: AssessmentScore | null; // score of the unfiltered keypoints, same as score without a filter
+  confidence: number;
+  status: DetectionStatus;
+}
+
+// poses is the detector output for a single frame, null when detection itself failed.
+// filterPose smooths the first pose's keypoints and keypoints3D before it is scored
+export function evaluateDetection(
+  poses: any[] | null,
+  mode: AssessmentMode,
+  options: AssessmentOptions = {},
+  filterPose?: (pose: any) => any
+): FrameDetection {
+  if (poses === null) {
+    return { pose: null, score: null, rawScore: null, confidence: 0, status: 'failed' };
+  }
+  if (poses.length === 0) {
+    return { pose: null, score: null, rawScore: null, confidence: 0, status: 'no-pose' };
+  }
+
+  const rawPose = poses[0];
+  const pose = filterPose ? filterPose(rawPose) : rawPose;
+  const score = scorePose(mode, pose.keypoints, options, pose.keypoints3D);
+  return {
+    pose,
+    score,
+    rawScore: filterPose ? scorePose(mode, rawPose.keypoints, options, rawPose.keypoints3D) : score,
+    confidence: getPoseConfidence(rawPose),
+    status: score ? 'detected' : 'unscored'
+  };
+}
+
+export const DETECTION_STATUS_LABELS: Record<DetectionStatus, string> = {
+  detected: 'Detected',
+  unscored: 'Pose not scorable',
+  'no-pose': 'No person detected',
+  failed: 'Detection failed'
+};
@@ -0,0 +1,61 @@
+// Multi-person helpers. In MULTIPOSE mode MoveNet's bounding-box tracker gives each
+// person a stable `id` across frames, which is used as the worker's track ID
+import type { FrameDetection } from "./pose-scoring";
+
+export type DetectionMode = 'single' | 'multi';
+
+export interface TrackedWorker extends FrameDetection {
+  trackId: number;
+}
+
+export function getTrackId(pose: any): number | null {
+  return typeof pose?.id === 'number' ? pose.id : null;
+}
+
+export function getWorkerLabel(trackId: number | null | undefined): string {
+  return trackId === null || trackId === undefined ? 'Worker' : `Worker ${trackId}`;
+}
+
+// Bounding box of the confident keypoints, in the same coordinates as the keypoints
+export function getPoseBounds(pose: any, minConfidence: number = 0.3) {
+  const points = (pose?.keypoints ?? []).filter((kp: any) => kp.score > minConfidence);
+  if (points.length === 0) return null;
+
+  const xs = points.map((kp: any) => kp.x);
+  const ys = points.map((kp: any) => kp.y);
+  return {
+    minX: Math.min(...xs),
+    maxX: Math.max(...xs),
+    minY: Math.min(...ys),
+    maxY: Math.max(...ys)
+  };
+}
+
+// The person under a point clicked on the video: the smallest padded bounding box
+// containing it, or failing that the nearest box centre within one body length
+export function findWorkerAt<T extends { pose: any; trackId: number }>(workers: T[], x: number, y: number): T | null {
+  const candidates = workers
+    .map(worker => ({ worker, bounds: getPoseBounds(worker.pose) }))
+    .filter((candidate): candidate is { worker: T; bounds: NonNullable<ReturnType<typeof getPoseBounds>> } => candidate.bounds !== null)
+    .map(({ worker, bounds }) => {
+      const width = bounds.maxX - bounds.minX;
+      const height = bounds.maxY - bounds.minY;
+      const padding = Math.max(width, height) * 0.2;
+      return {
+        worker,
+        area: width * height,
+        reach: Math.max(width, height),
+        inside: x >= bounds.minX - padding && x <= bounds.maxX + padding &&
+          y >= bounds.minY - padding && y <= bounds.maxY + padding,
+        distance: Math.hypot(x - (bounds.minX + bounds.maxX) / 2, y - (bounds.minY + bounds.maxY) / 2)
+      };
+    });
+
+  const containing = candidates.filter(candidate => candidate.inside).sort((a, b) => a.area - b.area);
+  if (containing.length > 0) return containing[0].worker;
+
+  const nearest = candidates
+    .filter(candidate => candidate.distance <= candidate.reach)
+    .sort((a, b) => a.distance - b.distance);
+  return nearest[0]?.worker ?? null;
+}
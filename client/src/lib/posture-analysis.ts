@@ -1,38 +1,77 @@
+import { BODY_SIDES, BODY_SIDE_LABELS, CAMERA_VIEWPOINT_LABELS, getRiskBand, getScoreRiskBand, MEASURED_ANGLE_LABELS, OWAS_CATEGORY_LABELS, type AssessmentMode, type BodySide, type CameraViewpoint, type MeasuredAngle } from "@/lib/scoring";
+
+// Angles the camera view could not see were scored as neutral, so the score may understate them
+function describeSuppressedAngles(score: any): string {
+  const suppressed: MeasuredAngle[] = score.suppressedAngles ?? [];
+  if (suppressed.length === 0 || !score.viewpoint) return "";
+  const names = suppressed.map(angle => MEASURED_ANGLE_LABELS[angle].toLowerCase()).join(", ");
+  return `\n\n🎥 ${CAMERA_VIEWPOINT_LABELS[score.viewpoint as CameraViewpoint]} camera: ${names} could not be measured and ${suppressed.length === 1 ? 'was' : 'were'} scored as neutral.`;
+}
+
+// Upper arm, elbow and wrist findings for one side, named after the side that was measured.
+// Scores saved before sides were tracked have no side and get neutral names
+function analyzeArm(
+  scores: { upperArm: number; lowerArm: number; wrist: number },
+  side: BodySide | undefined,
+  issues: string[],
+  goodAspects: string[]
+) {
+  const name = (part: string) => side ? `${BODY_SIDE_LABELS[side]} ${part}` : part.charAt(0).toUpperCase() + part.slice(1);
 
-export function generatePostureAnalysis(rebaScore: any, context?: 'live' | 'recorded' | 'manual' | 'estimated'): string {
-  if (!rebaScore) return "No posture data available for analysis.";
-  
-  const leftArmIssues = [];
-  const rightArmIssues = [];
-  const headIssues = [];
-  const backIssues = [];
-  const goodAspects = [];
-  
   // Analyze upper arm position
-  if (rebaScore.upperArm >= 4) {
-    leftArmIssues.push("🔴 Left arm is raised excessively high (>90° from body) - lower your arm");
-  } else if (rebaScore.upperArm >= 3) {
-    leftArmIssues.push("🟡 Left arm angle needs adjustment (currently 45-90° elevation)");
-  } else if (rebaScore.upperArm >= 2) {
-    leftArmIssues.push("🟠 Left arm position could be improved slightly");
+  if (scores.upperArm >= 4) {
+    issues.push(`🔴 ${name('arm')} is raised excessively high (>90° from body) - lower your arm`);
+  } else if (scores.upperArm >= 3) {
+    issues.push(`🟡 ${name('arm')} angle needs adjustment (currently 45-90° elevation)`);
+  } else if (scores.upperArm >= 2) {
+    issues.push(`🟠 ${name('arm')} position could be improved slightly`);
   } else {
-    goodAspects.push("✅ Left arm position is correct");
+    goodAspects.push(`✅ ${name('arm')} position is correct`);
   }
-  
+
   // Analyze lower arm (elbow angle)
-  if (rebaScore.lowerArm >= 2) {
-    rightArmIssues.push("🔴 Right elbow angle is problematic - adjust forearm to 60-100° angle");
+  if (scores.lowerArm >= 2) {
+    issues.push(`🔴 ${name('elbow')} angle is problematic - adjust forearm to 60-100° angle`);
   } else {
-    goodAspects.push("✅ Right elbow angle is proper");
+    goodAspects.push(`✅ ${name('elbow')} angle is proper`);
   }
-  
+
   // Analyze wrist position
-  if (rebaScore.wrist >= 3) {
-    rightArmIssues.push("🔴 Right wrist is severely bent or twisted - straighten wrist alignment");
-  } else if (rebaScore.wrist >= 2) {
-    rightArmIssues.push("🟡 Right wrist has deviation from neutral position");
+  if (scores.wrist >= 3) {
+    issues.push(`🔴 ${name('wrist')} is severely bent or twisted - straighten wrist alignment`);
+  } else if (scores.wrist >= 2) {
+    issues.push(`🟡 ${name('wrist')} has deviation from neutral position`);
+  } else {
+    goodAspects.push(`✅ ${name('wrist')} alignment is good`);
+  }
+}
+
+function generateOwasAnalysis(owasScore: any): string {
+  const describe = (part: 'back' | 'arms' | 'legs' | 'load') =>
+    `${part} ${owasScore[part]} (${OWAS_CATEGORY_LABELS[part][owasScore[part] - 1].toLowerCase()})`;
+
+  let analysis = `📊 OWAS POSTURE CODE ${owasScore.code}: `;
+  analysis += [describe('back'), describe('arms'), describe('legs'), describe('load')].join(", ") + ".";
+  analysis += describeSuppressedAngles(owasScore);
+  analysis += `\n\n📋 ${owasScore.riskLevel}.`;
+  return analysis;
+}
+
+export function generatePostureAnalysis(rebaScore: any, context?: 'live' | 'recorded' | 'manual' | 'estimated'): string {
+  if (!rebaScore) return "No posture data available for analysis.";
+  if (rebaScore.method === 'OWAS') return generateOwasAnalysis(rebaScore);
+  
+  const armIssues: string[] = [];
+  const headIssues = [];
+  const backIssues = [];
+  const goodAspects: string[] = [];
+
+  // Each measured arm separately; older scores only carry the one arm that was scored
+  const measuredSides = rebaScore.sides ? BODY_SIDES.filter(side => rebaScore.sides[side]) : [];
+  if (measuredSides.length > 0) {
+    measuredSides.forEach(side => analyzeArm(rebaScore.sides[side], side, armIssues, goodAspects));
   } else {
-    goodAspects.push("✅ Right wrist alignment is good");
+    analyzeArm(rebaScore, rebaScore.side, armIssues, goodAspects);
   }
   
   // Analyze head/neck position
@@ -57,6 +96,20 @@ export function generatePostureAnalysis(rebaScore: any, context?: 'live' | 'reco
     goodAspects.push("✅ Back alignment is excellent");
   }
   
+  // Analyze legs (REBA only)
+  const legIssues = [];
+  if (rebaScore.legs !== undefined) {
+    if (rebaScore.legs >= 3) {
+      legIssues.push(`🔴 Knees are deeply flexed (${rebaScore.kneeAngle}°) - avoid squatting or raise the work`);
+    } else if (rebaScore.legs >= 2) {
+      legIssues.push(rebaScore.legSupport === 'unilateral'
+        ? "🟡 Body weight is on one leg - provide stable bilateral support"
+        : "🟡 Knees are flexed 30-60° - reduce crouching");
+    } else {
+      goodAspects.push("✅ Legs are evenly supported");
+    }
+  }
+
   // Build detailed analysis with context awareness
   const contextPrefix = context === 'recorded' ? "📸 RECORDED FRAME ANALYSIS: " : 
                        context === 'manual' ? "⚖️ WEIGHT-ADJUSTED ANALYSIS: " :
@@ -66,7 +119,7 @@ export function generatePostureAnalysis(rebaScore: any, context?: 'live' | 'reco
   let analysis = contextPrefix;
   
   // Report issues by body part
-  const allIssues = [...leftArmIssues, ...rightArmIssues, ...headIssues, ...backIssues];
+  const allIssues = [...armIssues, ...headIssues, ...backIssues, ...legIssues];
   if (allIssues.length > 0) {
     analysis += allIssues.join(". ") + ". ";
   }
@@ -75,20 +128,29 @@ export function generatePostureAnalysis(rebaScore: any, context?: 'live' | 'reco
   if (goodAspects.length > 0) {
     analysis += "\n\n" + goodAspects.join(". ") + ". ";
   }
+
+  if (measuredSides.length === 1) {
+    const missing = BODY_SIDES.find(side => side !== measuredSides[0])!;
+    analysis += `\n\n👁️ ${BODY_SIDE_LABELS[missing]} arm was not visible enough to score; the score uses the ${BODY_SIDE_LABELS[measuredSides[0]].toLowerCase()} arm only.`;
+  } else if (measuredSides.length === 2) {
+    analysis += `\n\n↔️ Final score follows the ${BODY_SIDE_LABELS[rebaScore.side as BodySide].toLowerCase()} side, the worse of the two.`;
+  }
+  analysis += describeSuppressedAngles(rebaScore);
   
   // Add context-specific recommendations
   analysis += "\n\n📋 PRIORITY ACTION: ";
-  if (rebaScore.finalScore >= 6) {
+  const riskBand = getScoreRiskBand(rebaScore).band;
+  if (riskBand === 'change-now') {
     analysis += "🚨 IMMEDIATE correction required! High injury risk detected.";
     if (context === 'recorded') {
       analysis += " Review this posture and avoid repeating it.";
     }
-  } else if (rebaScore.finalScore >= 4) {
+  } else if (riskBand === 'change-soon') {
     analysis += "⚠️ Adjust posture SOON to reduce ergonomic risk.";
     if (context === 'manual' || context === 'estimated') {
       analysis += " Consider reducing load or improving technique.";
     }
-  } else if (rebaScore.finalScore >= 3) {
+  } else if (riskBand === 'investigate') {
     analysis += "💡 Minor adjustments recommended for optimal comfort.";
   } else {
     analysis += "✅ Overall posture is GOOD - maintain current position.";
@@ -105,9 +167,6 @@ export function generatePostureAnalysis(rebaScore: any, context?: 'live' | 'reco
   return analysis;
 }
 
-export function getRiskBorderColor(score: number): string {
-  if (score <= 2) return '#00FF00'; // Green
-  if (score <= 4) return '#FFFF00'; // Yellow
-  if (score <= 6) return '#FF8000'; // Orange
-  return '#FF0000'; // Red
+export function getRiskBorderColor(score: number, mode: AssessmentMode = 'REBA'): string {
+  return getRiskBand(mode, score).color;
 }
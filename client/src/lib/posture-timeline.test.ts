@@ -0,0 +1,101 @@
+// Sustained postures, repetitions and rapid changes found over synthetic REBA recordings
+import { describe, expect, it } from "vitest";
+import { analyzePostureTimeline, getActivityOptions, type TimelineFrame } from "./posture-timeline";
+
+const frame = (timestamp: number, finalScore: number, angles: Record<string, number> = {}): TimelineFrame =>
+  ({ timestamp, rebaScore: { method: 'REBA', finalScore, ...angles } });
+
+// One frame per second from start to end inclusive
+const seconds = (start: number, end: number, finalScore: number): TimelineFrame[] =>
+  Array.from({ length: end - start + 1 }, (_, i) => frame(start + i, finalScore));
+
+describe("sustained postures", () => {
+  it("finds a risky posture held for a minute and reports its peak", () => {
+    const frames = [...seconds(0, 65, 5), frame(66, 2)];
+    frames[30] = frame(30, 9);
+
+    const summary = analyzePostureTimeline(frames, 'REBA');
+    expect(summary.sustainedPostures).toEqual([
+      { startTime: 0, endTime: 65, duration: 65, peakScore: 9, band: 'change-now' }
+    ]);
+    expect(summary.activity.staticPosture).toBe(true);
+    expect(summary.muscleUse).toBe(true);
+  });
+
+  it("ignores risky postures held for less than a minute", () => {
+    const summary = analyzePostureTimeline([...seconds(0, 50, 6), ...seconds(51, 80, 2)], 'REBA');
+    expect(summary.sustainedPostures).toEqual([]);
+    expect(summary.activity.staticPosture).toBe(false);
+  });
+
+  it("bridges a short unscored gap but not a long one", () => {
+    const bridged = analyzePostureTimeline([...seconds(0, 40, 5), ...seconds(42, 70, 5)], 'REBA');
+    expect(bridged.sustainedPostures.map(posture => posture.duration)).toEqual([70]);
+
+    const broken = analyzePostureTimeline([...seconds(0, 40, 5), ...seconds(43, 100, 5)], 'REBA');
+    expect(broken.sustainedPostures).toEqual([]);
+  });
+
+  it("ends the run at a scored frame outside the risky bands", () => {
+    const summary = analyzePostureTimeline([...seconds(0, 30, 5), frame(31, 3), ...seconds(32, 70, 5)], 'REBA');
+    expect(summary.sustainedPostures).toEqual([]);
+  });
+});
+
+describe("repetitions", () => {
+  it("counts each crossing of the segment threshold and flags more than 4 a minute", () => {
+    // Trunk flexes to 30° every other second for a minute: 30 crossings of 20°
+    const frames = Array.from({ length: 61 }, (_, t) => frame(t, 2, { trunkAngle: t % 2 === 1 ? 30 : 0 }));
+
+    const summary = analyzePostureTimeline(frames, 'REBA');
+    expect(summary.repetitions).toEqual([
+      { segment: 'trunkAngle', label: 'Trunk', thresholdDeg: 20, repetitions: 30, perMinute: 30, repeated: true }
+    ]);
+    expect(summary.activity.repeatedActions).toBe(true);
+  });
+
+  it("needs the angle to drop 5° below the threshold before counting again", () => {
+    const angles = [0, 25, 17, 25, 17, 25, 0, 25];
+    const frames = [...angles.map((trunkAngle, t) => frame(t * 10, 2, { trunkAngle })), frame(120, 2, { trunkAngle: 0 })];
+
+    const [trunk] = analyzePostureTimeline(frames, 'REBA').repetitions;
+    expect(trunk.repetitions).toBe(2);
+    expect(trunk.perMinute).toBe(1);
+    expect(trunk.repeated).toBe(false);
+  });
+
+  it("skips segments measured on fewer than two frames", () => {
+    const summary = analyzePostureTimeline([frame(0, 2, { neckAngle: 30 }), frame(1, 2)], 'REBA');
+    expect(summary.repetitions).toEqual([]);
+  });
+});
+
+describe("rapid changes", () => {
+  it("reports a large change within one second once per movement", () => {
+    const frames = [
+      frame(0, 2, { trunkAngle: 0 }),
+      frame(0.5, 2, { trunkAngle: 50 }),
+      frame(0.75, 2, { trunkAngle: 55 }),
+      frame(1, 2, { trunkAngle: 50 }),
+      frame(3, 2, { trunkAngle: 0 })
+    ];
+
+    const summary = analyzePostureTimeline(frames, 'REBA');
+    expect(summary.rapidChanges).toEqual([
+      { segment: 'trunkAngle', label: 'Trunk', startTime: 0, endTime: 0.5, changeDeg: 50 }
+    ]);
+    expect(summary.activity.rapidChanges).toBe(true);
+  });
+});
+
+describe("activity options", () => {
+  const summary = analyzePostureTimeline([...seconds(0, 65, 5), frame(66, 2)], 'REBA');
+
+  it("sets the REBA activity and RULA muscle use, and nothing for OWAS", () => {
+    expect(getActivityOptions('REBA', summary)).toEqual({
+      activity: { staticPosture: true, repeatedActions: false, rapidChanges: false }
+    });
+    expect(getActivityOptions('RULA', summary)).toEqual({ muscleUse: true });
+    expect(getActivityOptions('OWAS', summary)).toEqual({});
+  });
+});
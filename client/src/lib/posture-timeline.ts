@@ -0,0 +1,227 @@
+// Time-series analysis over a recording: how long risky postures are held, how often body
+// segments repeat a movement and how fast they change. These are the conditions behind the
+// REBA activity score and RULA muscle use, which a single frame cannot show
+import {
+  getScoreRiskBand,
+  rescoreWithOptions,
+  type AssessmentMode,
+  type MethodOptions,
+  type RebaActivity,
+  type RiskBand
+} from "./scoring";
+
+export interface TimelineFrame {
+  timestamp: number; // seconds since the recording started
+  rebaScore: any;    // null when the frame was not scored
+  poseData?: any;
+}
+
+// Angle fields on the scores and the thresholds each segment is tracked against
+export type TimelineSegment = 'trunkAngle' | 'neckAngle' | 'upperArmAngle' | 'wristAngle' | 'kneeAngle';
+
+interface SegmentThresholds {
+  label: string;
+  repetitionDeg: number;  // crossing this angle counts one repetition
+  rapidChangeDeg: number; // change within RAPID_CHANGE_WINDOW_S counted as a rapid change
+}
+
+export const TIMELINE_SEGMENTS: Record<TimelineSegment, SegmentThresholds> = {
+  trunkAngle: { label: 'Trunk', repetitionDeg: 20, rapidChangeDeg: 45 },
+  neckAngle: { label: 'Neck', repetitionDeg: 20, rapidChangeDeg: 40 },
+  upperArmAngle: { label: 'Upper arm', repetitionDeg: 45, rapidChangeDeg: 60 },
+  wristAngle: { label: 'Wrist', repetitionDeg: 15, rapidChangeDeg: 45 },
+  kneeAngle: { label: 'Knees', repetitionDeg: 60, rapidChangeDeg: 60 }
+};
+
+// A posture counts as sustained once it stays in a risky band this long
+export const SUSTAINED_POSTURE_S = 60;
+// Repetitions per minute above which actions count as repeated (REBA and RULA both use >4/min)
+export const REPEATED_ACTIONS_PER_MIN = 4;
+export const RAPID_CHANGE_WINDOW_S = 1;
+// Unscored stretches up to this long do not break a sustained posture
+const MAX_GAP_S = 2;
+// The angle has to drop this far back below the threshold before the next crossing counts
+const REPETITION_HYSTERESIS_DEG = 5;
+
+const RISKY_BANDS: RiskBand[] = ['change-soon', 'change-now'];
+
+export interface SustainedPosture {
+  startTime: number;
+  endTime: number;
+  duration: number; // seconds
+  peakScore: number;
+  band: RiskBand;   // band of the peak score
+}
+
+export interface SegmentRepetitions {
+  segment: TimelineSegment;
+  label: string;
+  thresholdDeg: number;
+  repetitions: number;
+  perMinute: number;
+  repeated: boolean; // more than REPEATED_ACTIONS_PER_MIN
+}
+
+export interface RapidChange {
+  segment: TimelineSegment;
+  label: string;
+  startTime: number;
+  endTime: number;
+  changeDeg: number;
+}
+
+export interface PostureTimelineSummary {
+  duration: number; // seconds from the first to the last frame
+  scoredFrames: number;
+  sustainedPostures: SustainedPosture[];
+  repetitions: SegmentRepetitions[];
+  rapidChanges: RapidChange[];
+  activity: RebaActivity; // REBA activity conditions found in the recording
+  muscleUse: boolean;     // RULA: mainly static or repeated more than 4x per minute
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+function findSustainedPostures(frames: TimelineFrame[], mode: AssessmentMode): SustainedPosture[] {
+  const postures: SustainedPosture[] = [];
+  let run: { start: number; end: number; peak: number } | null = null;
+
+  const closeRun = () => {
+    if (run && run.end - run.start >= SUSTAINED_POSTURE_S) {
+      postures.push({
+        startTime: run.start,
+        endTime: run.end,
+        duration: round1(run.end - run.start),
+        peakScore: run.peak,
+        band: getScoreRiskBand({ method: mode, finalScore: run.peak }, mode).band
+      });
+    }
+    run = null;
+  };
+
+  frames.forEach(frame => {
+    const score = frame.rebaScore;
+    const risky = score && RISKY_BANDS.includes(getScoreRiskBand(score, mode).band);
+
+    if (risky) {
+      if (run && frame.timestamp - run.end <= MAX_GAP_S) {
+        run.end = frame.timestamp;
+        run.peak = Math.max(run.peak, score.finalScore);
+      } else {
+        closeRun();
+        run = { start: frame.timestamp, end: frame.timestamp, peak: score.finalScore };
+      }
+    } else if (score || (run && frame.timestamp - run.end > MAX_GAP_S)) {
+      // A scored frame outside the risky bands, or a gap too long to bridge, ends the run
+      closeRun();
+    }
+  });
+  closeRun();
+
+  return postures;
+}
+
+// Angle samples for one segment over the frames that measured it
+function getSegmentSamples(frames: TimelineFrame[], segment: TimelineSegment) {
+  return frames
+    .filter(frame => typeof frame.rebaScore?.[segment] === 'number')
+    .map(frame => ({ time: frame.timestamp, angle: frame.rebaScore[segment] as number }));
+}
+
+function countRepetitions(samples: Array<{ time: number; angle: number }>, thresholdDeg: number): number {
+  let repetitions = 0;
+  let above = samples.length > 0 && samples[0].angle >= thresholdDeg;
+
+  samples.forEach(({ angle }) => {
+    if (!above && angle >= thresholdDeg) {
+      repetitions++;
+      above = true;
+    } else if (above && angle < thresholdDeg - REPETITION_HYSTERESIS_DEG) {
+      above = false;
+    }
+  });
+
+  return repetitions;
+}
+
+function findRapidChanges(samples: Array<{ time: number; angle: number }>, segment: TimelineSegment): RapidChange[] {
+  const { label, rapidChangeDeg } = TIMELINE_SEGMENTS[segment];
+  const changes: RapidChange[] = [];
+  let windowStart = 0;
+
+  samples.forEach((sample, i) => {
+    while (sample.time - samples[windowStart].time > RAPID_CHANGE_WINDOW_S) windowStart++;
+
+    for (let j = windowStart; j < i; j++) {
+      const changeDeg = Math.abs(sample.angle - samples[j].angle);
+      if (changeDeg >= rapidChangeDeg) {
+        changes.push({ segment, label, startTime: samples[j].time, endTime: sample.time, changeDeg: Math.round(changeDeg) });
+        // One event per movement: the next one has to start from here
+        windowStart = i;
+        break;
+      }
+    }
+  });
+
+  return changes;
+}
+
+export function analyzePostureTimeline(frames: TimelineFrame[], mode: AssessmentMode): PostureTimelineSummary {
+  const ordered = [...frames].sort((a, b) => a.timestamp - b.timestamp);
+  const duration = ordered.length > 1 ? ordered[ordered.length - 1].timestamp - ordered[0].timestamp : 0;
+  const minutes = duration / 60;
+
+  const sustainedPostures = findSustainedPostures(ordered, mode);
+
+  const repetitions: SegmentRepetitions[] = [];
+  const rapidChanges: RapidChange[] = [];
+  (Object.keys(TIMELINE_SEGMENTS) as TimelineSegment[]).forEach(segment => {
+    const samples = getSegmentSamples(ordered, segment);
+    if (samples.length < 2) return;
+
+    const { label, repetitionDeg } = TIMELINE_SEGMENTS[segment];
+    const count = countRepetitions(samples, repetitionDeg);
+    const perMinute = minutes > 0 ? round1(count / minutes) : 0;
+    repetitions.push({
+      segment,
+      label,
+      thresholdDeg: repetitionDeg,
+      repetitions: count,
+      perMinute,
+      repeated: perMinute > REPEATED_ACTIONS_PER_MIN
+    });
+    rapidChanges.push(...findRapidChanges(samples, segment));
+  });
+  rapidChanges.sort((a, b) => a.startTime - b.startTime);
+
+  const activity: RebaActivity = {
+    staticPosture: sustainedPostures.length > 0,
+    repeatedActions: repetitions.some(row => row.repeated),
+    rapidChanges: rapidChanges.length > 0
+  };
+
+  return {
+    duration: round1(duration),
+    scoredFrames: ordered.filter(frame => frame.rebaScore).length,
+    sustainedPostures,
+    repetitions,
+    rapidChanges,
+    activity,
+    muscleUse: activity.staticPosture || activity.repeatedActions
+  };
+}
+
+// Worksheet options the recording's activity findings set for a method. OWAS has no
+// activity term
+export function getActivityOptions(mode: AssessmentMode, summary: PostureTimelineSummary): MethodOptions {
+  if (mode === 'REBA') return { activity: summary.activity };
+  if (mode === 'RULA') return { muscleUse: summary.muscleUse };
+  return {};
+}
+
+// A frame's score recalculated with the activity found over the whole recording
+export function rescoreWithActivity(frame: TimelineFrame, summary: PostureTimelineSummary): any {
+  const score = frame.rebaScore;
+  if (!score?.method || !frame.poseData?.keypoints) return score;
+  return rescoreWithOptions(score, frame.poseData.keypoints, getActivityOptions(score.method, summary), frame.poseData.keypoints3D);
+}
@@ -0,0 +1,150 @@
+// Real-world scale for pixel measurements. The scale comes either from the worker's stature
+// against their body height in the frame, or from a reference object of known length marked
+// on the video. A reference only holds for things at about its distance from a fixed camera
+import { midpoint, type Keypoint } from "./scoring/geometry";
+
+export type ScaleMethod = 'stature' | 'reference';
+
+export interface VideoPoint {
+  x: number;
+  y: number;
+}
+
+// Both ends of the reference object in video pixels
+export interface ReferenceMarker {
+  start: VideoPoint;
+  end: VideoPoint;
+  lengthCm: number;
+}
+
+export interface ScaleCalibration {
+  method: ScaleMethod;
+  statureCm: number;
+  reference?: ReferenceMarker;
+}
+
+export const DEFAULT_STATURE_CM = 170;
+
+// Length suggested for a new reference object, e.g. a metre stick or a door's width
+export const DEFAULT_REFERENCE_LENGTH_CM = 100;
+
+export const DEFAULT_SCALE_CALIBRATION: ScaleCalibration = {
+  method: 'stature',
+  statureCm: DEFAULT_STATURE_CM
+};
+
+// Fractions of stature: nose to ankle spans roughly 88%, the ankle sits ~4% above the floor
+// and the shoulder line sits ~30% above the hip joints
+const NOSE_TO_ANKLE_RATIO = 0.88;
+export const ANKLE_HEIGHT_RATIO = 0.04;
+const SHOULDER_TO_HIP_RATIO = 0.3;
+
+const distance = (a: VideoPoint, b: VideoPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Pixels per centimetre from the worker's stature, measured nose to ankle when the feet are
+// in frame and shoulder to hip otherwise (seated or cropped workers)
+export function getStaturePixelsPerCm(keypoints: Keypoint[], statureCm: number, minConfidence: number = 0.3): number | null {
+  if (!keypoints || keypoints.length < 17 || statureCm <= 0) return null;
+
+  const visible = (...points: Keypoint[]) => points.every(kp => kp.score >= minConfidence);
+  const [nose, leftShoulder, rightShoulder] = [keypoints[0], keypoints[5], keypoints[6]];
+  const [leftHip, rightHip, leftAnkle, rightAnkle] = [keypoints[11], keypoints[12], keypoints[15], keypoints[16]];
+
+  if (visible(nose, leftAnkle, rightAnkle)) {
+    const bodyHeightPx = (leftAnkle.y + rightAnkle.y) / 2 - nose.y;
+    if (bodyHeightPx > 0) return bodyHeightPx / (NOSE_TO_ANKLE_RATIO * statureCm);
+  }
+  if (visible(leftShoulder, rightShoulder, leftHip, rightHip)) {
+    const torsoPx = distance(midpoint(leftShoulder, rightShoulder), midpoint(leftHip, rightHip));
+    if (torsoPx > 0) return torsoPx / (SHOULDER_TO_HIP_RATIO * statureCm);
+  }
+  return null;
+}
+
+export function getReferencePixelsPerCm(reference: ReferenceMarker | undefined): number | null {
+  if (!reference || reference.lengthCm <= 0) return null;
+  const lengthPx = distance(reference.start, reference.end);
+  return lengthPx > 0 ? lengthPx / reference.lengthCm : null;
+}
+
+// Scale for one frame, or null when the calibration cannot be applied to it
+export function getPixelsPerCm(calibration: ScaleCalibration, keypoints: Keypoint[]): number | null {
+  if (calibration.method === 'reference') return getReferencePixelsPerCm(calibration.reference);
+  return getStaturePixelsPerCm(keypoints, calibration.statureCm);
+}
+
+// Horizontal reach zones measured from the shoulder: the forearm sweep with the elbow by the
+// side, the full arm's length, and beyond that, where the worker has to lean
+export type ReachZone = 'primary' | 'secondary' | 'beyond';
+
+export const REACH_ZONE_LIMITS_CM: Record<Exclude<ReachZone, 'beyond'>, number> = {
+  primary: 40,
+  secondary: 60
+};
+
+export const REACH_ZONE_LABELS: Record<ReachZone, string> = {
+  primary: 'Primary zone',
+  secondary: 'Secondary zone',
+  beyond: 'Beyond reach'
+};
+
+export function getReachZone(reachCm: number): ReachZone {
+  if (reachCm <= REACH_ZONE_LIMITS_CM.primary) return 'primary';
+  if (reachCm <= REACH_ZONE_LIMITS_CM.secondary) return 'secondary';
+  return 'beyond';
+}
+
+export interface ReachMeasurement {
+  left: number | null;  // cm from shoulder to wrist along the floor, null when not visible
+  right: number | null;
+  furthest: number | null;
+}
+
+export function measureReach(keypoints: Keypoint[], pxPerCm: number | null, minConfidence: number = 0.3): ReachMeasurement {
+  const side = (shoulder: Keypoint | undefined, wrist: Keypoint | undefined) =>
+    pxPerCm && shoulder && wrist && shoulder.score >= minConfidence && wrist.score >= minConfidence
+      ? Math.round(Math.abs(wrist.x - shoulder.x) / pxPerCm)
+      : null;
+
+  const left = side(keypoints?.[5], keypoints?.[9]);
+  const right = side(keypoints?.[6], keypoints?.[10]);
+  const measured = [left, right].filter((reach): reach is number => reach !== null);
+  return { left, right, furthest: measured.length > 0 ? Math.max(...measured) : null };
+}
+
+// Rough bulk density (kg per litre of bounding box) and depth as a fraction of the smaller
+// visible side, by object category. Packed boxes are about as deep as they are wide, tools
+// and devices much thinner
+const CATEGORY_BULK: Record<string, { density: number; depthRatio: number }> = {
+  containers: { density: 0.25, depthRatio: 1 },
+  tools: { density: 0.8, depthRatio: 0.3 },
+  electronics: { density: 0.6, depthRatio: 0.15 },
+  office: { density: 0.5, depthRatio: 0.2 },
+  fitness: { density: 3, depthRatio: 0.5 }
+};
+const DEFAULT_BULK = { density: 0.4, depthRatio: 0.5 };
+
+export interface ObjectSizeEstimate {
+  widthCm: number;
+  heightCm: number;
+  estimatedWeight: number; // grams
+}
+
+// Physical size of a detected object's bounding box and the weight that size suggests
+export function estimateObjectSize(
+  bbox: [number, number, number, number],
+  category: string,
+  pxPerCm: number
+): ObjectSizeEstimate {
+  const [, , widthPx, heightPx] = bbox;
+  const widthCm = widthPx / pxPerCm;
+  const heightCm = heightPx / pxPerCm;
+  const { density, depthRatio } = CATEGORY_BULK[category] ?? DEFAULT_BULK;
+  const volumeLitres = (widthCm * heightCm * Math.min(widthCm, heightCm) * depthRatio) / 1000;
+
+  return {
+    widthCm: Math.round(widthCm),
+    heightCm: Math.round(heightCm),
+    estimatedWeight: Math.round(volumeLitres * density * 1000)
+  };
+}
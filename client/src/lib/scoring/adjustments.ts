@@ -0,0 +1,33 @@
+// Assessor adjustments: posture modifiers set by hand on a frame replace what the keypoints
+// suggested, while the detected values are kept on the score for the audit trail
+import type { PostureAdjustments, PostureModifier } from "./types";
+
+export const POSTURE_MODIFIER_LABELS: Record<PostureModifier, string> = {
+  shoulderRaised: 'Shoulder raised',
+  armSupported: 'Arm supported or leaning',
+  neckTwisted: 'Neck twisted',
+  trunkTwisted: 'Trunk twisted',
+  trunkSideBent: 'Trunk side-bent',
+  wristTwisted: 'Wrist twisted or deviated',
+  legsUnsupported: 'Legs unsupported'
+};
+
+export function createModifierResolver(adjustments: PostureAdjustments = {}) {
+  const detected: PostureAdjustments = {};
+
+  // The assessor's value where one was set, otherwise the detected one
+  const apply = (modifier: PostureModifier, value: boolean) => adjustments[modifier] ?? value;
+
+  return {
+    apply,
+    // Notes the detected value for the score, for modifiers measured on the scored side only
+    record(modifier: PostureModifier, value: boolean) {
+      detected[modifier] = value;
+    },
+    resolve(modifier: PostureModifier, value: boolean): boolean {
+      detected[modifier] = value;
+      return apply(modifier, value);
+    },
+    detected: (): PostureAdjustments => ({ ...detected })
+  };
+}
@@ -0,0 +1,159 @@
+// Shared keypoint geometry used by the assessment methods
+export interface Keypoint {
+  x: number;
+  y: number;
+  score: number;
+}
+
+// Interior angle at p2 formed by p1-p2-p3, in degrees
+export function calculateAngle(p1: Keypoint, p2: Keypoint, p3: Keypoint): number {
+  const v1 = { x: p1.x - p2.x, y: p1.y - p2.y };
+  const v2 = { x: p3.x - p2.x, y: p3.y - p2.y };
+
+  const dot = v1.x * v2.x + v1.y * v2.y;
+  const mag1 = Math.sqrt(v1.x * v1.x + v1.y * v1.y);
+  const mag2 = Math.sqrt(v2.x * v2.x + v2.y * v2.y);
+
+  if (mag1 === 0 || mag2 === 0) return 90;
+
+  const cosAngle = Math.max(-1, Math.min(1, dot / (mag1 * mag2)));
+  return Math.acos(cosAngle) * (180 / Math.PI);
+}
+
+// Angle of the segment point1 -> point2 from vertical (0° = straight vertical).
+// In camera coordinates, Y increases downward.
+export function calculateVerticalAngle(point1: Keypoint, point2: Keypoint): number {
+  const deltaY = point2.y - point1.y;
+  const deltaX = point2.x - point1.x;
+
+  return Math.atan2(Math.abs(deltaX), Math.abs(deltaY)) * (180 / Math.PI);
+}
+
+export function midpoint(a: Keypoint, b: Keypoint): Keypoint {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, score: Math.min(a.score, b.score) };
+}
+
+export function roundAngle(angle: number): number {
+  return Math.round(angle * 10) / 10;
+}
+
+// Legs count as evenly supported unless one ankle is lifted well above the other
+export function isBilateralSupport(keypoints: Keypoint[], minConfidence: number = 0.3): boolean {
+  const [leftHip, rightHip, , , leftAnkle, rightAnkle] = keypoints.slice(11, 17);
+  if (leftAnkle.score <= minConfidence || rightAnkle.score <= minConfidence) return true;
+
+  const legLength = Math.max(
+    Math.abs(leftAnkle.y - leftHip.y),
+    Math.abs(rightAnkle.y - rightHip.y),
+    1
+  );
+  return Math.abs(leftAnkle.y - rightAnkle.y) / legLength < 0.1;
+}
+
+// World-space keypoint in metres (BlazePose keypoints3D): origin between the hips,
+// y increasing downward like image coordinates, z towards or away from the camera
+export interface Keypoint3D {
+  x: number;
+  y: number;
+  z: number;
+  score: number;
+  name?: string;
+}
+
+type Vector3 = { x: number; y: number; z: number };
+
+const sub = (a: Vector3, b: Vector3): Vector3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const dot = (a: Vector3, b: Vector3) => a.x * b.x + a.y * b.y + a.z * b.z;
+const scale = (a: Vector3, k: number): Vector3 => ({ x: a.x * k, y: a.y * k, z: a.z * k });
+const length = (a: Vector3) => Math.sqrt(dot(a, a));
+const normalize = (a: Vector3): Vector3 => {
+  const len = length(a);
+  return len === 0 ? a : scale(a, 1 / len);
+};
+const mid = (a: Vector3, b: Vector3): Vector3 => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, z: (a.z + b.z) / 2 });
+// Component of a perpendicular to the unit vector n
+const reject = (a: Vector3, n: Vector3): Vector3 => sub(a, scale(n, dot(a, n)));
+const toDegrees = (radians: number) => radians * (180 / Math.PI);
+
+function angleBetween(a: Vector3, b: Vector3): number {
+  const denominator = length(a) * length(b);
+  if (denominator === 0) return 0;
+  return toDegrees(Math.acos(Math.max(-1, Math.min(1, dot(a, b) / denominator))));
+}
+
+const UP: Vector3 = { x: 0, y: -1, z: 0 };
+
+// Joint angles measured in world space, which a 2D projection cannot recover:
+// rotation about the trunk axis, lateral bending and arm abduction
+export interface BodyAngles3D {
+  trunkFlexion: number;   // trunk axis from vertical, degrees
+  trunkSideBend: number;  // trunk lean towards either side in the frontal plane
+  trunkTwist: number;     // shoulder line rotated against the hip line about the vertical
+  neckFlexion: number;    // head (ear midpoint) from the trunk axis
+  neckTwist: number;      // ear line rotated against the shoulder line
+  upperArm: { left: number; right: number };          // elevation of the upper arm from the trunk
+  shoulderAbduction: { left: number; right: number }; // upper arm out to the side in the trunk's frontal plane
+  elbowFlexion: { left: number; right: number };
+}
+
+// Degrees beyond which a 3D measurement counts as the worksheet's twisted / side bent / abducted modifier
+export const POSTURE_MODIFIER_THRESHOLDS = {
+  twist: 20,
+  sideBend: 10,
+  abduction: 20
+};
+
+export function calculateBodyAngles3D(world: Keypoint3D[] | undefined, minConfidence: number = 0.3): BodyAngles3D | null {
+  if (!world || world.length < 17) return null;
+
+  const [nose, , , leftEar, rightEar, leftShoulder, rightShoulder, leftElbow, rightElbow, leftWrist, rightWrist, leftHip, rightHip] = world;
+  if ([leftShoulder, rightShoulder, leftHip, rightHip].some(kp => !kp || kp.score <= minConfidence)) {
+    return null;
+  }
+
+  const shoulderCentre = mid(leftShoulder, rightShoulder);
+  const hipCentre = mid(leftHip, rightHip);
+  const trunk = sub(shoulderCentre, hipCentre);
+  const trunkAxis = normalize(trunk);
+
+  // Pelvis frame from the hip line, flattened onto the floor plane
+  const hipLine = reject(sub(leftHip, rightHip), UP);
+  const lateral = normalize(hipLine);
+
+  const trunkFlexion = angleBetween(trunk, UP);
+  const trunkSideBend = Math.abs(toDegrees(Math.atan2(dot(trunk, lateral), dot(trunk, UP))));
+  const trunkTwist = angleBetween(reject(sub(leftShoulder, rightShoulder), UP), hipLine);
+
+  const earsVisible = leftEar.score > minConfidence && rightEar.score > minConfidence;
+  const head = earsVisible ? mid(leftEar, rightEar) : nose;
+  const neckFlexion = angleBetween(sub(head, shoulderCentre), trunk);
+  const neckTwist = earsVisible ? angleBetween(reject(sub(leftEar, rightEar), trunkAxis), reject(sub(leftShoulder, rightShoulder), trunkAxis)) : 0;
+
+  // Trunk frame for the arms: down the trunk, and outward along the shoulder line
+  const trunkDown = scale(trunkAxis, -1);
+  const shoulderOutward = normalize(reject(sub(leftShoulder, rightShoulder), trunkAxis));
+
+  const arm = (shoulder: Keypoint3D, elbow: Keypoint3D, wrist: Keypoint3D, outward: Vector3) => {
+    if (elbow.score <= minConfidence) return { elevation: 0, abduction: 0, elbow: 0 };
+    const upperArm = sub(elbow, shoulder);
+    return {
+      elevation: angleBetween(upperArm, trunkDown),
+      // Sideways component of the arm's elevation; reaching straight forward does not count
+      abduction: Math.max(0, toDegrees(Math.asin(Math.max(-1, Math.min(1, dot(normalize(upperArm), outward)))))),
+      elbow: wrist.score > minConfidence ? 180 - angleBetween(sub(shoulder, elbow), sub(wrist, elbow)) : 0
+    };
+  };
+  const left = arm(leftShoulder, leftElbow, leftWrist, shoulderOutward);
+  const right = arm(rightShoulder, rightElbow, rightWrist, scale(shoulderOutward, -1));
+
+  return {
+    trunkFlexion,
+    trunkSideBend,
+    trunkTwist,
+    neckFlexion,
+    neckTwist,
+    upperArm: { left: left.elevation, right: right.elevation },
+    shoulderAbduction: { left: left.abduction, right: right.abduction },
+    elbowFlexion: { left: left.elbow, right: right.elbow }
+  };
+}
@@ -0,0 +1,75 @@
+// Ergonomic scoring engine: every live, recorded and exported score goes through here
+import type { Keypoint, Keypoint3D } from "./geometry";
+import { RISK_BAND_STYLES, findRiskBand, type RiskBandStyle } from "./risk";
+import { rebaMethod, type RebaOptions } from "./reba";
+import { rulaMethod, type RulaOptions } from "./rula";
+import { owasMethod, type OwasOptions } from "./owas";
+import type { AssessmentMethod, AssessmentMode, AssessmentScore, RiskBandDefinition } from "./types";
+
+export * from "./types";
+export * from "./risk";
+export * from "./tables";
+export * from "./sides";
+export * from "./viewpoint";
+export * from "./adjustments";
+export * from "./reba";
+export * from "./rula";
+export * from "./owas";
+export type { Keypoint, Keypoint3D, BodyAngles3D } from "./geometry";
+export { calculateBodyAngles3D } from "./geometry";
+
+// Worksheet options each method takes
+export interface MethodOptionsByMode {
+  REBA: RebaOptions;
+  RULA: RulaOptions;
+  OWAS: OwasOptions;
+}
+
+export type MethodOptions = MethodOptionsByMode[AssessmentMode];
+
+const assessmentMethods = new Map<AssessmentMode, AssessmentMethod<MethodOptions>>();
+
+export function registerAssessmentMethod(method: AssessmentMethod<MethodOptions>): void {
+  assessmentMethods.set(method.id, method);
+}
+
+export function getAssessmentMethod(mode: AssessmentMode): AssessmentMethod<MethodOptions> {
+  const method = assessmentMethods.get(mode);
+  if (!method) {
+    throw new Error(`Unknown assessment method: ${mode}`);
+  }
+  return method;
+}
+
+export function getAssessmentMethods(): AssessmentMethod<MethodOptions>[] {
+  return Array.from(assessmentMethods.values());
+}
+
+registerAssessmentMethod(rebaMethod);
+registerAssessmentMethod(rulaMethod);
+registerAssessmentMethod(owasMethod);
+
+export function calculateAssessment<M extends AssessmentMode>(mode: M, keypoints: Keypoint[], options?: MethodOptionsByMode[M], world?: Keypoint3D[]): AssessmentScore | null {
+  return getAssessmentMethod(mode).calculate(keypoints, options, world);
+}
+
+// Recalculate a stored score with some worksheet options changed, keeping the others
+export function rescoreWithOptions(score: AssessmentScore, keypoints: Keypoint[], changes: MethodOptions, world?: Keypoint3D[]): AssessmentScore {
+  if (!score?.method || !keypoints) return score;
+  return calculateAssessment(score.method, keypoints, { ...score.options, ...changes }, world) ?? score;
+}
+
+// Recalculate a stored score with a different load, keeping its other worksheet options
+export function rescoreWithLoad(score: AssessmentScore, keypoints: Keypoint[], loadKg: number, world?: Keypoint3D[]): AssessmentScore {
+  return rescoreWithOptions(score, keypoints, { loadKg }, world);
+}
+
+export function getRiskBand(mode: AssessmentMode, finalScore: number): RiskBandDefinition & RiskBandStyle {
+  const definition = findRiskBand(getAssessmentMethod(mode).riskBands, finalScore);
+  return { ...definition, ...RISK_BAND_STYLES[definition.band] };
+}
+
+// Band lookup for a stored score, falling back to the current mode for scores saved before the engine
+export function getScoreRiskBand(score: { method?: AssessmentMode; finalScore: number }, fallbackMode: AssessmentMode = 'REBA') {
+  return getRiskBand(score.method ?? fallbackMode, score.finalScore);
+}
@@ -0,0 +1,135 @@
+// OWAS action categories read off the published posture-code table (Karhu et al. 1977),
+// keypoint classification of simple posed skeletons, and the time-fraction analysis
+import { describe, expect, it } from "vitest";
+import {
+  analyzeOwasRecording,
+  calculateOwasScore,
+  getOwasActionCategory,
+  scoreOwasPosture,
+  type OwasScore
+} from "./index";
+import type { Keypoint } from "./geometry";
+
+type Point = [number, number];
+
+// COCO-17 skeleton facing the camera, image y increasing downward
+const skeleton = (overrides: Partial<Record<number, Point>> = {}): Keypoint[] => {
+  const points: Point[] = [
+    [100, 60], [95, 55], [105, 55], [90, 60], [110, 60], // nose, eyes, ears
+    [120, 100], [80, 100],                                // shoulders
+    [125, 150], [75, 150],                                // elbows
+    [125, 200], [75, 200],                                // wrists
+    [115, 200], [85, 200],                                // hips
+    [115, 300], [85, 300],                                // knees
+    [115, 400], [85, 400]                                 // ankles
+  ];
+  return points.map((point, index) => {
+    const [x, y] = overrides[index] ?? point;
+    return { x, y, score: 0.9 };
+  });
+};
+
+const owasFrame = (back: number, arms: number, legs: number, load: number): OwasScore =>
+  ({ ...scoreOwasPosture(back, arms, legs, load), trunkAngle: 0, kneeAngle: 0 });
+
+describe("OWAS action categories", () => {
+  it("reads the action category for known posture codes", () => {
+    expect(getOwasActionCategory(1, 1, 2, 1)).toBe(1); // upright standing
+    expect(getOwasActionCategory(1, 3, 4, 3)).toBe(3); // upright, arms up, squatting, >20 kg
+    expect(getOwasActionCategory(2, 1, 4, 1)).toBe(3); // bent, squatting
+    expect(getOwasActionCategory(2, 2, 4, 2)).toBe(4); // bent, one arm up, squatting, 10-20 kg
+    expect(getOwasActionCategory(3, 1, 5, 1)).toBe(4); // twisted on one bent leg
+    expect(getOwasActionCategory(4, 1, 7, 1)).toBe(2); // bent and twisted, walking
+  });
+
+  it("clamps codes past the table to the last category", () => {
+    expect(getOwasActionCategory(5, 4, 8, 4)).toBe(getOwasActionCategory(4, 3, 7, 3));
+  });
+
+  it("builds the posture code and maps the action category onto the risk bands", () => {
+    expect(scoreOwasPosture(2, 1, 4, 1)).toMatchObject({
+      code: '2141',
+      actionCategory: 3,
+      finalScore: 3,
+      riskBand: 'change-soon',
+      riskLevel: 'AC3 - Corrective action as soon as possible',
+      stressLevel: 5
+    });
+  });
+});
+
+describe("OWAS posture classification", () => {
+  it("classifies upright standing with arms down as 1121", () => {
+    expect(calculateOwasScore(skeleton())).toMatchObject({ back: 1, arms: 1, legs: 2, load: 1, code: '1121', actionCategory: 1 });
+  });
+
+  it("counts each hand at or above shoulder height", () => {
+    const oneArm = calculateOwasScore(skeleton({ 7: [125, 60], 9: [125, 20] }));
+    const bothArms = calculateOwasScore(skeleton({ 7: [125, 60], 9: [125, 20], 8: [75, 60], 10: [75, 20] }));
+    expect(oneArm?.arms).toBe(2);
+    expect(bothArms?.arms).toBe(3);
+  });
+
+  it("classifies a forward bend with a heavy load", () => {
+    // Shoulder midpoint 60 px forward and 50 px above the hips: about 50° from vertical
+    const bent = skeleton({ 5: [180, 150], 6: [140, 150], 7: [180, 200], 8: [140, 200], 9: [180, 250], 10: [140, 250] });
+    const score = calculateOwasScore(bent, { loadKg: 25 });
+    expect(score).toMatchObject({ back: 2, arms: 1, legs: 2, load: 3, code: '2123', actionCategory: 3 });
+    expect(score?.trunkAngle).toBeCloseTo(50.2, 1);
+  });
+
+  it("reads a knee level with its ankle as kneeling", () => {
+    expect(calculateOwasScore(skeleton({ 15: [115, 310] }))?.legs).toBe(6);
+  });
+
+  it("uses the load and moving options the keypoints cannot show", () => {
+    expect(calculateOwasScore(skeleton(), { loadKg: 15 })?.load).toBe(2);
+    expect(calculateOwasScore(skeleton(), { moving: true })?.legs).toBe(7);
+  });
+});
+
+describe("OWAS recording analysis", () => {
+  // 5 frames upright, 3 bent and twisted while squatting, 2 bent with both arms up
+  const recording = [
+    ...Array.from({ length: 5 }, () => owasFrame(1, 1, 2, 1)),
+    ...Array.from({ length: 3 }, () => owasFrame(4, 1, 4, 1)),
+    ...Array.from({ length: 2 }, () => owasFrame(2, 3, 2, 1)),
+    null,
+    { method: 'REBA', finalScore: 5 } as unknown as OwasScore
+  ];
+  const summary = analyzeOwasRecording(recording);
+
+  it("counts only OWAS frames", () => {
+    expect(summary.totalFrames).toBe(10);
+  });
+
+  it("reports the share of frames in each action category", () => {
+    expect(summary.actionCategoryDistribution).toEqual([
+      { actionCategory: 1, frames: 5, percentage: 50 },
+      { actionCategory: 2, frames: 2, percentage: 20 },
+      { actionCategory: 3, frames: 0, percentage: 0 },
+      { actionCategory: 4, frames: 3, percentage: 30 }
+    ]);
+  });
+
+  it("reads each observed posture's time-fraction action category", () => {
+    const fractions = summary.timeFractions.map(({ bodyPart, category, percentage, actionCategory }) =>
+      ({ bodyPart, category, percentage, actionCategory }));
+    expect(fractions).toEqual([
+      { bodyPart: 'back', category: 1, percentage: 50, actionCategory: 1 },
+      { bodyPart: 'back', category: 2, percentage: 20, actionCategory: 2 },
+      { bodyPart: 'back', category: 4, percentage: 30, actionCategory: 3 },
+      { bodyPart: 'arms', category: 1, percentage: 80, actionCategory: 1 },
+      { bodyPart: 'arms', category: 3, percentage: 20, actionCategory: 2 },
+      { bodyPart: 'legs', category: 2, percentage: 70, actionCategory: 1 },
+      { bodyPart: 'legs', category: 4, percentage: 30, actionCategory: 3 }
+    ]);
+  });
+
+  it("returns empty results for a recording with no OWAS frames", () => {
+    const empty = analyzeOwasRecording([null, undefined]);
+    expect(empty.totalFrames).toBe(0);
+    expect(empty.timeFractions).toEqual([]);
+    expect(empty.actionCategoryDistribution.every(row => row.percentage === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,338 @@
+// OWAS (Ovako Working Posture Analysing System): back, arms, legs and load are
+// classified into a 4-digit posture code, which maps to an action category 1-4.
+import {
+  POSTURE_MODIFIER_THRESHOLDS,
+  calculateAngle,
+  calculateBodyAngles3D,
+  calculateVerticalAngle,
+  isBilateralSupport,
+  midpoint,
+  roundAngle,
+  type Keypoint,
+  type Keypoint3D
+} from "./geometry";
+import { findRiskBand } from "./risk";
+import { createViewAdjuster } from "./viewpoint";
+import { createModifierResolver } from "./adjustments";
+import type { AdjustmentOptions, AssessmentMethod, AssessmentScore, RiskBandDefinition, ViewpointOptions } from "./types";
+
+export interface OwasOptions extends ViewpointOptions, AdjustmentOptions {
+  loadKg?: number;   // Load or force handled, in kg
+  moving?: boolean;  // Walking or moving; not observable from a single frame
+}
+
+export type OwasBodyPart = 'back' | 'arms' | 'legs' | 'load';
+
+export interface OwasScore extends AssessmentScore {
+  method: 'OWAS';
+  back: number;  // 1 straight, 2 bent, 3 twisted or side bent, 4 bent and twisted
+  arms: number;  // 1 both below shoulder, 2 one at/above shoulder, 3 both at/above shoulder
+  legs: number;  // 1 sitting ... 7 walking, see OWAS_CATEGORY_LABELS
+  load: number;  // 1 <10 kg, 2 10-20 kg, 3 >20 kg
+  code: string;  // Posture code, back-arms-legs-load digits
+  actionCategory: number;
+  trunkAngle: number;
+  kneeAngle: number;
+  trunkTwistAngle?: number;    // set when angleSource is '3d'
+  trunkSideBendAngle?: number;
+  options: OwasOptions;
+}
+
+export const OWAS_CATEGORY_LABELS: Record<OwasBodyPart, string[]> = {
+  back: ['Straight', 'Bent', 'Twisted or side bent', 'Bent and twisted'],
+  arms: ['Both below shoulder', 'One at or above shoulder', 'Both at or above shoulder'],
+  legs: [
+    'Sitting',
+    'Standing on both straight legs',
+    'Standing on one straight leg',
+    'Standing or squatting, both knees bent',
+    'Standing or squatting on one bent leg',
+    'Kneeling',
+    'Walking or moving'
+  ],
+  load: ['Less than 10 kg', '10-20 kg', 'More than 20 kg']
+};
+
+export const OWAS_RISK_BANDS: RiskBandDefinition[] = [
+  { maxScore: 1, band: 'acceptable', label: 'AC1 - No corrective action needed' },
+  { maxScore: 2, band: 'investigate', label: 'AC2 - Corrective action in the near future' },
+  { maxScore: 3, band: 'change-soon', label: 'AC3 - Corrective action as soon as possible' },
+  { maxScore: 4, band: 'change-now', label: 'AC4 - Corrective action immediately' }
+];
+
+// Action category table - [back-1][arms-1][legs-1][load-1]
+const OWAS_ACTION_CATEGORIES = [
+  [ // Back 1
+    [[1,1,1],[1,1,1],[1,1,1],[2,2,2],[2,2,2],[1,1,1],[1,1,1]],
+    [[1,1,1],[1,1,1],[1,1,1],[2,2,2],[2,2,2],[1,1,1],[1,1,1]],
+    [[1,1,1],[1,1,1],[1,1,1],[2,2,3],[2,2,3],[1,1,1],[1,1,2]]
+  ],
+  [ // Back 2
+    [[2,2,3],[2,2,3],[2,2,3],[3,3,3],[3,3,3],[2,2,2],[2,3,3]],
+    [[2,2,3],[2,2,3],[2,3,3],[3,4,4],[3,4,4],[3,3,4],[2,3,4]],
+    [[3,3,4],[2,2,3],[3,3,3],[3,4,4],[4,4,4],[4,4,4],[2,3,4]]
+  ],
+  [ // Back 3
+    [[1,1,1],[1,1,1],[1,1,2],[3,3,3],[4,4,4],[1,1,1],[1,1,1]],
+    [[2,2,3],[1,1,1],[1,1,2],[4,4,4],[4,4,4],[3,3,3],[1,1,1]],
+    [[2,2,3],[1,1,1],[2,3,3],[4,4,4],[4,4,4],[4,4,4],[1,1,1]]
+  ],
+  [ // Back 4
+    [[2,3,3],[2,2,3],[2,2,3],[4,4,4],[4,4,4],[4,4,4],[2,3,4]],
+    [[3,3,4],[2,3,4],[3,3,4],[4,4,4],[4,4,4],[4,4,4],[2,3,4]],
+    [[4,4,4],[2,3,4],[3,3,4],[4,4,4],[4,4,4],[4,4,4],[2,3,4]]
+  ]
+];
+
+// Action category by share of working time spent in each posture, in 10% steps
+// (0-10%, 10-20%, ... 90-100%)
+const OWAS_TIME_FRACTION_CATEGORIES: Record<Exclude<OwasBodyPart, 'load'>, number[][]> = {
+  back: [
+    [1,1,1,1,1,1,1,1,1,1],
+    [1,1,2,2,2,3,3,3,3,3],
+    [1,1,2,2,3,3,3,4,4,4],
+    [1,2,2,3,3,3,4,4,4,4]
+  ],
+  arms: [
+    [1,1,1,1,1,1,1,1,1,1],
+    [1,1,1,2,2,2,2,2,3,3],
+    [1,1,2,2,2,2,2,3,3,3]
+  ],
+  legs: [
+    [1,1,1,1,1,1,1,1,2,2],
+    [1,1,1,1,1,1,1,1,1,1],
+    [1,1,1,2,2,2,2,2,2,2],
+    [1,2,2,3,3,3,3,4,4,4],
+    [1,2,2,3,3,3,3,4,4,4],
+    [1,2,3,3,3,4,4,4,4,4],
+    [1,1,2,2,2,3,3,3,3,3]
+  ]
+};
+
+const ACTION_CATEGORY_STRESS = [1, 3, 5, 7];
+
+export function getOwasActionCategory(back: number, arms: number, legs: number, load: number): number {
+  const clamp = (value: number, size: number) => Math.min(Math.max(value - 1, 0), size - 1);
+  return OWAS_ACTION_CATEGORIES[clamp(back, 4)][clamp(arms, 3)][clamp(legs, 7)][clamp(load, 3)];
+}
+
+function getBackCategory(trunkAngle: number, isTwisted: boolean): number {
+  const isBent = trunkAngle > 20;
+  if (isBent && isTwisted) return 4;
+  if (isTwisted) return 3;
+  if (isBent) return 2;
+  return 1;
+}
+
+function getLoadCategory(loadKg: number = 0): number {
+  if (loadKg > 20) return 3;
+  if (loadKg >= 10) return 2;
+  return 1;
+}
+
+// Runs the classification from posture codes, as recorded by an observer
+export function scoreOwasPosture(back: number, arms: number, legs: number, load: number, options: OwasOptions = {}) {
+  const actionCategory = getOwasActionCategory(back, arms, legs, load);
+  const band = findRiskBand(OWAS_RISK_BANDS, actionCategory);
+
+  return {
+    method: 'OWAS' as const,
+    back,
+    arms,
+    legs,
+    load,
+    code: `${back}${arms}${legs}${load}`,
+    actionCategory,
+    finalScore: actionCategory,
+    riskLevel: band.label,
+    riskBand: band.band,
+    stressLevel: ACTION_CATEGORY_STRESS[actionCategory - 1],
+    options
+  };
+}
+
+// world, when given, measures the back's bend, twist and side bend on the 3D skeleton
+export function calculateOwasScore(keypoints: Keypoint[], options: OwasOptions = {}, world?: Keypoint3D[]): OwasScore | null {
+  if (!keypoints || keypoints.length < 17) {
+    return null;
+  }
+
+  const minConfidence = 0.3;
+  const validKeypoints = keypoints.filter(kp => kp.score > minConfidence);
+  if (validKeypoints.length < 8) {
+    return null;
+  }
+
+  try {
+    const leftShoulder = keypoints[5];
+    const rightShoulder = keypoints[6];
+    const leftElbow = keypoints[7];
+    const rightElbow = keypoints[8];
+    const leftWrist = keypoints[9];
+    const rightWrist = keypoints[10];
+    const leftHip = keypoints[11];
+    const rightHip = keypoints[12];
+    const leftKnee = keypoints[13];
+    const rightKnee = keypoints[14];
+    const leftAnkle = keypoints[15];
+    const rightAnkle = keypoints[16];
+
+    const shoulderMidpoint = midpoint(leftShoulder, rightShoulder);
+    const hipMidpoint = midpoint(leftHip, rightHip);
+
+    const body3D = calculateBodyAngles3D(world, minConfidence);
+    // World landmarks are measured in 3D, so only image-space angles depend on the camera view
+    const view = createViewAdjuster(body3D ? undefined : options.view);
+    const modifiers = createModifierResolver(options.adjustments);
+
+    // Back - forward bend from vertical, twist or side bend from the shoulder line
+    // rotating against the hip line
+    let trunkAngle: number;
+    let isSideBent: boolean;
+    let isTwisted: boolean;
+    if (body3D) {
+      trunkAngle = body3D.trunkFlexion;
+      isSideBent = body3D.trunkSideBend > POSTURE_MODIFIER_THRESHOLDS.sideBend;
+      isTwisted = body3D.trunkTwist > POSTURE_MODIFIER_THRESHOLDS.twist;
+    } else {
+      trunkAngle = view.angle('trunkFlexion', calculateVerticalAngle(hipMidpoint, shoulderMidpoint));
+      const shoulderTilt = Math.atan2(rightShoulder.y - leftShoulder.y, rightShoulder.x - leftShoulder.x) * (180 / Math.PI);
+      const hipTilt = Math.atan2(rightHip.y - leftHip.y, rightHip.x - leftHip.x) * (180 / Math.PI);
+      const shoulderWidth = Math.abs(rightShoulder.x - leftShoulder.x);
+      const hipWidth = Math.abs(rightHip.x - leftHip.x);
+      isSideBent = view.modifier('trunkSideBend', Math.abs(shoulderTilt - hipTilt) > 15);
+      // Shoulders normally look wider than hips; a narrower shoulder line means the trunk is rotated
+      isTwisted = view.modifier('trunkTwist', hipWidth > 10 && shoulderWidth < hipWidth * 0.9);
+    }
+    isSideBent = modifiers.resolve('trunkSideBent', isSideBent);
+    isTwisted = modifiers.resolve('trunkTwisted', isTwisted);
+    const back = getBackCategory(trunkAngle, isSideBent || isTwisted);
+
+    // Arms - elbow or hand at or above shoulder height (Y increases downward)
+    const isArmRaised = (shoulder: Keypoint, elbow: Keypoint, wrist: Keypoint) =>
+      (elbow.score > minConfidence && elbow.y <= shoulder.y) ||
+      (wrist.score > minConfidence && wrist.y <= shoulder.y);
+    const raisedArms =
+      (isArmRaised(leftShoulder, leftElbow, leftWrist) ? 1 : 0) +
+      (isArmRaised(rightShoulder, rightElbow, rightWrist) ? 1 : 0);
+    const arms = raisedArms + 1;
+
+    // Legs - sitting, kneeling, support and knee bend
+    const legsVisible = Math.min(leftKnee.score, rightKnee.score, leftAnkle.score, rightAnkle.score) > minConfidence;
+    const leftKneeFlexion = legsVisible ? view.angle('kneeFlexion', 180 - calculateAngle(leftHip, leftKnee, leftAnkle)) : 0;
+    const rightKneeFlexion = legsVisible ? view.angle('kneeFlexion', 180 - calculateAngle(rightHip, rightKnee, rightAnkle)) : 0;
+    const kneeAngle = Math.max(leftKneeFlexion, rightKneeFlexion);
+
+    let legs = 2;
+    if (options.moving) {
+      legs = 7;
+    } else if (legsVisible) {
+      const thighDrop = (hip: Keypoint, knee: Keypoint) => Math.abs(knee.y - hip.y);
+      const shinDrop = (knee: Keypoint, ankle: Keypoint) => Math.abs(ankle.y - knee.y);
+      // Thighs close to horizontal above vertical shins reads as sitting
+      const isSitting =
+        thighDrop(leftHip, leftKnee) < shinDrop(leftKnee, leftAnkle) * 0.4 &&
+        thighDrop(rightHip, rightKnee) < shinDrop(rightKnee, rightAnkle) * 0.4;
+      // A knee level with its ankle is resting on the floor
+      const isKneeling =
+        shinDrop(leftKnee, leftAnkle) < thighDrop(leftHip, leftKnee) * 0.3 ||
+        shinDrop(rightKnee, rightAnkle) < thighDrop(rightHip, rightKnee) * 0.3;
+      const isBilateral = !modifiers.resolve('legsUnsupported', !isBilateralSupport(keypoints, minConfidence));
+      const kneeBent = (flexion: number) => flexion > 30;
+
+      if (isKneeling) {
+        legs = 6;
+      } else if (isSitting) {
+        legs = 1;
+      } else if (isBilateral) {
+        legs = kneeBent(leftKneeFlexion) && kneeBent(rightKneeFlexion) ? 4 : 2;
+      } else {
+        // The standing leg is the one with the lower ankle
+        const standingKneeFlexion = leftAnkle.y > rightAnkle.y ? leftKneeFlexion : rightKneeFlexion;
+        legs = kneeBent(standingKneeFlexion) ? 5 : 3;
+      }
+    }
+
+    const load = getLoadCategory(options.loadKg);
+
+    return {
+      ...scoreOwasPosture(back, arms, legs, load, options),
+      trunkAngle: roundAngle(trunkAngle),
+      kneeAngle: roundAngle(kneeAngle),
+      angleSource: body3D ? '3d' : '2d',
+      ...(!body3D && options.view && { viewpoint: options.view.viewpoint, suppressedAngles: view.suppressed() }),
+      detectedModifiers: modifiers.detected(),
+      ...(body3D && {
+        trunkTwistAngle: roundAngle(body3D.trunkTwist),
+        trunkSideBendAngle: roundAngle(body3D.trunkSideBend)
+      })
+    };
+  } catch (error) {
+    console.error("Error calculating OWAS score:", error);
+    return null;
+  }
+}
+
+export interface OwasTimeFraction {
+  bodyPart: Exclude<OwasBodyPart, 'load'>;
+  category: number;
+  label: string;
+  frames: number;
+  percentage: number;
+  actionCategory: number;
+}
+
+export interface OwasRecordingSummary {
+  totalFrames: number;
+  actionCategoryDistribution: { actionCategory: number; frames: number; percentage: number }[];
+  timeFractions: OwasTimeFraction[];
+}
+
+// Distribution of action categories over a recording and the OWAS
+// time-fraction action category for every observed body part posture
+export function analyzeOwasRecording(scores: Array<OwasScore | null | undefined>): OwasRecordingSummary {
+  const owasScores = scores.filter((score): score is OwasScore => score?.method === 'OWAS');
+  const totalFrames = owasScores.length;
+  const percentageOf = (frames: number) => totalFrames > 0 ? Math.round((frames / totalFrames) * 1000) / 10 : 0;
+
+  const actionCategoryDistribution = [1, 2, 3, 4].map(actionCategory => {
+    const frames = owasScores.filter(score => score.actionCategory === actionCategory).length;
+    return { actionCategory, frames, percentage: percentageOf(frames) };
+  });
+
+  const timeFractions: OwasTimeFraction[] = [];
+  (Object.keys(OWAS_TIME_FRACTION_CATEGORIES) as Array<Exclude<OwasBodyPart, 'load'>>).forEach(bodyPart => {
+    OWAS_TIME_FRACTION_CATEGORIES[bodyPart].forEach((row, index) => {
+      const category = index + 1;
+      const frames = owasScores.filter(score => score[bodyPart] === category).length;
+      if (frames === 0) return;
+
+      const share = frames / totalFrames;
+      timeFractions.push({
+        bodyPart,
+        category,
+        label: OWAS_CATEGORY_LABELS[bodyPart][index],
+        frames,
+        percentage: percentageOf(frames),
+        actionCategory: row[Math.min(Math.floor(share * 10), 9)]
+      });
+    });
+  });
+
+  return { totalFrames, actionCategoryDistribution, timeFractions };
+}
+
+export const owasMethod: AssessmentMethod<OwasOptions, OwasScore> = {
+  id: 'OWAS',
+  name: 'Ovako Working Posture Analysing System',
+  maxScore: 4,
+  riskBands: OWAS_RISK_BANDS,
+  segments: [
+    { key: 'back', label: 'Back', max: 4 },
+    { key: 'arms', label: 'Arms', max: 3 },
+    { key: 'legs', label: 'Legs', max: 7 },
+    { key: 'load', label: 'Load', max: 3 }
+  ],
+  modifiers: ['trunkTwisted', 'trunkSideBent', 'legsUnsupported'],
+  calculate: calculateOwasScore
+};
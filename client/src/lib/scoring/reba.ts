@@ -0,0 +1,399 @@
+// REBA (Rapid Entire Body Assessment) calculation following the full worksheet:
+// Group A (trunk, neck, legs) plus load/force, Group B (upper arm, lower arm, wrist)
+// plus coupling, Table C and the activity score.
+import {
+  POSTURE_MODIFIER_THRESHOLDS,
+  calculateAngle,
+  calculateBodyAngles3D,
+  calculateVerticalAngle,
+  isBilateralSupport,
+  midpoint,
+  roundAngle,
+  type Keypoint,
+  type Keypoint3D
+} from "./geometry";
+import { findRiskBand } from "./risk";
+import { lookupRebaTableA, lookupRebaTableB, lookupRebaTableC } from "./tables";
+import { ARM_KEYPOINTS, getArmConfidence, getMeasurableSides, pickWorseSide } from "./sides";
+import { createViewAdjuster } from "./viewpoint";
+import { createModifierResolver } from "./adjustments";
+import type { AdjustmentOptions, AssessmentMethod, AssessmentScore, BodySide, RiskBandDefinition, ViewpointOptions } from "./types";
+
+export type CouplingQuality = 'good' | 'fair' | 'poor' | 'unacceptable';
+
+export interface RebaActivity {
+  staticPosture: boolean;   // One or more body parts held for longer than 1 minute
+  repeatedActions: boolean; // Small range actions repeated more than 4 times per minute
+  rapidChanges: boolean;    // Rapid large range changes in posture or an unstable base
+}
+
+export interface RebaOptions extends ViewpointOptions, AdjustmentOptions {
+  coupling?: CouplingQuality;
+  activity?: Partial<RebaActivity>;
+  loadKg?: number;      // Load or force handled, in kg
+  loadShock?: boolean;  // Shock or rapid build-up of force
+}
+
+export type RebaSegment = 'upperArm' | 'lowerArm' | 'wrist' | 'neck' | 'trunk' | 'legs';
+
+// Body part scores as entered on the paper worksheet, modifiers included
+export type RebaSegmentScores = Record<RebaSegment, number>;
+
+// Keypoint indices and measured angle a body part score was derived from
+export interface RebaScoreSource {
+  keypoints: number[];
+  angle: number;
+}
+
+export interface RebaWorksheetScore extends AssessmentScore, RebaSegmentScores {
+  method: 'REBA';
+  forceLoad: number;
+  coupling: number;
+  activity: number;
+  scoreA: number; // Table A (trunk, neck, legs) plus load/force
+  scoreB: number; // Table B (upper arm, lower arm, wrist) plus coupling
+  scoreC: number; // Table C lookup before the activity score
+  options: RebaOptions;
+}
+
+// Group B and the resulting worksheet scores for one arm, with Group A shared by both sides
+export interface RebaSideScore {
+  upperArm: number;
+  lowerArm: number;
+  wrist: number;
+  scoreB: number;
+  scoreC: number;
+  finalScore: number;
+  upperArmAngle: number;
+  lowerArmAngle: number;
+  wristAngle: number;
+  shoulderAbductionAngle?: number;
+  confidence: number; // mean arm keypoint confidence, 0-1
+}
+
+export interface RebaScore extends RebaWorksheetScore {
+  side: BodySide; // arm the worksheet scores come from, the worse of the measured sides
+  sides: Partial<Record<BodySide, RebaSideScore>>;
+  legSupport: 'bilateral' | 'unilateral';
+  // Individual body part angles for debugging
+  upperArmAngle: number;
+  lowerArmAngle: number;
+  wristAngle: number;
+  neckAngle: number;
+  trunkAngle: number;
+  kneeAngle: number;
+  // Only measurable from world landmarks, set when angleSource is '3d'
+  trunkTwistAngle?: number;
+  trunkSideBendAngle?: number;
+  shoulderAbductionAngle?: number;
+  sources: Record<RebaSegment, RebaScoreSource>;
+}
+
+const COUPLING_SCORES: Record<CouplingQuality, number> = {
+  good: 0,
+  fair: 1,
+  poor: 2,
+  unacceptable: 3
+};
+
+export const REBA_RISK_BANDS: RiskBandDefinition[] = [
+  { maxScore: 1, band: 'acceptable', label: 'Negligible Risk - Acceptable' },
+  { maxScore: 3, band: 'investigate', label: 'Low Risk - Change May Be Needed' },
+  { maxScore: 7, band: 'change-soon', label: 'Medium Risk - Investigate & Change Soon' },
+  { maxScore: 10, band: 'change-now', label: 'High Risk - Investigate & Implement Change' },
+  { maxScore: 15, band: 'change-now', label: 'Very High Risk - Implement Change Now' }
+];
+
+function getUpperArmScore(angle: number, isRaised: boolean = false, isAbducted: boolean = false, isSupported: boolean = false): number {
+  let score = 1;
+
+  // Base score from angle
+  if (angle > 90) score = 4;
+  else if (angle > 45) score = 3;
+  else if (angle > 20) score = 2;
+  else score = 1;
+
+  // Add 1 if shoulder is raised, add 1 if arm is abducted or rotated
+  if (isRaised) score += 1;
+  if (isAbducted) score += 1;
+  // Subtract 1 if the arm is supported or the person is leaning
+  if (isSupported) score -= 1;
+
+  return Math.max(1, Math.min(6, score)); // Clamp between 1-6
+}
+
+function getLowerArmScore(flexionAngle: number): number {
+  // Forearm flexion of 60-100° is the neutral working range
+  return flexionAngle >= 60 && flexionAngle <= 100 ? 1 : 2;
+}
+
+function getWristScore(flexionAngle: number, isTwisted: boolean = false): number {
+  // Wrist flexion/extension from neutral
+  let score = Math.abs(flexionAngle) > 15 ? 2 : 1;
+
+  // Add 1 if wrist is deviated or twisted
+  if (isTwisted) score += 1;
+
+  return Math.max(1, Math.min(3, score)); // Clamp between 1-3
+}
+
+function getNeckScore(angle: number, isTwisted: boolean = false, isSideBent: boolean = false): number {
+  // Neck flexion 0-20° scores 1, beyond 20° (or extension) scores 2
+  let score = angle > 20 ? 2 : 1;
+
+  // Add 1 if neck is twisted or side bent
+  if (isTwisted || isSideBent) score += 1;
+
+  return Math.max(1, Math.min(3, score)); // Clamp between 1-3
+}
+
+function getTrunkScore(angle: number, isTwisted: boolean = false, isSideBent: boolean = false): number {
+  let score = 1;
+
+  // Trunk lean from vertical
+  if (angle > 60) score = 4;
+  else if (angle > 20) score = 3;
+  else if (angle > 5) score = 2;
+  else score = 1;
+
+  // Add 1 if trunk is twisted or side bent
+  if (isTwisted || isSideBent) score += 1;
+
+  return Math.max(1, Math.min(5, score)); // Clamp between 1-5
+}
+
+function getLegsScore(isBilateral: boolean, kneeFlexion: number): number {
+  // Bilateral weight bearing, walking or sitting scores 1; unilateral or unstable scores 2
+  let score = isBilateral ? 1 : 2;
+
+  // Knee flexion adjustment
+  if (kneeFlexion > 60) score += 2;
+  else if (kneeFlexion >= 30) score += 1;
+
+  return Math.max(1, Math.min(4, score)); // Clamp between 1-4
+}
+
+function getForceLoadScore(loadKg: number = 0, shock: boolean = false): number {
+  // Under 5 kg scores 0, 5-10 kg scores 1, over 10 kg scores 2; shock adds 1
+  let score = loadKg > 10 ? 2 : loadKg >= 5 ? 1 : 0;
+  if (shock) score += 1;
+  return score;
+}
+
+function getActivityScore(activity: Partial<RebaActivity> = {}): number {
+  // +1 for each activity condition present
+  return (activity.staticPosture ? 1 : 0) +
+    (activity.repeatedActions ? 1 : 0) +
+    (activity.rapidChanges ? 1 : 0);
+}
+
+function getStressLevel(finalScore: number): number {
+  // Map REBA score (1-15) to stress level (1-7)
+  return Math.min(Math.max(Math.ceil(finalScore / 2), 1), 7);
+}
+
+// Runs the worksheet from body part scores, as done by hand on the paper form
+export function scoreRebaWorksheet(segments: RebaSegmentScores, options: RebaOptions = {}): RebaWorksheetScore {
+  const forceLoad = getForceLoadScore(options.loadKg, options.loadShock);
+  const coupling = COUPLING_SCORES[options.coupling ?? 'good'];
+  const activity = getActivityScore(options.activity);
+
+  const scoreA = lookupRebaTableA(segments.trunk, segments.neck, segments.legs) + forceLoad;
+  const scoreB = lookupRebaTableB(segments.upperArm, segments.lowerArm, segments.wrist) + coupling;
+  const scoreC = lookupRebaTableC(scoreA, scoreB);
+  const finalScore = scoreC + activity;
+  const band = findRiskBand(REBA_RISK_BANDS, finalScore);
+
+  return {
+    method: 'REBA',
+    ...segments,
+    forceLoad,
+    coupling,
+    activity,
+    scoreA,
+    scoreB,
+    scoreC,
+    finalScore,
+    riskLevel: band.label,
+    riskBand: band.band,
+    stressLevel: getStressLevel(finalScore),
+    options
+  };
+}
+
+// Each visible arm is scored on its own and the worse side sets the final score.
+// world, when given, replaces the 2D trunk, neck and arm angles and the twist, side bend
+// and abduction heuristics with measurements on the 3D skeleton
+export function calculateRebaScore(keypoints: Keypoint[], options: RebaOptions = {}, world?: Keypoint3D[]): RebaScore | null {
+  if (!keypoints || keypoints.length < 17) {
+    return null;
+  }
+
+  const validKeypoints = keypoints.filter(kp => kp.score > 0.3);
+  if (validKeypoints.length < 8) {
+    return null;
+  }
+
+  try {
+    const nose = keypoints[0];
+    const leftShoulder = keypoints[5];
+    const rightShoulder = keypoints[6];
+    const leftHip = keypoints[11];
+    const rightHip = keypoints[12];
+    const leftKnee = keypoints[13];
+    const rightKnee = keypoints[14];
+    const leftAnkle = keypoints[15];
+    const rightAnkle = keypoints[16];
+
+    const shoulderMidpoint = midpoint(leftShoulder, rightShoulder);
+    const hipMidpoint = midpoint(leftHip, rightHip);
+
+    const body3D = calculateBodyAngles3D(world);
+    // World landmarks are measured in 3D, so only image-space angles depend on the camera view
+    const view = createViewAdjuster(body3D ? undefined : options.view);
+    const modifiers = createModifierResolver(options.adjustments);
+
+    // Group A (trunk, neck, legs) is shared by both sides
+
+    // Neck angle - forward head posture
+    const neckAngle = body3D ? body3D.neckFlexion : view.angle('neckFlexion', calculateVerticalAngle(shoulderMidpoint, nose));
+
+    // Trunk angle - body lean from vertical
+    const trunkAngle = body3D ? body3D.trunkFlexion : view.angle('trunkFlexion', calculateVerticalAngle(hipMidpoint, shoulderMidpoint));
+
+    // Legs - knee flexion on the more flexed side and bilateral weight bearing
+    const legConfidence = Math.min(leftKnee.score, rightKnee.score, leftAnkle.score, rightAnkle.score);
+    const legsVisible = legConfidence > 0.3;
+    const leftKneeFlexion = legsVisible ? 180 - calculateAngle(leftHip, leftKnee, leftAnkle) : 0;
+    const rightKneeFlexion = legsVisible ? 180 - calculateAngle(rightHip, rightKnee, rightAnkle) : 0;
+    const kneeAngle = view.angle('kneeFlexion', Math.max(leftKneeFlexion, rightKneeFlexion));
+    const isBilateral = !modifiers.resolve('legsUnsupported', legsVisible && !isBilateralSupport(keypoints));
+
+    const isNeckTwisted = modifiers.resolve('neckTwisted', body3D
+      ? body3D.neckTwist > POSTURE_MODIFIER_THRESHOLDS.twist
+      : view.modifier('neckTwist', Math.abs(nose.x - shoulderMidpoint.x) > 20));
+    const isTrunkTwisted = modifiers.resolve('trunkTwisted', body3D
+      ? body3D.trunkTwist > POSTURE_MODIFIER_THRESHOLDS.twist
+      : view.modifier('trunkTwist', Math.abs(shoulderMidpoint.x - hipMidpoint.x) > 30));
+    const isTrunkSideBent = modifiers.resolve('trunkSideBent', body3D ? body3D.trunkSideBend > POSTURE_MODIFIER_THRESHOLDS.sideBend : false);
+    // Arm support cannot be seen in keypoints, only an assessor sets it
+    const isArmSupported = modifiers.resolve('armSupported', false);
+
+    const groupA = {
+      neck: getNeckScore(neckAngle, isNeckTwisted),
+      trunk: getTrunkScore(trunkAngle, isTrunkTwisted, isTrunkSideBent),
+      legs: getLegsScore(isBilateral, kneeAngle)
+    };
+
+    // Group B (upper arm, lower arm, wrist) and the rest of the worksheet for each visible arm
+    const scoreSide = (side: BodySide) => {
+      const indices = ARM_KEYPOINTS[side];
+      const shoulder = keypoints[indices.shoulder];
+      const elbow = keypoints[indices.elbow];
+      const wrist = keypoints[indices.wrist];
+
+      // Upper arm angle from vertical
+      const upperArmAngle = body3D ? body3D.upperArm[side] : view.angle('upperArmFlexion', calculateVerticalAngle(shoulder, elbow));
+
+      // Lower arm flexion - deviation of the forearm from the upper arm line
+      const lowerArmAngle = body3D ? body3D.elbowFlexion[side] : view.angle('elbowFlexion', 180 - calculateAngle(shoulder, elbow, wrist), 80);
+
+      // Wrist flexion approximated from forearm orientation
+      const wristAngle = view.angle('wristFlexion', calculateVerticalAngle(elbow, wrist) - 90);
+
+      // Enhanced scoring with posture modifiers
+      const detected = {
+        shoulderRaised: shoulder.y < nose.y * 0.9, // Simplified check
+        wristTwisted: Math.abs(wristAngle) > 30
+      };
+      const isShoulderRaised = modifiers.apply('shoulderRaised', detected.shoulderRaised);
+      const isWristTwisted = modifiers.apply('wristTwisted', detected.wristTwisted);
+      const isArmAbducted = body3D
+        ? body3D.shoulderAbduction[side] > POSTURE_MODIFIER_THRESHOLDS.abduction
+        : view.modifier('shoulderAbduction', Math.abs(shoulder.x - elbow.x) > Math.abs(shoulder.y - elbow.y));
+
+      const worksheet = scoreRebaWorksheet({
+        upperArm: getUpperArmScore(upperArmAngle, isShoulderRaised, isArmAbducted, isArmSupported),
+        lowerArm: getLowerArmScore(lowerArmAngle),
+        wrist: getWristScore(wristAngle, isWristTwisted),
+        ...groupA
+      }, options);
+
+      const sideScore: RebaSideScore = {
+        upperArm: worksheet.upperArm,
+        lowerArm: worksheet.lowerArm,
+        wrist: worksheet.wrist,
+        scoreB: worksheet.scoreB,
+        scoreC: worksheet.scoreC,
+        finalScore: worksheet.finalScore,
+        upperArmAngle: roundAngle(upperArmAngle),
+        lowerArmAngle: roundAngle(lowerArmAngle),
+        wristAngle: roundAngle(wristAngle),
+        ...(body3D && { shoulderAbductionAngle: roundAngle(body3D.shoulderAbduction[side]) }),
+        confidence: getArmConfidence(keypoints, side)
+      };
+      return { worksheet, sideScore, detected };
+    };
+
+    const measured = getMeasurableSides(keypoints).map(side => ({ side, ...scoreSide(side) }));
+    const sides: Partial<Record<BodySide, RebaSideScore>> = Object.fromEntries(
+      measured.map(({ side, sideScore }) => [side, sideScore])
+    );
+    const side = pickWorseSide(sides);
+    const { worksheet, sideScore, detected } = measured.find(entry => entry.side === side)!;
+    const arm = ARM_KEYPOINTS[side];
+    modifiers.record('shoulderRaised', detected.shoulderRaised);
+    modifiers.record('wristTwisted', detected.wristTwisted);
+
+    return {
+      ...worksheet,
+      side,
+      sides,
+      legSupport: isBilateral ? 'bilateral' : 'unilateral',
+      // Individual body part angles for debugging, arm angles from the scored side
+      upperArmAngle: sideScore.upperArmAngle,
+      lowerArmAngle: sideScore.lowerArmAngle,
+      wristAngle: sideScore.wristAngle,
+      neckAngle: roundAngle(neckAngle),
+      trunkAngle: roundAngle(trunkAngle),
+      kneeAngle: roundAngle(kneeAngle),
+      angleSource: body3D ? '3d' : '2d',
+      ...(!body3D && options.view && { viewpoint: options.view.viewpoint, suppressedAngles: view.suppressed() }),
+      detectedModifiers: modifiers.detected(),
+      ...(body3D && {
+        trunkTwistAngle: roundAngle(body3D.trunkTwist),
+        trunkSideBendAngle: roundAngle(body3D.trunkSideBend),
+        shoulderAbductionAngle: sideScore.shoulderAbductionAngle
+      }),
+      sources: {
+        upperArm: { keypoints: [arm.shoulder, arm.elbow], angle: sideScore.upperArmAngle },
+        lowerArm: { keypoints: [arm.shoulder, arm.elbow, arm.wrist], angle: sideScore.lowerArmAngle },
+        wrist: { keypoints: [arm.elbow, arm.wrist], angle: sideScore.wristAngle },
+        neck: { keypoints: [0, 5, 6], angle: roundAngle(neckAngle) },
+        trunk: { keypoints: [5, 6, 11, 12], angle: roundAngle(trunkAngle) },
+        legs: { keypoints: [11, 12, 13, 14, 15, 16], angle: roundAngle(kneeAngle) }
+      }
+    };
+
+  } catch (error) {
+    console.error("Error calculating REBA score:", error);
+    return null;
+  }
+}
+
+export const rebaMethod: AssessmentMethod<RebaOptions, RebaScore> = {
+  id: 'REBA',
+  name: 'Rapid Entire Body Assessment',
+  maxScore: 15,
+  riskBands: REBA_RISK_BANDS,
+  segments: [
+    { key: 'upperArm', label: 'Upper Arm', max: 6 },
+    { key: 'lowerArm', label: 'Lower Arm', max: 2 },
+    { key: 'wrist', label: 'Wrist', max: 3 },
+    { key: 'neck', label: 'Neck', max: 3 },
+    { key: 'trunk', label: 'Trunk', max: 5 },
+    { key: 'legs', label: 'Legs', max: 4 }
+  ],
+  modifiers: ['shoulderRaised', 'armSupported', 'neckTwisted', 'trunkTwisted', 'trunkSideBent', 'wristTwisted', 'legsUnsupported'],
+  calculate: calculateRebaScore
+};
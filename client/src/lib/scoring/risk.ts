@@ -0,0 +1,21 @@
+import type { RiskBand, RiskBandDefinition } from "./types";
+
+export interface RiskBandStyle {
+  color: string;     // Hex colour used on canvases, PDFs and the 3D view
+  bgClass: string;   // Tailwind background class
+  textClass: string; // Tailwind text class
+  shortLabel: string;
+}
+
+export const RISK_BAND_STYLES: Record<RiskBand, RiskBandStyle> = {
+  'acceptable': { color: '#00FF00', bgClass: 'bg-reba-safe', textClass: 'text-green-400', shortLabel: 'Low' },
+  'investigate': { color: '#FFFF00', bgClass: 'bg-reba-investigate', textClass: 'text-yellow-400', shortLabel: 'Medium' },
+  'change-soon': { color: '#FF8000', bgClass: 'bg-reba-change-soon', textClass: 'text-orange-400', shortLabel: 'High' },
+  'change-now': { color: '#FF0000', bgClass: 'bg-reba-change-asap', textClass: 'text-red-400', shortLabel: 'Critical' }
+};
+
+export const RISK_BAND_ORDER: RiskBand[] = ['acceptable', 'investigate', 'change-soon', 'change-now'];
+
+export function findRiskBand(bands: RiskBandDefinition[], finalScore: number): RiskBandDefinition {
+  return bands.find(band => finalScore <= band.maxScore) ?? bands[bands.length - 1];
+}
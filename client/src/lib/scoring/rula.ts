@@ -0,0 +1,345 @@
+// RULA (Rapid Upper Limb Assessment) following the worksheet steps:
+// Table A posture score + muscle use + force/load = Score C,
+// Table B posture score + muscle use + force/load = Score D, then Table C.
+import {
+  POSTURE_MODIFIER_THRESHOLDS,
+  calculateAngle,
+  calculateBodyAngles3D,
+  calculateVerticalAngle,
+  isBilateralSupport,
+  midpoint,
+  type Keypoint,
+  type Keypoint3D
+} from "./geometry";
+import { findRiskBand } from "./risk";
+import { lookupRulaTableA, lookupRulaTableB, lookupRulaTableC } from "./tables";
+import { ARM_KEYPOINTS, getArmConfidence, getMeasurableSides, pickWorseSide } from "./sides";
+import { createViewAdjuster } from "./viewpoint";
+import { createModifierResolver } from "./adjustments";
+import type { AdjustmentOptions, AssessmentMethod, AssessmentScore, BodySide, RiskBandDefinition, ViewpointOptions } from "./types";
+
+export type RulaLoadPattern = 'intermittent' | 'static' | 'repeated' | 'shock';
+
+export interface RulaOptions extends ViewpointOptions, AdjustmentOptions {
+  muscleUse?: boolean;          // Posture mainly static (held >1 min) or repeated >4x per minute
+  loadKg?: number;              // Load or force handled, in kg
+  loadPattern?: RulaLoadPattern;
+  legsSupported?: boolean;      // Legs and feet supported and balanced; detected from ankles when omitted
+}
+
+export type RulaSegment = 'upperArm' | 'lowerArm' | 'wrist' | 'wristTwist' | 'neck' | 'trunk' | 'legs';
+
+// Body part scores as entered on the paper worksheet, modifiers included
+export type RulaSegmentScores = Record<RulaSegment, number>;
+
+export interface RulaWorksheetScore extends AssessmentScore, RulaSegmentScores {
+  method: 'RULA';
+  muscleUse: number;
+  forceLoad: number;
+  scoreA: number; // Table A posture score
+  scoreB: number; // Table B posture score
+  scoreC: number; // Wrist and arm score (A + muscle use + force/load)
+  scoreD: number; // Neck, trunk and leg score (B + muscle use + force/load)
+  options: RulaOptions;
+}
+
+// Arm and wrist scores and the resulting worksheet scores for one arm
+export interface RulaSideScore {
+  upperArm: number;
+  lowerArm: number;
+  wrist: number;
+  wristTwist: number;
+  scoreA: number;
+  scoreC: number;
+  finalScore: number;
+  upperArmAngle: number;
+  lowerArmAngle: number;
+  wristAngle: number;
+  shoulderAbductionAngle?: number;
+  confidence: number; // mean arm keypoint confidence, 0-1
+}
+
+export interface RulaScore extends RulaWorksheetScore {
+  side: BodySide; // arm the worksheet scores come from, the worse of the measured sides
+  sides: Partial<Record<BodySide, RulaSideScore>>;
+  // Individual body part angles for debugging
+  upperArmAngle: number;
+  lowerArmAngle: number;
+  wristAngle: number;
+  neckAngle: number;
+  trunkAngle: number;
+  // Only measurable from world landmarks, set when angleSource is '3d'
+  trunkTwistAngle?: number;
+  trunkSideBendAngle?: number;
+  shoulderAbductionAngle?: number;
+}
+
+export const RULA_RISK_BANDS: RiskBandDefinition[] = [
+  { maxScore: 2, band: 'acceptable', label: 'Acceptable Posture' },
+  { maxScore: 4, band: 'investigate', label: 'Investigate Further' },
+  { maxScore: 6, band: 'change-soon', label: 'Investigate Further & Change Soon' },
+  { maxScore: 7, band: 'change-now', label: 'Investigate & Change Immediately' }
+];
+
+// RULA Upper Arm Score (shoulder to elbow angle from vertical)
+function getUpperArmScore(angle: number, isAbducted: boolean = false, isRaised: boolean = false, isSupported: boolean = false): number {
+  let score = 4;                   // Extreme flexion (>90°)
+  if (angle <= 20) score = 1;      // Neutral position (20° extension to 20° flexion)
+  else if (angle <= 45) score = 2; // Moderate flexion (20° to 45°)
+  else if (angle <= 90) score = 3; // High flexion (45° to 90°)
+
+  // Add 1 if upper arm is abducted or the shoulder is raised, subtract 1 if the arm is supported
+  if (isAbducted) score += 1;
+  if (isRaised) score += 1;
+  if (isSupported) score -= 1;
+
+  return Math.max(1, Math.min(score, 6));
+}
+
+// RULA Lower Arm Score (forearm flexion from the upper arm line)
+function getLowerArmScore(flexionAngle: number, crossesMidline: boolean = false): number {
+  // Optimal range is 60-100 degrees of flexion
+  let score = flexionAngle >= 60 && flexionAngle <= 100 ? 1 : 2;
+
+  // Add 1 if working across the midline of the body
+  if (crossesMidline) score += 1;
+
+  return Math.min(score, 3);
+}
+
+// RULA Wrist Score (wrist deviation from neutral)
+function getWristScore(deviationAngle: number): number {
+  if (deviationAngle <= 5) return 1;     // Neutral position
+  if (deviationAngle <= 15) return 2;    // 0-15° flexion or extension
+  return 3;                              // More than 15° flexion or extension
+}
+
+// RULA Neck Score (neck flexion), +1 each for twisting and side bending
+function getNeckScore(flexionAngle: number, isTwisted: boolean = false, isSideBent: boolean = false): number {
+  let score = 3;                             // More than 20° flexion
+  if (flexionAngle <= 10) score = 1;         // 0-10° flexion
+  else if (flexionAngle <= 20) score = 2;    // 10-20° flexion
+  return score + (isTwisted ? 1 : 0) + (isSideBent ? 1 : 0);
+}
+
+// RULA Trunk Score (trunk flexion), +1 each for twisting and side bending
+function getTrunkScore(flexionAngle: number, isTwisted: boolean = false, isSideBent: boolean = false): number {
+  let score = 4;                             // More than 60° flexion
+  if (flexionAngle <= 5) score = 1;          // Upright, well supported
+  else if (flexionAngle <= 20) score = 2;    // 0-20° flexion
+  else if (flexionAngle <= 60) score = 3;    // 20-60° flexion
+  return score + (isTwisted ? 1 : 0) + (isSideBent ? 1 : 0);
+}
+
+// RULA Force/Load Score
+function getForceLoadScore(loadKg: number, pattern: RulaLoadPattern): number {
+  if (pattern === 'shock') return 3;                 // Shock or forces with rapid build-up
+  const sustained = pattern === 'static' || pattern === 'repeated';
+  if (loadKg > 10) return sustained ? 3 : 2;
+  if (loadKg >= 2) return sustained ? 2 : 1;
+  return 0;                                          // Less than 2 kg intermittent
+}
+
+function getStressLevel(finalScore: number): number {
+  return Math.min(Math.max(finalScore, 1), 7);
+}
+
+// Runs the worksheet from body part scores, as done by hand on the paper form
+export function scoreRulaWorksheet(segments: RulaSegmentScores, options: RulaOptions = {}): RulaWorksheetScore {
+  // Muscle use and force/load apply to both the arm/wrist and neck/trunk/leg groups
+  const muscleUse = options.muscleUse ? 1 : 0;
+  const forceLoad = getForceLoadScore(Math.max(options.loadKg ?? 0, 0), options.loadPattern ?? 'intermittent');
+
+  const scoreA = lookupRulaTableA(segments.upperArm, segments.lowerArm, segments.wrist, segments.wristTwist);
+  const scoreB = lookupRulaTableB(segments.neck, segments.trunk, segments.legs);
+  const scoreC = scoreA + muscleUse + forceLoad;
+  const scoreD = scoreB + muscleUse + forceLoad;
+  const finalScore = lookupRulaTableC(scoreC, scoreD);
+  const band = findRiskBand(RULA_RISK_BANDS, finalScore);
+
+  return {
+    method: 'RULA',
+    ...segments,
+    muscleUse,
+    forceLoad,
+    scoreA,
+    scoreB,
+    scoreC,
+    scoreD,
+    finalScore,
+    riskLevel: band.label,
+    riskBand: band.band,
+    stressLevel: getStressLevel(finalScore),
+    options
+  };
+}
+
+// Each visible arm is scored on its own and the worse side sets the final score.
+// world, when given, supplies 3D trunk, neck and arm angles and the twist, side bend and
+// abduction modifiers the 2D keypoints cannot show
+export function calculateRulaScore(keypoints: Keypoint[], options: RulaOptions = {}, world?: Keypoint3D[]): RulaScore | null {
+  if (!keypoints || keypoints.length < 17) {
+    console.log('RULA: Insufficient keypoints detected:', keypoints?.length || 0);
+    return null;
+  }
+
+  try {
+    // COCO pose keypoint indices
+    const nose = keypoints[0];
+    const leftShoulder = keypoints[5];
+    const rightShoulder = keypoints[6];
+    const leftElbow = keypoints[7];
+    const rightElbow = keypoints[8];
+    const leftWrist = keypoints[9];
+    const rightWrist = keypoints[10];
+    const leftHip = keypoints[11];
+    const rightHip = keypoints[12];
+
+    // Check keypoint confidence
+    const minConfidence = 0.3;
+    const requiredKeypoints = [nose, leftShoulder, rightShoulder, leftElbow, rightElbow, leftWrist, rightWrist, leftHip, rightHip];
+    const lowConfidenceCount = requiredKeypoints.filter(kp => kp.score < minConfidence).length;
+
+    if (lowConfidenceCount > 3) {
+      console.log('RULA: Too many low confidence keypoints, skipping calculation');
+      return null;
+    }
+
+    // Calculate midpoints for reference
+    const shoulderMidpoint = midpoint(leftShoulder, rightShoulder);
+    const hipMidpoint = midpoint(leftHip, rightHip);
+
+    const body3D = calculateBodyAngles3D(world, minConfidence);
+    // World landmarks are measured in 3D, so only image-space angles depend on the camera view
+    const view = createViewAdjuster(body3D ? undefined : options.view);
+    const modifiers = createModifierResolver(options.adjustments);
+
+    // Neck, trunk and legs are shared by both sides
+    const neckAngle = body3D ? body3D.neckFlexion : view.angle('neckFlexion', calculateVerticalAngle(shoulderMidpoint, nose));
+    const trunkAngle = body3D ? body3D.trunkFlexion : view.angle('trunkFlexion', calculateVerticalAngle(hipMidpoint, shoulderMidpoint));
+
+    // Posture modifiers; twisting and side bending are only scored from 3D
+    const isNeckTwisted = modifiers.resolve('neckTwisted', !!body3D && body3D.neckTwist > POSTURE_MODIFIER_THRESHOLDS.twist);
+    const isTrunkTwisted = modifiers.resolve('trunkTwisted', !!body3D && body3D.trunkTwist > POSTURE_MODIFIER_THRESHOLDS.twist);
+    const isTrunkSideBent = modifiers.resolve('trunkSideBent', !!body3D && body3D.trunkSideBend > POSTURE_MODIFIER_THRESHOLDS.sideBend);
+    // Legs are unsupported when the body weight is carried on one foot
+    const legsSupported = !modifiers.resolve('legsUnsupported', !(options.legsSupported ?? isBilateralSupport(keypoints, minConfidence)));
+    // Raised shoulders, arm support and wrist twist are not measured from keypoints, only an assessor sets them
+    const isShoulderRaised = modifiers.resolve('shoulderRaised', false);
+    const isArmSupported = modifiers.resolve('armSupported', false);
+    const isWristTwisted = modifiers.resolve('wristTwisted', false);
+
+    const neckTrunkLegs = {
+      neck: getNeckScore(neckAngle, isNeckTwisted),
+      trunk: getTrunkScore(trunkAngle, isTrunkTwisted, isTrunkSideBent),
+      legs: legsSupported ? 1 : 2
+    };
+
+    // Arm and wrist group, and the rest of the worksheet, for each visible arm
+    const scoreSide = (side: BodySide) => {
+      const indices = ARM_KEYPOINTS[side];
+      const shoulder = keypoints[indices.shoulder];
+      const elbow = keypoints[indices.elbow];
+      const wrist = keypoints[indices.wrist];
+
+      // Calculate angles with better precision for RULA
+      const upperArmAngle = body3D ? body3D.upperArm[side] : view.angle('upperArmFlexion', calculateVerticalAngle(shoulder, elbow));
+      const lowerArmAngle = body3D ? body3D.elbowFlexion[side] : view.angle('elbowFlexion', 180 - calculateAngle(shoulder, elbow, wrist), 80);
+      const wristAngle = view.angle('wristFlexion', calculateVerticalAngle(elbow, wrist));
+
+      const isArmAbducted = body3D
+        ? body3D.shoulderAbduction[side] > POSTURE_MODIFIER_THRESHOLDS.abduction
+        : view.modifier('shoulderAbduction', Math.abs(shoulder.x - elbow.x) > Math.abs(shoulder.y - elbow.y));
+      // A wrist crosses the body midline when it moves past the shoulder midpoint towards the
+      // other side; the worker's right side appears at lower x in the unmirrored image
+      const crossesMidline = view.modifier('midlineCrossing', wrist.score > minConfidence &&
+        (side === 'right' ? wrist.x > shoulderMidpoint.x : wrist.x < shoulderMidpoint.x));
+
+      const worksheet = scoreRulaWorksheet({
+        upperArm: getUpperArmScore(upperArmAngle, isArmAbducted, isShoulderRaised, isArmSupported),
+        lowerArm: getLowerArmScore(lowerArmAngle, crossesMidline),
+        wrist: getWristScore(wristAngle),
+        wristTwist: isWristTwisted ? 2 : 1, // Not observable from body keypoints; mid-range unless an assessor saw it at the end of range
+        ...neckTrunkLegs
+      }, options);
+
+      const sideScore: RulaSideScore = {
+        upperArm: worksheet.upperArm,
+        lowerArm: worksheet.lowerArm,
+        wrist: worksheet.wrist,
+        wristTwist: worksheet.wristTwist,
+        scoreA: worksheet.scoreA,
+        scoreC: worksheet.scoreC,
+        finalScore: worksheet.finalScore,
+        upperArmAngle,
+        lowerArmAngle,
+        wristAngle,
+        ...(body3D && { shoulderAbductionAngle: body3D.shoulderAbduction[side] }),
+        confidence: getArmConfidence(keypoints, side)
+      };
+      return { worksheet, sideScore };
+    };
+
+    const measured = getMeasurableSides(keypoints, minConfidence).map(side => ({ side, ...scoreSide(side) }));
+    const sides: Partial<Record<BodySide, RulaSideScore>> = Object.fromEntries(
+      measured.map(({ side, sideScore }) => [side, sideScore])
+    );
+    const side = pickWorseSide(sides);
+    const { worksheet, sideScore } = measured.find(entry => entry.side === side)!;
+
+    console.log('RULA Angles:', {
+      side,
+      upperArm: sideScore.upperArmAngle.toFixed(1) + '°',
+      lowerArm: sideScore.lowerArmAngle.toFixed(1) + '°',
+      wrist: sideScore.wristAngle.toFixed(1) + '°',
+      neck: neckAngle.toFixed(1) + '°',
+      trunk: trunkAngle.toFixed(1) + '°'
+    });
+
+    console.log('RULA Scores:', {
+      scoreC: worksheet.scoreC,
+      scoreD: worksheet.scoreD,
+      final: worksheet.finalScore,
+      risk: worksheet.riskLevel
+    });
+
+    return {
+      ...worksheet,
+      side,
+      sides,
+      upperArmAngle: sideScore.upperArmAngle,
+      lowerArmAngle: sideScore.lowerArmAngle,
+      wristAngle: sideScore.wristAngle,
+      neckAngle,
+      trunkAngle,
+      angleSource: body3D ? '3d' : '2d',
+      ...(!body3D && options.view && { viewpoint: options.view.viewpoint, suppressedAngles: view.suppressed() }),
+      detectedModifiers: modifiers.detected(),
+      ...(body3D && {
+        trunkTwistAngle: body3D.trunkTwist,
+        trunkSideBendAngle: body3D.trunkSideBend,
+        shoulderAbductionAngle: sideScore.shoulderAbductionAngle
+      })
+    };
+  } catch (error) {
+    console.error('Error calculating RULA score:', error);
+    return null;
+  }
+}
+
+export const rulaMethod: AssessmentMethod<RulaOptions, RulaScore> = {
+  id: 'RULA',
+  name: 'Rapid Upper Limb Assessment',
+  maxScore: 7,
+  riskBands: RULA_RISK_BANDS,
+  segments: [
+    { key: 'upperArm', label: 'Upper Arm', max: 6 },
+    { key: 'lowerArm', label: 'Lower Arm', max: 3 },
+    { key: 'wrist', label: 'Wrist', max: 4 },
+    { key: 'neck', label: 'Neck', max: 6 },
+    { key: 'trunk', label: 'Trunk', max: 6 },
+    { key: 'legs', label: 'Legs', max: 2 }
+  ],
+  modifiers: ['shoulderRaised', 'armSupported', 'neckTwisted', 'trunkTwisted', 'trunkSideBent', 'wristTwisted', 'legsUnsupported'],
+  calculate: calculateRulaScore
+};
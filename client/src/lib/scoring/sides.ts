@@ -0,0 +1,39 @@
+// Left and right arms are scored independently; the worksheet result follows the worse side
+import type { Keypoint } from "./geometry";
+import type { BodySide } from "./types";
+
+export const BODY_SIDES: BodySide[] = ['left', 'right'];
+
+export const BODY_SIDE_LABELS: Record<BodySide, string> = {
+  left: 'Left',
+  right: 'Right'
+};
+
+// COCO keypoint indices of each arm
+export const ARM_KEYPOINTS: Record<BodySide, { shoulder: number; elbow: number; wrist: number }> = {
+  left: { shoulder: 5, elbow: 7, wrist: 9 },
+  right: { shoulder: 6, elbow: 8, wrist: 10 }
+};
+
+export function getArmConfidence(keypoints: Keypoint[], side: BodySide): number {
+  const { shoulder, elbow, wrist } = ARM_KEYPOINTS[side];
+  return (keypoints[shoulder].score + keypoints[elbow].score + keypoints[wrist].score) / 3;
+}
+
+// Arms visible enough to score. When neither is, the more confident one is still
+// scored so a partly occluded worker keeps a result
+export function getMeasurableSides(keypoints: Keypoint[], minConfidence: number = 0.3): BodySide[] {
+  const measurable = BODY_SIDES.filter(side => getArmConfidence(keypoints, side) > minConfidence);
+  if (measurable.length > 0) return measurable;
+  return [getArmConfidence(keypoints, 'left') > getArmConfidence(keypoints, 'right') ? 'left' : 'right'];
+}
+
+// Side with the higher final score; ties go to the side measured more confidently
+export function pickWorseSide<T extends { finalScore: number; confidence: number }>(
+  sides: Partial<Record<BodySide, T>>
+): BodySide {
+  const [worst] = BODY_SIDES
+    .filter(side => sides[side])
+    .sort((a, b) => sides[b]!.finalScore - sides[a]!.finalScore || sides[b]!.confidence - sides[a]!.confidence);
+  return worst;
+}
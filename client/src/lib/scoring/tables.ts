@@ -0,0 +1,98 @@
+// Official REBA and RULA lookup tables (Hignett & McAtamney 2000, McAtamney & Corlett 1993).
+// Every lookup clamps its inputs to the table range, so modifiers that push a
+// body part score past the worksheet maximum read the last row or column.
+
+function clampIndex(score: number, size: number): number {
+  return Math.min(Math.max(score - 1, 0), size - 1);
+}
+
+// REBA Table A - [trunk-1][neck-1][legs-1]
+export const REBA_TABLE_A = [
+  [[1, 2, 3, 4], [1, 2, 3, 4], [3, 3, 5, 6]], // Trunk 1
+  [[2, 3, 4, 5], [3, 4, 5, 6], [4, 5, 6, 7]], // Trunk 2
+  [[2, 4, 5, 6], [4, 5, 6, 7], [5, 6, 7, 8]], // Trunk 3
+  [[3, 5, 6, 7], [5, 6, 7, 8], [6, 7, 8, 9]], // Trunk 4
+  [[4, 6, 7, 8], [6, 7, 8, 9], [7, 8, 9, 9]]  // Trunk 5
+];
+
+// REBA Table B - [upperArm-1][lowerArm-1][wrist-1]
+export const REBA_TABLE_B = [
+  [[1, 2, 2], [1, 2, 3]], // Upper Arm 1
+  [[1, 2, 3], [2, 3, 4]], // Upper Arm 2
+  [[3, 4, 5], [4, 5, 5]], // Upper Arm 3
+  [[4, 5, 5], [5, 6, 7]], // Upper Arm 4
+  [[6, 7, 8], [7, 8, 8]], // Upper Arm 5
+  [[7, 8, 8], [8, 9, 9]]  // Upper Arm 6
+];
+
+// REBA Table C - [scoreA-1][scoreB-1]
+export const REBA_TABLE_C = [
+  [1, 1, 1, 2, 3, 3, 4, 5, 6, 7, 7, 7],             // Score A 1
+  [1, 2, 2, 3, 4, 4, 5, 6, 6, 7, 7, 8],             // Score A 2
+  [2, 3, 3, 3, 4, 5, 6, 7, 7, 8, 8, 8],             // Score A 3
+  [3, 4, 4, 4, 5, 6, 7, 8, 8, 9, 9, 9],             // Score A 4
+  [4, 4, 4, 5, 6, 7, 8, 8, 9, 9, 9, 9],             // Score A 5
+  [6, 6, 6, 7, 8, 8, 9, 9, 10, 10, 10, 10],         // Score A 6
+  [7, 7, 7, 8, 9, 9, 9, 10, 10, 11, 11, 11],        // Score A 7
+  [8, 8, 8, 9, 10, 10, 10, 10, 10, 11, 11, 11],     // Score A 8
+  [9, 9, 9, 10, 10, 10, 11, 11, 11, 12, 12, 12],    // Score A 9
+  [10, 10, 10, 11, 11, 11, 11, 12, 12, 12, 12, 12], // Score A 10
+  [11, 11, 11, 11, 12, 12, 12, 12, 12, 12, 12, 12], // Score A 11
+  [12, 12, 12, 12, 12, 12, 12, 12, 12, 12, 12, 12]  // Score A 12
+];
+
+// RULA Table A - [upperArm-1][lowerArm-1][wrist-1][wristTwist-1]
+export const RULA_TABLE_A = [
+  [[[1,2],[2,2],[2,3],[3,3]], [[2,2],[2,2],[3,3],[3,3]], [[2,3],[2,3],[3,3],[4,4]]], // Upper Arm 1
+  [[[2,3],[3,3],[3,3],[4,4]], [[3,3],[3,3],[3,4],[4,4]], [[3,4],[4,4],[4,4],[5,5]]], // Upper Arm 2
+  [[[3,3],[4,4],[4,4],[5,5]], [[3,4],[4,4],[4,4],[5,5]], [[4,4],[4,4],[4,5],[5,5]]], // Upper Arm 3
+  [[[4,4],[4,4],[4,5],[5,5]], [[4,4],[4,4],[4,5],[5,5]], [[4,4],[4,5],[5,5],[6,6]]], // Upper Arm 4
+  [[[5,5],[5,5],[5,6],[6,7]], [[5,6],[6,6],[6,7],[7,7]], [[6,6],[6,7],[7,7],[7,8]]], // Upper Arm 5
+  [[[7,7],[7,7],[7,8],[8,9]], [[8,8],[8,8],[8,9],[9,9]], [[9,9],[9,9],[9,9],[9,9]]]  // Upper Arm 6
+];
+
+// RULA Table B - [neck-1][trunk-1][legs-1]
+export const RULA_TABLE_B = [
+  [[1,3],[2,3],[3,4],[5,5],[6,6],[7,7]], // Neck 1
+  [[2,3],[2,3],[4,5],[5,5],[6,7],[7,7]], // Neck 2
+  [[3,3],[3,4],[4,5],[5,6],[6,7],[7,7]], // Neck 3
+  [[5,5],[5,6],[6,7],[7,7],[7,7],[8,8]], // Neck 4
+  [[7,7],[7,7],[7,8],[8,8],[8,8],[8,8]], // Neck 5
+  [[8,8],[8,8],[8,8],[8,9],[9,9],[9,9]]  // Neck 6
+];
+
+// RULA Table C - [scoreC-1][scoreD-1], Score C 8+ and Score D 7+ share the last row/column
+export const RULA_TABLE_C = [
+  [1,2,3,3,4,5,5], // Score C 1
+  [2,2,3,4,4,5,5], // Score C 2
+  [3,3,3,4,4,5,6], // Score C 3
+  [3,3,3,4,5,6,6], // Score C 4
+  [4,4,4,5,6,7,7], // Score C 5
+  [4,4,5,6,6,7,7], // Score C 6
+  [5,5,6,6,7,7,7], // Score C 7
+  [5,5,6,7,7,7,7]  // Score C 8+
+];
+
+export function lookupRebaTableA(trunk: number, neck: number, legs: number): number {
+  return REBA_TABLE_A[clampIndex(trunk, 5)][clampIndex(neck, 3)][clampIndex(legs, 4)];
+}
+
+export function lookupRebaTableB(upperArm: number, lowerArm: number, wrist: number): number {
+  return REBA_TABLE_B[clampIndex(upperArm, 6)][clampIndex(lowerArm, 2)][clampIndex(wrist, 3)];
+}
+
+export function lookupRebaTableC(scoreA: number, scoreB: number): number {
+  return REBA_TABLE_C[clampIndex(scoreA, 12)][clampIndex(scoreB, 12)];
+}
+
+export function lookupRulaTableA(upperArm: number, lowerArm: number, wrist: number, wristTwist: number): number {
+  return RULA_TABLE_A[clampIndex(upperArm, 6)][clampIndex(lowerArm, 3)][clampIndex(wrist, 4)][clampIndex(wristTwist, 2)];
+}
+
+export function lookupRulaTableB(neck: number, trunk: number, legs: number): number {
+  return RULA_TABLE_B[clampIndex(neck, 6)][clampIndex(trunk, 6)][clampIndex(legs, 2)];
+}
+
+export function lookupRulaTableC(scoreC: number, scoreD: number): number {
+  return RULA_TABLE_C[clampIndex(scoreC, 8)][clampIndex(scoreD, 7)];
+}
@@ -0,0 +1,69 @@
+import type { Keypoint, Keypoint3D } from "./geometry";
+import type { CameraViewpoint, MeasuredAngle, ViewContext } from "./viewpoint";
+
+export type AssessmentMode = 'RULA' | 'REBA' | 'OWAS';
+
+// Shared four-step action scale every method maps its own action levels onto
+export type RiskBand = 'acceptable' | 'investigate' | 'change-soon' | 'change-now';
+
+export interface RiskBandDefinition {
+  maxScore: number; // Highest final score that falls in this band
+  band: RiskBand;
+  label: string;
+}
+
+// Fields every method's score carries, so charts, reports and colours can stay method agnostic
+export interface AssessmentScore {
+  method: AssessmentMode;
+  finalScore: number;
+  riskLevel: string;
+  riskBand: RiskBand;
+  stressLevel: number; // 1-7 scale (1: minimal stress, 7: high stress)
+  angleSource?: '2d' | '3d'; // whether joint angles came from image keypoints or world landmarks
+  viewpoint?: CameraViewpoint;        // camera view the 2D angles were adjusted for
+  suppressedAngles?: MeasuredAngle[]; // measurements that view cannot see, scored as neutral
+  detectedModifiers?: PostureAdjustments; // posture modifiers as detected, before any assessor adjustment
+  options?: ViewpointOptions & AdjustmentOptions; // worksheet options the score was calculated with
+}
+
+// Options every method accepts next to its own worksheet options
+export interface ViewpointOptions {
+  view?: ViewContext; // camera view of the worker, used to correct or suppress 2D angles
+}
+
+// Worksheet modifiers an assessor can judge better than the keypoints
+export type PostureModifier =
+  | 'shoulderRaised'
+  | 'armSupported'
+  | 'neckTwisted'
+  | 'trunkTwisted'
+  | 'trunkSideBent'
+  | 'wristTwisted'
+  | 'legsUnsupported';
+
+// Modifiers set by hand; any left out are detected from the keypoints
+export type PostureAdjustments = Partial<Record<PostureModifier, boolean>>;
+
+export interface AdjustmentOptions {
+  adjustments?: PostureAdjustments;
+}
+
+// Body part score shown on score tiles, keyed by the field on the method's score
+export interface AssessmentSegment {
+  key: string;
+  label: string;
+  max: number;
+}
+
+export interface AssessmentMethod<TOptions extends ViewpointOptions & AdjustmentOptions = ViewpointOptions & AdjustmentOptions, TScore extends AssessmentScore = AssessmentScore> {
+  id: AssessmentMode;
+  name: string;
+  maxScore: number;
+  riskBands: RiskBandDefinition[];
+  segments: AssessmentSegment[];
+  modifiers: PostureModifier[]; // modifiers the worksheet uses, in worksheet order
+  // world holds 3D keypoints in the same order, when the pose model provides them
+  calculate(keypoints: Keypoint[], options?: TOptions, world?: Keypoint3D[]): TScore | null;
+}
+
+export type BodySide = 'left' | 'right';
@@ -0,0 +1,160 @@
+// Camera viewpoint relative to the worker. 2D angles are projections onto the image plane:
+// a side-on camera sees flexion in the sagittal plane, a front-on camera sees abduction and
+// side bending, and whatever moves towards or away from the camera is foreshortened
+import type { Keypoint, Keypoint3D } from "./geometry";
+
+export type CameraViewpoint = 'sagittal' | 'frontal' | 'oblique';
+
+export interface ViewContext {
+  viewpoint: CameraViewpoint;
+  yaw: number; // degrees the worker is turned from side-on: 0 sagittal, 90 frontal
+}
+
+// Image-space measurements the methods take, grouped by the body plane they lie in
+export type MeasuredAngle =
+  | 'trunkFlexion'
+  | 'neckFlexion'
+  | 'upperArmFlexion'
+  | 'elbowFlexion'
+  | 'wristFlexion'
+  | 'kneeFlexion'
+  | 'trunkSideBend'
+  | 'shoulderAbduction'
+  | 'midlineCrossing'
+  | 'trunkTwist'
+  | 'neckTwist';
+
+export type AngleReliability = 'good' | 'limited' | 'unreliable';
+
+type BodyPlane = 'sagittal' | 'frontal' | 'transverse';
+
+const ANGLE_PLANES: Record<MeasuredAngle, BodyPlane> = {
+  trunkFlexion: 'sagittal',
+  neckFlexion: 'sagittal',
+  upperArmFlexion: 'sagittal',
+  elbowFlexion: 'sagittal',
+  wristFlexion: 'sagittal',
+  kneeFlexion: 'sagittal',
+  trunkSideBend: 'frontal',
+  shoulderAbduction: 'frontal',
+  midlineCrossing: 'frontal',
+  trunkTwist: 'transverse',
+  neckTwist: 'transverse'
+};
+
+export const MEASURED_ANGLE_LABELS: Record<MeasuredAngle, string> = {
+  trunkFlexion: 'Trunk flexion',
+  neckFlexion: 'Neck flexion',
+  upperArmFlexion: 'Upper arm flexion',
+  elbowFlexion: 'Elbow flexion',
+  wristFlexion: 'Wrist flexion',
+  kneeFlexion: 'Knee flexion',
+  trunkSideBend: 'Trunk side bend',
+  shoulderAbduction: 'Shoulder abduction',
+  midlineCrossing: 'Arm across the body',
+  trunkTwist: 'Trunk twist',
+  neckTwist: 'Neck twist'
+};
+
+export const CAMERA_VIEWPOINT_LABELS: Record<CameraViewpoint, string> = {
+  sagittal: 'Side-on',
+  oblique: 'Oblique',
+  frontal: 'Front-on'
+};
+
+// Rotation about the vertical is never seen directly in 2D; a front-on camera at least shows
+// the shoulders narrowing against the hips
+const PLANE_RELIABILITY: Record<CameraViewpoint, Record<BodyPlane, AngleReliability>> = {
+  sagittal: { sagittal: 'good', frontal: 'unreliable', transverse: 'unreliable' },
+  oblique: { sagittal: 'limited', frontal: 'limited', transverse: 'limited' },
+  frontal: { sagittal: 'unreliable', frontal: 'good', transverse: 'limited' }
+};
+
+export function getAngleReliability(viewpoint: CameraViewpoint, angle: MeasuredAngle): AngleReliability {
+  // Elbow and wrist bend in whatever plane the arm is in, so a front-on view still shows some of it
+  if (viewpoint === 'frontal' && (angle === 'elbowFlexion' || angle === 'wristFlexion')) return 'limited';
+  return PLANE_RELIABILITY[viewpoint][ANGLE_PLANES[angle]];
+}
+
+export function classifyViewpoint(yaw: number): CameraViewpoint {
+  if (yaw < 30) return 'sagittal';
+  if (yaw > 60) return 'frontal';
+  return 'oblique';
+}
+
+export function getViewContext(yaw: number): ViewContext {
+  const clamped = Math.max(0, Math.min(90, yaw));
+  return { viewpoint: classifyViewpoint(clamped), yaw: clamped };
+}
+
+// Typical shoulder and hip widths as a fraction of shoulder-to-hip torso length, seen front-on
+const FRONTAL_SHOULDER_RATIO = 0.8;
+const FRONTAL_HIP_RATIO = 0.6;
+
+// How far the worker is turned from side-on. World landmarks give it directly from the
+// shoulder line's depth; in 2D it comes from how wide the shoulders and hips look against
+// the torso length, which only the yaw foreshortens
+export function estimateViewYaw(keypoints: Keypoint[], world?: Keypoint3D[], minConfidence: number = 0.3): number | null {
+  const toDegrees = (radians: number) => radians * (180 / Math.PI);
+
+  if (world && world.length >= 13 && world[5].score > minConfidence && world[6].score > minConfidence) {
+    const dx = Math.abs(world[5].x - world[6].x);
+    const dz = Math.abs(world[5].z - world[6].z);
+    if (dx + dz > 0) return toDegrees(Math.atan2(dx, dz));
+  }
+
+  if (!keypoints || keypoints.length < 13) return null;
+  const [leftShoulder, rightShoulder] = [keypoints[5], keypoints[6]];
+  const [leftHip, rightHip] = [keypoints[11], keypoints[12]];
+  if ([leftShoulder, rightShoulder, leftHip, rightHip].some(kp => kp.score <= minConfidence)) return null;
+
+  const torso = Math.hypot(
+    (leftShoulder.x + rightShoulder.x - leftHip.x - rightHip.x) / 2,
+    (leftShoulder.y + rightShoulder.y - leftHip.y - rightHip.y) / 2
+  );
+  if (torso < 1) return null;
+
+  const shoulderWidth = Math.hypot(leftShoulder.x - rightShoulder.x, leftShoulder.y - rightShoulder.y) / torso;
+  const hipWidth = Math.hypot(leftHip.x - rightHip.x, leftHip.y - rightHip.y) / torso;
+  const widthRatio = (shoulderWidth / FRONTAL_SHOULDER_RATIO + hipWidth / FRONTAL_HIP_RATIO) / 2;
+  return toDegrees(Math.asin(Math.max(0, Math.min(1, widthRatio))));
+}
+
+// Angles measured from the vertical that an oblique view foreshortens by a known factor
+export const CORRECTABLE_ANGLES: MeasuredAngle[] = ['trunkFlexion', 'neckFlexion', 'upperArmFlexion'];
+
+// Applies the camera view to one score's 2D measurements: angles foreshortened by an oblique
+// view are corrected, angles the camera cannot see are replaced with a neutral value and
+// modifiers it cannot see are left off. Without a view every measurement passes through
+export function createViewAdjuster(view: ViewContext | undefined) {
+  const suppressed = new Set<MeasuredAngle>();
+  const toRadians = (degrees: number) => degrees * (Math.PI / 180);
+
+  return {
+    angle(kind: MeasuredAngle, value: number, neutral: number = 0): number {
+      if (!view) return value;
+
+      const reliability = getAngleReliability(view.viewpoint, kind);
+      if (reliability === 'unreliable') {
+        suppressed.add(kind);
+        return neutral;
+      }
+      if (reliability === 'limited' && CORRECTABLE_ANGLES.includes(kind) && value > 0 && value < 90) {
+        // A segment tilted forward by a appears tilted by atan(tan(a) * cos(yaw)) in the image
+        const visible = Math.cos(toRadians(view.yaw));
+        if (visible > 0.1) {
+          return Math.atan(Math.tan(toRadians(value)) / visible) * (180 / Math.PI);
+        }
+      }
+      return value;
+    },
+    modifier(kind: MeasuredAngle, detected: boolean): boolean {
+      if (view && getAngleReliability(view.viewpoint, kind) === 'unreliable') {
+        suppressed.add(kind);
+        return false;
+      }
+      return detected;
+    },
+    suppressed: (): MeasuredAngle[] => Array.from(suppressed)
+  };
+}
@@ -0,0 +1,141 @@
+// Golden tests: worked examples scored by hand on the REBA (Hignett & McAtamney 2000) and
+// RULA (McAtamney & Corlett 1993) employee assessment worksheets. Every intermediate score
+// was read off the published tables, so a change to a table or a worksheet step shows here
+import { describe, expect, it } from "vitest";
+import {
+  lookupRebaTableA,
+  lookupRebaTableB,
+  lookupRebaTableC,
+  lookupRulaTableA,
+  lookupRulaTableB,
+  lookupRulaTableC,
+  scoreRebaWorksheet,
+  scoreRulaWorksheet
+} from "./index";
+
+describe("REBA tables", () => {
+  it("reads Table A by trunk, neck and legs", () => {
+    expect(lookupRebaTableA(1, 1, 1)).toBe(1);
+    expect(lookupRebaTableA(1, 3, 4)).toBe(6);
+    expect(lookupRebaTableA(3, 2, 2)).toBe(5);
+    expect(lookupRebaTableA(5, 3, 4)).toBe(9);
+  });
+
+  it("reads Table B by upper arm, lower arm and wrist", () => {
+    expect(lookupRebaTableB(1, 1, 1)).toBe(1);
+    expect(lookupRebaTableB(3, 2, 2)).toBe(5);
+    expect(lookupRebaTableB(4, 2, 3)).toBe(7);
+    expect(lookupRebaTableB(6, 2, 3)).toBe(9);
+  });
+
+  it("reads Table C by score A and score B", () => {
+    expect(lookupRebaTableC(1, 1)).toBe(1);
+    expect(lookupRebaTableC(6, 6)).toBe(8);
+    expect(lookupRebaTableC(5, 9)).toBe(9);
+    expect(lookupRebaTableC(12, 12)).toBe(12);
+  });
+
+  it("clamps scores past the table edge to the last row or column", () => {
+    expect(lookupRebaTableA(6, 4, 5)).toBe(lookupRebaTableA(5, 3, 4));
+    expect(lookupRebaTableC(14, 13)).toBe(12);
+  });
+});
+
+describe("RULA tables", () => {
+  it("reads Table A by upper arm, lower arm, wrist and wrist twist", () => {
+    expect(lookupRulaTableA(1, 1, 1, 1)).toBe(1);
+    expect(lookupRulaTableA(2, 1, 2, 1)).toBe(3);
+    expect(lookupRulaTableA(3, 2, 3, 1)).toBe(4);
+    expect(lookupRulaTableA(5, 3, 4, 2)).toBe(8);
+    expect(lookupRulaTableA(6, 3, 4, 2)).toBe(9);
+  });
+
+  it("reads Table B by neck, trunk and legs", () => {
+    expect(lookupRulaTableB(1, 1, 1)).toBe(1);
+    expect(lookupRulaTableB(1, 1, 2)).toBe(3);
+    expect(lookupRulaTableB(3, 2, 1)).toBe(3);
+    expect(lookupRulaTableB(4, 4, 2)).toBe(7);
+    expect(lookupRulaTableB(6, 6, 2)).toBe(9);
+  });
+
+  it("reads Table C with score C 8+ and score D 7+ sharing the last row and column", () => {
+    expect(lookupRulaTableC(1, 1)).toBe(1);
+    expect(lookupRulaTableC(6, 5)).toBe(6);
+    expect(lookupRulaTableC(6, 7)).toBe(7);
+    expect(lookupRulaTableC(12, 11)).toBe(7);
+  });
+});
+
+describe("REBA worksheet", () => {
+  it("scores a neutral standing posture as negligible risk", () => {
+    const score = scoreRebaWorksheet({ trunk: 1, neck: 1, legs: 1, upperArm: 1, lowerArm: 1, wrist: 1 });
+    expect(score).toMatchObject({ scoreA: 1, scoreB: 1, scoreC: 1, finalScore: 1, riskBand: 'acceptable' });
+  });
+
+  it("scores a forward-bent reach carrying 6 kg with a fair grip, repeated", () => {
+    // Trunk 20-60° (3), neck >20° (2), weight on one leg (2): Table A 5, load 5-10 kg +1
+    // Upper arm 45-90° (3), lower arm outside 60-100° (2), wrist >15° (2): Table B 5, fair +1
+    const score = scoreRebaWorksheet(
+      { trunk: 3, neck: 2, legs: 2, upperArm: 3, lowerArm: 2, wrist: 2 },
+      { loadKg: 6, coupling: 'fair', activity: { repeatedActions: true } }
+    );
+    expect(score).toMatchObject({ forceLoad: 1, coupling: 1, activity: 1, scoreA: 6, scoreB: 6, scoreC: 8, finalScore: 9 });
+    expect(score.riskLevel).toBe('High Risk - Investigate & Implement Change');
+  });
+
+  it("scores a held overhead lift with a poor grip", () => {
+    // Trunk 0-20° (2), neck >20° (2), one knee bent 30-60° (2): Table A 4, 5 kg +1
+    // Upper arm >90° (4), lower arm 2, wrist >15° and twisted (3): Table B 7, poor +2
+    const score = scoreRebaWorksheet(
+      { trunk: 2, neck: 2, legs: 2, upperArm: 4, lowerArm: 2, wrist: 3 },
+      { loadKg: 5, coupling: 'poor', activity: { staticPosture: true } }
+    );
+    expect(score).toMatchObject({ scoreA: 5, scoreB: 9, scoreC: 9, finalScore: 10 });
+  });
+
+  it("caps every term at the worksheet maximum for the worst case", () => {
+    const score = scoreRebaWorksheet(
+      { trunk: 5, neck: 3, legs: 4, upperArm: 6, lowerArm: 2, wrist: 3 },
+      { loadKg: 12, loadShock: true, coupling: 'unacceptable', activity: { staticPosture: true, repeatedActions: true, rapidChanges: true } }
+    );
+    expect(score).toMatchObject({ forceLoad: 3, scoreA: 12, scoreB: 12, scoreC: 12, finalScore: 15 });
+    expect(score.riskLevel).toBe('Very High Risk - Implement Change Now');
+  });
+});
+
+describe("RULA worksheet", () => {
+  it("scores a neutral seated posture as acceptable", () => {
+    const score = scoreRulaWorksheet({ upperArm: 1, lowerArm: 1, wrist: 1, wristTwist: 1, neck: 1, trunk: 1, legs: 1 });
+    expect(score).toMatchObject({ scoreA: 1, scoreB: 1, scoreC: 1, scoreD: 1, finalScore: 1, riskBand: 'acceptable' });
+  });
+
+  it("scores repeated assembly with a 4 kg part", () => {
+    // Upper arm 45-90° (3), lower arm 2, wrist >15° (3), twist mid-range (1): Table A 4
+    // Neck >20° (3), trunk 0-20° (2), legs supported (1): Table B 3
+    // Muscle use +1 and 2-10 kg intermittent +1 on both sides
+    const score = scoreRulaWorksheet(
+      { upperArm: 3, lowerArm: 2, wrist: 3, wristTwist: 1, neck: 3, trunk: 2, legs: 1 },
+      { muscleUse: true, loadKg: 4, loadPattern: 'intermittent' }
+    );
+    expect(score).toMatchObject({ scoreA: 4, scoreB: 3, muscleUse: 1, forceLoad: 1, scoreC: 6, scoreD: 5, finalScore: 6 });
+    expect(score.riskLevel).toBe('Investigate Further & Change Soon');
+  });
+
+  it("scores a shock load at the force/load maximum", () => {
+    // Upper arm 20-45° (2), lower arm 1, wrist 0-15° (2): Table A 3; neck 2, trunk 3: Table B 4
+    const score = scoreRulaWorksheet(
+      { upperArm: 2, lowerArm: 1, wrist: 2, wristTwist: 1, neck: 2, trunk: 3, legs: 1 },
+      { loadPattern: 'shock' }
+    );
+    expect(score).toMatchObject({ scoreA: 3, scoreB: 4, forceLoad: 3, scoreC: 6, scoreD: 7, finalScore: 7 });
+  });
+
+  it("reads scores C and D past the table through the last row and column", () => {
+    const score = scoreRulaWorksheet(
+      { upperArm: 5, lowerArm: 3, wrist: 4, wristTwist: 2, neck: 4, trunk: 4, legs: 2 },
+      { muscleUse: true, loadKg: 15, loadPattern: 'static' }
+    );
+    expect(score).toMatchObject({ scoreA: 8, scoreB: 7, forceLoad: 3, scoreC: 12, scoreD: 11, finalScore: 7 });
+    expect(score.riskLevel).toBe('Investigate & Change Immediately');
+  });
+});
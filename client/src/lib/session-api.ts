@@ -0,0 +1,135 @@
+// Saving and loading recordings through /api/sessions
+import { apiRequest } from "./queryClient";
+import { getScoreRiskBand, type AssessmentMode } from "./scoring";
+import type { DetectionStatus } from "./pose-scoring";
+import type { FrameAnnotation } from "./frame-annotations";
+import type { TaskSegment } from "./task-segments";
+import type { CreateSession, InsertAssessment, Session, SessionWithFrames } from "@shared/schema";
+
+export interface SessionRecordingFrame {
+  timestamp: number;
+  rebaScore: any;
+  imageData: string;
+  mirrored?: boolean;
+  poseData: any;
+  confidence: number;
+  detectionStatus: DetectionStatus;
+  hasObject?: boolean;
+  annotation?: FrameAnnotation;
+}
+
+export interface SessionManualWeight {
+  id: string;
+  name: string;
+  weight: number; // grams
+  icon: string;
+  previewImage?: string;
+}
+
+export interface LoadedSession {
+  session: Session;
+  assessmentMode: AssessmentMode;
+  frames: SessionRecordingFrame[];
+  manualWeights: SessionManualWeight[];
+  taskSegments: TaskSegment[];
+}
+
+// Workstation and job task a recording is filed under
+export interface SessionTag {
+  workstationId?: number | null;
+  taskId?: number | null;
+}
+
+export const SESSIONS_QUERY_KEY = ['/api/sessions'];
+
+// Per-method result row stored alongside the frames
+function summarizeFrames(frames: SessionRecordingFrame[], assessmentMode: AssessmentMode): InsertAssessment[] {
+  const scores = frames.map(frame => frame.rebaScore).filter(score => score?.finalScore !== undefined);
+  if (scores.length === 0) return [];
+
+  const finalScores = scores.map(score => score.finalScore as number);
+  const averageScore = finalScores.reduce((sum, value) => sum + value, 0) / finalScores.length;
+  const maxScore = Math.max(...finalScores);
+
+  const bandCounts: Record<string, number> = {};
+  scores.forEach(score => {
+    const band = getScoreRiskBand(score, assessmentMode).band;
+    bandCounts[band] = (bandCounts[band] ?? 0) + 1;
+  });
+
+  return [{
+    method: scores[0].method ?? assessmentMode,
+    averageScore: Math.round(averageScore * 100) / 100,
+    maxScore,
+    riskBand: getScoreRiskBand({ method: scores[0].method, finalScore: maxScore }, assessmentMode).band,
+    summary: { scoredFrames: scores.length, bandCounts }
+  }];
+}
+
+export async function saveSession(
+  name: string,
+  assessmentMode: AssessmentMode,
+  frames: SessionRecordingFrame[],
+  manualWeights: SessionManualWeight[] = [],
+  tag: SessionTag = {},
+  taskSegments: TaskSegment[] = []
+): Promise<SessionWithFrames> {
+  const totalManualWeight = manualWeights.reduce((total, weight) => total + weight.weight, 0);
+
+  const body: CreateSession = {
+    name,
+    assessmentMode,
+    duration: frames.length > 0 ? frames[frames.length - 1].timestamp : 0,
+    frameCount: frames.length,
+    manualWeights,
+    taskSegments,
+    workstationId: tag.workstationId ?? null,
+    taskId: tag.taskId ?? null,
+    frames: frames.map((frame, index) => ({
+      frameIndex: index,
+      timestamp: frame.timestamp,
+      imageData: frame.imageData,
+      mirrored: !!frame.mirrored,
+      poseData: frame.poseData,
+      score: frame.rebaScore,
+      manualWeight: totalManualWeight > 0 ? totalManualWeight : null,
+      hasObject: !!frame.hasObject,
+      confidence: frame.confidence,
+      detectionStatus: frame.detectionStatus,
+      annotation: frame.annotation ?? null
+    })),
+    assessments: summarizeFrames(frames, assessmentMode)
+  };
+
+  const res = await apiRequest('POST', '/api/sessions', body);
+  return await res.json();
+}
+
+export async function loadSession(id: number): Promise<LoadedSession> {
+  const res = await apiRequest('GET', `/api/sessions/${id}`);
+  const { frames, assessments, ...session }: SessionWithFrames = await res.json();
+
+  return {
+    session,
+    assessmentMode: session.assessmentMode as AssessmentMode,
+    frames: frames
+      .sort((a, b) => a.frameIndex - b.frameIndex)
+      .map(frame => ({
+        timestamp: frame.timestamp,
+        rebaScore: frame.score,
+        imageData: frame.imageData ?? '',
+        mirrored: frame.mirrored,
+        poseData: frame.poseData,
+        confidence: frame.confidence ?? 0,
+        detectionStatus: frame.detectionStatus as DetectionStatus,
+        hasObject: frame.hasObject,
+        annotation: (frame.annotation as FrameAnnotation | null) ?? undefined
+      })),
+    manualWeights: (session.manualWeights as SessionManualWeight[]) ?? [],
+    taskSegments: (session.taskSegments as TaskSegment[]) ?? []
+  };
+}
+
+export async function deleteSession(id: number): Promise<void> {
+  await apiRequest('DELETE', `/api/sessions/${id}`);
+}
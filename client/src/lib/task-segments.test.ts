@@ -0,0 +1,113 @@
+// Per-task rescoring with each task's load, coupling and activity, and the task summaries
+import { describe, expect, it } from "vitest";
+import { calculateAssessment } from "./scoring";
+import type { Keypoint } from "./scoring/geometry";
+import {
+  buildTaskExportRows,
+  findOverlappingTask,
+  getTaskOptions,
+  scoreTaskFrames,
+  summarizeTasks,
+  type TaskSegment
+} from "./task-segments";
+import type { TimelineFrame } from "./posture-timeline";
+
+// COCO-17 skeleton standing upright and facing the camera, image y increasing downward
+const keypoints: Keypoint[] = [
+  [100, 60], [95, 55], [105, 55], [90, 60], [110, 60],
+  [120, 100], [80, 100], [125, 150], [75, 150], [125, 200], [75, 200],
+  [115, 200], [85, 200], [115, 300], [85, 300], [115, 400], [85, 400]
+].map(([x, y]) => ({ x, y, score: 0.9 }));
+
+const recordedFrame = (timestamp: number, mode: 'REBA' | 'OWAS' = 'REBA'): TimelineFrame => ({
+  timestamp,
+  rebaScore: calculateAssessment(mode, keypoints, { loadKg: 0 }),
+  poseData: { keypoints }
+});
+
+const task = (overrides: Partial<TaskSegment> = {}): TaskSegment => ({
+  id: 'task-1',
+  name: 'Pick',
+  startTime: 0,
+  endTime: 2,
+  color: '#3B82F6',
+  loads: [],
+  coupling: 'good',
+  activity: { staticPosture: false, repeatedActions: false, rapidChanges: false },
+  ...overrides
+});
+
+const box = (weight: number) => ({ id: `load-${weight}`, name: 'Box', weight, icon: 'inventory_2' });
+
+const frames = [0, 1, 2, 3, 4].map(t => recordedFrame(t));
+
+describe("task options", () => {
+  it("turns the task's loads from grams into kg and passes the method's options", () => {
+    const pick = task({ loads: [box(8000), box(4000)], coupling: 'poor', activity: { staticPosture: true, repeatedActions: false, rapidChanges: false } });
+
+    expect(getTaskOptions(pick, 'REBA')).toEqual({ loadKg: 12, coupling: 'poor', activity: pick.activity });
+    expect(getTaskOptions(pick, 'RULA')).toEqual({ loadKg: 12, muscleUse: true });
+    expect(getTaskOptions(pick, 'OWAS')).toEqual({ loadKg: 12 });
+  });
+});
+
+describe("task rescoring", () => {
+  it("rescores only the task's frames with its load", () => {
+    const carry = task({ startTime: 1, endTime: 3, loads: [box(12000)] });
+    const rescored = scoreTaskFrames(frames, carry, 'REBA');
+
+    expect(rescored.map(frame => frame.timestamp)).toEqual([1, 2, 3]);
+    rescored.forEach(frame => {
+      expect(frame.rebaScore.forceLoad).toBe(2);
+      expect(frame.rebaScore.options.loadKg).toBe(12);
+      expect(frame.rebaScore.finalScore).toBeGreaterThan(frames[0].rebaScore.finalScore);
+    });
+    // The recording itself is left as it was
+    expect(frames[1].rebaScore.forceLoad).toBe(0);
+  });
+
+  it("leaves frames without keypoints as they were", () => {
+    const unscored = { timestamp: 1, rebaScore: null };
+    expect(scoreTaskFrames([unscored], task({ loads: [box(12000)] }), 'REBA')).toEqual([unscored]);
+  });
+
+  it("scores the task's load into the OWAS load class", () => {
+    const owasFrames = [0, 1].map(t => recordedFrame(t, 'OWAS'));
+    const [rescored] = scoreTaskFrames(owasFrames, task({ loads: [box(25000)] }), 'OWAS');
+
+    expect(owasFrames[0].rebaScore.load).toBe(1);
+    expect(rescored.rebaScore.load).toBe(3);
+    expect(rescored.rebaScore.code).toMatch(/3$/);
+  });
+});
+
+describe("task summaries", () => {
+  const unloaded = task({ id: 'task-2', name: 'Walk back', startTime: 3, endTime: 4 });
+  const loaded = task({ startTime: 0, endTime: 2, loads: [box(12000)] });
+  const summaries = summarizeTasks(frames, [unloaded, loaded], 'REBA');
+
+  it("orders tasks by start time and scores each with its own load", () => {
+    expect(summaries.map(summary => summary.task.name)).toEqual(['Pick', 'Walk back']);
+    expect(summaries.map(summary => summary.loadKg)).toEqual([12, 0]);
+    expect(summaries.map(summary => summary.frameCount)).toEqual([3, 2]);
+    expect(summaries[0].peakScore).toBeGreaterThan(summaries[1].peakScore);
+    expect(summaries[1].peakScore).toBe(frames[0].rebaScore.finalScore);
+  });
+
+  it("summarises the exposure within each task", () => {
+    expect(summaries[0].exposure?.peakScore).toBe(summaries[0].peakScore);
+    expect(summaries[0].exposure?.scoredSeconds).toBe(3);
+  });
+
+  it("builds one export row per task", () => {
+    const rows = buildTaskExportRows(summaries, 'REBA');
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({ 'Task': 'Pick', 'Load (kg)': 12, 'Scored Frames': 3, 'Activity': 'none' });
+  });
+
+  it("finds a task that overlaps a new range", () => {
+    expect(findOverlappingTask([loaded, unloaded], 2.5, 2.8)).toBeUndefined();
+    expect(findOverlappingTask([loaded, unloaded], 1.5, 2.5)?.name).toBe('Pick');
+    expect(findOverlappingTask([loaded], 1.5, 2.5, loaded.id)).toBeUndefined();
+  });
+});
@@ -0,0 +1,164 @@
+// Sub-tasks within a recording (pick, carry, place...): named time ranges, each with the
+// load, coupling and activity of that task. Frames inside a range are rescored with the
+// task's settings so every task gets its own summary instead of one blended score
+import {
+  RISK_BAND_STYLES,
+  getRiskBand,
+  rescoreWithOptions,
+  type AssessmentMode,
+  type CouplingQuality,
+  type MethodOptions,
+  type RebaActivity,
+  type RiskBand
+} from "./scoring";
+import { summarizeExposure, type ExposureSummary } from "./exposure-summary";
+import { analyzePostureTimeline, type TimelineFrame } from "./posture-timeline";
+
+// Load handled during a task, in grams like the session's manual weights
+export interface TaskLoad {
+  id: string;
+  name: string;
+  weight: number;
+  icon: string;
+}
+
+export interface TaskSegment {
+  id: string;
+  name: string;
+  startTime: number; // seconds since the recording started
+  endTime: number;
+  color: string;
+  loads: TaskLoad[];
+  coupling: CouplingQuality;
+  activity: RebaActivity;
+}
+
+export interface TaskSummary {
+  task: TaskSegment;
+  frameCount: number;
+  scoredFrames: number;
+  loadKg: number;
+  averageScore: number;
+  peakScore: number;
+  riskBand: RiskBand; // band of the peak score
+  riskLevel: string;
+  exposure: ExposureSummary | null;
+}
+
+export const TASK_COLORS = ['#3B82F6', '#F59E0B', '#10B981', '#EC4899', '#8B5CF6', '#06B6D4', '#EF4444', '#84CC16'];
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export function getTaskLoadKg(task: TaskSegment): number {
+  return task.loads.reduce((total, load) => total + load.weight, 0) / 1000;
+}
+
+// Worksheet options a task sets; OWAS only takes the load
+export function getTaskOptions(task: TaskSegment, mode: AssessmentMode): MethodOptions {
+  const loadKg = getTaskLoadKg(task);
+  if (mode === 'REBA') return { loadKg, coupling: task.coupling, activity: task.activity };
+  if (mode === 'RULA') return { loadKg, muscleUse: task.activity.staticPosture || task.activity.repeatedActions };
+  return { loadKg };
+}
+
+export function isInTask(task: TaskSegment, time: number): boolean {
+  return time >= task.startTime && time <= task.endTime;
+}
+
+// Tasks may not share frames, or a frame would count towards two summaries
+export function findOverlappingTask(tasks: TaskSegment[], startTime: number, endTime: number, ignoreId?: string): TaskSegment | undefined {
+  return tasks.find(task => task.id !== ignoreId && startTime <= task.endTime && endTime >= task.startTime);
+}
+
+// A new task over a range, with the activity conditions found inside it as a starting point
+export function createTaskSegment<T extends TimelineFrame>(
+  frames: T[],
+  tasks: TaskSegment[],
+  startTime: number,
+  endTime: number,
+  mode: AssessmentMode
+): TaskSegment {
+  const inRange = frames.filter(frame => frame.timestamp >= startTime && frame.timestamp <= endTime);
+  const coupling = inRange.find(frame => frame.rebaScore?.options?.coupling)?.rebaScore.options.coupling ?? 'good';
+  return {
+    id: `task-${Date.now()}`,
+    name: `Task ${tasks.length + 1}`,
+    startTime: round1(startTime),
+    endTime: round1(endTime),
+    color: TASK_COLORS[tasks.length % TASK_COLORS.length],
+    loads: [],
+    coupling,
+    activity: analyzePostureTimeline(inRange, mode).activity
+  };
+}
+
+// The task's frames, rescored with its load, coupling and activity
+export function scoreTaskFrames<T extends TimelineFrame>(frames: T[], task: TaskSegment, mode: AssessmentMode): T[] {
+  const options = getTaskOptions(task, mode);
+  return frames
+    .filter(frame => isInTask(task, frame.timestamp))
+    .map(frame => frame.rebaScore && frame.poseData?.keypoints
+      ? { ...frame, rebaScore: rescoreWithOptions(frame.rebaScore, frame.poseData.keypoints, options, frame.poseData.keypoints3D) }
+      : frame);
+}
+
+export function summarizeTasks<T extends TimelineFrame>(frames: T[], tasks: TaskSegment[], mode: AssessmentMode): TaskSummary[] {
+  return [...tasks]
+    .sort((a, b) => a.startTime - b.startTime)
+    .map(task => {
+      const taskFrames = scoreTaskFrames(frames, task, mode);
+      const scores: number[] = taskFrames
+        .map(frame => frame.rebaScore?.finalScore)
+        .filter((score): score is number => typeof score === 'number');
+      const peakScore = scores.length > 0 ? Math.max(...scores) : 0;
+      const peakBand = getRiskBand(mode, peakScore);
+      return {
+        task,
+        frameCount: taskFrames.length,
+        scoredFrames: scores.length,
+        loadKg: getTaskLoadKg(task),
+        averageScore: scores.length > 0 ? round1(scores.reduce((sum, score) => sum + score, 0) / scores.length) : 0,
+        peakScore,
+        riskBand: peakBand.band,
+        riskLevel: peakBand.label,
+        exposure: summarizeExposure(taskFrames, mode)
+      };
+    });
+}
+
+const ACTIVITY_LABELS: Record<keyof RebaActivity, string> = {
+  staticPosture: 'static',
+  repeatedActions: 'repeated',
+  rapidChanges: 'rapid changes'
+};
+
+export function describeTaskActivity(task: TaskSegment): string {
+  const found = (Object.keys(ACTIVITY_LABELS) as (keyof RebaActivity)[]).filter(key => task.activity[key]);
+  return found.length > 0 ? found.map(key => ACTIVITY_LABELS[key]).join(', ') : 'none';
+}
+
+// Share of the task's scored time in the two highest risk bands
+export function getHighRiskPercentage(summary: TaskSummary): number {
+  return round1((summary.exposure?.bands ?? [])
+    .filter(row => row.band === 'change-soon' || row.band === 'change-now')
+    .reduce((sum, row) => sum + row.percentage, 0));
+}
+
+// One row per task for the Excel and PDF reports
+export function buildTaskExportRows(summaries: TaskSummary[], mode: AssessmentMode): Record<string, string | number>[] {
+  return summaries.map(summary => ({
+    'Task': summary.task.name,
+    'Start (s)': summary.task.startTime,
+    'End (s)': summary.task.endTime,
+    'Duration (s)': round1(summary.task.endTime - summary.task.startTime),
+    'Load (kg)': summary.loadKg,
+    'Coupling': mode === 'REBA' ? summary.task.coupling : '',
+    'Activity': mode === 'OWAS' ? '' : describeTaskActivity(summary.task),
+    'Scored Frames': summary.scoredFrames,
+    'Average Score': summary.averageScore,
+    'P95 Score': summary.exposure?.percentile95 ?? '',
+    'Peak Score': summary.peakScore,
+    'Risk Level': summary.scoredFrames > 0 ? `${RISK_BAND_STYLES[summary.riskBand].shortLabel} - ${summary.riskLevel}` : '',
+    'High Risk Time (%)': getHighRiskPercentage(summary)
+  }));
+}
@@ -1,4 +1,5 @@
 import { useCallback, useRef } from "react";
+import { getScoreRiskBand } from "@/lib/scoring";
 
 declare global {
   interface Window {
@@ -182,18 +183,10 @@ export function useThreeRenderer() {
       [12, 14], [14, 16] // Right leg
     ];
 
-    // Determine skeleton color based on REBA score
+    // Determine skeleton color based on the assessment risk band
     let skeletonColor = 0x00ff00; // Green (safe)
     if (rebaScore) {
-      if (rebaScore.finalScore <= 2) {
-        skeletonColor = 0x00ff00; // Green
-      } else if (rebaScore.finalScore <= 4) {
-        skeletonColor = 0xffff00; // Yellow
-      } else if (rebaScore.finalScore <= 6) {
-        skeletonColor = 0xff8800; // Orange
-      } else {
-        skeletonColor = 0xff0000; // Red
-      }
+      skeletonColor = parseInt(getScoreRiskBand(rebaScore).color.slice(1), 16);
     }
 
     // Draw connections with improved visibility
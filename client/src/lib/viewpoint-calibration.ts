@@ -0,0 +1,100 @@
+// Camera viewpoint calibration. The view the 2D angles are adjusted for is either estimated
+// from every frame, fixed once (picked by hand or sampled while the worker holds their
+// working position), or switched off to score raw image angles
+import {
+  CAMERA_VIEWPOINT_LABELS,
+  CORRECTABLE_ANGLES,
+  MEASURED_ANGLE_LABELS,
+  estimateViewYaw,
+  getAngleReliability,
+  getViewContext,
+  type AngleReliability,
+  type AssessmentMode,
+  type CameraViewpoint,
+  type Keypoint,
+  type Keypoint3D,
+  type MeasuredAngle,
+  type ViewContext
+} from "./scoring";
+
+export type ViewpointMode = 'auto' | 'fixed' | 'off';
+
+export interface ViewpointCalibration {
+  mode: ViewpointMode;
+  view: ViewContext; // used in fixed mode
+}
+
+export const DEFAULT_VIEWPOINT_CALIBRATION: ViewpointCalibration = {
+  mode: 'auto',
+  view: getViewContext(0)
+};
+
+// Yaw assumed for each view when it is picked by hand
+export const VIEWPOINT_PRESET_YAW: Record<CameraViewpoint, number> = {
+  sagittal: 0,
+  oblique: 45,
+  frontal: 90
+};
+
+// How long the calibrate button samples the worker's pose
+export const CALIBRATION_DURATION_MS = 2000;
+
+// View one frame is scored with. Without a calibration (uploaded videos) or in auto mode it
+// is estimated from the pose, and angles are left as measured when it cannot be
+export function resolveView(
+  calibration: ViewpointCalibration | undefined,
+  keypoints: Keypoint[],
+  world?: Keypoint3D[]
+): ViewContext | undefined {
+  if (calibration?.mode === 'off') return undefined;
+  if (calibration?.mode === 'fixed') return calibration.view;
+
+  const yaw = estimateViewYaw(keypoints, world);
+  return yaw === null ? undefined : getViewContext(yaw);
+}
+
+// Median yaw over the calibration samples, robust to the odd mis-detected frame
+export function calibrateFromSamples(yaws: number[]): ViewContext | null {
+  if (yaws.length === 0) return null;
+  const sorted = [...yaws].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  return getViewContext(median);
+}
+
+// Image-space measurements each method scores from
+const METHOD_ANGLES: Record<AssessmentMode, MeasuredAngle[]> = {
+  REBA: ['trunkFlexion', 'neckFlexion', 'upperArmFlexion', 'elbowFlexion', 'wristFlexion', 'kneeFlexion', 'shoulderAbduction', 'trunkTwist', 'neckTwist'],
+  RULA: ['trunkFlexion', 'neckFlexion', 'upperArmFlexion', 'elbowFlexion', 'wristFlexion', 'shoulderAbduction', 'midlineCrossing'],
+  OWAS: ['trunkFlexion', 'trunkSideBend', 'trunkTwist', 'kneeFlexion']
+};
+
+export interface ViewpointWarning {
+  angle: MeasuredAngle;
+  reliability: Exclude<AngleReliability, 'good'>;
+  message: string;
+}
+
+// Measurements the current method relies on that this camera view cannot be trusted for
+export function getViewpointWarnings(view: ViewContext, mode: AssessmentMode): ViewpointWarning[] {
+  const viewLabel = CAMERA_VIEWPOINT_LABELS[view.viewpoint].toLowerCase();
+
+  return METHOD_ANGLES[mode].flatMap((angle): ViewpointWarning[] => {
+    const reliability = getAngleReliability(view.viewpoint, angle);
+    const label = MEASURED_ANGLE_LABELS[angle];
+
+    if (reliability === 'unreliable') {
+      return [{ angle, reliability, message: `${label} can't be seen from the ${viewLabel} view and is scored as neutral` }];
+    }
+    if (reliability === 'limited') {
+      return [{
+        angle,
+        reliability,
+        message: CORRECTABLE_ANGLES.includes(angle)
+          ? `${label} is foreshortened, corrected for the worker turned ${Math.round(view.yaw)}° from side-on`
+          : `${label} is only partly visible from the ${viewLabel} view`
+      }];
+    }
+    return [];
+  });
+}
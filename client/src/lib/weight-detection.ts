@@ -1,4 +1,6 @@
 // Weight detection and estimation utilities
+import { rescoreWithLoad, type Keypoint3D } from "./scoring";
+
 interface Keypoint {
   x: number;
   y: number;
@@ -42,71 +44,33 @@ export function estimateWeightFromPosture(keypoints: Keypoint[]): WeightEstimati
   };
 }
 
-export function calculateWeightAdjustedReba(originalReba: any, weightEstimation: WeightEstimation, manualWeight?: number): any {
-  if (!originalReba) return originalReba;
-  
-  // Use manual weight (in grams) or estimated weight (in kg)
-  let effectiveWeight = 0;
+// Use manual weight (in grams) or estimated weight (in kg)
+export function getEffectiveLoadKg(weightEstimation: WeightEstimation, manualWeight?: number): number {
   if (manualWeight && manualWeight > 0) {
-    effectiveWeight = manualWeight / 1000; // Convert grams to kg
-  } else if (weightEstimation.estimatedWeight > 0) {
-    effectiveWeight = weightEstimation.estimatedWeight;
-  }
-  
-  // Enhanced weight adjustment system
-  let scoreAdjustment = 0;
-  let stressAdjustment = 0;
-  
-  if (effectiveWeight > 0) {
-    // REBA weight adjustments based on standard guidelines
-    if (effectiveWeight >= 60) {
-      scoreAdjustment = 3; // Very heavy loads
-      stressAdjustment = 2;
-    } else if (effectiveWeight >= 23) {
-      scoreAdjustment = 2; // Heavy loads
-      stressAdjustment = 2;
-    } else if (effectiveWeight >= 10) {
-      scoreAdjustment = 2; // Moderate loads
-      stressAdjustment = 1;
-    } else if (effectiveWeight >= 5) {
-      scoreAdjustment = 1; // Light loads
-      stressAdjustment = 1;
-    } else if (effectiveWeight >= 2) {
-      scoreAdjustment = 1; // Very light loads
-      stressAdjustment = 0;
-    }
+    return manualWeight / 1000; // Convert grams to kg
   }
-  
-  // Apply adjustments to component scores
-  const adjustedUpperArm = Math.min(6, originalReba.upperArm + (scoreAdjustment > 0 ? 1 : 0));
-  const adjustedTrunk = Math.min(6, originalReba.trunk + scoreAdjustment);
-  const adjustedStress = Math.min(7, originalReba.stressLevel + stressAdjustment);
-  
-  // Recalculate final score with adjustments
-  const adjustedScoreA = getScoreA(adjustedUpperArm, originalReba.lowerArm, originalReba.wrist);
-  const adjustedScoreB = getScoreB(originalReba.neck, adjustedTrunk);
-  const adjustedFinalScore = Math.min(15, getFinalScore(adjustedScoreA, adjustedScoreB) + scoreAdjustment);
-  
-  // Determine risk level
-  const getRiskLevel = (score: number): string => {
-    if (score <= 2) return 'Low Risk - Investigate';
-    if (score <= 4) return 'Low Risk - Investigate';
-    if (score <= 7) return 'Medium Risk - Investigate & Change Soon';
-    if (score <= 10) return 'High Risk - Change Now';
-    return 'Critical Risk - Change Immediately';
-  };
-  
+  return weightEstimation.estimatedWeight > 0 ? weightEstimation.estimatedWeight : 0;
+}
+
+// Rescore a frame through the scoring engine with the handled load fed into the
+// method's own load/force step (REBA Score A, RULA Scores C and D)
+export function calculateWeightAdjustedScore(
+  originalScore: any,
+  keypoints: Keypoint[] | undefined,
+  weightEstimation: WeightEstimation,
+  manualWeight?: number,
+  world?: Keypoint3D[]
+): any {
+  if (!originalScore || !keypoints) return originalScore;
+
+  const effectiveWeight = getEffectiveLoadKg(weightEstimation, manualWeight);
+  const adjusted = rescoreWithLoad(originalScore, keypoints, effectiveWeight, world);
+
   return {
-    ...originalReba,
-    upperArm: adjustedUpperArm,
-    trunk: adjustedTrunk,
-    scoreA: adjustedScoreA,
-    scoreB: adjustedScoreB,
-    finalScore: adjustedFinalScore,
-    stressLevel: adjustedStress,
-    riskLevel: getRiskLevel(adjustedFinalScore),
+    ...originalScore,
+    ...adjusted,
     effectiveWeight,
-    scoreAdjustment,
+    scoreAdjustment: adjusted.finalScore - originalScore.finalScore,
     weightApplied: effectiveWeight > 0
   };
 }
@@ -238,68 +202,3 @@ function calculateWeightFromPosture(bodyPosture: PostureAnalysis, keypoints: Key
   
   return baseWeight;
 }
-
-
-
-// REBA scoring tables (copied from original calculator)
-function getScoreA(upperArm: number, lowerArm: number, wrist: number): number {
-  const scoreATable = [
-    [[1,2,2,2,2,3,3,3], [2,2,2,2,3,3,3,3], [2,3,3,3,3,3,4,4]],
-    [[2,2,2,2,3,3,3,3], [2,2,2,2,3,3,3,3], [3,3,3,3,3,4,4,4]],
-    [[2,3,3,3,3,4,4,4], [3,3,3,3,3,4,4,4], [3,4,4,4,4,4,5,5]],
-    [[3,3,3,4,4,4,5,5], [3,3,4,4,4,4,5,5], [4,4,4,4,5,5,5,6]],
-    [[4,4,4,4,4,5,5,5], [4,4,4,4,4,5,5,5], [4,4,4,5,5,5,6,6]],
-    [[6,6,6,6,6,7,7,7], [6,6,6,6,6,7,7,7], [6,6,7,7,7,7,7,8]]
-  ];
-  
-  const upperArmIdx = Math.max(0, Math.min(5, upperArm - 1));
-  const lowerArmIdx = Math.max(0, Math.min(2, lowerArm - 1));
-  const wristIdx = Math.max(0, Math.min(7, wrist - 1));
-  
-  return scoreATable[upperArmIdx][lowerArmIdx][wristIdx];
-}
-
-function getScoreB(neck: number, trunk: number): number {
-  const scoreBTable = [
-    [1,2,3,3,4,5],
-    [2,2,3,4,5,5],
-    [3,3,3,4,5,6],
-    [3,3,4,4,5,6],
-    [4,5,5,5,6,7],
-    [4,5,5,6,6,7]
-  ];
-  
-  const neckIdx = Math.max(0, Math.min(5, neck - 1));
-  const trunkIdx = Math.max(0, Math.min(5, trunk - 1));
-  
-  return scoreBTable[neckIdx][trunkIdx];
-}
-
-function getFinalScore(scoreA: number, scoreB: number): number {
-  const finalScoreTable = [
-    [1,1,1,2,3,3,4],
-    [1,2,2,3,3,3,4],
-    [2,2,2,3,3,3,4],
-    [3,3,3,3,3,4,4],
-    [4,4,4,4,4,4,5],
-    [4,4,4,4,4,4,5],
-    [5,5,5,5,5,5,6],
-    [5,5,5,5,5,6,6]
-  ];
-  
-  const scoreAIdx = Math.max(0, Math.min(7, scoreA - 1));
-  const scoreBIdx = Math.max(0, Math.min(6, scoreB - 1));
-  
-  return finalScoreTable[scoreAIdx][scoreBIdx];
-}
-
-function getRiskLevel(finalScore: number): string {
-  if (finalScore <= 2) return "Acceptable";
-  if (finalScore <= 4) return "Investigate";
-  if (finalScore <= 6) return "Investigate Soon";
-  return "Investigate Immediately";
-}
-
-function getStressLevel(finalScore: number): number {
-  return finalScore;
-}
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { Redirect } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+
+type AuthMode = 'login' | 'register';
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [mode, setMode] = useState<AuthMode>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const mutation = mode === 'login' ? loginMutation : registerMutation;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutation.mutate({ username, password });
+  };
+
+  // apiRequest errors read "<status>: <body>", show the server's message
+  const errorMessage = mutation.error
+    ? (() => {
+        const body = mutation.error.message.replace(/^\d+:\s*/, '');
+        try {
+          return JSON.parse(body).message ?? body;
+        } catch {
+          return body;
+        }
+      })()
+    : null;
+
+  return (
+    <div className="min-h-screen bg-dark-surface text-white flex items-center justify-center px-4">
+      <div className="bg-dark-card rounded-lg shadow-lg p-6 sm:p-8 w-full max-w-md">
+        <div className="flex items-center space-x-3 mb-6">
+          <div className="w-10 h-10 bg-material-blue rounded-lg flex items-center justify-center flex-shrink-0">
+            <span className="material-icon text-white text-xl">accessibility_new</span>
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold">ErgoTrack</h1>
+            <p className="text-text-secondary text-sm">
+              {mode === 'login' ? 'Sign in to your assessments' : 'Create an ergonomist account'}
+            </p>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm text-text-secondary mb-1" htmlFor="username">Username</label>
+            <input
+              id="username"
+              type="text"
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              required
+              className="bg-gray-700 text-white border border-gray-600 rounded px-3 py-2 text-sm w-full"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-text-secondary mb-1" htmlFor="password">Password</label>
+            <input
+              id="password"
+              type="password"
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              className="bg-gray-700 text-white border border-gray-600 rounded px-3 py-2 text-sm w-full"
+            />
+          </div>
+
+          {errorMessage && <p className="text-sm text-red-400">{errorMessage}</p>}
+
+          <button
+            type="submit"
+            disabled={mutation.isPending}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 px-4 py-2 rounded-lg transition-colors"
+          >
+            {mutation.isPending ? 'Please wait...' : mode === 'login' ? 'Sign In' : 'Create Account'}
+          </button>
+        </form>
+
+        <button
+          onClick={() => {
+            setMode(mode === 'login' ? 'register' : 'login');
+            mutation.reset();
+          }}
+          className="w-full text-sm text-blue-400 hover:text-blue-300 mt-4"
+        >
+          {mode === 'login' ? "Don't have an account? Register" : 'Already have an account? Sign in'}
+        </button>
+      </div>
+    </div>
+  );
+}
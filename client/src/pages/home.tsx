@@ -1,21 +1,52 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import CameraView from "@/components/pose-detection/camera-view";
 import ThreeDView from "@/components/pose-detection/three-d-view";
 import RebaAssessment from "@/components/pose-detection/reba-assessment";
+import OwasAssessment from "@/components/pose-detection/owas-assessment";
 import MetricsDashboard from "@/components/pose-detection/metrics-dashboard";
 import RecordingPanel from "@/components/pose-detection/recording-panel";
+import NioshPanel from "@/components/pose-detection/niosh-panel";
+import SessionsPanel from "@/components/pose-detection/sessions-panel";
+import VideoUpload from "@/components/pose-detection/video-upload";
+import WorkstationSelector, { type WorkstationSelection } from "@/components/pose-detection/workstation-selector";
+import KeypointFilterPanel from "@/components/pose-detection/keypoint-filter-panel";
+import TrackedWorkersPanel, { type RecordedWorker } from "@/components/pose-detection/tracked-workers-panel";
+import PoseModelPanel from "@/components/pose-detection/pose-model-panel";
 import { usePoseDetection } from "@/hooks/use-pose-detection";
 import { useCamera, type CameraDevice } from "@/hooks/use-camera";
-import { useRecording } from "@/hooks/use-recording";
+import { useRecording, DEFAULT_RECORDING_SETTINGS, type RecordingSettings } from "@/hooks/use-recording";
+import { useAuth } from "@/hooks/use-auth";
 import { DownloadButton } from "../components/download-button";
+import type { LoadedSession, SessionManualWeight } from "@/lib/session-api";
+import type { TaskSegment } from "@/lib/task-segments";
+import { DEFAULT_KEYPOINT_FILTER_SETTINGS, type KeypointFilterSettings } from "@/lib/keypoint-filter";
+import { DEFAULT_POSE_MODEL_SETTINGS, getPoseModel, type PoseModelSettings } from "@/lib/pose-detection";
+import { DEFAULT_VIEWPOINT_CALIBRATION, type ViewpointCalibration } from "@/lib/viewpoint-calibration";
+import { DEFAULT_SCALE_CALIBRATION, type ScaleCalibration } from "@/lib/scale-calibration";
+import type { PostureTimelineSummary } from "@/lib/posture-timeline";
+import { getAssessmentMethods, type AssessmentMode, type OwasOptions, type RebaOptions, type RulaOptions } from "@/lib/scoring";
 
 export default function Home() {
   const [modelLoaded, setModelLoaded] = useState(false);
   const [sessionDuration, setSessionDuration] = useState(0);
   const [startTime, setStartTime] = useState<number | null>(null);
-  const [assessmentMode, setAssessmentMode] = useState<'RULA' | 'REBA'>('REBA');
+  const [assessmentMode, setAssessmentMode] = useState<AssessmentMode>('REBA');
+  const [rebaOptions, setRebaOptions] = useState<RebaOptions>({ coupling: 'good', activity: {} });
+  const [rulaOptions, setRulaOptions] = useState<RulaOptions>({ muscleUse: false, loadPattern: 'intermittent' });
+  const [owasOptions, setOwasOptions] = useState<OwasOptions>({ moving: false });
+  const [recordingSettings, setRecordingSettings] = useState<RecordingSettings>(DEFAULT_RECORDING_SETTINGS);
+  const [filterSettings, setFilterSettings] = useState<KeypointFilterSettings>(DEFAULT_KEYPOINT_FILTER_SETTINGS);
+  const [selectedTrackId, setSelectedTrackId] = useState<number | null>(null);
+  const [poseModelSettings, setPoseModelSettings] = useState<PoseModelSettings>(DEFAULT_POSE_MODEL_SETTINGS);
+  const [viewpointCalibration, setViewpointCalibration] = useState<ViewpointCalibration>(DEFAULT_VIEWPOINT_CALIBRATION);
+  const [scaleCalibration, setScaleCalibration] = useState<ScaleCalibration>(DEFAULT_SCALE_CALIBRATION);
+  const [isLoadingModel, setIsLoadingModel] = useState(false);
+  const [workstationSelection, setWorkstationSelection] = useState<WorkstationSelection>({});
+  const [loadedManualWeights, setLoadedManualWeights] = useState<SessionManualWeight[] | undefined>(undefined);
+  const [loadedTaskSegments, setLoadedTaskSegments] = useState<TaskSegment[] | undefined>(undefined);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { user, logoutMutation } = useAuth();
 
   const { 
     cameraActive, 
@@ -29,37 +60,90 @@ export default function Home() {
     getAvailableDevices
   } = useCamera();
 
+  const {
+    isRecording,
+    recordingSource,
+    recordingData,
+    recordingProgress,
+    recordingElapsed,
+    startRecording,
+    stopRecording,
+    frameCapture,
+    clearRecording,
+    loadRecording,
+    updateFrame
+  } = useRecording(recordingSettings);
+
   const {
     poseDetector,
     poseData,
     rebaScore,
+    rawScore,
     confidence,
+    detectionMode,
+    trackedWorkers,
     fps,
     isProcessing,
     initializeModel
-  } = usePoseDetection(videoRef, canvasRef, cameraActive, assessmentMode);
+  } = usePoseDetection(videoRef, canvasRef, cameraActive, assessmentMode, rebaOptions, rulaOptions, owasOptions, frameCapture, filterSettings, selectedTrackId, viewpointCalibration);
 
-  const {
-    isRecording,
-    recordingData,
-    recordingProgress,
-    startRecording,
-    stopRecording,
-    updateLastFrame,
-    clearRecording
-  } = useRecording();
+  // Multi-person recordings hold frames for every tracked worker, tagged by track ID
+  const recordedWorkers = useMemo<RecordedWorker[]>(() => {
+    const trackIds = Array.from(new Set(recordingData.map(frame => frame.trackId)))
+      .filter((trackId): trackId is number => trackId !== null && trackId !== undefined)
+      .sort((a, b) => a - b);
 
-  // Update recording with current pose and REBA data
-  useEffect(() => {
-    if (isRecording && poseData && rebaScore) {
-      updateLastFrame(rebaScore, poseData);
+    return trackIds.map(trackId => {
+      const frames = recordingData.filter(frame => frame.trackId === trackId);
+      const scores = frames.filter(frame => frame.rebaScore).map(frame => frame.rebaScore.finalScore as number);
+      return {
+        trackId,
+        frameCount: frames.length,
+        averageScore: scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null
+      };
+    });
+  }, [recordingData]);
+
+  // The recording views show one worker at a time; untagged frames (nobody detected) belong to all
+  const viewedTrackId = selectedTrackId ?? recordedWorkers[0]?.trackId ?? null;
+  const workerRecordingData = useMemo(() => viewedTrackId === null
+    ? recordingData
+    : recordingData.filter(frame => frame.trackId === null || frame.trackId === undefined || frame.trackId === viewedTrackId),
+  [recordingData, viewedTrackId]);
+
+  const handleModelSettingsChange = async (settings: PoseModelSettings) => {
+    const previous = poseModelSettings;
+    setPoseModelSettings(settings);
+    setIsLoadingModel(true);
+    try {
+      await initializeModel(settings);
+      setSelectedTrackId(null);
+    } catch (error) {
+      console.error("Failed to switch pose model:", error);
+      alert("Failed to load the selected pose model. Please try again.");
+      setPoseModelSettings(previous);
+    } finally {
+      setIsLoadingModel(false);
     }
-  }, [isRecording, poseData, rebaScore, updateLastFrame]);
+  };
+
+  // Activity found over a recording sets the worksheet's activity conditions for live scoring
+  const handleApplyActivity = (summary: PostureTimelineSummary) => {
+    setRebaOptions(prev => ({ ...prev, activity: summary.activity }));
+    setRulaOptions(prev => ({ ...prev, muscleUse: summary.muscleUse }));
+  };
+
+  const handleLoadSession = (session: LoadedSession) => {
+    setAssessmentMode(session.assessmentMode);
+    setLoadedManualWeights(session.manualWeights);
+    setLoadedTaskSegments(session.taskSegments);
+    loadRecording(session.frames);
+  };
 
   useEffect(() => {
     const initModel = async () => {
       try {
-        await initializeModel();
+        await initializeModel(DEFAULT_POSE_MODEL_SETTINGS);
         setModelLoaded(true);
         // Load available camera devices
         await getAvailableDevices();
@@ -127,13 +211,6 @@ export default function Home() {
     startRecording(videoRef);
   };
 
-  // Update recording data when pose/REBA data changes
-  useEffect(() => {
-    if (isRecording && poseData && rebaScore) {
-      updateLastFrame(rebaScore, poseData);
-    }
-  }, [isRecording, poseData, rebaScore, updateLastFrame]);
-
   const handleStopCamera = () => {
     stopCamera();
     setStartTime(null);
@@ -147,6 +224,9 @@ export default function Home() {
     return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
+  // The loaded detector can differ from the chosen model: multi-person mode always runs MoveNet Lightning
+  const poseModelLabel = (poseDetector?.model ?? getPoseModel(poseModelSettings.model)).label;
+
   // RULA and REBA modes use the same interface with different labels
 
   return (
@@ -184,6 +264,19 @@ export default function Home() {
                   {modelLoaded ? 'Model Loaded' : 'Loading...'}
                 </span>
               </div>
+              {user && (
+                <div className="flex items-center space-x-2 border-l border-gray-700 pl-3 sm:pl-4">
+                  <span className="material-icon text-text-secondary text-sm sm:text-base">person</span>
+                  <span className="text-xs sm:text-sm">{user.username}</span>
+                  <button
+                    onClick={() => logoutMutation.mutate()}
+                    disabled={logoutMutation.isPending}
+                    className="text-xs sm:text-sm text-blue-400 hover:text-blue-300"
+                  >
+                    Sign out
+                  </button>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -200,11 +293,12 @@ export default function Home() {
               </label>
               <select
                 value={assessmentMode}
-                onChange={(e) => setAssessmentMode(e.target.value as 'RULA' | 'REBA')}
+                onChange={(e) => setAssessmentMode(e.target.value as AssessmentMode)}
                 className="bg-gray-700 text-white border border-gray-600 rounded px-2 sm:px-3 py-2 text-xs sm:text-sm w-full sm:w-auto sm:min-w-[120px] cursor-pointer hover:bg-gray-600 transition-colors"
               >
-                <option value="REBA">REBA (Rapid Entire Body Assessment)</option>
-                <option value="RULA">RULA (Rapid Upper Limb Assessment)</option>
+                {getAssessmentMethods().map(method => (
+                  <option key={method.id} value={method.id}>{method.id} ({method.name})</option>
+                ))}
               </select>
             </div>
             
@@ -278,16 +372,36 @@ export default function Home() {
             cameraActive={cameraActive}
             poseData={poseData}
             assessmentMode={assessmentMode}
+            trackedWorkers={trackedWorkers}
+            selectedTrackId={selectedTrackId}
+            onSelectWorker={setSelectedTrackId}
+            viewpointCalibration={viewpointCalibration}
+            onViewpointCalibrationChange={setViewpointCalibration}
+            scaleCalibration={scaleCalibration}
+            onScaleCalibrationChange={setScaleCalibration}
           />
         </div>
 
         {/* Assessment Panel */}
-        <RebaAssessment 
-          rebaScore={rebaScore} 
-          poseData={poseData} 
-          isProcessing={isProcessing}
-          assessmentMode={assessmentMode}
-        />
+        {assessmentMode === 'OWAS' ? (
+          <OwasAssessment
+            owasScore={rebaScore}
+            isProcessing={isProcessing}
+            owasOptions={owasOptions}
+            onOwasOptionsChange={setOwasOptions}
+          />
+        ) : (
+          <RebaAssessment 
+            rebaScore={rebaScore} 
+            poseData={poseData} 
+            isProcessing={isProcessing}
+            assessmentMode={assessmentMode}
+            rebaOptions={rebaOptions}
+            onRebaOptionsChange={setRebaOptions}
+            rulaOptions={rulaOptions}
+            onRulaOptionsChange={setRulaOptions}
+          />
+        )}
 
         {/* Real-time Metrics Dashboard */}
         <MetricsDashboard 
@@ -297,11 +411,61 @@ export default function Home() {
           poseData={poseData}
         />
 
+        {/* Uploaded footage goes through the same detector and fills the recording */}
+        <VideoUpload
+          poseDetector={poseDetector}
+          assessmentMode={assessmentMode}
+          assessmentOptions={{ reba: rebaOptions, rula: rulaOptions, owas: owasOptions, viewpoint: viewpointCalibration }}
+          filterSettings={filterSettings}
+          disabled={cameraActive || isRecording}
+          onAnalysisComplete={(frames) => loadRecording(frames, 'video')}
+        />
+
+        {/* Detector model and TensorFlow.js backend */}
+        <PoseModelPanel
+          settings={poseModelSettings}
+          onSettingsChange={handleModelSettingsChange}
+          poseDetector={poseDetector}
+          isLoading={isLoadingModel}
+          fps={fps}
+        />
+
+        {/* People tracked in multi-person mode and whom to assess */}
+        <TrackedWorkersPanel
+          detectionMode={detectionMode}
+          onDetectionModeChange={(mode) => handleModelSettingsChange({ ...poseModelSettings, detectionMode: mode })}
+          isSwitchingMode={isLoadingModel}
+          trackedWorkers={trackedWorkers}
+          selectedTrackId={selectedTrackId}
+          onSelectWorker={setSelectedTrackId}
+          recordedWorkers={recordedWorkers}
+        />
+
+        {/* Smoothing applied to keypoints before they are scored */}
+        <KeypointFilterPanel
+          settings={filterSettings}
+          onSettingsChange={setFilterSettings}
+          isLive={cameraActive}
+          rawScore={rawScore}
+          filteredScore={rebaScore}
+          recordingData={workerRecordingData}
+        />
+
+        {/* Workstation the recording is filed under */}
+        <WorkstationSelector
+          selection={workstationSelection}
+          onSelectionChange={setWorkstationSelection}
+        />
+
         {/* Recording Panel */}
         <RecordingPanel
             isRecording={isRecording}
-            recordingData={recordingData}
+            recordingData={workerRecordingData}
             recordingProgress={recordingProgress}
+            recordingElapsed={recordingElapsed}
+            recordingSettings={recordingSettings}
+            onRecordingSettingsChange={setRecordingSettings}
+            detectorFps={fps}
             onStartRecording={() => startRecording(videoRef)}
             onStopRecording={stopRecording}
             onClearRecording={clearRecording}
@@ -309,7 +473,24 @@ export default function Home() {
             currentRebaScore={rebaScore}
             videoRef={videoRef}
             assessmentMode={assessmentMode}
+            recordingSource={recordingSource}
+            loadedManualWeights={loadedManualWeights}
+            loadedTaskSegments={loadedTaskSegments}
+            sessionTag={{ workstationId: workstationSelection.workstationId, taskId: workstationSelection.taskId }}
+            scaleCalibration={scaleCalibration}
+            onApplyActivity={handleApplyActivity}
+            onUpdateFrame={updateFrame}
+            assessorName={user?.username}
           />
+
+        <SessionsPanel onLoadSession={handleLoadSession} />
+
+        <NioshPanel
+          poseData={poseData}
+          recordingData={workerRecordingData}
+          scaleCalibration={scaleCalibration}
+          onScaleCalibrationChange={setScaleCalibration}
+        />
       </main>
 
       {/* Footer */}
@@ -317,10 +498,10 @@ export default function Home() {
         <div className="container mx-auto px-3 sm:px-6 py-4 sm:py-6">
           <div className="flex flex-col sm:flex-row items-center justify-between gap-3 sm:gap-0">
             <div className="text-text-secondary text-xs sm:text-sm text-center sm:text-left">
-              <p>&copy; 2024 ErgoTrack. Real-time {assessmentMode.toLowerCase()} assessment powered by TensorFlow.js and MoveNet.</p>
+              <p>&copy; 2024 ErgoTrack. Real-time {assessmentMode.toLowerCase()} assessment powered by TensorFlow.js and {poseModelLabel}.</p>
             </div>
             <div className="flex flex-wrap items-center justify-center sm:justify-end gap-2 sm:space-x-4">
-              <span className="text-xs text-text-secondary">Model: MoveNet Lightning</span>
+              <span className="text-xs text-text-secondary">Model: {poseModelLabel}</span>
               <span className="text-xs text-text-secondary">Mode: {assessmentMode}</span>
               <span className="text-xs text-text-secondary">Version: 4.0</span>
             </div>
@@ -0,0 +1,43 @@
+CREATE TABLE "assessments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" integer NOT NULL,
+	"method" text NOT NULL,
+	"average_score" real NOT NULL,
+	"max_score" real NOT NULL,
+	"risk_band" text NOT NULL,
+	"summary" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "frames" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" integer NOT NULL,
+	"frame_index" integer NOT NULL,
+	"timestamp" real NOT NULL,
+	"image_data" text,
+	"pose_data" jsonb,
+	"score" jsonb,
+	"manual_weight" real,
+	"has_object" boolean DEFAULT false NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"assessment_mode" text DEFAULT 'REBA' NOT NULL,
+	"duration" real DEFAULT 0 NOT NULL,
+	"frame_count" integer DEFAULT 0 NOT NULL,
+	"manual_weights" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "assessments" ADD CONSTRAINT "assessments_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "frames" ADD CONSTRAINT "frames_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "sessions" ADD COLUMN "user_id" integer;--> statement-breakpoint
+-- Sessions saved before accounts existed go to the first account; with no accounts yet they stay ownerless and no query returns them
+UPDATE "sessions" SET "user_id" = (SELECT min("id") FROM "users") WHERE "user_id" IS NULL;--> statement-breakpoint
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
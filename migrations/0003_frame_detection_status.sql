@@ -0,0 +1,3 @@
+ALTER TABLE "frames" ADD COLUMN "confidence" real;--> statement-breakpoint
+ALTER TABLE "frames" ADD COLUMN "detection_status" text DEFAULT 'detected' NOT NULL;--> statement-breakpoint
+UPDATE "frames" SET "detection_status" = CASE WHEN "pose_data" IS NULL OR "pose_data" = 'null'::jsonb THEN 'no-pose' ELSE 'unscored' END WHERE "score" IS NULL OR "score" = 'null'::jsonb;
@@ -0,0 +1 @@
+ALTER TABLE "frames" ADD COLUMN "annotation" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "sessions" ADD COLUMN "task_segments" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
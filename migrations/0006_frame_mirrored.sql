@@ -0,0 +1 @@
+ALTER TABLE "frames" ADD COLUMN "mirrored" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { Pool as NeonPool, neonConfig } from '@neondatabase/serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-serverless';
+import { migrate as migrateNeon } from 'drizzle-orm/neon-serverless/migrator';
+import { drizzle as drizzleNodePg } from 'drizzle-orm/node-postgres';
+import { migrate as migrateNodePg } from 'drizzle-orm/node-postgres/migrator';
+import { drizzle as drizzlePglite } from 'drizzle-orm/pglite';
+import { migrate as migratePglite } from 'drizzle-orm/pglite/migrator';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import { PGlite } from '@electric-sql/pglite';
+import pg from 'pg';
+import ws from "ws";
+import path from "path";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// DatabaseStorage runs on any of the drivers below, they differ only in how they connect
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export interface DatabaseConnection {
+  db: Database;
+  // node-postgres pool for connect-pg-simple; null for PGlite, which keeps sessions in memory
+  sessionPool: pg.Pool | null;
+  migrate: () => Promise<void>;
+  close: () => Promise<void>;
+}
+
+const migrationsFolder = path.resolve(import.meta.dirname, "..", "migrations");
+
+// Connection strings pick the driver:
+//   pglite://memory or pglite://<directory>  embedded PGlite, for tests and local runs
+//   postgres://…@…neon.tech/…                Neon over websockets
+//   any other postgres:// URL                node-postgres
+export function createDatabase(connectionString: string): DatabaseConnection {
+  if (connectionString.startsWith("pglite://")) {
+    const location = connectionString.slice("pglite://".length);
+    const client = new PGlite(location === "memory" ? undefined : location);
+    const db = drizzlePglite(client, { schema });
+    return {
+      db,
+      sessionPool: null,
+      migrate: () => migratePglite(db, { migrationsFolder }),
+      close: () => client.close(),
+    };
+  }
+
+  if (new URL(connectionString).hostname.endsWith(".neon.tech")) {
+    const pool = new NeonPool({ connectionString });
+    const db = drizzleNeon({ client: pool, schema });
+    // Neon also accepts plain Postgres connections, which is what connect-pg-simple expects
+    const sessionPool = new pg.Pool({ connectionString });
+    return {
+      db,
+      sessionPool,
+      migrate: () => migrateNeon(db, { migrationsFolder }),
+      close: async () => {
+        await Promise.all([pool.end(), sessionPool.end()]);
+      },
+    };
+  }
+
+  const pool = new pg.Pool({ connectionString });
+  const db = drizzleNodePg({ client: pool, schema });
+  return {
+    db,
+    sessionPool: pool,
+    migrate: () => migrateNodePg(db, { migrationsFolder }),
+    close: () => pool.end(),
+  };
+}
+
+// Applies the SQL migrations generated by `npm run db:generate`
+export async function runMigrations(database: DatabaseConnection) {
+  await database.migrate();
+}
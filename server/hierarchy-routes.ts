@@ -0,0 +1,148 @@
+import { Router } from 'express';
+import { fromZodError } from 'zod-validation-error';
+import { HIERARCHY_PARENTS, getHierarchyParentId, hierarchyInsertSchemas, type HierarchyInserts, type HierarchyLevel } from '@shared/schema';
+import { storage } from './storage';
+import { requireAuth } from './auth';
+
+const router = Router();
+
+const LEVELS = Object.keys(HIERARCHY_PARENTS) as HierarchyLevel[];
+
+const LEVEL_NAMES: Record<HierarchyLevel, string> = {
+  organisations: 'Organisation',
+  sites: 'Site',
+  departments: 'Department',
+  workstations: 'Workstation',
+  tasks: 'Task'
+};
+
+// The parent named in a create/update body must belong to the same user
+async function checkParent(level: HierarchyLevel, body: Partial<HierarchyInserts[HierarchyLevel]>, userId: number): Promise<string | null> {
+  const parent = HIERARCHY_PARENTS[level];
+  const parentId = getHierarchyParentId(level, body);
+  if (!parent || parentId === undefined) return null;
+
+  const parentItem = await storage.getHierarchyItem(parent.level, parentId, userId);
+  return parentItem ? null : `${LEVEL_NAMES[parent.level]} not found`;
+}
+
+// Same CRUD routes for every level: /api/organisations, /api/sites, /api/departments, /api/workstations, /api/tasks
+LEVELS.forEach(level => {
+  const schema = hierarchyInsertSchemas[level];
+  const notFound = `${LEVEL_NAMES[level]} not found`;
+  const invalidId = `Invalid ${LEVEL_NAMES[level].toLowerCase()} id`;
+
+  router.use(`/${level}`, requireAuth);
+
+  // ?parentId= narrows the list to one parent, e.g. /api/sites?parentId=3
+  router.get(`/${level}`, async (req, res, next) => {
+    try {
+      const parentId = req.query.parentId !== undefined ? Number(req.query.parentId) : undefined;
+      if (parentId !== undefined && !Number.isInteger(parentId)) {
+        return res.status(400).json({ message: 'Invalid parentId' });
+      }
+      res.json(await storage.getHierarchyItems(level, req.user!.id, parentId));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.get(`/${level}/:id`, async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id)) {
+        return res.status(400).json({ message: invalidId });
+      }
+
+      const item = await storage.getHierarchyItem(level, id, req.user!.id);
+      if (!item) {
+        return res.status(404).json({ message: notFound });
+      }
+      res.json(item);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.post(`/${level}`, async (req, res, next) => {
+    try {
+      const parsed = schema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const parentError = await checkParent(level, parsed.data, req.user!.id);
+      if (parentError) {
+        return res.status(400).json({ message: parentError });
+      }
+
+      res.status(201).json(await storage.createHierarchyItem(level, req.user!.id, parsed.data));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.patch(`/${level}/:id`, async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id)) {
+        return res.status(400).json({ message: invalidId });
+      }
+
+      const parsed = schema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const parentError = await checkParent(level, parsed.data, req.user!.id);
+      if (parentError) {
+        return res.status(400).json({ message: parentError });
+      }
+
+      const item = await storage.updateHierarchyItem(level, id, req.user!.id, parsed.data);
+      if (!item) {
+        return res.status(404).json({ message: notFound });
+      }
+      res.json(item);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  router.delete(`/${level}/:id`, async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isInteger(id)) {
+        return res.status(400).json({ message: invalidId });
+      }
+
+      const deleted = await storage.deleteHierarchyItem(level, id, req.user!.id);
+      if (!deleted) {
+        return res.status(404).json({ message: notFound });
+      }
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+});
+
+// Every session recorded at a workstation, oldest first, with its per-method results
+router.get('/workstations/:id/history', async (req, res, next) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ message: 'Invalid workstation id' });
+    }
+
+    const workstation = await storage.getHierarchyItem('workstations', id, req.user!.id);
+    if (!workstation) {
+      return res.status(404).json({ message: 'Workstation not found' });
+    }
+    res.json(await storage.getWorkstationHistory(workstation.id, req.user!.id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,10 +1,13 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { database } from "./storage";
+import { runMigrations } from "./db";
 
 const app = express();
-app.use(express.json());
-app.use(express.urlencoded({ extended: false }));
+// Saved sessions carry every recorded frame as a JPEG data URL
+app.use(express.json({ limit: "50mb" }));
+app.use(express.urlencoded({ extended: false, limit: "50mb" }));
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -37,6 +40,13 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  if (database) {
+    await runMigrations(database);
+    log("database migrations applied");
+  } else {
+    log("DATABASE_URL not set, using in-memory storage");
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -2,6 +2,9 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import downloadRoutes from "./download-routes";
+import sessionRoutes from "./session-routes";
+import hierarchyRoutes from "./hierarchy-routes";
+import { setupAuth } from "./auth";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // put application routes here
@@ -10,9 +13,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // use storage to perform CRUD operations on the storage interface
   // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
 
+  // Cookie sessions and /api/auth/* routes, must come before anything that needs req.user
+  setupAuth(app);
+
   // Add download routes
   app.use('/api', downloadRoutes);
 
+  // Saved assessment sessions
+  app.use('/api', sessionRoutes);
+
+  // Organisations, sites, departments, workstations and job tasks
+  app.use('/api', hierarchyRoutes);
+
   const httpServer = createServer(app);
 
   return httpServer;
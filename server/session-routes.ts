@@ -0,0 +1,91 @@
+import { Router } from 'express';
+import { fromZodError } from 'zod-validation-error';
+import { createSessionSchema } from '@shared/schema';
+import { storage } from './storage';
+import { requireAuth } from './auth';
+
+const router = Router();
+
+// Every recording belongs to the logged-in user; other users' sessions read as not found
+router.use('/sessions', requireAuth);
+
+// ?workstationId= and ?taskId= narrow the list to one workstation or job task
+router.get('/sessions', async (req, res, next) => {
+  try {
+    const workstationId = req.query.workstationId !== undefined ? Number(req.query.workstationId) : undefined;
+    const taskId = req.query.taskId !== undefined ? Number(req.query.taskId) : undefined;
+    if (workstationId !== undefined && !Number.isInteger(workstationId)) {
+      return res.status(400).json({ message: 'Invalid workstationId' });
+    }
+    if (taskId !== undefined && !Number.isInteger(taskId)) {
+      return res.status(400).json({ message: 'Invalid taskId' });
+    }
+    const sessions = await storage.getSessions(req.user!.id, { workstationId, taskId });
+    res.json(sessions);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/sessions/:id', async (req, res, next) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ message: 'Invalid session id' });
+    }
+
+    const session = await storage.getSession(id, req.user!.id);
+    if (!session) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+    res.json(session);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/sessions', async (req, res, next) => {
+  try {
+    const parsed = createSessionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+
+    // A task implies its workstation; both must belong to the user
+    const data = parsed.data;
+    if (data.taskId != null) {
+      const task = await storage.getHierarchyItem('tasks', data.taskId, req.user!.id);
+      if (!task || (data.workstationId != null && task.workstationId !== data.workstationId)) {
+        return res.status(400).json({ message: 'Task not found for this workstation' });
+      }
+      data.workstationId = task.workstationId;
+    }
+    if (data.workstationId != null && !(await storage.getHierarchyItem('workstations', data.workstationId, req.user!.id))) {
+      return res.status(400).json({ message: 'Workstation not found' });
+    }
+
+    const session = await storage.createSession(req.user!.id, data);
+    res.status(201).json(session);
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/sessions/:id', async (req, res, next) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ message: 'Invalid session id' });
+    }
+
+    const deleted = await storage.deleteSession(id, req.user!.id);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
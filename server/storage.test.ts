@@ -0,0 +1,142 @@
+// DatabaseStorage against an in-memory PGlite database, migrated with the real migrations
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import session from "express-session";
+import { createDatabase, runMigrations, type DatabaseConnection } from "./db";
+import { DatabaseStorage } from "./storage";
+import { sessions, type CreateSession, type User } from "@shared/schema";
+
+let database: DatabaseConnection;
+let storage: DatabaseStorage;
+let alice: User;
+let bob: User;
+
+const sessionBody = (overrides: Partial<CreateSession> = {}): CreateSession => ({
+  name: "Packing line",
+  assessmentMode: "REBA",
+  duration: 1,
+  frameCount: 2,
+  manualWeights: [],
+  taskSegments: [],
+  frames: [
+    { frameIndex: 1, timestamp: 0.5, score: { method: "REBA", finalScore: 6 }, detectionStatus: "detected", hasObject: false },
+    { frameIndex: 0, timestamp: 0, score: { method: "REBA", finalScore: 4 }, detectionStatus: "detected", hasObject: false },
+  ],
+  assessments: [{ method: "REBA", averageScore: 5, maxScore: 6, riskBand: "change-soon" }],
+  ...overrides,
+});
+
+beforeAll(async () => {
+  database = createDatabase("pglite://memory");
+  await runMigrations(database);
+  storage = new DatabaseStorage(database.db, new session.MemoryStore());
+  alice = await storage.createUser({ username: "alice", password: "hash-a" });
+  bob = await storage.createUser({ username: "bob", password: "hash-b" });
+});
+
+afterAll(async () => {
+  await database.close();
+});
+
+describe("users", () => {
+  it("finds users by id and username", async () => {
+    expect(await storage.getUser(alice.id)).toEqual(alice);
+    expect(await storage.getUserByUsername("bob")).toEqual(bob);
+    expect(await storage.getUserByUsername("carol")).toBeUndefined();
+  });
+
+  it("rejects a duplicate username", async () => {
+    await expect(storage.createUser({ username: "alice", password: "other" })).rejects.toThrow();
+  });
+});
+
+describe("recording sessions", () => {
+  it("stores a session with its frames in order and its assessments", async () => {
+    const created = await storage.createSession(alice.id, sessionBody());
+    const loaded = await storage.getSession(created.id, alice.id);
+
+    expect(loaded?.name).toBe("Packing line");
+    expect(loaded?.frames.map((frame) => frame.frameIndex)).toEqual([0, 1]);
+    expect(loaded?.frames[1].score).toEqual({ method: "REBA", finalScore: 6 });
+    expect(loaded?.assessments).toHaveLength(1);
+    expect(loaded?.assessments[0]).toMatchObject({ method: "REBA", maxScore: 6, riskBand: "change-soon" });
+  });
+
+  it("keeps frame annotations, mirroring and task segments", async () => {
+    const annotation = { adjustments: { trunkTwisted: true }, note: "reaching", autoScore: { finalScore: 4 }, audit: [] };
+    const taskSegments = [{ id: "task-1", name: "Pick", startTime: 0, endTime: 0.5 }];
+    const created = await storage.createSession(alice.id, sessionBody({
+      taskSegments,
+      frames: [{ frameIndex: 0, timestamp: 0, annotation, mirrored: true, detectionStatus: "detected", hasObject: false }],
+    }));
+    const loaded = await storage.getSession(created.id, alice.id);
+
+    expect(loaded?.taskSegments).toEqual(taskSegments);
+    expect(loaded?.frames[0].annotation).toEqual(annotation);
+    expect(loaded?.frames[0].mirrored).toBe(true);
+  });
+
+  it("scopes sessions to the user who saved them", async () => {
+    const created = await storage.createSession(alice.id, sessionBody({ name: "Private" }));
+
+    expect(await storage.getSession(created.id, bob.id)).toBeUndefined();
+    expect((await storage.getSessions(bob.id)).map((s) => s.id)).not.toContain(created.id);
+    expect(await storage.deleteSession(created.id, bob.id)).toBe(false);
+  });
+
+  it("never returns a session saved before accounts existed", async () => {
+    const [legacy] = await database.db.insert(sessions).values({ name: "Before accounts" }).returning();
+
+    expect(legacy.userId).toBeNull();
+    expect((await storage.getSessions(alice.id)).map((s) => s.id)).not.toContain(legacy.id);
+    expect(await storage.getSession(legacy.id, alice.id)).toBeUndefined();
+  });
+
+  it("deletes a session with its frames and assessments", async () => {
+    const created = await storage.createSession(alice.id, sessionBody());
+
+    expect(await storage.deleteSession(created.id, alice.id)).toBe(true);
+    expect(await storage.getSession(created.id, alice.id)).toBeUndefined();
+  });
+});
+
+describe("hierarchy", () => {
+  it("builds the hierarchy, filters sessions by workstation and charts history", async () => {
+    const organisation = await storage.createHierarchyItem("organisations", alice.id, { name: "Acme" });
+    const site = await storage.createHierarchyItem("sites", alice.id, { organisationId: organisation.id, name: "Leeds", location: "UK" });
+    const department = await storage.createHierarchyItem("departments", alice.id, { siteId: site.id, name: "Dispatch" });
+    const workstation = await storage.createHierarchyItem("workstations", alice.id, { departmentId: department.id, name: "Bench 1" });
+
+    expect(await storage.getHierarchyItems("sites", alice.id, organisation.id)).toEqual([site]);
+    expect(await storage.getHierarchyItems("sites", bob.id)).toEqual([]);
+
+    const updated = await storage.updateHierarchyItem("workstations", workstation.id, alice.id, { description: "Taping" });
+    expect(updated?.description).toBe("Taping");
+    expect(await storage.updateHierarchyItem("workstations", workstation.id, bob.id, { name: "Taken" })).toBeUndefined();
+
+    const first = await storage.createSession(alice.id, sessionBody({ name: "Before", workstationId: workstation.id }));
+    const second = await storage.createSession(alice.id, sessionBody({ name: "After", workstationId: workstation.id }));
+    await storage.createSession(alice.id, sessionBody({ name: "Elsewhere" }));
+
+    const filtered = await storage.getSessions(alice.id, { workstationId: workstation.id });
+    expect(filtered.map((s) => s.id).sort()).toEqual([first.id, second.id].sort());
+
+    const history = await storage.getWorkstationHistory(workstation.id, alice.id);
+    expect(history.map((s) => s.name)).toEqual(["Before", "After"]);
+    expect(history[0].assessments).toHaveLength(1);
+  });
+
+  it("removes child levels and untags sessions when a level is deleted", async () => {
+    const organisation = await storage.createHierarchyItem("organisations", alice.id, { name: "Closing" });
+    const site = await storage.createHierarchyItem("sites", alice.id, { organisationId: organisation.id, name: "Old site" });
+    const department = await storage.createHierarchyItem("departments", alice.id, { siteId: site.id, name: "Stores" });
+    const workstation = await storage.createHierarchyItem("workstations", alice.id, { departmentId: department.id, name: "Rack" });
+    const tagged = await storage.createSession(alice.id, sessionBody({ workstationId: workstation.id }));
+
+    expect(await storage.deleteHierarchyItem("organisations", organisation.id, bob.id)).toBe(false);
+    expect(await storage.deleteHierarchyItem("organisations", organisation.id, alice.id)).toBe(true);
+
+    expect(await storage.getHierarchyItem("sites", site.id, alice.id)).toBeUndefined();
+    expect(await storage.getHierarchyItem("workstations", workstation.id, alice.id)).toBeUndefined();
+    expect((await storage.getSession(tagged.id, alice.id))?.workstationId).toBeNull();
+  });
+});
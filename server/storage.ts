@@ -1,21 +1,133 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { and, asc, desc, eq, inArray, type SQL } from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+import {
+  users,
+  sessions,
+  frames,
+  assessments,
+  organisations,
+  sites,
+  departments,
+  workstations,
+  jobTasks,
+  HIERARCHY_PARENTS,
+  getHierarchyParentId,
+  type User,
+  type InsertUser,
+  type Session,
+  type Frame,
+  type Assessment,
+  type CreateSession,
+  type SessionWithFrames,
+  type SessionWithAssessments,
+  type HierarchyLevel,
+  type HierarchyEntities,
+  type HierarchyInserts,
+  type HierarchyTables,
+} from "@shared/schema";
+import { createDatabase, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+
+// Nullable columns per hierarchy level, filled in by MemStorage the way Postgres would
+const HIERARCHY_DEFAULTS: { [L in HierarchyLevel]: Partial<HierarchyEntities[L]> } = {
+  organisations: {},
+  sites: { location: null },
+  departments: {},
+  workstations: { description: null },
+  tasks: { description: null },
+};
+
+const PostgresSessionStore = connectPg(session);
+
+const HIERARCHY_TABLES: HierarchyTables = {
+  organisations,
+  sites,
+  departments,
+  workstations,
+  tasks: jobTasks,
+};
+
+type HierarchyTable = HierarchyTables[HierarchyLevel];
+
+// Column of each level holding its parent's id, for the ?parentId= filter
+const HIERARCHY_PARENT_COLUMNS: Record<HierarchyLevel, PgColumn | null> = {
+  organisations: null,
+  sites: sites.organisationId,
+  departments: departments.siteId,
+  workstations: workstations.departmentId,
+  tasks: jobTasks.workstationId,
+};
 
 // modify the interface with any CRUD methods
 // you might need
 
+export interface SessionFilter {
+  workstationId?: number;
+  taskId?: number;
+}
+
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  // Recording sessions are always scoped to the user who saved them
+  getSessions(userId: number, filter?: SessionFilter): Promise<Session[]>;
+  getSession(id: number, userId: number): Promise<SessionWithFrames | undefined>;
+  createSession(userId: number, session: CreateSession): Promise<SessionWithFrames>;
+  deleteSession(id: number, userId: number): Promise<boolean>;
+  // Oldest first, so risk can be charted over time
+  getWorkstationHistory(workstationId: number, userId: number): Promise<SessionWithAssessments[]>;
+
+  // Organisation > site > department > workstation > task, one set of methods for every level.
+  // Deleting a level removes everything beneath it; sessions tagged to it keep their data.
+  getHierarchyItems<L extends HierarchyLevel>(level: L, userId: number, parentId?: number): Promise<HierarchyEntities[L][]>;
+  getHierarchyItem<L extends HierarchyLevel>(level: L, id: number, userId: number): Promise<HierarchyEntities[L] | undefined>;
+  createHierarchyItem<L extends HierarchyLevel>(level: L, userId: number, item: HierarchyInserts[L]): Promise<HierarchyEntities[L]>;
+  updateHierarchyItem<L extends HierarchyLevel>(level: L, id: number, userId: number, changes: Partial<HierarchyInserts[L]>): Promise<HierarchyEntities[L] | undefined>;
+  deleteHierarchyItem(level: HierarchyLevel, id: number, userId: number): Promise<boolean>;
+
+  // Login cookie store for express-session
+  sessionStore: session.Store;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private sessions: Map<number, Session>;
+  private frames: Map<number, Frame[]>;
+  private assessments: Map<number, Assessment[]>;
+  private hierarchy: { [L in HierarchyLevel]: Map<number, HierarchyEntities[L]> };
   currentId: number;
+  currentSessionId: number;
+  currentFrameId: number;
+  currentAssessmentId: number;
+  currentHierarchyId: number;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
+    this.sessions = new Map();
+    this.frames = new Map();
+    this.assessments = new Map();
+    this.hierarchy = {
+      organisations: new Map(),
+      sites: new Map(),
+      departments: new Map(),
+      workstations: new Map(),
+      tasks: new Map(),
+    };
     this.currentId = 1;
+    this.currentSessionId = 1;
+    this.currentFrameId = 1;
+    this.currentAssessmentId = 1;
+    this.currentHierarchyId = 1;
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -34,6 +146,287 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  // Newest first
+  async getSessions(userId: number, filter: SessionFilter = {}): Promise<Session[]> {
+    return Array.from(this.sessions.values()).filter((session) =>
+      session.userId === userId &&
+      (filter.workstationId === undefined || session.workstationId === filter.workstationId) &&
+      (filter.taskId === undefined || session.taskId === filter.taskId),
+    ).sort(
+      (a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id,
+    );
+  }
+
+  async getSession(id: number, userId: number): Promise<SessionWithFrames | undefined> {
+    const session = this.sessions.get(id);
+    if (!session || session.userId !== userId) return undefined;
+    return {
+      ...session,
+      frames: this.frames.get(id) ?? [],
+      assessments: this.assessments.get(id) ?? [],
+    };
+  }
+
+  async createSession(userId: number, data: CreateSession): Promise<SessionWithFrames> {
+    const { frames: insertFrames, assessments: insertAssessments, ...insertSession } = data;
+    const id = this.currentSessionId++;
+    const createdAt = new Date();
+
+    const session: Session = {
+      id,
+      userId,
+      name: insertSession.name,
+      assessmentMode: insertSession.assessmentMode ?? "REBA",
+      duration: insertSession.duration ?? 0,
+      frameCount: insertSession.frameCount ?? insertFrames.length,
+      manualWeights: insertSession.manualWeights ?? [],
+      taskSegments: insertSession.taskSegments ?? [],
+      notes: insertSession.notes ?? null,
+      workstationId: insertSession.workstationId ?? null,
+      taskId: insertSession.taskId ?? null,
+      createdAt,
+    };
+
+    const sessionFrames: Frame[] = insertFrames.map((frame) => ({
+      id: this.currentFrameId++,
+      sessionId: id,
+      frameIndex: frame.frameIndex,
+      timestamp: frame.timestamp,
+      imageData: frame.imageData ?? null,
+      mirrored: frame.mirrored ?? false,
+      poseData: frame.poseData ?? null,
+      score: frame.score ?? null,
+      manualWeight: frame.manualWeight ?? null,
+      hasObject: frame.hasObject ?? false,
+      confidence: frame.confidence ?? null,
+      detectionStatus: frame.detectionStatus ?? "detected",
+      annotation: frame.annotation ?? null,
+    }));
+
+    const sessionAssessments: Assessment[] = insertAssessments.map((assessment) => ({
+      id: this.currentAssessmentId++,
+      sessionId: id,
+      method: assessment.method,
+      averageScore: assessment.averageScore,
+      maxScore: assessment.maxScore,
+      riskBand: assessment.riskBand,
+      summary: assessment.summary ?? null,
+      createdAt,
+    }));
+
+    this.sessions.set(id, session);
+    this.frames.set(id, sessionFrames);
+    this.assessments.set(id, sessionAssessments);
+
+    return { ...session, frames: sessionFrames, assessments: sessionAssessments };
+  }
+
+  async deleteSession(id: number, userId: number): Promise<boolean> {
+    if (this.sessions.get(id)?.userId !== userId) return false;
+    this.frames.delete(id);
+    this.assessments.delete(id);
+    return this.sessions.delete(id);
+  }
+
+  async getWorkstationHistory(workstationId: number, userId: number): Promise<SessionWithAssessments[]> {
+    const history = await this.getSessions(userId, { workstationId });
+    return history.reverse().map((session) => ({
+      ...session,
+      assessments: this.assessments.get(session.id) ?? [],
+    }));
+  }
+
+  async getHierarchyItems<L extends HierarchyLevel>(level: L, userId: number, parentId?: number): Promise<HierarchyEntities[L][]> {
+    const parent = HIERARCHY_PARENTS[level];
+    return Array.from(this.hierarchy[level].values()).filter((item) =>
+      item.userId === userId && (parentId === undefined || !parent || getHierarchyParentId(level, item) === parentId),
+    );
+  }
+
+  async getHierarchyItem<L extends HierarchyLevel>(level: L, id: number, userId: number): Promise<HierarchyEntities[L] | undefined> {
+    const item = this.hierarchy[level].get(id);
+    return item?.userId === userId ? item : undefined;
+  }
+
+  async createHierarchyItem<L extends HierarchyLevel>(level: L, userId: number, insertItem: HierarchyInserts[L]): Promise<HierarchyEntities[L]> {
+    const id = this.currentHierarchyId++;
+    const created = { ...HIERARCHY_DEFAULTS[level], ...insertItem, id, userId, createdAt: new Date() } as HierarchyEntities[L];
+    this.hierarchy[level].set(id, created);
+    return created;
+  }
+
+  async updateHierarchyItem<L extends HierarchyLevel>(level: L, id: number, userId: number, changes: Partial<HierarchyInserts[L]>): Promise<HierarchyEntities[L] | undefined> {
+    const item = await this.getHierarchyItem(level, id, userId);
+    if (!item) return undefined;
+    const updated = { ...item, ...changes, id, userId };
+    this.hierarchy[level].set(id, updated);
+    return updated;
+  }
+
+  async deleteHierarchyItem(level: HierarchyLevel, id: number, userId: number): Promise<boolean> {
+    if (!(await this.getHierarchyItem(level, id, userId))) return false;
+    this.hierarchy[level].delete(id);
+
+    // Cascade to the levels below, matching the foreign keys in the database
+    const childLevel = (Object.keys(HIERARCHY_PARENTS) as HierarchyLevel[]).find(
+      (candidate) => HIERARCHY_PARENTS[candidate]?.level === level,
+    );
+    if (childLevel) {
+      const children = Array.from(this.hierarchy[childLevel].values()).filter((child) => getHierarchyParentId(childLevel, child) === id);
+      for (const child of children) {
+        await this.deleteHierarchyItem(childLevel, child.id, userId);
+      }
+    }
+
+    // Tagged sessions stay, only the link is cleared
+    this.sessions.forEach((session, sessionId) => {
+      if (level === "workstations" && session.workstationId === id) {
+        this.sessions.set(sessionId, { ...session, workstationId: null });
+      }
+      if (level === "tasks" && session.taskId === id) {
+        this.sessions.set(sessionId, { ...session, taskId: null });
+      }
+    });
+    return true;
+  }
 }
 
-export const storage = new MemStorage();
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database, public sessionStore: session.Store) {}
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Newest first
+  async getSessions(userId: number, filter: SessionFilter = {}): Promise<Session[]> {
+    const conditions: SQL[] = [eq(sessions.userId, userId)];
+    if (filter.workstationId !== undefined) conditions.push(eq(sessions.workstationId, filter.workstationId));
+    if (filter.taskId !== undefined) conditions.push(eq(sessions.taskId, filter.taskId));
+
+    return this.db.select().from(sessions).where(and(...conditions)).orderBy(desc(sessions.createdAt), desc(sessions.id));
+  }
+
+  async getSession(id: number, userId: number): Promise<SessionWithFrames | undefined> {
+    const [session] = await this.db.select().from(sessions)
+      .where(and(eq(sessions.id, id), eq(sessions.userId, userId)));
+    if (!session) return undefined;
+
+    const sessionFrames = await this.db.select().from(frames)
+      .where(eq(frames.sessionId, id))
+      .orderBy(frames.frameIndex);
+    const sessionAssessments = await this.db.select().from(assessments)
+      .where(eq(assessments.sessionId, id));
+
+    return { ...session, frames: sessionFrames, assessments: sessionAssessments };
+  }
+
+  async createSession(userId: number, data: CreateSession): Promise<SessionWithFrames> {
+    const { frames: insertFrames, assessments: insertAssessments, ...insertSession } = data;
+
+    return this.db.transaction(async (tx) => {
+      const [session] = await tx.insert(sessions).values({
+        ...insertSession,
+        userId,
+        frameCount: insertSession.frameCount ?? insertFrames.length,
+      }).returning();
+
+      const sessionFrames = insertFrames.length > 0
+        ? await tx.insert(frames).values(insertFrames.map((frame) => ({ ...frame, sessionId: session.id }))).returning()
+        : [];
+      const sessionAssessments = insertAssessments.length > 0
+        ? await tx.insert(assessments).values(insertAssessments.map((assessment) => ({ ...assessment, sessionId: session.id }))).returning()
+        : [];
+
+      return { ...session, frames: sessionFrames, assessments: sessionAssessments };
+    });
+  }
+
+  // Frames and assessments are removed by the ON DELETE CASCADE foreign keys
+  async deleteSession(id: number, userId: number): Promise<boolean> {
+    const deleted = await this.db.delete(sessions)
+      .where(and(eq(sessions.id, id), eq(sessions.userId, userId))).returning({ id: sessions.id });
+    return deleted.length > 0;
+  }
+
+  async getWorkstationHistory(workstationId: number, userId: number): Promise<SessionWithAssessments[]> {
+    const history = await this.db.select().from(sessions)
+      .where(and(eq(sessions.userId, userId), eq(sessions.workstationId, workstationId)))
+      .orderBy(asc(sessions.createdAt), asc(sessions.id));
+    if (history.length === 0) return [];
+
+    const results = await this.db.select().from(assessments)
+      .where(inArray(assessments.sessionId, history.map((session) => session.id)));
+
+    return history.map((session) => ({
+      ...session,
+      assessments: results.filter((assessment) => assessment.sessionId === session.id),
+    }));
+  }
+
+  // Queries run on the union of the hierarchy tables; rows come from HIERARCHY_TABLES[level], so they are level L rows
+  async getHierarchyItems<L extends HierarchyLevel>(level: L, userId: number, parentId?: number): Promise<HierarchyEntities[L][]> {
+    const table: HierarchyTable = HIERARCHY_TABLES[level];
+    const parentColumn = HIERARCHY_PARENT_COLUMNS[level];
+    const conditions: SQL[] = [eq(table.userId, userId)];
+    if (parentColumn && parentId !== undefined) conditions.push(eq(parentColumn, parentId));
+
+    const items = await this.db.select().from(table).where(and(...conditions)).orderBy(asc(table.name));
+    return items as HierarchyEntities[L][];
+  }
+
+  async getHierarchyItem<L extends HierarchyLevel>(level: L, id: number, userId: number): Promise<HierarchyEntities[L] | undefined> {
+    const table: HierarchyTable = HIERARCHY_TABLES[level];
+    const [item] = await this.db.select().from(table).where(and(eq(table.id, id), eq(table.userId, userId)));
+    return item as HierarchyEntities[L] | undefined;
+  }
+
+  async createHierarchyItem<L extends HierarchyLevel>(level: L, userId: number, insertItem: HierarchyInserts[L]): Promise<HierarchyEntities[L]> {
+    const table: HierarchyTable = HIERARCHY_TABLES[level];
+    const [item] = await this.db.insert(table).values({ ...insertItem, userId }).returning();
+    return item as HierarchyEntities[L];
+  }
+
+  async updateHierarchyItem<L extends HierarchyLevel>(level: L, id: number, userId: number, changes: Partial<HierarchyInserts[L]>): Promise<HierarchyEntities[L] | undefined> {
+    const table: HierarchyTable = HIERARCHY_TABLES[level];
+    const [item] = await this.db.update(table).set(changes)
+      .where(and(eq(table.id, id), eq(table.userId, userId)))
+      .returning();
+    return item as HierarchyEntities[L] | undefined;
+  }
+
+  // Child levels go with the ON DELETE CASCADE keys, tagged sessions are SET NULL
+  async deleteHierarchyItem(level: HierarchyLevel, id: number, userId: number): Promise<boolean> {
+    const table = HIERARCHY_TABLES[level];
+    const deleted = await this.db.delete(table)
+      .where(and(eq(table.id, id), eq(table.userId, userId)))
+      .returning({ id: table.id });
+    return deleted.length > 0;
+  }
+}
+
+// STORAGE=memory forces the in-memory store, otherwise Postgres is used whenever DATABASE_URL is set
+export const database = process.env.STORAGE !== "memory" && process.env.DATABASE_URL
+  ? createDatabase(process.env.DATABASE_URL)
+  : null;
+
+export const storage: IStorage = database
+  ? new DatabaseStorage(
+      database.db,
+      database.sessionPool
+        ? new PostgresSessionStore({ pool: database.sessionPool, createTableIfMissing: true })
+        : new MemoryStore({ checkPeriod: 86400000 })
+    )
+  : new MemStorage();
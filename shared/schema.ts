@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, real, jsonb, timestamp } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -13,5 +13,228 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+// Registration and login body
+export const authCredentialsSchema = insertUserSchema.extend({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// User as sent to the client, never includes the password hash
+export type PublicUser = Omit<User, "password">;
+
+// Where an assessment was done: organisation > site > department > workstation > job task.
+// Every level carries its owner so lookups can be scoped to one user without joins.
+export const organisations = pgTable("organisations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const sites = pgTable("sites", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  organisationId: integer("organisation_id").notNull().references(() => organisations.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  location: text("location"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const departments = pgTable("departments", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  siteId: integer("site_id").notNull().references(() => sites.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const workstations = pgTable("workstations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  departmentId: integer("department_id").notNull().references(() => departments.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const jobTasks = pgTable("job_tasks", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  workstationId: integer("workstation_id").notNull().references(() => workstations.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// A saved recording: one row per session, its frames and per-method results hang off it
+export const sessions = pgTable("sessions", {
+  id: serial("id").primaryKey(),
+  // Nullable only for sessions saved before accounts existed on a database with no users yet;
+  // every query is scoped to an owner, so those rows are never returned
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  assessmentMode: text("assessment_mode").notNull().default("REBA"),
+  duration: real("duration").notNull().default(0), // seconds
+  frameCount: integer("frame_count").notNull().default(0),
+  manualWeights: jsonb("manual_weights").notNull().default([]), // ManualWeight[] (grams)
+  taskSegments: jsonb("task_segments").notNull().default([]), // TaskSegment[]: named time ranges with their own load, coupling and activity
+  notes: text("notes"),
+  workstationId: integer("workstation_id").references(() => workstations.id, { onDelete: "set null" }),
+  taskId: integer("task_id").references(() => jobTasks.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const frames = pgTable("frames", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull().references(() => sessions.id, { onDelete: "cascade" }),
+  frameIndex: integer("frame_index").notNull(),
+  timestamp: real("timestamp").notNull(), // seconds from recording start
+  imageData: text("image_data"),
+  mirrored: boolean("mirrored").notNull().default(false), // image flipped to match the live camera view, keypoints unflipped
+  poseData: jsonb("pose_data"), // { keypoints, score }
+  score: jsonb("score"), // AssessmentScore from the scoring engine
+  manualWeight: real("manual_weight"), // grams applied to this frame, null when none
+  hasObject: boolean("has_object").notNull().default(false),
+  confidence: real("confidence"), // mean keypoint confidence 0-100, null on frames saved before it was recorded
+  detectionStatus: text("detection_status").notNull().default("detected"), // detected | unscored | no-pose | failed
+  annotation: jsonb("annotation"), // assessor adjustments, note and audit trail, null when the frame was not reviewed
+});
+
+export const assessments = pgTable("assessments", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull().references(() => sessions.id, { onDelete: "cascade" }),
+  method: text("method").notNull(),
+  averageScore: real("average_score").notNull(),
+  maxScore: real("max_score").notNull(),
+  riskBand: text("risk_band").notNull(),
+  summary: jsonb("summary"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertOrganisationSchema = createInsertSchema(organisations).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export const insertSiteSchema = createInsertSchema(sites).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export const insertDepartmentSchema = createInsertSchema(departments).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export const insertWorkstationSchema = createInsertSchema(workstations).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export const insertJobTaskSchema = createInsertSchema(jobTasks).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export const insertSessionSchema = createInsertSchema(sessions).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+});
+
+export const insertFrameSchema = createInsertSchema(frames).omit({
+  id: true,
+  sessionId: true,
+});
+
+export const insertAssessmentSchema = createInsertSchema(assessments).omit({
+  id: true,
+  sessionId: true,
+  createdAt: true,
+});
+
+// Body of POST /api/sessions: the session with all of its frames and results
+export const createSessionSchema = insertSessionSchema.extend({
+  frames: z.array(insertFrameSchema),
+  assessments: z.array(insertAssessmentSchema).default([]),
+});
+
+export type InsertOrganisation = z.infer<typeof insertOrganisationSchema>;
+export type Organisation = typeof organisations.$inferSelect;
+export type InsertSite = z.infer<typeof insertSiteSchema>;
+export type Site = typeof sites.$inferSelect;
+export type InsertDepartment = z.infer<typeof insertDepartmentSchema>;
+export type Department = typeof departments.$inferSelect;
+export type InsertWorkstation = z.infer<typeof insertWorkstationSchema>;
+export type Workstation = typeof workstations.$inferSelect;
+export type InsertJobTask = z.infer<typeof insertJobTaskSchema>;
+export type JobTask = typeof jobTasks.$inferSelect;
+
+// Route segment for each hierarchy level and the column linking it to its parent
+export type HierarchyLevel = "organisations" | "sites" | "departments" | "workstations" | "tasks";
+
+export interface HierarchyTables {
+  organisations: typeof organisations;
+  sites: typeof sites;
+  departments: typeof departments;
+  workstations: typeof workstations;
+  tasks: typeof jobTasks;
+}
+
+export interface HierarchyEntities {
+  organisations: Organisation;
+  sites: Site;
+  departments: Department;
+  workstations: Workstation;
+  tasks: JobTask;
+}
+
+export interface HierarchyInserts {
+  organisations: InsertOrganisation;
+  sites: InsertSite;
+  departments: InsertDepartment;
+  workstations: InsertWorkstation;
+  tasks: InsertJobTask;
+}
+
+export type HierarchyParentKey = "organisationId" | "siteId" | "departmentId" | "workstationId";
+
+export const HIERARCHY_PARENTS: Record<HierarchyLevel, { level: HierarchyLevel; key: HierarchyParentKey } | null> = {
+  organisations: null,
+  sites: { level: "organisations", key: "organisationId" },
+  departments: { level: "sites", key: "siteId" },
+  workstations: { level: "departments", key: "departmentId" },
+  tasks: { level: "workstations", key: "workstationId" },
+};
+
+// Id in a row's (or request body's) parent column, undefined for organisations or when absent
+export function getHierarchyParentId(level: HierarchyLevel, item: Partial<HierarchyEntities[HierarchyLevel]>): number | undefined {
+  const parent = HIERARCHY_PARENTS[level];
+  return parent ? (item as Partial<Record<HierarchyParentKey, number>>)[parent.key] : undefined;
+}
+
+export const hierarchyInsertSchemas = {
+  organisations: insertOrganisationSchema,
+  sites: insertSiteSchema,
+  departments: insertDepartmentSchema,
+  workstations: insertWorkstationSchema,
+  tasks: insertJobTaskSchema,
+};
+
+export type InsertSession = z.infer<typeof insertSessionSchema>;
+export type Session = typeof sessions.$inferSelect;
+export type InsertFrame = z.infer<typeof insertFrameSchema>;
+export type Frame = typeof frames.$inferSelect;
+export type InsertAssessment = z.infer<typeof insertAssessmentSchema>;
+export type Assessment = typeof assessments.$inferSelect;
+export type CreateSession = z.infer<typeof createSessionSchema>;
+export type SessionWithFrames = Session & { frames: Frame[]; assessments: Assessment[] };
+// A workstation's sessions over time with their per-method results, for trend views
+export type SessionWithAssessments = Session & { assessments: Assessment[] };